@@ -34,6 +34,7 @@ export interface ApiRoom {
   plan_id: string;
   polygon_coords: [number, number][];
   tags: string[];
+  properties?: Record<string, any>;
 }
 
 export interface ApiFixture {
@@ -44,6 +45,13 @@ export interface ApiFixture {
   properties: Record<string, any>;
 }
 
+export interface ApiAnnotation {
+  id: string;
+  plan_id: string;
+  annotation_type: string;
+  properties: Record<string, any>;
+}
+
 export interface FloorPlanDetail {
   id: string;
   user_id: string;
@@ -56,6 +64,9 @@ export interface FloorPlanDetail {
   edges: ApiEdge[];
   rooms: ApiRoom[];
   fixtures: ApiFixture[];
+  annotations?: ApiAnnotation[];
+  /** Editor state saved with the plan (layer panel, …) */
+  settings?: Record<string, any> | null;
 }
 
 export interface FloorPlanSummary {
@@ -168,6 +179,49 @@ export async function updateFloorPlan(
   return response.json();
 }
 
+/**
+ * Merge editor settings (layer panel, …) into those saved with the plan
+ */
+export async function updateFloorPlanSettings(
+  planId: string,
+  settings: Record<string, any>
+): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/settings`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to save plan settings' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Upload an image to keep with a floor plan (e.g. an underlay) and return its URL
+ */
+export async function uploadPlanImage(
+  planId: string,
+  file: File
+): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/images`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to upload image' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  const { url } = await response.json();
+  return new URL(url, API_BASE_URL).href;
+}
+
 /**
  * Delete floor plan
  */
@@ -253,6 +307,7 @@ export interface NewEdgeData {
   edge_type: string;
   thickness?: number;
   is_inner?: boolean;
+  properties?: Record<string, any>;
 }
 
 /**
@@ -305,10 +360,12 @@ export interface EdgePropertyUpdate {
   id: string;
   thickness?: number;
   shift?: number;
+  /** Replaces the edge's properties object as a whole */
+  properties?: Record<string, any>;
 }
 
 /**
- * Update edge properties (thickness, shift) for one or more edges
+ * Update edge properties (thickness, shift, properties) for one or more edges
  */
 export async function updateEdges(
   planId: string,
@@ -328,6 +385,37 @@ export async function updateEdges(
   return response.json();
 }
 
+/**
+ * Properties patch for one edge or fixture: keys to set and keys to remove.
+ * Unlike EdgePropertyUpdate.properties, other keys are left as they are.
+ */
+export interface PropertiesPatch {
+  id: string;
+  set?: Record<string, any>;
+  unset?: string[];
+}
+
+/**
+ * Patch the properties of several edges and fixtures at once
+ */
+export async function patchProperties(
+  planId: string,
+  patch: { edges?: PropertiesPatch[]; fixtures?: PropertiesPatch[] }
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/properties`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to update properties' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Merge multiple adjacent edges into a single edge
  */
@@ -349,6 +437,235 @@ export async function mergeEdges(
   return response.json();
 }
 
+/**
+ * New room data for createRoom
+ */
+export interface NewRoomData {
+  polygon_coords: [number, number][];
+  tags?: string[];
+  properties?: Record<string, any>;
+}
+
+/**
+ * Room update payload — omitted fields are left unchanged
+ */
+export interface RoomUpdate {
+  polygon_coords?: [number, number][];
+  tags?: string[];
+  properties?: Record<string, any>;
+}
+
+/**
+ * Create a room polygon in a floor plan
+ */
+export async function createRoom(
+  planId: string,
+  room: NewRoomData
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/rooms`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(room),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to create room' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Update a room's polygon and/or tags
+ */
+export async function updateRoom(
+  planId: string,
+  roomId: string,
+  update: RoomUpdate
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/rooms/${roomId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to update room' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a room from a floor plan
+ */
+export async function deleteRoom(
+  planId: string,
+  roomId: string
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/rooms/${roomId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to delete room' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * New fixture data for createFixture
+ */
+export interface NewFixtureData {
+  fixture_type: string;
+  polygon_coords: [number, number][];
+  properties?: Record<string, any>;
+}
+
+/**
+ * Fixture update payload — omitted fields are left unchanged
+ */
+export interface FixtureUpdate {
+  polygon_coords?: [number, number][];
+  properties?: Record<string, any>;
+}
+
+/**
+ * Create a fixture (furniture, sanitary ware, …) in a floor plan
+ */
+export async function createFixture(
+  planId: string,
+  fixture: NewFixtureData
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/fixtures`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(fixture),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to create fixture' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Update a fixture's polygon and/or properties
+ */
+export async function updateFixture(
+  planId: string,
+  fixtureId: string,
+  update: FixtureUpdate
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/fixtures/${fixtureId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to update fixture' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a fixture from a floor plan
+ */
+export async function deleteFixture(
+  planId: string,
+  fixtureId: string
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/fixtures/${fixtureId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to delete fixture' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * New annotation data for createAnnotation
+ */
+export interface NewAnnotationData {
+  annotation_type: string;
+  properties: Record<string, any>;
+}
+
+/**
+ * Create an annotation (dimension line, …) in a floor plan
+ */
+export async function createAnnotation(
+  planId: string,
+  annotation: NewAnnotationData
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/annotations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(annotation),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to create annotation' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Replace an annotation's properties
+ */
+export async function updateAnnotation(
+  planId: string,
+  annotationId: string,
+  properties: Record<string, any>
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/annotations/${annotationId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ properties }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to update annotation' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete an annotation from a floor plan
+ */
+export async function deleteAnnotation(
+  planId: string,
+  annotationId: string
+): Promise<FloorPlanDetail> {
+  const response = await fetch(`${API_BASE_URL}/floor-plans/${planId}/annotations/${annotationId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ detail: 'Failed to delete annotation' }));
+    throw new Error(error.detail || `HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Create a new user
  */
@@ -383,6 +700,10 @@ export async function createUser(
 export interface RedesignRequest {
   desires?: string;
   locked_room_ids?: string[];
+  /** Structural walls, kept where they are */
+  locked_edge_ids?: string[];
+  /** Columns, kept where they are */
+  locked_fixture_ids?: string[];
 }
 
 export interface RedesignResponse {
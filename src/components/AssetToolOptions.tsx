@@ -1,5 +1,8 @@
 import React from 'react';
 import type { AssetToolOptionsProps, AssetType } from '../types';
+import { DOOR_LEAVES, DOOR_SWING_ANGLES, flipDoorHinge, flipDoorSwing } from '../utils/doors';
+import { WINDOW_TYPES, defaultSillHeight } from '../utils/windows';
+import { OPENING_KINDS } from '../utils/openings';
 import './AssetToolOptions.css';
 
 const DOOR_PRESETS_M: { label: string; m: number }[] = [
@@ -16,6 +19,12 @@ const WINDOW_PRESETS_M: { label: string; m: number }[] = [
   { label: '1.50 m', m: 1.50 },
 ];
 
+const presetsFor = (type: AssetType): { label: string; m: number }[] => {
+  if (type === 'door') return DOOR_PRESETS_M;
+  if (type === 'window') return WINDOW_PRESETS_M;
+  return (OPENING_KINDS.find(k => k.id === type)?.presets ?? []).map(m => ({ label: `${m.toFixed(2)} m`, m }));
+};
+
 const formatWidth = (m: number, calibrated: boolean): string =>
   calibrated ? `${m.toFixed(2)} m` : `${Math.round(m)} px`;
 
@@ -25,17 +34,22 @@ export const AssetToolOptions: React.FC<AssetToolOptionsProps> = ({
   onAssetTypeChange,
   onWidthChange,
   isCalibrated,
+  door,
+  onDoorChange,
+  windowSettings,
+  onWindowSettingsChange,
+  openingSettings,
+  onOpeningSettingsChange,
 }) => {
   const calibrated = isCalibrated;
-  const presets = assetType === 'door' ? DOOR_PRESETS_M : WINDOW_PRESETS_M;
+  const presets = presetsFor(assetType);
   const matchedPreset = calibrated
     ? presets.find((p) => Math.abs(p.m - widthM) < 0.001)
     : null;
 
   const handleTypeChange = (type: AssetType) => {
     onAssetTypeChange(type);
-    const newPresets = type === 'door' ? DOOR_PRESETS_M : WINDOW_PRESETS_M;
-    onWidthChange(newPresets[1].m);
+    onWidthChange(presetsFor(type)[1].m);
   };
 
   const handlePresetClick = (m: number) => {
@@ -69,6 +83,16 @@ export const AssetToolOptions: React.FC<AssetToolOptionsProps> = ({
         >
           🪟 Window
         </button>
+        {OPENING_KINDS.map((k) => (
+          <button
+            key={k.id}
+            className={`asset-type-tab${assetType === k.id ? ' active' : ''}`}
+            onClick={() => handleTypeChange(k.id)}
+            title={`Place ${k.id === 'arch' ? 'an' : 'a'} ${k.label.toLowerCase()}`}
+          >
+            {k.icon} {k.label}
+          </button>
+        ))}
       </div>
 
       {/* Width label */}
@@ -108,8 +132,169 @@ export const AssetToolOptions: React.FC<AssetToolOptionsProps> = ({
       {/* Current readout */}
       <span className="asset-width-readout">{displayLabel}</span>
 
+      {/* Door leaf, swing angle and orientation */}
+      {assetType === 'door' && (
+        <div className="asset-opening-options">
+          <select
+            className="asset-opening-select"
+            value={door.leaf}
+            onChange={(e) => onDoorChange({ ...door, leaf: e.target.value as typeof door.leaf })}
+            title="Leaf type"
+          >
+            {DOOR_LEAVES.map((l) => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+          {(door.leaf === 'single' || door.leaf === 'double') && (
+            <select
+              className="asset-opening-select"
+              value={door.swing_angle}
+              onChange={(e) => onDoorChange({ ...door, swing_angle: Number(e.target.value) })}
+              title="Swing angle"
+            >
+              {DOOR_SWING_ANGLES.map((a) => (
+                <option key={a} value={a}>{a}°</option>
+              ))}
+            </select>
+          )}
+          <button
+            className="asset-preset-chip"
+            onClick={() => onDoorChange(flipDoorHinge(door))}
+            title="Flip hinge side (H)"
+          >
+            ↔ Hinge
+          </button>
+          <button
+            className="asset-preset-chip"
+            onClick={() => onDoorChange(flipDoorSwing(door))}
+            title="Flip swing direction (F)"
+          >
+            🔄 Swing
+          </button>
+        </div>
+      )}
+
+      {/* Window subtype and heights (always metres) */}
+      {assetType === 'window' && (
+        <div className="asset-opening-options">
+          <select
+            className="asset-opening-select"
+            value={windowSettings.window_type}
+            onChange={(e) => {
+              const type = e.target.value as typeof windowSettings.window_type;
+              onWindowSettingsChange({ ...windowSettings, window_type: type, sill_height: defaultSillHeight(type) });
+            }}
+            title="Window type"
+          >
+            {WINDOW_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+          <label className="asset-custom-label">Sill:</label>
+          <input
+            type="number"
+            className="asset-custom-input"
+            min={0}
+            max={windowSettings.head_height}
+            step={0.05}
+            value={windowSettings.sill_height}
+            onChange={(e) => {
+              const val = parseFloat(e.target.value);
+              if (!isNaN(val) && val >= 0 && val < windowSettings.head_height) onWindowSettingsChange({ ...windowSettings, sill_height: val });
+            }}
+            title="Sill height above floor"
+          />
+          <label className="asset-custom-label">Head:</label>
+          <input
+            type="number"
+            className="asset-custom-input"
+            min={windowSettings.sill_height}
+            max={5}
+            step={0.05}
+            value={windowSettings.head_height}
+            onChange={(e) => {
+              const val = parseFloat(e.target.value);
+              if (!isNaN(val) && val > windowSettings.sill_height) onWindowSettingsChange({ ...windowSettings, head_height: val });
+            }}
+            title="Head height above floor"
+          />
+          <span className="asset-custom-unit">m</span>
+        </div>
+      )}
+
+      {/* Opening, arch and pass-through heights (always metres) */}
+      {(assetType === 'opening' || assetType === 'arch' || assetType === 'pass_through') && (
+        <div className="asset-opening-options">
+          {assetType === 'pass_through' && (
+            <>
+              <label className="asset-custom-label">Counter:</label>
+              <input
+                type="number"
+                className="asset-custom-input"
+                min={0}
+                max={openingSettings.head_height}
+                step={0.05}
+                value={openingSettings.sill_height}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  if (!isNaN(val) && val >= 0 && val < openingSettings.head_height) onOpeningSettingsChange({ ...openingSettings, sill_height: val });
+                }}
+                title="Counter height above floor"
+              />
+            </>
+          )}
+          <label className="asset-custom-label">Head:</label>
+          <input
+            type="number"
+            className="asset-custom-input"
+            min={assetType === 'pass_through' ? openingSettings.sill_height : 0}
+            max={5}
+            step={0.05}
+            value={openingSettings.head_height}
+            onChange={(e) => {
+              const val = parseFloat(e.target.value);
+              if (!isNaN(val) && val > (assetType === 'pass_through' ? openingSettings.sill_height : 0)) onOpeningSettingsChange({ ...openingSettings, head_height: val });
+            }}
+            title="Head height above floor"
+          />
+          <span className="asset-custom-unit">m</span>
+        </div>
+      )}
+
+      {/* Half wall height and style */}
+      {assetType === 'half_wall' && (
+        <div className="asset-opening-options">
+          <select
+            className="asset-opening-select"
+            value={openingSettings.railing ? 'railing' : 'solid'}
+            onChange={(e) => onOpeningSettingsChange({ ...openingSettings, railing: e.target.value === 'railing' })}
+            title="Solid upstand or open railing"
+          >
+            <option value="solid">Solid</option>
+            <option value="railing">Railing</option>
+          </select>
+          <label className="asset-custom-label">Height:</label>
+          <input
+            type="number"
+            className="asset-custom-input"
+            min={0.1}
+            max={3}
+            step={0.05}
+            value={openingSettings.height}
+            onChange={(e) => {
+              const val = parseFloat(e.target.value);
+              if (!isNaN(val) && val > 0) onOpeningSettingsChange({ ...openingSettings, height: val });
+            }}
+            title="Height above floor"
+          />
+          <span className="asset-custom-unit">m</span>
+        </div>
+      )}
+
       {/* Hint */}
-      <span className="asset-hint">Hover over a wall to snap • Click to place</span>
+      <span className="asset-hint">
+        Hover over a wall to snap • Click to place{assetType === 'door' ? ' • H / F flip hinge / swing' : ''}
+      </span>
     </div>
   );
 };
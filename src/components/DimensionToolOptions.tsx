@@ -0,0 +1,73 @@
+import React from 'react';
+import type { DimensionKind, DimensionProperties, DimensionToolOptionsProps } from '../types';
+import { DIMENSION_KINDS, getDimensionProperties } from '../utils/dimensions';
+import './DimensionToolOptions.css';
+
+const HINTS: Record<DimensionKind, string> = {
+  linear: 'Click two nodes, then click to place the dimension line (above/below measures width, left/right height)',
+  aligned: 'Click two nodes, then click to place the dimension line',
+  chained: 'Click nodes in turn, press Enter or click the last node again, then click to place the line',
+  angular: 'Click a node on the first arm, the vertex, a node on the second arm, then click to place the arc',
+};
+
+export const DimensionToolOptions: React.FC<DimensionToolOptionsProps> = ({
+  kind,
+  onKindChange,
+  selectedDimension,
+  onDeleteDimension,
+  onAutoDimension,
+  autoDimensionCount,
+}) => {
+  const selected = selectedDimension && getDimensionProperties(selectedDimension);
+  const describe = (d: DimensionProperties) =>
+    d.room_id !== undefined ? 'Room dimension'
+      : d.kind === 'angular' ? 'Angular dimension'
+      : `Dimension over ${d.node_ids.length} nodes`;
+  return (
+    <div className="dimension-tool-options">
+      <span className="dimension-tool-label">Dimension</span>
+
+      <button
+        className="dimension-auto-btn"
+        onClick={onAutoDimension}
+        title="Dimension every side of the outer walls and the width and depth of every room; kept up to date as the plan changes"
+      >
+        📐 Auto-dimension
+      </button>
+      {autoDimensionCount > 0 && (
+        <span className="dimension-auto-count">{autoDimensionCount} generated</span>
+      )}
+
+      <div className="dimension-kind-group">
+        {DIMENSION_KINDS.map((k) => (
+          <button
+            key={k.id}
+            className={`dimension-kind-btn${kind === k.id ? ' active' : ''}`}
+            onClick={() => onKindChange(k.id)}
+            title={k.title}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      {selectedDimension && selected ? (
+        <>
+          <span className="dimension-tool-hint">
+            {describe(selected)}{selected.auto ? ' (generated)' : ''} · Delete removes it
+          </span>
+          <button
+            className="dimension-delete-btn"
+            onClick={() => onDeleteDimension(selectedDimension.id)}
+          >
+            🗑️ Delete dimension
+          </button>
+        </>
+      ) : (
+        <span className="dimension-tool-hint">
+          {HINTS[kind]} · Esc cancels · click a dimension to select it
+        </span>
+      )}
+    </div>
+  );
+};
@@ -4,9 +4,40 @@ import { GeneratedImagePreview } from './GeneratedImagePreview';
 import { ToolsBar } from './ToolsBar';
 import { WallToolOptions } from './WallToolOptions';
 import { AssetToolOptions } from './AssetToolOptions';
-import { processFloorPlanImage, listUserFloorPlans, deleteFloorPlan, createEmptyFloorPlan, redesignFloorPlan, normalizeScale, getFloorPlan, updateFloorPlanNodes, createEdges, deleteEdges, mergeEdges, updateEdges, updateFloorPlan, type FloorPlanSummary, type NodePositionUpdate, type NewEdgeData, type EdgePropertyUpdate } from '../api/client';
+import { HistoryPanel } from './HistoryPanel';
+import { LayersPanel } from './LayersPanel';
+import { UnderlayPanel } from './UnderlayPanel';
+import { LevelSwitcher } from './LevelSwitcher';
+import { LevelsPanel } from './LevelsPanel';
+import { RoomToolOptions } from './RoomToolOptions';
+import { RoomInspector } from './RoomInspector';
+import { ElementInspector } from './ElementInspector';
+import { FurnitureToolOptions } from './FurnitureToolOptions';
+import { DimensionToolOptions } from './DimensionToolOptions';
+import { TextToolOptions } from './TextToolOptions';
+import { processFloorPlanImage, listUserFloorPlans, deleteFloorPlan, createEmptyFloorPlan, redesignFloorPlan, normalizeScale, getFloorPlan, updateFloorPlanNodes, createEdges, deleteEdges, mergeEdges, updateEdges, updateFloorPlan, createRoom, updateRoom, deleteRoom, createFixture, updateFixture, deleteFixture, createAnnotation, updateAnnotation, deleteAnnotation, updateFloorPlanSettings, uploadPlanImage, patchProperties, type FloorPlanSummary, type NodePositionUpdate, type NewEdgeData, type EdgePropertyUpdate, type PropertiesPatch, type FloorPlanDetail } from '../api/client';
 import { convertApiToFloorPlan } from '../utils/converter';
-import type { FloorPlan, Node, Edge, EditorTool, AssetType, AssetPlacement } from '../types';
+import { detectRooms, diffRooms, manualRoomProperties } from '../utils/roomDetection';
+import { getRoomName } from '../utils/roomTypes';
+import { DEFAULT_DOOR, doorProperties, flipDoorHinge, flipDoorSwing, getDoorProperties } from '../utils/doors';
+import { DEFAULT_WINDOW, windowProperties } from '../utils/windows';
+import { DEFAULT_OPENING, OPENING_KINDS, openingProperties } from '../utils/openings';
+import { applyPropertiesChange, invertPropertiesChange } from '../utils/properties';
+import { defaultGrid } from '../utils/grid';
+import { DEFAULT_SNAP_SETTINGS } from '../utils/snapping';
+import { CONSTRAINT_TYPES, constraintProperties, getEdgeConstraints, inferConstraints, rescaleConstraints, solveConstraints, withConstraint, withoutConstraint } from '../utils/constraints';
+import { findFurnitureItem, FURNITURE_CATALOG, fixturePolygon, fixtureProperties, getFixtureFrame, rescaleFixtureFrame } from '../utils/furniture';
+import { circulationFrame, defaultCirculationProperties, fixtureKind, isParametric } from '../utils/circulation';
+import { isColumn, isStructuralWall, structuralInSelection, structuralProperties, structuralWarning } from '../utils/structure';
+import { EMPTY_SELECTION, applySelectionMoves, mergeSelectionMoves, selectionSize, transformSelection, type SelectionMoves } from '../utils/selection';
+import { autoDimensions, diffAutoDimensions, getDimensionProperties, rescaleDimension } from '../utils/dimensions';
+import { DEFAULT_NOTE_STYLE, getNoteProperties, noteStyle, rescaleNote } from '../utils/notes';
+import { DEFAULT_LAYERS, getLayerId, interactiveSelection, isInteractive, planLayerView, withLayerId } from '../utils/layers';
+import { levelAbove, levelGhosts, planLevels } from '../utils/levels';
+import { alignUnderlay, placeUnderlay, readImageSize, rescaleUnderlay } from '../utils/underlay';
+import { copyFragment, fragmentEdgeIds, fragmentForPlan, fragmentSize, parseFragment, placeFragment, serializeFragment } from '../utils/clipboard';
+import { emptyHistory, createCommand, pushCommand, takeUndo, takeRedo, toEdgeRef, resolveEdgeRef, resolveEdgeAt, resolveNodeAt, findSplitPair, resolveRoomRef, resolveFixtureRef, resolveAnnotationRef, type HistoryState, type EdgeRef, type NodeMove } from '../utils/history';
+import type { FloorPlan, Node, Edge, EditorTool, AssetType, AssetPlacement, Point, FixtureFrame, DoorProperties, WindowProperties, OpeningProperties, WallMode, WallBoxSize, GridSettings, SnapSettings, EdgeConstraint, PlanSelection, SelectionTransform, PlanFragment, AnnotationType, DimensionKind, DimensionProperties, NoteStyle, PlanLayers, Underlay, Level, CirculationProperties, PropertiesChange } from '../types';
 import './EditorLayout.css';
 
 // Get user ID from env (in production, get from auth)
@@ -35,10 +66,29 @@ export const EditorLayout: React.FC = () => {
   // Pending wall creations awaiting debounced persist
   const wallSaveTimerRef = useRef<number | null>(null);
   const pendingWallsRef = useRef<NewEdgeData[]>([]);
+  // Room polygons from the room box wall mode, created once their walls are saved
+  const pendingRoomBoxesRef = useRef<[number, number][][]>([]);
   // Accumulates nodes created optimistically so chained wall calls resolve source nodes
   // even when the React state hasn't re-rendered yet.
   const accumulatedNewNodesRef = useRef<Node[]>([]);
-  
+  // Resolves when the in-flight wall batch (already spliced from pendingWallsRef) has been saved
+  const wallSaveInFlightRef = useRef<Promise<void> | null>(null);
+  // Node moves awaiting the debounced persist, keyed by node ID (later moves win)
+  const pendingNodeUpdatesRef = useRef<Map<string, NodePositionUpdate>>(new Map());
+  // Arrow-key nudges of one selection, merged into a single move until the debounced save
+  const pendingNudgeRef = useRef<{ key: string; moves: SelectionMoves } | null>(null);
+  const nudgeSaveTimerRef = useRef<number | null>(null);
+
+  // Undo/redo history
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [isReplayingHistory, setIsReplayingHistory] = useState(false);
+  const replayingHistoryRef = useRef(false);
+  // Always-current plan for async history callbacks
+  const floorPlanRef = useRef(floorPlan);
+  floorPlanRef.current = floorPlan;
+
   // Redesign mode state
   const [isRedesignMode, setIsRedesignMode] = useState(false);
   const [redesignDesires, setRedesignDesires] = useState('');
@@ -57,21 +107,206 @@ export const EditorLayout: React.FC = () => {
 
   // Edge selection state
   const [selectedEdgeIds, setSelectedEdgeIds] = useState<Set<string>>(new Set());
+  // Nodes, rooms and fixtures picked alongside edges with the selection box or shift-click
+  const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
+  const [selectedRoomIds, setSelectedRoomIds] = useState<Set<string>>(new Set());
+  const [selectedFixtureIds, setSelectedFixtureIds] = useState<Set<string>>(new Set());
+
+  // Other levels of the building, for the ghost overlay and the area totals
+  const [levelPlans, setLevelPlans] = useState<Record<string, FloorPlan>>({});
+  const [isAddingLevel, setIsAddingLevel] = useState(false);
+
+  // Two-point alignment of the underlay image in progress on the canvas
+  const [isAligningUnderlay, setIsAligningUnderlay] = useState(false);
+  // Underlay changes awaiting the debounced save (opacity drags send one request)
+  const underlaySaveTimerRef = useRef<number | null>(null);
+
+  // Fragment being pasted: follows the cursor on the canvas until placed
+  const [pasteFragment, setPasteFragment] = useState<PlanFragment | null>(null);
+  // Last copied fragment, used when the system clipboard can't be read
+  const clipboardFallbackRef = useRef<string | null>(null);
 
   // Active tool state
   const [activeTool, setActiveTool] = useState<EditorTool>('cursor');
 
+  // Selected room: reshaped by the room tool, edited in the room inspector
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+
+  // Re-derive rooms from the wall graph after geometry edits
+  const [autoDetectRooms, setAutoDetectRooms] = useState(true);
+  const autoDetectRoomsRef = useRef(autoDetectRooms);
+  autoDetectRoomsRef.current = autoDetectRooms;
+  // Tail of the room-sync chain, so syncs never overlap
+  const roomSyncRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Room (or dimension) and edge selections are exclusive so Delete only ever hits one of them
+  React.useEffect(() => {
+    if (activeTool === 'room' || activeTool === 'dimension') {
+      handleClearSelection();
+    } else if (activeTool !== 'cursor') {
+      setSelectedRoomId(null);
+    }
+  }, [activeTool]);
+
   // Wall tool state
   const [wallThickness, setWallThickness] = useState(0.2); // 0.2 m default (metres when calibrated)
+  const [wallMode, setWallMode] = useState<WallMode>('segment');
+  const [wallBoxSize, setWallBoxSize] = useState<WallBoxSize | null>(null);
+
+  // Background grid: spacing units follow calibration like the wall thickness
+  const [grid, setGrid] = useState<GridSettings>(() => defaultGrid(false));
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
 
-  // Reset wall thickness default when calibration status changes
+  // Reset wall thickness default (and any typed box size) when calibration status changes
   React.useEffect(() => {
     setWallThickness(floorPlan.is_calibrated ? 0.2 : 20);
+    setWallBoxSize(null);
+    setGrid(prev => ({ ...defaultGrid(floorPlan.is_calibrated ?? false), enabled: prev.enabled }));
   }, [floorPlan.is_calibrated]);
 
   // Asset tool state
   const [assetType, setAssetType] = useState<AssetType>('door');
   const [assetWidthM, setAssetWidthM] = useState(0.8);
+  const [assetDoor, setAssetDoor] = useState<DoorProperties>(DEFAULT_DOOR);
+  const [assetWindow, setAssetWindow] = useState<WindowProperties>(DEFAULT_WINDOW);
+  const [assetOpening, setAssetOpening] = useState<OpeningProperties>(DEFAULT_OPENING);
+
+  // Furniture tool state: armed catalogue type and the piece being edited
+  const [furnitureType, setFurnitureType] = useState<string | null>(null);
+  const [selectedFixtureId, setSelectedFixtureId] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (activeTool !== 'furniture') setSelectedFixtureId(null);
+  }, [activeTool]);
+
+  // Dimension tool state: style of the next dimension
+  const [dimensionKind, setDimensionKind] = useState<DimensionKind>('aligned');
+
+  // Text tool state: type and look of the next note
+  const [noteType, setNoteType] = useState<'text' | 'callout'>('text');
+  const [noteStyleDraft, setNoteStyleDraft] = useState<NoteStyle>(DEFAULT_NOTE_STYLE);
+
+  // Dimension or note being edited; each tool picks its own
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    setSelectedAnnotationId(null);
+  }, [activeTool]);
+
+  const recordCommand = (label: string, undo: () => Promise<void>, redo: () => Promise<void>) => {
+    setHistory(prev => pushCommand(prev, createCommand(label, undo, redo)));
+  };
+
+  const resetHistory = () => setHistory(emptyHistory);
+
+  /** Current backend plan ID, lazily creating an empty plan on first draw if none exists yet */
+  const ensurePlanId = async (): Promise<string> => {
+    if (currentPlanIdRef.current) return currentPlanIdRef.current;
+    const newPlan = await createEmptyFloorPlan(USER_ID);
+    setCurrentPlanId(newPlan.id);
+    currentPlanIdRef.current = newPlan.id;
+    loadUserPlans(); // refresh sidebar (non-blocking)
+    return newPlan.id;
+  };
+
+  /** Queue a wall for the debounced batch save, resetting the debounce timer */
+  const queueWallSave = (item: NewEdgeData) => {
+    pendingWallsRef.current.push(item);
+    setHasUnsavedChanges(true);
+
+    // Reset the debounce timer
+    if (wallSaveTimerRef.current !== null) {
+      window.clearTimeout(wallSaveTimerRef.current);
+    }
+
+    wallSaveTimerRef.current = window.setTimeout(() => {
+      const batch = pendingWallsRef.current.splice(0);
+      wallSaveTimerRef.current = null;
+      if (batch.length === 0) return;
+
+      setIsSaving(true);
+      setError(null);
+
+      wallSaveInFlightRef.current = (async () => {
+        try {
+          const planId = await ensurePlanId();
+          const result = await createEdges(planId, batch);
+          const convertedPlan = convertApiToFloorPlan(result);
+          setFloorPlan(convertedPlan);
+          floorPlanRef.current = convertedPlan;
+          // Backend response is ground truth — clear the optimistic accumulator
+          accumulatedNewNodesRef.current = [];
+          setHasUnsavedChanges(false);
+          // Create room box rooms before detection so it adopts them instead of adding duplicates
+          for (const coords of pendingRoomBoxesRef.current.splice(0)) await handleRoomCreate(coords);
+          syncDetectedRooms();
+        } catch (err) {
+          console.error('Failed to save new walls:', err);
+          setError(err instanceof Error ? err.message : 'Failed to save walls');
+        } finally {
+          setIsSaving(false);
+          wallSaveInFlightRef.current = null;
+        }
+      })();
+    }, 300);
+  };
+
+  /** Optimistically add a queued wall to local state */
+  const addOptimisticWall = (newEdge: Edge, newNodes: Node[]) => {
+    setFloorPlan((prev) => ({
+      ...prev,
+      nodes: [...prev.nodes, ...newNodes],
+      edges: [...prev.edges, newEdge],
+    }));
+  };
+
+  /**
+   * Undo a wall addition. A wall still waiting in the debounce queue is simply
+   * dropped from the queue and from local state; a persisted wall is deleted
+   * through the API, and any wall that was split to attach it is re-joined.
+   */
+  const undoWallAdd = async (item: NewEdgeData, optimisticEdgeId: string) => {
+    const idx = pendingWallsRef.current.indexOf(item);
+    if (idx !== -1) {
+      pendingWallsRef.current.splice(idx, 1);
+      if (pendingWallsRef.current.length === 0 && wallSaveTimerRef.current !== null) {
+        window.clearTimeout(wallSaveTimerRef.current);
+        wallSaveTimerRef.current = null;
+        setHasUnsavedChanges(false);
+      }
+      // Nodes still referenced by another queued wall must stay
+      const stillQueued = new Set(pendingWallsRef.current.flatMap(w => [w.from_node.id, w.to_node.id]));
+      setFloorPlan(prev => {
+        const edges = prev.edges.filter(e => e.id !== optimisticEdgeId);
+        const used = new Set(edges.flatMap(e => [e.source, e.target]));
+        const orphan = (id: string) => !used.has(id) && !stillQueued.has(id);
+        return {
+          ...prev,
+          edges,
+          nodes: prev.nodes.filter(n => !((n.id === item.from_node.id || n.id === item.to_node.id) && orphan(n.id))),
+        };
+      });
+      accumulatedNewNodesRef.current = accumulatedNewNodesRef.current.filter(
+        n => !((n.id === item.from_node.id || n.id === item.to_node.id) && !stillQueued.has(n.id))
+      );
+      return;
+    }
+
+    // The wall may be part of a batch that is being saved right now
+    if (wallSaveInFlightRef.current) await wallSaveInFlightRef.current;
+
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    const edge = resolveEdgeRef(floorPlanRef.current, { from: item.from_node, to: item.to_node, type: item.edge_type as Edge['type'] });
+    if (!edge) return;
+    let result = await deleteEdges(planId, [edge.id]);
+    for (const end of [item.from_node, item.to_node]) {
+      if (!end.split_edge_id) continue;
+      const pair = findSplitPair(convertApiToFloorPlan(result), end);
+      if (pair) result = await mergeEdges(planId, pair);
+    }
+    setFloorPlan(convertApiToFloorPlan(result));
+  };
 
   const handleWallAdd = (newEdge: Edge, newNodes: Node[], splits?: { [nodeId: string]: string }) => {
     // Resolve node coordinates first — before any state mutation.
@@ -95,13 +330,9 @@ export const EditorLayout: React.FC = () => {
     }
 
     // Optimistic local update — only after resolution succeeds to avoid orphaned edges
-    setFloorPlan((prev) => ({
-      ...prev,
-      nodes: [...prev.nodes, ...newNodes],
-      edges: [...prev.edges, newEdge],
-    }));
+    addOptimisticWall(newEdge, newNodes);
 
-    pendingWallsRef.current.push({
+    let item: NewEdgeData = {
       from_node: {
         id: fromNode.id,
         x: fromNode.x,
@@ -117,45 +348,34 @@ export const EditorLayout: React.FC = () => {
       edge_type: newEdge.type,
       thickness: newEdge.thickness,
       is_inner: newEdge.is_inner ?? true,
-    });
-    setHasUnsavedChanges(true);
-
-    // Reset the debounce timer
-    if (wallSaveTimerRef.current !== null) {
-      window.clearTimeout(wallSaveTimerRef.current);
-    }
-
-    wallSaveTimerRef.current = window.setTimeout(async () => {
-      const batch = pendingWallsRef.current.splice(0);
-      if (batch.length === 0) return;
-
-      setIsSaving(true);
-      setError(null);
-
-      try {
-        // Lazily create a backend plan on first draw if none exists yet
-        let planId = currentPlanIdRef.current;
-        if (!planId) {
-          const newPlan = await createEmptyFloorPlan(USER_ID);
-          setCurrentPlanId(newPlan.id);
-          currentPlanIdRef.current = newPlan.id;
-          planId = newPlan.id;
-          loadUserPlans(); // refresh sidebar (non-blocking)
-        }
-        const result = await createEdges(planId, batch);
-        const convertedPlan = convertApiToFloorPlan(result);
-        setFloorPlan(convertedPlan);
-        // Backend response is ground truth — clear the optimistic accumulator
-        accumulatedNewNodesRef.current = [];
-        setHasUnsavedChanges(false);
-      } catch (err) {
-        console.error('Failed to save new walls:', err);
-        setError(err instanceof Error ? err.message : 'Failed to save walls');
-      } finally {
-        setIsSaving(false);
-        wallSaveTimerRef.current = null;
+    };
+    let optimisticEdgeId = newEdge.id;
+    queueWallSave(item);
+
+    recordCommand(
+      newEdge.type === 'wall' ? 'Add wall' : `Add ${newEdge.type}`,
+      () => undoWallAdd(item, optimisticEdgeId),
+      async () => {
+        // Re-resolve endpoints against the current plan: node IDs and split
+        // targets may have been re-issued by the backend since the first save.
+        const plan = floorPlanRef.current;
+        const redoNodes: Node[] = [];
+        const resolveEnd = (end: NewEdgeData['from_node']): NewEdgeData['from_node'] => {
+          const existing = resolveNodeAt(plan, end);
+          if (existing) return { id: existing.id, x: existing.x, y: existing.y };
+          const id = crypto.randomUUID();
+          redoNodes.push({ id, x: end.x, y: end.y });
+          return { id, x: end.x, y: end.y, split_edge_id: end.split_edge_id ? resolveEdgeAt(plan, end)?.id : undefined };
+        };
+        item = { ...item, from_node: resolveEnd(item.from_node), to_node: resolveEnd(item.to_node) };
+        optimisticEdgeId = crypto.randomUUID();
+        addOptimisticWall(
+          { ...newEdge, id: optimisticEdgeId, source: item.from_node.id, target: item.to_node.id },
+          redoNodes
+        );
+        queueWallSave(item);
       }
-    }, 300);
+    );
   };
 
   // Keep ref in sync with state so debounced callbacks see the latest plan ID
@@ -163,6 +383,33 @@ export const EditorLayout: React.FC = () => {
     currentPlanIdRef.current = currentPlanId;
   }, [currentPlanId]);
 
+  // Load the building's other levels whenever the level list or the current level changes
+  const levelIdsKey = (floorPlan.levels ?? []).map(l => l.plan_id).join(',');
+  React.useEffect(() => {
+    const ids = levelIdsKey ? levelIdsKey.split(',').filter(id => id !== currentPlanId) : [];
+    if (ids.length === 0) {
+      setLevelPlans({});
+      return;
+    }
+    let cancelled = false;
+    Promise.all(ids.map(async id => {
+      try {
+        return [[id, convertApiToFloorPlan(await getFloorPlan(id))] as [string, FloorPlan]];
+      } catch (err) {
+        console.error('Failed to load level:', err);
+        return [];
+      }
+    })).then(entries => {
+      if (!cancelled) setLevelPlans(Object.fromEntries(entries.flat()));
+    });
+    return () => { cancelled = true; };
+  }, [currentPlanId, levelIdsKey]);
+
+  const ghosts = React.useMemo(
+    () => currentPlanId ? levelGhosts(floorPlan.levels ?? [], currentPlanId, levelPlans) : [],
+    [currentPlanId, floorPlan.levels, levelPlans]
+  );
+
   // Load user's plans on mount
   React.useEffect(() => {
     loadUserPlans();
@@ -200,6 +447,29 @@ export const EditorLayout: React.FC = () => {
       const convertedPlan = convertApiToFloorPlan(result);
       setFloorPlan(convertedPlan);
       setCurrentPlanId(result.id);
+      resetHistory();
+
+      // Keep the scan under the plan to check the recognised walls against
+      try {
+        const size = await readImageSize(file);
+        const underlay = placeUnderlay({ src: await uploadPlanImage(result.id, file), ...size }, convertedPlan, true);
+        await updateFloorPlanSettings(result.id, { underlay });
+        setFloorPlan(prev => ({ ...prev, underlay }));
+      } catch (err) {
+        console.error('Failed to keep the source image:', err);
+      }
+
+      // Traced walls start out constrained wherever they are already square
+      const inferred = inferConstraints(convertedPlan.nodes, convertedPlan.edges);
+      if (inferred.size > 0) {
+        try {
+          applyServerPlan(await updateEdges(result.id, convertedPlan.edges
+            .filter(e => inferred.has(e.id))
+            .map(e => ({ id: e.id, properties: constraintProperties(inferred.get(e.id)!, e.properties) }))));
+        } catch (err) {
+          console.error('Failed to save inferred constraints:', err);
+        }
+      }
       
       // Reload plans list
       await loadUserPlans();
@@ -221,17 +491,63 @@ export const EditorLayout: React.FC = () => {
       const convertedPlan = convertApiToFloorPlan(apiPlan);
       setFloorPlan(convertedPlan);
       setCurrentPlanId(planId);
+      setIsAligningUnderlay(false);
+      resetHistory();
     } catch (err) {
       console.error('Failed to load plan:', err);
       setError(err instanceof Error ? err.message : 'Failed to load plan');
     }
   };
 
+  /** Save the level list with every level, so any of them opens the building */
+  const saveLevels = async (levels: Level[]) => {
+    floorPlanRef.current = { ...floorPlanRef.current, levels };
+    setFloorPlan(prev => ({ ...prev, levels }));
+    await Promise.all(levels.map(l => updateFloorPlanSettings(l.plan_id, { levels })));
+  };
+
+  /** Create an empty plan for a new top level and switch to it */
+  const handleAddLevel = async () => {
+    setIsAddingLevel(true);
+    setError(null);
+    try {
+      const planId = await ensurePlanId();
+      const levels = planLevels(floorPlanRef.current, planId);
+      const ground = userPlans.find(p => p.id === levels[0].plan_id)?.name || 'Untitled';
+      const draft = levelAbove(levels, '');
+      const newPlan = await createEmptyFloorPlan(USER_ID, `${ground} · ${draft.name}`);
+      await saveLevels([...levels, { ...draft, plan_id: newPlan.id }]);
+      await handleLoadPlan(newPlan.id);
+      loadUserPlans(); // refresh sidebar (non-blocking)
+    } catch (err) {
+      console.error('Failed to add level:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add level');
+    } finally {
+      setIsAddingLevel(false);
+    }
+  };
+
+  const handleLevelChange = async (level: Level) => {
+    if (!currentPlanId) return;
+    const levels = planLevels(floorPlan, currentPlanId)
+      .map(l => l.plan_id === level.plan_id ? level : l)
+      .sort((a, b) => a.elevation - b.elevation);
+    try {
+      await saveLevels(levels);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save levels:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save levels');
+    }
+  };
+
   const handleNewPlan = () => {
     setFloorPlan({ nodes: [], edges: [] });
     setCurrentPlanId(null);
     currentPlanIdRef.current = null;
-    setSelectedEdgeIds(new Set());
+    setIsAligningUnderlay(false);
+    handleClearSelection();
+    resetHistory();
     setError(null);
   };
 
@@ -309,12 +625,23 @@ export const EditorLayout: React.FC = () => {
     try {
       setError(null);
       await deleteFloorPlan(currentPlanId);
+
+      // The other levels forget this one; a building left with one level is single-storey again
+      const remaining = (floorPlan.levels ?? []).filter(l => l.plan_id !== currentPlanId);
+      if (remaining.length > 0) {
+        const levels = remaining.length > 1 ? remaining : [];
+        await Promise.all(remaining.map(l => updateFloorPlanSettings(l.plan_id, { levels })));
+        await handleLoadPlan(remaining[0].plan_id);
+        await loadUserPlans();
+        return;
+      }
       
       // Reset to empty canvas and clear selection
       setFloorPlan({ nodes: [], edges: [] });
       setCurrentPlanId(null);
       currentPlanIdRef.current = null;
-      setSelectedEdgeIds(new Set());
+      handleClearSelection();
+      resetHistory();
 
       // Reload plans list
       await loadUserPlans();
@@ -356,6 +683,9 @@ export const EditorLayout: React.FC = () => {
     }
 
     const lockedRooms = floorPlan.rooms?.filter(r => r.locked) || [];
+    // Load-bearing structure can't move, whatever the user asks for
+    const structuralWalls = floorPlan.edges.filter(isStructuralWall);
+    const columns = (floorPlan.fixtures ?? []).filter(f => isColumn(f.fixture_type));
 
     setIsRedesigning(true);
     setError(null);
@@ -364,6 +694,8 @@ export const EditorLayout: React.FC = () => {
       const response = await redesignFloorPlan(currentPlanId, {
         desires: redesignDesires,
         locked_room_ids: lockedRooms.map(r => r.id),
+        locked_edge_ids: structuralWalls.map(e => e.id),
+        locked_fixture_ids: columns.map(f => f.id),
       });
 
       // Show the generated image in the preview modal
@@ -376,6 +708,311 @@ export const EditorLayout: React.FC = () => {
     }
   };
 
+  // ============================================
+  // Furniture tool
+  // ============================================
+
+  /**
+   * Create a fixture for `frame` and return the ID the backend assigned to it.
+   * `base` properties (e.g. from a pasted fixture) replace the catalogue defaults.
+   */
+  const createFixtureAt = async (fixtureType: string, frame: FixtureFrame, base?: Record<string, any>): Promise<string | null> => {
+    const planId = await ensurePlanId();
+    const before = new Set((floorPlanRef.current.fixtures ?? []).map(f => f.id));
+    const category = FURNITURE_CATALOG.find(c => c.items.some(i => i.type === fixtureType));
+    const result = await createFixture(planId, {
+      fixture_type: fixtureType,
+      polygon_coords: fixturePolygon(frame),
+      properties: fixtureProperties(frame, base ?? (category ? { category: category.id, ...defaultCirculationProperties(fixtureType) } : {})),
+    });
+    applyServerPlan(result);
+    return result.fixtures.find(f => !before.has(f.id))?.id ?? null;
+  };
+
+  /** Delete the fixture currently occupying `frame` */
+  const deleteFixtureAt = async (frame: FixtureFrame) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = resolveFixtureRef(floorPlanRef.current, fixturePolygon(frame));
+    if (!planId || !fixture) return;
+    applyServerPlan(await deleteFixture(planId, fixture.id));
+  };
+
+  /** Move the fixture currently occupying `from` to `to` */
+  const moveFixtureAt = async (from: FixtureFrame, to: FixtureFrame) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = resolveFixtureRef(floorPlanRef.current, fixturePolygon(from));
+    if (!planId || !fixture) return;
+    applyServerPlan(await updateFixture(planId, fixture.id, {
+      polygon_coords: fixturePolygon(to),
+      properties: fixtureProperties(to, fixture.properties),
+    }));
+  };
+
+  /** Give the fixture currently occupying `from` the frame `to` and exactly `properties` */
+  const reshapeFixtureAt = async (from: FixtureFrame, to: FixtureFrame, properties: Record<string, any>) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = resolveFixtureRef(floorPlanRef.current, fixturePolygon(from));
+    if (!planId || !fixture) return;
+    applyServerPlan(await updateFixture(planId, fixture.id, {
+      polygon_coords: fixturePolygon(to),
+      properties: fixtureProperties(to, properties),
+    }));
+  };
+
+  const handleFixturePlace = async (fixtureType: string, frame: FixtureFrame) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const fixtureId = await createFixtureAt(fixtureType, frame);
+      setSelectedFixtureId(fixtureId);
+      recordCommand(
+        `Place ${findFurnitureItem(fixtureType)?.label.toLowerCase() ?? 'furniture'}`,
+        () => deleteFixtureAt(frame),
+        async () => { await createFixtureAt(fixtureType, frame); }
+      );
+    } catch (err) {
+      console.error('Failed to place furniture:', err);
+      setError(err instanceof Error ? err.message : 'Failed to place furniture');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFixtureUpdate = async (fixtureId: string, frame: FixtureFrame, previous: FixtureFrame) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = floorPlan.fixtures?.find(f => f.id === fixtureId);
+    if (!planId || !fixture) return;
+    if (!confirmStructural('move', { ...EMPTY_SELECTION, fixtureIds: [fixtureId] })) {
+      setFloorPlan(prev => ({ ...prev }));
+      return;
+    }
+
+    // Optimistic update so the piece doesn't jump back while saving
+    const setFixtureFrame = (next: FixtureFrame) =>
+      setFloorPlan(prev => ({
+        ...prev,
+        fixtures: prev.fixtures?.map(f => f.id === fixtureId
+          ? { ...f, polygon_coords: fixturePolygon(next), properties: fixtureProperties(next, f.properties) }
+          : f),
+      }));
+    setFixtureFrame(frame);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      applyServerPlan(await updateFixture(planId, fixtureId, {
+        polygon_coords: fixturePolygon(frame),
+        properties: fixtureProperties(frame, fixture.properties),
+      }));
+      const label = frame.width !== previous.width || frame.depth !== previous.depth
+        ? 'Resize furniture'
+        : frame.rotation !== previous.rotation ? 'Rotate furniture' : 'Move furniture';
+      recordCommand(label, () => moveFixtureAt(frame, previous), () => moveFixtureAt(previous, frame));
+    } catch (err) {
+      console.error('Failed to update furniture:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update furniture');
+      setFixtureFrame(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** New stair or ramp parameters; the footprint follows them about the centre */
+  const handleCirculationChange = async (fixtureId: string, params: CirculationProperties) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = floorPlan.fixtures?.find(f => f.id === fixtureId);
+    const kind = fixture && fixtureKind(fixture.fixture_type);
+    if (!planId || !fixture || !kind || !isParametric(kind)) return;
+
+    const previous = getFixtureFrame(fixture);
+    const previousProperties = fixture.properties ?? {};
+    const frame = circulationFrame(kind, previous, params);
+    const properties = { ...previousProperties, ...params };
+    setIsSaving(true);
+    setError(null);
+    try {
+      applyServerPlan(await updateFixture(planId, fixtureId, {
+        polygon_coords: fixturePolygon(frame),
+        properties: fixtureProperties(frame, properties),
+      }));
+      recordCommand(
+        `Edit ${findFurnitureItem(kind)?.label.toLowerCase() ?? 'stair'}`,
+        () => reshapeFixtureAt(frame, previous, previousProperties),
+        () => reshapeFixtureAt(previous, frame, properties)
+      );
+    } catch (err) {
+      console.error('Failed to update stair:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update stair');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFixtureDelete = async (fixtureId: string) => {
+    const planId = currentPlanIdRef.current;
+    const fixture = floorPlan.fixtures?.find(f => f.id === fixtureId);
+    if (!planId || !fixture) return;
+    if (!confirmStructural('delete', { ...EMPTY_SELECTION, fixtureIds: [fixtureId] })) return;
+
+    try {
+      applyServerPlan(await deleteFixture(planId, fixtureId));
+      if (selectedFixtureId === fixtureId) setSelectedFixtureId(null);
+      setError(null);
+      const { fixture_type: fixtureType } = fixture;
+      const frame = getFixtureFrame(fixture);
+      const properties = fixture.properties ?? {};
+      recordCommand(
+        `Delete ${findFurnitureItem(fixtureKind(fixtureType))?.label.toLowerCase() ?? 'furniture'}`,
+        async () => { await createFixtureAt(fixtureType, frame, properties); },
+        () => deleteFixtureAt(frame)
+      );
+    } catch (err) {
+      console.error('Failed to delete furniture:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete furniture');
+    }
+  };
+
+  // ============================================
+  // Annotations
+  // ============================================
+
+  /** Create an annotation and return the ID the backend assigned to it */
+  const createAnnotationAt = async (annotationType: AnnotationType, properties: Record<string, any>): Promise<string | null> => {
+    const planId = await ensurePlanId();
+    const before = new Set((floorPlanRef.current.annotations ?? []).map(a => a.id));
+    const result = await createAnnotation(planId, { annotation_type: annotationType, properties });
+    applyServerPlan(result);
+    return result.annotations?.find(a => !before.has(a.id))?.id ?? null;
+  };
+
+  /** Delete the annotation of `annotationType` whose properties equal `properties` */
+  const deleteAnnotationLike = async (annotationType: AnnotationType, properties: Record<string, any>) => {
+    const planId = currentPlanIdRef.current;
+    const annotation = resolveAnnotationRef(floorPlanRef.current, annotationType, properties);
+    if (!planId || !annotation) return;
+    applyServerPlan(await deleteAnnotation(planId, annotation.id));
+  };
+
+  const handleAnnotationAdd = async (annotationType: AnnotationType, properties: Record<string, any>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setSelectedAnnotationId(await createAnnotationAt(annotationType, properties));
+      recordCommand(
+        `Add ${annotationType}`,
+        () => deleteAnnotationLike(annotationType, properties),
+        async () => { await createAnnotationAt(annotationType, properties); }
+      );
+    } catch (err) {
+      console.error('Failed to add annotation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add annotation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Replace the properties of the annotation of `annotationType` currently matching `from` */
+  const updateAnnotationLike = async (annotationType: AnnotationType, from: Record<string, any>, to: Record<string, any>) => {
+    const planId = currentPlanIdRef.current;
+    const annotation = resolveAnnotationRef(floorPlanRef.current, annotationType, from);
+    if (!planId || !annotation) return;
+    applyServerPlan(await updateAnnotation(planId, annotation.id, to));
+  };
+
+  const handleAnnotationUpdate = async (annotationId: string, properties: Record<string, any>, previous: Record<string, any>) => {
+    const planId = currentPlanIdRef.current;
+    const annotation = floorPlan.annotations?.find(a => a.id === annotationId);
+    if (!planId || !annotation) return;
+
+    // Optimistic update so a moved note doesn't jump back while saving
+    const setProperties = (next: Record<string, any>) =>
+      setFloorPlan(prev => ({
+        ...prev,
+        annotations: prev.annotations?.map(a => a.id === annotationId ? { ...a, properties: next } : a),
+      }));
+    setProperties(properties);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      applyServerPlan(await updateAnnotation(planId, annotationId, properties));
+      const { annotation_type: annotationType } = annotation;
+      const moved = ['x', 'y', 'target'].some(key => JSON.stringify(properties[key]) !== JSON.stringify(previous[key]));
+      recordCommand(
+        `${moved ? 'Move' : 'Edit'} ${annotationType}`,
+        () => updateAnnotationLike(annotationType, properties, previous),
+        () => updateAnnotationLike(annotationType, previous, properties)
+      );
+    } catch (err) {
+      console.error('Failed to update annotation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update annotation');
+      setProperties(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Restyle the selected note, or set the style of the next one */
+  const handleNoteStyleChange = (style: NoteStyle) => {
+    const annotation = floorPlan.annotations?.find(a => a.id === selectedAnnotationId);
+    const note = annotation && getNoteProperties(annotation);
+    if (annotation && note) handleAnnotationUpdate(annotation.id, { ...annotation.properties, ...style }, annotation.properties);
+    setNoteStyleDraft(style);
+  };
+
+  /** Generate exterior chains and room dimensions, replacing earlier generated ones */
+  const handleAutoDimension = async () => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    // Let pending room syncs land first; the room dimensions depend on them
+    await roomSyncRef.current;
+    const previous = (floorPlanRef.current.annotations ?? []).flatMap(a => {
+      const props = getDimensionProperties(a);
+      return props?.auto ? [a.properties as DimensionProperties] : [];
+    });
+    const apply = async (next: DimensionProperties[]) => {
+      const result = await replaceAutoDimensions(planId, next);
+      if (result) applyServerPlan(result);
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apply(autoDimensions(floorPlanRef.current));
+      recordCommand(
+        'Auto-dimension',
+        () => apply(previous),
+        () => apply(autoDimensions(floorPlanRef.current))
+      );
+    } catch (err) {
+      console.error('Failed to auto-dimension:', err);
+      setError(err instanceof Error ? err.message : 'Failed to auto-dimension');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAnnotationDelete = async (annotationId: string) => {
+    const planId = currentPlanIdRef.current;
+    const annotation = floorPlan.annotations?.find(a => a.id === annotationId);
+    if (!planId || !annotation) return;
+
+    try {
+      applyServerPlan(await deleteAnnotation(planId, annotationId));
+      if (selectedAnnotationId === annotationId) setSelectedAnnotationId(null);
+      setError(null);
+      const { annotation_type: annotationType, properties } = annotation;
+      recordCommand(
+        `Delete ${annotationType}`,
+        async () => { await createAnnotationAt(annotationType, properties); },
+        () => deleteAnnotationLike(annotationType, properties)
+      );
+    } catch (err) {
+      console.error('Failed to delete annotation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete annotation');
+    }
+  };
+
   const handleCloseGeneratedImage = () => {
     setGeneratedImage(null);
   };
@@ -434,12 +1071,49 @@ export const EditorLayout: React.FC = () => {
     setError(null);
 
     try {
+      const plan = floorPlanRef.current;
+      const factor = 1 / pixelsPerMeter;
       await normalizeScale(currentPlanId, pixelsPerMeter);
+      // Coordinates were divided by pixelsPerMeter; lengths and positions kept in properties have to follow
+      const constrained = plan.edges.filter(e => getEdgeConstraints(e).some(c => c.type === 'fixed_length'));
+      if (constrained.length > 0) {
+        await updateEdges(currentPlanId, constrained.map(e => ({
+          id: e.id,
+          properties: constraintProperties(rescaleConstraints(getEdgeConstraints(e), factor), e.properties),
+        })));
+      }
+      // Fixtures without a stored frame derive it from their polygon, which the backend already rescaled
+      const framed = (plan.fixtures ?? []).filter(f => typeof f.properties?.center_x === 'number');
+      if (framed.length > 0) {
+        await patchProperties(currentPlanId, {
+          fixtures: framed.map(f => ({ id: f.id, set: fixtureProperties(rescaleFixtureFrame(getFixtureFrame(f), factor)) })),
+        });
+      }
+      for (const annotation of plan.annotations ?? []) {
+        const dimension = getDimensionProperties(annotation);
+        if (dimension && dimension.offset !== 0) {
+          await updateAnnotation(currentPlanId, annotation.id, { ...annotation.properties, ...rescaleDimension(dimension, factor) });
+        }
+        const note = getNoteProperties(annotation);
+        if (note) {
+          await updateAnnotation(currentPlanId, annotation.id, { ...annotation.properties, ...rescaleNote(note, factor) });
+        }
+      }
+      const underlay = plan.underlay;
+      if (underlay) {
+        if (underlaySaveTimerRef.current !== null) {
+          window.clearTimeout(underlaySaveTimerRef.current);
+          underlaySaveTimerRef.current = null;
+        }
+        await updateFloorPlanSettings(currentPlanId, { underlay: rescaleUnderlay(underlay, factor) });
+      }
 
       // Reload the floor plan with new coordinates
       const apiPlan = await getFloorPlan(currentPlanId);
       const converted = convertApiToFloorPlan(apiPlan);
       setFloorPlan(converted);
+      // Recorded coordinates are in the old unit system and can no longer be replayed
+      resetHistory();
 
       // Exit measure mode
       setIsMeasureMode(false);
@@ -453,19 +1127,24 @@ export const EditorLayout: React.FC = () => {
     }
   };
 
-  // Handle node position changes with auto-save
-  const handleNodePositionsChange = (updatedNodes: Node[]) => {
-    if (!currentPlanId) return; // Only save if we have a plan ID
+  /** Optimistically move nodes and persist them with a 300ms debounce */
+  const commitNodePositions = (updatedNodes: NodePositionUpdate[]) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
 
     // Update local state optimistically
     setFloorPlan(prevPlan => ({
       ...prevPlan,
       nodes: prevPlan.nodes.map(node => {
         const updated = updatedNodes.find(n => n.id === node.id);
-        return updated || node;
+        return updated ? { ...node, x: updated.x, y: updated.y } : node;
       })
     }));
 
+    // Merge into the pending batch so a quick follow-up move (or undo) doesn't drop this one
+    for (const n of updatedNodes) {
+      pendingNodeUpdatesRef.current.set(n.id, { id: n.id, x: n.x, y: n.y });
+    }
     setHasUnsavedChanges(true);
 
     // Clear existing timer
@@ -475,22 +1154,20 @@ export const EditorLayout: React.FC = () => {
 
     // Start new 300ms debounced auto-save timer
     autoSaveTimerRef.current = window.setTimeout(async () => {
+      const nodeUpdates = Array.from(pendingNodeUpdatesRef.current.values());
+      pendingNodeUpdatesRef.current = new Map();
       setIsSaving(true);
       setError(null);
 
       try {
-        const nodeUpdates: NodePositionUpdate[] = updatedNodes.map(node => ({
-          id: node.id,
-          x: node.x,
-          y: node.y,
-        }));
-
-        const result = await updateFloorPlanNodes(currentPlanId, nodeUpdates);
+        const result = await updateFloorPlanNodes(planId, nodeUpdates);
         const convertedPlan = convertApiToFloorPlan(result);
         
         // Update with server response (includes recalculated edge geometries)
         setFloorPlan(convertedPlan);
+        floorPlanRef.current = convertedPlan;
         setHasUnsavedChanges(false);
+        syncDetectedRooms();
       } catch (err) {
         console.error('Failed to save node positions:', err);
         setError(err instanceof Error ? err.message : 'Failed to save changes');
@@ -504,6 +1181,58 @@ export const EditorLayout: React.FC = () => {
     }, 300); // 300ms delay
   };
 
+  /**
+   * Apply recorded node moves in one direction. Nodes are looked up by ID first,
+   * then by their expected current position in case the backend re-issued IDs.
+   */
+  /** Position updates taking each node to one end of its move, found by ID or else where it stands */
+  const nodeMoveUpdates = (plan: FloorPlan, moves: NodeMove[], direction: 'undo' | 'redo'): NodePositionUpdate[] =>
+    moves.flatMap(m => {
+      const current = direction === 'undo' ? m.to : m.from;
+      const target = direction === 'undo' ? m.from : m.to;
+      const node = plan.nodes.find(n => n.id === m.id) ?? resolveNodeAt(plan, current);
+      return node ? [{ id: node.id, x: target.x, y: target.y }] : [];
+    });
+
+  const replayNodeMoves = async (moves: NodeMove[], direction: 'undo' | 'redo') => {
+    const updates = nodeMoveUpdates(floorPlanRef.current, moves, direction);
+    if (updates.length > 0) commitNodePositions(updates);
+  };
+
+  // Handle node position changes with auto-save
+  const handleNodePositionsChange = (updatedNodes: Node[], previousNodes?: Node[]) => {
+    if (!currentPlanId) return; // Only save if we have a plan ID
+
+    if (previousNodes && !confirmStructural('move', { ...EMPTY_SELECTION, nodeIds: updatedNodes.map(n => n.id) })) {
+      // The canvas already moved the nodes while dragging; put them back
+      setFloorPlan(prev => ({
+        ...prev,
+        nodes: prev.nodes.map(node => {
+          const before = previousNodes.find(n => n.id === node.id);
+          return before ? { ...node, x: before.x, y: before.y } : node;
+        }),
+      }));
+      return;
+    }
+
+    commitNodePositions(updatedNodes);
+
+    if (previousNodes) {
+      const moves = updatedNodes.flatMap(n => {
+        const prev = previousNodes.find(p => p.id === n.id);
+        if (!prev || (prev.x === n.x && prev.y === n.y)) return [];
+        return [{ id: n.id, from: { x: prev.x, y: prev.y }, to: { x: n.x, y: n.y } }];
+      });
+      if (moves.length > 0) {
+        recordCommand(
+          moves.length === 1 ? 'Move node' : `Move ${moves.length} nodes`,
+          () => replayNodeMoves(moves, 'undo'),
+          () => replayNodeMoves(moves, 'redo')
+        );
+      }
+    }
+  };
+
   // Cleanup auto-save timers on unmount
   React.useEffect(() => {
     return () => {
@@ -513,46 +1242,770 @@ export const EditorLayout: React.FC = () => {
       if (wallSaveTimerRef.current !== null) {
         window.clearTimeout(wallSaveTimerRef.current);
       }
+      if (nudgeSaveTimerRef.current !== null) {
+        window.clearTimeout(nudgeSaveTimerRef.current);
+      }
     };
   }, []);
 
   // Keyboard shortcuts for edge selection
   React.useEffect(() => {
+    const hasSelection = selectedEdgeIds.size + selectedNodeIds.size + selectedRoomIds.size + selectedFixtureIds.size > 0;
     const handleKeyDown = (e: KeyboardEvent) => {
       // Delete key: delete selected edges
       if (e.key === 'Delete' && selectedEdgeIds.size > 0 && isEditMode && !isRedesignMode && !isMeasureMode) {
         e.preventDefault();
         handleDeleteSelected();
       }
-      // Escape key: clear selection
-      if (e.key === 'Escape' && selectedEdgeIds.size > 0 && isEditMode && !isRedesignMode && !isMeasureMode) {
-        e.preventDefault();
-        handleClearSelection();
+      // Escape key: clear selection
+      if (e.key === 'Escape' && hasSelection && isEditMode && !isRedesignMode && !isMeasureMode) {
+        e.preventDefault();
+        handleClearSelection();
+      }
+      // H / F: flip hinge side / swing direction of selected doors
+      // (the assets tool uses the same keys for the door being placed)
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (e.ctrlKey || e.metaKey || activeTool === 'assets') return;
+      // Arrow keys: nudge the selection one grid step (ten with Shift)
+      const nudge = ({ ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] } as Record<string, number[]>)[e.key];
+      if (nudge && hasSelection && isEditMode && !isRedesignMode && !isMeasureMode) {
+        e.preventDefault();
+        const step = (grid.enabled ? grid.spacing : (floorPlan.is_calibrated ? 0.1 : 10)) * (e.shiftKey ? 10 : 1);
+        handleSelectionNudge(nudge[0] * step, nudge[1] * step);
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if ((key === 'h' || key === 'f') && selectedEdgeIds.size > 0 && isEditMode && !isRedesignMode && !isMeasureMode) {
+        e.preventDefault();
+        handleDoorChange([...selectedEdgeIds], key === 'h' ? flipDoorHinge : flipDoorSwing);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedEdgeIds, selectedNodeIds, selectedRoomIds, selectedFixtureIds, isEditMode, isRedesignMode, isMeasureMode, activeTool, floorPlan, grid]);
+
+  // ============================================
+  // History replay helpers
+  // ============================================
+
+  /** Install a backend response as the current plan (state + ref, so chained replays see it) */
+  const applyServerPlan = (detail: Parameters<typeof convertApiToFloorPlan>[0]) => {
+    const converted = convertApiToFloorPlan(detail);
+    floorPlanRef.current = converted;
+    setFloorPlan(converted);
+  };
+
+  const captureEdgeRefs = (edgeIds: Iterable<string>): EdgeRef[] => {
+    const ids = new Set(edgeIds);
+    return floorPlan.edges
+      .filter(e => ids.has(e.id))
+      .map(e => toEdgeRef(e, floorPlan.nodes))
+      .filter((r): r is EdgeRef => r !== null);
+  };
+
+  const newEdgeToRef = (ed: NewEdgeData): EdgeRef => ({
+    from: { x: ed.from_node.x, y: ed.from_node.y },
+    to: { x: ed.to_node.x, y: ed.to_node.y },
+    type: ed.edge_type as Edge['type'],
+    thickness: ed.thickness,
+    is_inner: ed.is_inner,
+    properties: ed.properties,
+    fromId: ed.from_node.id,
+    toId: ed.to_node.id,
+  });
+
+  const describeEdges = (verb: string, refs: EdgeRef[]) =>
+    refs.length === 1 ? `${verb} ${refs[0].type}` : `${verb} ${refs.length} edges`;
+
+  /** Delete the edges matching the given snapshots */
+  const deleteEdgesByRef = async (refs: EdgeRef[]) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    const ids = refs
+      .map(ref => resolveEdgeRef(floorPlanRef.current, ref)?.id)
+      .filter((id): id is string => !!id);
+    if (ids.length === 0) return;
+    applyServerPlan(await deleteEdges(planId, ids));
+  };
+
+  /** Recreate edges from snapshots (inverse of a delete) */
+  const recreateEdges = async (refs: EdgeRef[]) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId || refs.length === 0) return;
+    const plan = floorPlanRef.current;
+    // Endpoints shared by several snapshots must resolve to the same new node
+    const assigned = new Map<string, string>();
+    const endpoint = (pt: Point, originalId: string) => {
+      const existing = resolveNodeAt(plan, pt);
+      if (existing) return { id: existing.id, x: pt.x, y: pt.y };
+      const key = `${pt.x},${pt.y}`;
+      if (!assigned.has(key)) {
+        const idTaken = plan.nodes.some(n => n.id === originalId);
+        assigned.set(key, idTaken ? crypto.randomUUID() : originalId);
+      }
+      return { id: assigned.get(key)!, x: pt.x, y: pt.y };
+    };
+    let result = await createEdges(planId, refs.map(ref => ({
+      from_node: endpoint(ref.from, ref.fromId),
+      to_node: endpoint(ref.to, ref.toId),
+      edge_type: ref.type,
+      thickness: ref.thickness,
+      is_inner: ref.is_inner ?? true,
+      properties: ref.properties,
+    })));
+    // Shift isn't part of the create payload — restore it separately
+    const restored = convertApiToFloorPlan(result);
+    const shiftUpdates: EdgePropertyUpdate[] = refs.flatMap(ref => {
+      if (!ref.shift) return [];
+      const edge = resolveEdgeRef(restored, ref);
+      return edge ? [{ id: edge.id, shift: ref.shift }] : [];
+    });
+    if (shiftUpdates.length > 0) result = await updateEdges(planId, shiftUpdates);
+    applyServerPlan(result);
+  };
+
+  /** Record an edge property change (thickness / shift) so it can be undone */
+  const recordEdgeUpdates = (label: string, updates: EdgePropertyUpdate[]) => {
+    const defaultThick = floorPlan.is_calibrated ? 0.2 : 16;
+    const entries = updates.flatMap(u => {
+      const edge = floorPlan.edges.find(e => e.id === u.id);
+      const ref = edge ? toEdgeRef(edge, floorPlan.nodes) : null;
+      if (!edge || !ref) return [];
+      const before: Omit<EdgePropertyUpdate, 'id'> = {
+        ...(u.thickness !== undefined ? { thickness: edge.thickness ?? defaultThick } : {}),
+        ...(u.shift !== undefined ? { shift: edge.shift ?? 0 } : {}),
+        ...(u.properties !== undefined ? { properties: edge.properties ?? {} } : {}),
+      };
+      const after: Omit<EdgePropertyUpdate, 'id'> = {
+        ...(u.thickness !== undefined ? { thickness: u.thickness } : {}),
+        ...(u.shift !== undefined ? { shift: u.shift } : {}),
+        ...(u.properties !== undefined ? { properties: u.properties } : {}),
+      };
+      return [{ ref, before, after }];
+    });
+    if (entries.length === 0) return;
+    const apply = async (which: 'before' | 'after') => {
+      const planId = currentPlanIdRef.current;
+      if (!planId) return;
+      const resolved: EdgePropertyUpdate[] = entries.flatMap(en => {
+        const edge = resolveEdgeRef(floorPlanRef.current, en.ref);
+        return edge ? [{ id: edge.id, ...en[which] }] : [];
+      });
+      if (resolved.length === 0) return;
+      applyServerPlan(await updateEdges(planId, resolved));
+    };
+    recordCommand(label, () => apply('before'), () => apply('after'));
+  };
+
+  const handleUndo = async () => {
+    if (replayingHistoryRef.current) return;
+    const { command, state } = takeUndo(historyRef.current);
+    if (!command) return;
+    replayingHistoryRef.current = true;
+    setIsReplayingHistory(true);
+    setHistory(state);
+    historyRef.current = state;
+    handleClearSelection();
+    try {
+      await command.undo();
+      setError(null);
+    } catch (err) {
+      console.error(`Failed to undo "${command.label}":`, err);
+      setError(err instanceof Error ? err.message : 'Undo failed');
+    } finally {
+      replayingHistoryRef.current = false;
+      setIsReplayingHistory(false);
+    }
+  };
+
+  const handleRedo = async () => {
+    if (replayingHistoryRef.current) return;
+    const { command, state } = takeRedo(historyRef.current);
+    if (!command) return;
+    replayingHistoryRef.current = true;
+    setIsReplayingHistory(true);
+    setHistory(state);
+    historyRef.current = state;
+    handleClearSelection();
+    try {
+      await command.redo();
+      setError(null);
+    } catch (err) {
+      console.error(`Failed to redo "${command.label}":`, err);
+      setError(err instanceof Error ? err.message : 'Redo failed');
+    } finally {
+      replayingHistoryRef.current = false;
+      setIsReplayingHistory(false);
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) for undo / redo; Ctrl+C / X / V for the clipboard
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!isEditMode || isRedesignMode || isMeasureMode) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'c' || key === 'x') {
+        // Copy / cut the selection as a plan fragment
+        if (selectionSize(currentSelection()) === 0) return;
+        e.preventDefault();
+        if (key === 'c') handleCopy();
+        else handleCut();
+      } else if (key === 'v') {
+        e.preventDefault();
+        handlePaste();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, isEditMode, isRedesignMode, isMeasureMode, floorPlan, selectedEdgeIds, selectedNodeIds, selectedRoomIds, selectedFixtureIds]);
+
+  // Selection handlers: a plain edge click replaces any mixed selection
+  const handleSelectionChange = (selection: PlanSelection) => {
+    setSelectedEdgeIds(new Set(selection.edgeIds));
+    setSelectedNodeIds(new Set(selection.nodeIds));
+    setSelectedRoomIds(new Set(selection.roomIds));
+    setSelectedFixtureIds(new Set(selection.fixtureIds));
+    if (selectionSize(selection) > 0) {
+      setSelectedRoomId(null);
+      setSelectedAnnotationId(null);
+    }
+  };
+
+  const handleSelectedEdgesChange = (edgeIds: string[]) => {
+    handleSelectionChange({ ...EMPTY_SELECTION, edgeIds });
+  };
+
+  const handleClearSelection = () => {
+    handleSelectionChange(EMPTY_SELECTION);
+  };
+
+  const currentSelection = (): PlanSelection => ({
+    nodeIds: Array.from(selectedNodeIds),
+    edgeIds: Array.from(selectedEdgeIds),
+    roomIds: Array.from(selectedRoomIds),
+    fixtureIds: Array.from(selectedFixtureIds),
+  });
+
+  /** Ask before deleting, moving or changing structural walls or columns; true to go ahead */
+  const confirmStructural = (action: 'delete' | 'move' | 'change', selection: PlanSelection): boolean => {
+    const message = structuralWarning(action, structuralInSelection(floorPlanRef.current, selection));
+    return !message || window.confirm(message);
+  };
+
+  /**
+   * Persist a selection transform in one direction: every node in a single
+   * updateFloorPlanNodes call, then rooms and fixtures. Items are looked up by
+   * ID first, then by their expected current shape.
+   */
+  const replaySelectionMoves = async (moves: SelectionMoves, direction: 'undo' | 'redo') => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    const pick = <T,>(m: { from: T; to: T }) => direction === 'undo' ? [m.to, m.from] : [m.from, m.to];
+
+    const updates: NodePositionUpdate[] = [];
+    for (const m of moves.nodes) {
+      const [current, target] = pick(m);
+      const node = floorPlanRef.current.nodes.find(n => n.id === m.id) ?? resolveNodeAt(floorPlanRef.current, current);
+      if (node) updates.push({ id: node.id, x: target.x, y: target.y });
+    }
+    if (updates.length > 0) applyServerPlan(await updateFloorPlanNodes(planId, updates));
+
+    for (const m of moves.rooms) {
+      const [current, target] = pick(m);
+      const room = floorPlanRef.current.rooms?.find(r => r.id === m.id) ?? resolveRoomRef(floorPlanRef.current, current);
+      if (room) applyServerPlan(await updateRoom(planId, room.id, { polygon_coords: target }));
+    }
+    for (const m of moves.fixtures) {
+      const [current, target] = pick(m);
+      const fixture = floorPlanRef.current.fixtures?.find(f => f.id === m.id)
+        ?? resolveFixtureRef(floorPlanRef.current, fixturePolygon(current));
+      if (!fixture) continue;
+      applyServerPlan(await updateFixture(planId, fixture.id, {
+        polygon_coords: fixturePolygon(target),
+        properties: fixtureProperties(target, fixture.properties),
+      }));
+    }
+    syncDetectedRooms();
+  };
+
+  /** Transform the selection, with the constrained walls hanging off it following in the same request */
+  const selectionMovesFor = (plan: FloorPlan, transform: SelectionTransform): SelectionMoves => {
+    const moves = transformSelection(plan, currentSelection(), transform);
+    const positions = new Map(plan.nodes.map(n => [n.id, { x: n.x, y: n.y }] as [string, Point]));
+    moves.nodes.forEach(m => positions.set(m.id, m.to));
+    const followers = solveConstraints(positions, plan.edges, new Set(moves.nodes.map(m => m.id)));
+    for (const n of plan.nodes) {
+      if (followers.has(n.id) && !moves.nodes.some(m => m.id === n.id)) {
+        moves.nodes.push({ id: n.id, from: { x: n.x, y: n.y }, to: positions.get(n.id)! });
+      }
+    }
+    return moves;
+  };
+
+  /** Move, rotate or mirror everything selected as one undoable edit */
+  const handleSelectionTransform = async (transform: SelectionTransform) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    // A drag right after arrow-key nudges must not be overtaken by their save
+    await flushNudge();
+    const plan = floorPlanRef.current;
+    const moves = selectionMovesFor(plan, transform);
+    if (moves.nodes.length + moves.rooms.length + moves.fixtures.length === 0) return;
+    if (!confirmStructural('move', { ...currentSelection(), nodeIds: moves.nodes.map(m => m.id) })) {
+      // Redraw to drop the canvas's drag preview
+      setFloorPlan(prev => ({ ...prev }));
+      return;
+    }
+
+    const label = transform.kind === 'translate' ? 'Move selection'
+      : transform.kind === 'rotate' ? 'Rotate selection' : 'Mirror selection';
+    // Optimistic update so the selection doesn't jump back while saving
+    setFloorPlan(prev => applySelectionMoves(prev, moves));
+    setIsSaving(true);
+    setError(null);
+    try {
+      await replaySelectionMoves(moves, 'redo');
+      recordCommand(label, () => replaySelectionMoves(moves, 'undo'), () => replaySelectionMoves(moves, 'redo'));
+    } catch (err) {
+      console.error('Failed to transform selection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to transform selection');
+      getFloorPlan(planId).then(applyServerPlan).catch(() => setFloorPlan(plan));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Save the pending arrow-key nudge now instead of after the debounce */
+  const flushNudge = async () => {
+    if (nudgeSaveTimerRef.current !== null) {
+      window.clearTimeout(nudgeSaveTimerRef.current);
+      nudgeSaveTimerRef.current = null;
+    }
+    const batch = pendingNudgeRef.current;
+    const planId = currentPlanIdRef.current;
+    pendingNudgeRef.current = null;
+    if (!batch || !planId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await replaySelectionMoves(batch.moves, 'redo');
+      setHasUnsavedChanges(false);
+    } catch (err) {
+      console.error('Failed to move selection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to move selection');
+      getFloorPlan(planId).then(applyServerPlan).catch(() => {});
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Move the selection one arrow-key step. Holding the key moves the same
+   * selection again and again; those steps make one undoable move, saved
+   * 300ms after the last one.
+   */
+  const handleSelectionNudge = (dx: number, dy: number) => {
+    if (!currentPlanIdRef.current) return;
+    const selection = currentSelection();
+    const key = [selection.nodeIds, selection.edgeIds, selection.roomIds, selection.fixtureIds]
+      .map(ids => [...ids].sort().join(','))
+      .join('|');
+    if (pendingNudgeRef.current && pendingNudgeRef.current.key !== key) flushNudge();
+
+    const plan = floorPlanRef.current;
+    const step = selectionMovesFor(plan, { kind: 'translate', dx, dy });
+    if (step.nodes.length + step.rooms.length + step.fixtures.length === 0) return;
+    const pending = pendingNudgeRef.current;
+    // Asked once per held key, not on every step
+    if (!pending && !confirmStructural('move', { ...selection, nodeIds: step.nodes.map(m => m.id) })) return;
+
+    floorPlanRef.current = applySelectionMoves(plan, step);
+    setFloorPlan(prev => applySelectionMoves(prev, step));
+    setHasUnsavedChanges(true);
+    if (pending) {
+      pending.moves = mergeSelectionMoves(pending.moves, step);
+    } else {
+      const batch = { key, moves: step };
+      pendingNudgeRef.current = batch;
+      recordCommand(
+        'Move selection',
+        async () => {
+          await flushNudge();
+          await replaySelectionMoves(batch.moves, 'undo');
+        },
+        () => replaySelectionMoves(batch.moves, 'redo')
+      );
+    }
+
+    if (nudgeSaveTimerRef.current !== null) {
+      window.clearTimeout(nudgeSaveTimerRef.current);
+    }
+    nudgeSaveTimerRef.current = window.setTimeout(() => {
+      nudgeSaveTimerRef.current = null;
+      flushNudge();
+    }, 300);
+  };
+
+  // ============================================
+  // Clipboard
+  // ============================================
+
+  /** Copy the selection to the system clipboard as JSON (and keep it locally) */
+  const handleCopy = async (): Promise<PlanFragment | null> => {
+    const fragment = copyFragment(floorPlanRef.current, currentSelection());
+    if (!fragment) return null;
+    const text = serializeFragment(fragment);
+    clipboardFallbackRef.current = text;
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.error('Failed to write to the clipboard:', err);
+    }
+    return fragment;
+  };
+
+  /** Copy the selection, then delete its edges, rooms and fixtures as one edit */
+  const handleCut = async () => {
+    const planId = currentPlanIdRef.current;
+    const plan = floorPlanRef.current;
+    const selection = currentSelection();
+    if (!planId || !confirmStructural('delete', selection) || !(await handleCopy())) return;
+
+    const edgeIds = fragmentEdgeIds(plan, selection);
+    const edgeRefs = captureEdgeRefs(edgeIds);
+    const rooms = (plan.rooms ?? []).filter(r => selectedRoomIds.has(r.id));
+    const fixtures = (plan.fixtures ?? []).filter(f => selectedFixtureIds.has(f.id));
+    const roomSnapshots = rooms.map(r => ({ coords: r.polygon_coords, tags: r.tags, properties: r.properties }));
+    const fixtureSnapshots = fixtures.map(f => ({ fixtureType: f.fixture_type, frame: getFixtureFrame(f), properties: f.properties ?? {} }));
+    const count = edgeRefs.length + rooms.length + fixtures.length;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (edgeIds.length > 0) applyServerPlan(await deleteEdges(planId, edgeIds));
+      for (const r of rooms) applyServerPlan(await deleteRoom(planId, r.id));
+      for (const f of fixtures) applyServerPlan(await deleteFixture(planId, f.id));
+      syncDetectedRooms();
+      handleClearSelection();
+      recordCommand(
+        `Cut ${count} item${count === 1 ? '' : 's'}`,
+        async () => {
+          await recreateEdges(edgeRefs);
+          for (const r of roomSnapshots) await createRoomAt(r.coords, r.tags, r.properties);
+          for (const f of fixtureSnapshots) await createFixtureAt(f.fixtureType, f.frame, f.properties);
+          syncDetectedRooms();
+        },
+        async () => {
+          await deleteEdgesByRef(edgeRefs);
+          for (const r of roomSnapshots) await deleteRoomAt(r.coords);
+          for (const f of fixtureSnapshots) await deleteFixtureAt(f.frame);
+          syncDetectedRooms();
+        }
+      );
+    } catch (err) {
+      console.error('Failed to cut selection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cut selection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Read a fragment from the clipboard; it follows the cursor until a click places it */
+  const handlePaste = async () => {
+    let text = '';
+    try {
+      text = await navigator.clipboard.readText();
+    } catch (err) {
+      console.error('Failed to read the clipboard:', err);
+    }
+    const fragment = parseFragment(text) ?? parseFragment(clipboardFallbackRef.current ?? '');
+    if (!fragment) return;
+    handleClearSelection();
+    // Fragments copied from a plan with the other calibration are rescaled
+    setPasteFragment(fragmentForPlan(fragment, floorPlanRef.current.is_calibrated ?? false));
+  };
+
+  /** Create the pasted fragment with its centre at `at`, then select it */
+  const handlePastePlace = async (at: Point) => {
+    if (!pasteFragment) return;
+    const placed = placeFragment(pasteFragment, at);
+    const count = fragmentSize(pasteFragment);
+    setPasteFragment(null);
+
+    const create = async () => {
+      await recreateEdges(placed.edges);
+      for (const r of placed.rooms) await createRoomAt(r.polygon_coords, r.tags, manualRoomProperties({}));
+      for (const f of placed.fixtures) await createFixtureAt(f.fixture_type, f.frame, f.properties);
+      syncDetectedRooms();
+    };
+    const remove = async () => {
+      await deleteEdgesByRef(placed.edges);
+      for (const r of placed.rooms) await deleteRoomAt(r.polygon_coords);
+      for (const f of placed.fixtures) await deleteFixtureAt(f.frame);
+      syncDetectedRooms();
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await ensurePlanId();
+      await create();
+      const plan = floorPlanRef.current;
+      handleSelectionChange({
+        nodeIds: [],
+        edgeIds: placed.edges.flatMap(ref => resolveEdgeRef(plan, ref)?.id ?? []),
+        roomIds: placed.rooms.flatMap(r => resolveRoomRef(plan, r.polygon_coords)?.id ?? []),
+        fixtureIds: placed.fixtures.flatMap(f => resolveFixtureRef(plan, fixturePolygon(f.frame))?.id ?? []),
+      });
+      recordCommand(`Paste ${count} item${count === 1 ? '' : 's'}`, remove, create);
+    } catch (err) {
+      console.error('Failed to paste:', err);
+      setError(err instanceof Error ? err.message : 'Failed to paste');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Show, hide, lock or rename layers. This is view state, so it is saved with
+   * the plan but not recorded in the history. Anything selected on a layer
+   * that just became hidden or locked is deselected.
+   */
+  const handleLayersChange = async (layers: PlanLayers) => {
+    const plan = { ...floorPlanRef.current, layers };
+    floorPlanRef.current = plan;
+    setFloorPlan(prev => ({ ...prev, layers }));
+    handleSelectionChange(interactiveSelection(plan, currentSelection()));
+    const view = planLayerView(plan);
+    const room = plan.rooms?.find(r => r.id === selectedRoomId);
+    if (room && !isInteractive(view.room(room))) setSelectedRoomId(null);
+    const fixture = plan.fixtures?.find(f => f.id === selectedFixtureId);
+    if (fixture && !isInteractive(view.fixture(fixture))) setSelectedFixtureId(null);
+    const annotation = plan.annotations?.find(a => a.id === selectedAnnotationId);
+    if (annotation && !isInteractive(view.annotation(annotation))) setSelectedAnnotationId(null);
+
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    try {
+      await updateFloorPlanSettings(planId, { layers });
+      setError(null);
+    } catch (err) {
+      console.error('Failed to save layers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save layers');
+    }
+  };
+
+  /**
+   * Show an underlay change at once and save it with the plan 300ms after the
+   * last one. Like layers, the underlay is not part of the undo history.
+   */
+  const handleUnderlayChange = (underlay: Underlay | null) => {
+    floorPlanRef.current = { ...floorPlanRef.current, underlay };
+    setFloorPlan(prev => ({ ...prev, underlay }));
+    if (!underlay) setIsAligningUnderlay(false);
+
+    const planIdAtChange = currentPlanIdRef.current;
+    if (underlaySaveTimerRef.current !== null) {
+      window.clearTimeout(underlaySaveTimerRef.current);
+    }
+    underlaySaveTimerRef.current = window.setTimeout(async () => {
+      underlaySaveTimerRef.current = null;
+      try {
+        await updateFloorPlanSettings(planIdAtChange ?? await ensurePlanId(), { underlay });
+        setError(null);
+      } catch (err) {
+        console.error('Failed to save underlay:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save underlay');
+      }
+    }, 300);
+  };
+
+  /** Upload the image once; the saved underlay only refers to it */
+  const handleUnderlayFile = async (file: File) => {
+    try {
+      const size = await readImageSize(file);
+      const src = await uploadPlanImage(await ensurePlanId(), file);
+      handleUnderlayChange(placeUnderlay({ src, ...size }, floorPlanRef.current, false));
+    } catch (err) {
+      console.error('Failed to load underlay:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load image');
+    }
+  };
+
+  const handleUnderlayAlign = (from: Point[], to: Point[]) => {
+    setIsAligningUnderlay(false);
+    const underlay = floorPlanRef.current.underlay;
+    if (underlay) handleUnderlayChange(alignUnderlay(underlay, from, to));
+  };
+
+  /**
+   * Put the selected walls, openings and fixtures, or the selected
+   * annotation, on a user layer (null takes them off their user layer).
+   * Rooms are regenerated from the walls, so they only have the built-in layer.
+   */
+  const handleAssignLayer = async (layerId: string | null) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    const edges = floorPlan.edges.filter(e => selectedEdgeIds.has(e.id) && getLayerId(e) !== layerId);
+    const fixtures = (floorPlan.fixtures ?? []).filter(f => selectedFixtureIds.has(f.id) && getLayerId(f) !== layerId);
+    const annotation = floorPlan.annotations?.find(a => a.id === selectedAnnotationId && getLayerId(a) !== layerId);
+    const count = edges.length + fixtures.length + (annotation ? 1 : 0);
+    if (count === 0) return;
+
+    const edgeEntries = edges.flatMap(edge => {
+      const ref = toEdgeRef(edge, floorPlan.nodes);
+      return ref ? [{ ref, before: edge.properties ?? {}, after: withLayerId(edge.properties, layerId) }] : [];
+    });
+    const fixtureEntries = fixtures.map(f => ({ coords: f.polygon_coords, before: getLayerId(f) }));
+    const annotationEntry = annotation && {
+      type: annotation.annotation_type,
+      before: annotation.properties,
+      after: withLayerId(annotation.properties, layerId),
+    };
+
+    const apply = async (which: 'before' | 'after') => {
+      const planId = currentPlanIdRef.current;
+      if (!planId) return;
+      const updates: EdgePropertyUpdate[] = edgeEntries.flatMap(en => {
+        const edge = resolveEdgeRef(floorPlanRef.current, en.ref);
+        return edge ? [{ id: edge.id, properties: en[which] }] : [];
+      });
+      if (updates.length > 0) applyServerPlan(await updateEdges(planId, updates));
+      for (const en of fixtureEntries) {
+        const fixture = resolveFixtureRef(floorPlanRef.current, en.coords);
+        if (!fixture) continue;
+        const target = which === 'after' ? layerId : en.before;
+        applyServerPlan(await updateFixture(planId, fixture.id, { properties: withLayerId(fixture.properties, target) }));
+      }
+      if (annotationEntry) {
+        const [from, to] = which === 'after'
+          ? [annotationEntry.before, annotationEntry.after]
+          : [annotationEntry.after, annotationEntry.before];
+        await updateAnnotationLike(annotationEntry.type, from, to);
       }
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedEdgeIds, isEditMode, isRedesignMode, isMeasureMode]);
-
-  // Edge selection handlers
-  const handleSelectedEdgesChange = (edgeIds: string[]) => {
-    setSelectedEdgeIds(new Set(edgeIds));
+    const name = layerId ? floorPlan.layers?.user.find(l => l.id === layerId)?.name : null;
+    const items = `${count} item${count === 1 ? '' : 's'}`;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apply('after');
+      recordCommand(
+        name ? `Move ${items} to ${name}` : `Remove ${items} from layer`,
+        () => apply('before'),
+        () => apply('after')
+      );
+    } catch (err) {
+      console.error('Failed to change layer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change layer');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleClearSelection = () => {
-    setSelectedEdgeIds(new Set());
+  /**
+   * Patch the properties of the edges and fixtures in the element inspector.
+   * Each element is undone with its own inverse patch, so keys the change
+   * didn't touch keep whatever they have by then.
+   */
+  const handlePropertiesChange = async (change: PropertiesChange) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+    const edges = floorPlan.edges.filter(e => selectedEdgeIds.has(e.id));
+    const fixtures = (floorPlan.fixtures ?? []).filter(f => selectedFixtureIds.has(f.id) || f.id === selectedFixtureId);
+    if (edges.length + fixtures.length === 0) return;
+    const keys = [...Object.keys(change.set ?? {}), ...(change.unset ?? [])];
+    // The structural flag and constraints are what protect a load-bearing wall
+    const touchesStructure = keys.includes('structural') || keys.includes('constraints');
+    if (touchesStructure && !confirmStructural('change', { ...EMPTY_SELECTION, edgeIds: edges.map(e => e.id) })) return;
+
+    // New constraints pull the walls into line; those moves are saved and undone with the change
+    const plan = floorPlan;
+    const nextEdges = plan.edges.map(e => edges.some(s => s.id === e.id) ? { ...e, properties: applyPropertiesChange(e.properties, change) } : e);
+    const { moves, positions } = keys.includes('constraints')
+      ? solveConstraintMoves(nextEdges)
+      : { moves: [], positions: new Map<string, Point>() };
+
+    const edgeEntries = edges.flatMap(edge => {
+      const ref = toEdgeRef(edge, plan.nodes);
+      return ref ? [{ ref, movedRef: movedEdgeRef(ref, edge, positions), before: invertPropertiesChange(edge.properties, change) }] : [];
+    });
+    // Fixtures are found again by their polygon, which a properties change leaves alone
+    const fixtureEntries = fixtures.map(f => ({ coords: f.polygon_coords, before: invertPropertiesChange(f.properties, change) }));
+
+    const apply = async (which: 'before' | 'after') => {
+      const planId = currentPlanIdRef.current;
+      if (!planId) return;
+      const current = floorPlanRef.current;
+      const patch = (id: string, en: { before: PropertiesChange }): PropertiesPatch =>
+        ({ id, ...(which === 'after' ? change : en.before) });
+      const edgePatches = edgeEntries.flatMap(en => {
+        const edge = resolveEdgeRef(current, which === 'after' ? en.ref : en.movedRef);
+        return edge ? [patch(edge.id, en)] : [];
+      });
+      const fixturePatches = fixtureEntries.flatMap(en => {
+        const fixture = resolveFixtureRef(current, en.coords);
+        return fixture ? [patch(fixture.id, en)] : [];
+      });
+      const nodeUpdates = nodeMoveUpdates(current, moves, which === 'after' ? 'redo' : 'undo');
+      let result: FloorPlanDetail | null = null;
+      if (edgePatches.length + fixturePatches.length > 0) {
+        result = await patchProperties(planId, { edges: edgePatches, fixtures: fixturePatches });
+      }
+      if (nodeUpdates.length > 0) result = await updateFloorPlanNodes(planId, nodeUpdates);
+      if (result) applyServerPlan(result);
+    };
+
+    const label = keys.length === 1
+      ? `${change.unset?.length ? 'Remove' : 'Set'} ${keys[0]}`
+      : 'Edit properties';
+    // Show the change straight away; the server's answer replaces it
+    setFloorPlan(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => positions.has(n.id) ? { ...n, ...positions.get(n.id)! } : n),
+      edges: nextEdges,
+      fixtures: prev.fixtures?.map(f => fixtures.some(s => s.id === f.id) ? { ...f, properties: applyPropertiesChange(f.properties, change) } : f),
+    }));
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apply('after');
+      recordCommand(label, () => apply('before'), () => apply('after'));
+    } catch (err) {
+      console.error('Failed to update properties:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update properties');
+      // Drop the optimistic values the server turned down
+      getFloorPlan(planId).then(applyServerPlan).catch(() => setFloorPlan(plan));
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleDeleteSelected = async () => {
     if (selectedEdgeIds.size === 0 || !currentPlanId) return;
+    if (!confirmStructural('delete', { ...EMPTY_SELECTION, edgeIds: Array.from(selectedEdgeIds) })) return;
 
+    const refs = captureEdgeRefs(selectedEdgeIds);
     try {
       const updatedPlan = await deleteEdges(currentPlanId, Array.from(selectedEdgeIds));
-      const convertedPlan = convertApiToFloorPlan(updatedPlan);
-      setFloorPlan(convertedPlan);
-      setSelectedEdgeIds(new Set());
+      applyServerPlan(updatedPlan);
+      syncDetectedRooms();
+      handleClearSelection();
       setError(null);
+      recordCommand(describeEdges('Delete', refs), () => recreateEdges(refs), () => deleteEdgesByRef(refs));
     } catch (err) {
       console.error('Failed to delete edges:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete edges');
@@ -562,12 +2015,33 @@ export const EditorLayout: React.FC = () => {
   const handleMergeSelected = async () => {
     if (selectedEdgeIds.size < 2 || !currentPlanId) return;
 
+    const refs = captureEdgeRefs(selectedEdgeIds);
+    const priorIds = new Set(floorPlan.edges.map(e => e.id));
     try {
       const updatedPlan = await mergeEdges(currentPlanId, Array.from(selectedEdgeIds));
       const convertedPlan = convertApiToFloorPlan(updatedPlan);
       setFloorPlan(convertedPlan);
-      setSelectedEdgeIds(new Set());
+      handleClearSelection();
       setError(null);
+      const mergedRefs = convertedPlan.edges
+        .filter(e => !priorIds.has(e.id))
+        .map(e => toEdgeRef(e, convertedPlan.nodes))
+        .filter((r): r is EdgeRef => r !== null);
+      recordCommand(
+        describeEdges('Merge', refs),
+        async () => {
+          await deleteEdgesByRef(mergedRefs);
+          await recreateEdges(refs);
+        },
+        async () => {
+          const planId = currentPlanIdRef.current;
+          const ids = refs
+            .map(ref => resolveEdgeRef(floorPlanRef.current, ref)?.id)
+            .filter((id): id is string => !!id);
+          if (!planId || ids.length < 2) return;
+          applyServerPlan(await mergeEdges(planId, ids));
+        }
+      );
     } catch (err) {
       console.error('Failed to merge edges:', err);
       setError(err instanceof Error ? err.message : 'Failed to merge edges');
@@ -581,6 +2055,7 @@ export const EditorLayout: React.FC = () => {
     const minThick = floorPlan.is_calibrated ? 0.01 : 1;
     const clamped = Math.max(minThick, value);
     const updates: EdgePropertyUpdate[] = selectedEdges.map(edge => ({ id: edge.id, thickness: clamped }));
+    recordEdgeUpdates('Set thickness', updates);
     setFloorPlan(prev => ({
       ...prev,
       edges: prev.edges.map(edge => {
@@ -603,6 +2078,7 @@ export const EditorLayout: React.FC = () => {
     const selectedEdges = floorPlan.edges.filter(e => selectedEdgeIds.has(e.id));
     if (selectedEdges.length === 0) return;
     const updates: EdgePropertyUpdate[] = selectedEdges.map(edge => ({ id: edge.id, shift: value }));
+    recordEdgeUpdates('Set shift', updates);
     setFloorPlan(prev => ({
       ...prev,
       edges: prev.edges.map(edge => {
@@ -637,6 +2113,7 @@ export const EditorLayout: React.FC = () => {
         ? { shift: (edge.shift ?? 0) + delta.shift }
         : {}),
     }));
+    recordEdgeUpdates(delta.thickness !== undefined ? 'Change thickness' : 'Change shift', updates);
 
     // Optimistic update
     setFloorPlan(prev => ({
@@ -663,7 +2140,157 @@ export const EditorLayout: React.FC = () => {
     }
   };
 
-  const handleAssetPlace = async (placement: AssetPlacement) => {
+  /** Replace the hinge/swing/leaf settings of one or more door edges */
+  const handleDoorChange = async (edgeIds: string[], change: (door: DoorProperties) => DoorProperties) => {
+    if (!currentPlanId) return;
+    const doors = floorPlan.edges.filter(e => edgeIds.includes(e.id) && e.type === 'door');
+    if (doors.length === 0) return;
+    const updates: EdgePropertyUpdate[] = doors.map(edge => ({
+      id: edge.id,
+      properties: doorProperties(change(getDoorProperties(edge)), edge.properties),
+    }));
+    const plan = floorPlanRef.current;
+    setFloorPlan(prev => ({
+      ...prev,
+      edges: prev.edges.map(edge => {
+        const u = updates.find(u => u.id === edge.id);
+        return u ? { ...edge, properties: u.properties } : edge;
+      }),
+    }));
+    try {
+      applyServerPlan(await updateEdges(currentPlanId, updates));
+      recordEdgeUpdates(doors.length === 1 ? 'Edit door' : `Edit ${doors.length} doors`, updates);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to update door:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update door');
+      getFloorPlan(currentPlanId).then(applyServerPlan).catch(() => setFloorPlan(plan));
+    }
+  };
+
+  /** Mark walls as load-bearing, or clear the mark */
+  const handleStructuralChange = async (edgeIds: string[], structural: boolean) => {
+    if (!currentPlanId) return;
+    const walls = floorPlan.edges.filter(e => edgeIds.includes(e.id) && e.type === 'wall' && isStructuralWall(e) !== structural);
+    if (walls.length === 0) return;
+    const updates: EdgePropertyUpdate[] = walls.map(edge => ({
+      id: edge.id,
+      properties: structuralProperties(structural, edge.properties),
+    }));
+    const noun = walls.length === 1 ? 'wall' : `${walls.length} walls`;
+    const plan = floorPlanRef.current;
+    setFloorPlan(prev => ({
+      ...prev,
+      edges: prev.edges.map(edge => {
+        const u = updates.find(u => u.id === edge.id);
+        return u ? { ...edge, properties: u.properties } : edge;
+      }),
+    }));
+    try {
+      applyServerPlan(await updateEdges(currentPlanId, updates));
+      recordEdgeUpdates(structural ? `Mark ${noun} structural` : `Unmark ${noun} structural`, updates);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to update walls:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update walls');
+      getFloorPlan(currentPlanId).then(applyServerPlan).catch(() => setFloorPlan(plan));
+    }
+  };
+
+  /**
+   * Node moves that make every edge constraint hold again once `edges` (the
+   * plan's edges with their new constraints) are saved. They are sent and
+   * undone together with the constraint change, not as a node move of their own.
+   */
+  const solveConstraintMoves = (edges: Edge[]): { moves: NodeMove[]; positions: Map<string, Point> } => {
+    const nodes = floorPlanRef.current.nodes;
+    const positions = new Map(nodes.map(n => [n.id, { x: n.x, y: n.y }] as [string, Point]));
+    solveConstraints(positions, edges, new Set());
+    const moves = nodes.flatMap(n => {
+      const p = positions.get(n.id)!;
+      return Math.abs(p.x - n.x) > 1e-9 || Math.abs(p.y - n.y) > 1e-9 ? [{ id: n.id, from: { x: n.x, y: n.y }, to: p }] : [];
+    });
+    return { moves, positions };
+  };
+
+  /** `ref` with its endpoints where `positions` puts the edge's nodes */
+  const movedEdgeRef = (ref: EdgeRef, edge: Edge, positions: Map<string, Point>): EdgeRef =>
+    ({ ...ref, from: positions.get(edge.source) ?? ref.from, to: positions.get(edge.target) ?? ref.to });
+
+  /** Replace the constraint lists of the given edges, then pull the geometry into line */
+  const handleEdgeConstraintsChange = async (label: string, changes: Map<string, EdgeConstraint[]>) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId || changes.size === 0) return;
+    const plan = floorPlanRef.current;
+    const edges = plan.edges.map(edge =>
+      changes.has(edge.id) ? { ...edge, properties: constraintProperties(changes.get(edge.id)!, edge.properties) } : edge);
+    const { moves, positions } = solveConstraintMoves(edges);
+    // Redo finds each edge where it stands now, undo where the moves left it
+    const entries = plan.edges.filter(e => changes.has(e.id)).flatMap(edge => {
+      const ref = toEdgeRef(edge, plan.nodes);
+      if (!ref) return [];
+      return [{
+        ref,
+        movedRef: movedEdgeRef(ref, edge, positions),
+        before: edge.properties ?? {},
+        after: constraintProperties(changes.get(edge.id)!, edge.properties),
+      }];
+    });
+    if (entries.length === 0) return;
+
+    const apply = async (direction: 'undo' | 'redo') => {
+      const planId = currentPlanIdRef.current;
+      if (!planId) return;
+      const current = floorPlanRef.current;
+      const updates: EdgePropertyUpdate[] = entries.flatMap(en => {
+        const edge = resolveEdgeRef(current, direction === 'undo' ? en.movedRef : en.ref);
+        return edge ? [{ id: edge.id, properties: direction === 'undo' ? en.before : en.after }] : [];
+      });
+      const nodeUpdates = nodeMoveUpdates(current, moves, direction);
+      // Only the last answer is shown, so the plan doesn't flicker between the two saves
+      let result: FloorPlanDetail | null = null;
+      if (updates.length > 0) result = await updateEdges(planId, updates);
+      if (nodeUpdates.length > 0) result = await updateFloorPlanNodes(planId, nodeUpdates);
+      if (result) applyServerPlan(result);
+    };
+
+    setFloorPlan(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => positions.has(n.id) ? { ...n, ...positions.get(n.id)! } : n),
+      edges: prev.edges.map(e => edges.find(u => u.id === e.id) ?? e),
+    }));
+    setIsSaving(true);
+    setError(null);
+    try {
+      await apply('redo');
+      recordCommand(label, () => apply('undo'), () => apply('redo'));
+    } catch (err) {
+      console.error('Failed to update constraints:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update constraints');
+      getFloorPlan(planId).then(applyServerPlan).catch(() => setFloorPlan(plan));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Square up: constrain walls that are already nearly horizontal, vertical or at right angles */
+  const handleInferConstraints = () => {
+    const inferred = inferConstraints(floorPlan.nodes, floorPlan.edges);
+    handleEdgeConstraintsChange(
+      inferred.size === 1 ? 'Infer constraint' : `Infer ${inferred.size} constraints`,
+      inferred,
+    );
+  };
+
+  /**
+   * Split a wall around an asset and persist the pieces.
+   * Returns the created edge payloads, or null when nothing was persisted.
+   */
+  const placeAsset = async (
+    placement: AssetPlacement,
+    type: AssetType,
+    options: { door: DoorProperties; window: WindowProperties; opening: OpeningProperties },
+  ): Promise<NewEdgeData[] | null> => {
     const { wallEdge, wallSourceNode, wallTargetNode, assetStartPt, assetEndPt } = placement;
 
     const MIN_SEG = 0.001; // data units — skip only truly zero-length wall stubs
@@ -681,6 +2308,13 @@ export const EditorLayout: React.FC = () => {
     const assetStartNode: Node = { id: assetStartId, x: assetStartPt.x, y: assetStartPt.y };
     const assetEndNode: Node   = { id: assetEndId,   x: assetEndPt.x,   y: assetEndPt.y   };
 
+    // The wall pieces keep the wall's structural flag, layer and constraints;
+    // length constraints measured the whole wall, so those are dropped
+    const wallProperties = constraintProperties(
+      getEdgeConstraints(wallEdge).filter(c => c.type !== 'fixed_length' && c.type !== 'equal_length'),
+      wallEdge.properties,
+    );
+
     const newEdgesData: NewEdgeData[] = [];
     if (seg1Len >= MIN_SEG) {
       newEdgesData.push({
@@ -689,15 +2323,20 @@ export const EditorLayout: React.FC = () => {
         edge_type: 'wall',
         thickness: wallEdge.thickness,
         is_inner: wallEdge.is_inner ?? true,
+        properties: wallProperties,
       });
     }
     newEdgesData.push({
       from_node: { id: assetStartId, x: assetStartPt.x, y: assetStartPt.y },
       to_node: { id: assetEndId, x: assetEndPt.x, y: assetEndPt.y },
-      edge_type: assetType,
-      // Doors and windows have a fixed depth of 0.1 m, independent of the host wall thickness
-      thickness: floorPlan.is_calibrated ? 0.1 : 8,
+      edge_type: type,
+      // Openings have a fixed depth of 0.1 m, independent of the host wall thickness;
+      // a half wall carries on the wall it replaces
+      thickness: type === 'half_wall' ? wallEdge.thickness : (floorPlan.is_calibrated ? 0.1 : 8),
       is_inner: wallEdge.is_inner ?? true,
+      properties: type === 'door'
+        ? doorProperties(options.door)
+        : type === 'window' ? windowProperties(options.window) : openingProperties(type, options.opening),
     });
     if (seg2Len >= MIN_SEG) {
       newEdgesData.push({
@@ -706,6 +2345,7 @@ export const EditorLayout: React.FC = () => {
         edge_type: 'wall',
         thickness: wallEdge.thickness,
         is_inner: wallEdge.is_inner ?? true,
+        properties: wallProperties,
       });
     }
 
@@ -724,34 +2364,65 @@ export const EditorLayout: React.FC = () => {
           type: ed.edge_type as Edge['type'],
           thickness: ed.thickness,
           is_inner: ed.is_inner,
+          properties: ed.properties,
         } as Edge))
       ),
     }));
 
-    if (!currentPlanId) return;
+    const planId = currentPlanIdRef.current;
+    if (!planId) return null;
     setIsSaving(true);
     setError(null);
     try {
-      await deleteEdges(currentPlanId, [wallEdge.id]);
-      const result = await createEdges(currentPlanId, newEdgesData);
-      const convertedPlan = convertApiToFloorPlan(result);
-      setFloorPlan(convertedPlan);
+      await deleteEdges(planId, [wallEdge.id]);
+      const result = await createEdges(planId, newEdgesData);
+      applyServerPlan(result);
       setHasUnsavedChanges(false);
+      return newEdgesData;
     } catch (err) {
       console.error('Failed to place asset:', err);
       setError(err instanceof Error ? err.message : 'Failed to place asset');
+      return null;
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleAssetPlace = async (placement: AssetPlacement) => {
+    const type = assetType;
+    const options = { door: assetDoor, window: assetWindow, opening: assetOpening };
+    if (!confirmStructural('delete', { ...EMPTY_SELECTION, edgeIds: [placement.wallEdge.id] })) return;
+    const wallRef = toEdgeRef(placement.wallEdge, floorPlan.nodes);
+    const pieces = await placeAsset(placement, type, options);
+    if (!pieces || !wallRef) return;
+    let pieceRefs = pieces.map(newEdgeToRef);
+    recordCommand(
+      `Place ${OPENING_KINDS.find(k => k.id === type)?.label.toLowerCase() ?? type}`,
+      async () => {
+        await deleteEdgesByRef(pieceRefs);
+        await recreateEdges([wallRef]);
+      },
+      async () => {
+        const plan = floorPlanRef.current;
+        const wall = resolveEdgeRef(plan, wallRef);
+        const src = resolveNodeAt(plan, wallRef.from);
+        const tgt = resolveNodeAt(plan, wallRef.to);
+        if (!wall || !src || !tgt) return;
+        const redone = await placeAsset({ ...placement, wallEdge: wall, wallSourceNode: src, wallTargetNode: tgt }, type, options);
+        if (redone) pieceRefs = redone.map(newEdgeToRef);
+      }
+    );
+  };
+
   const handleEdgeDelete = async (edgeId: string) => {
     if (!currentPlanId) return;
+    if (!confirmStructural('delete', { ...EMPTY_SELECTION, edgeIds: [edgeId] })) return;
 
+    const refs = captureEdgeRefs([edgeId]);
     try {
       const updatedPlan = await deleteEdges(currentPlanId, [edgeId]);
-      const convertedPlan = convertApiToFloorPlan(updatedPlan);
-      setFloorPlan(convertedPlan);
+      applyServerPlan(updatedPlan);
+      syncDetectedRooms();
       // Remove from selection if it was selected
       if (selectedEdgeIds.has(edgeId)) {
         const newSelection = new Set(selectedEdgeIds);
@@ -759,13 +2430,231 @@ export const EditorLayout: React.FC = () => {
         setSelectedEdgeIds(newSelection);
       }
       setError(null);
+      recordCommand(describeEdges('Delete', refs), () => recreateEdges(refs), () => deleteEdgesByRef(refs));
     } catch (err) {
       console.error('Failed to delete edge:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete edge');
     }
   };
 
+  // ============================================
+  // Room tool
+  // ============================================
+
+  /** Create a room and return the ID the backend assigned to it */
+  const createRoomAt = async (coords: [number, number][], tags: string[], properties?: Record<string, any>): Promise<string | null> => {
+    const planId = await ensurePlanId();
+    const before = new Set((floorPlanRef.current.rooms ?? []).map(r => r.id));
+    const result = await createRoom(planId, { polygon_coords: coords, tags, properties });
+    applyServerPlan(result);
+    return result.rooms.find(r => !before.has(r.id))?.id ?? null;
+  };
+
+  /** Delete the room whose polygon matches `coords` */
+  const deleteRoomAt = async (coords: [number, number][]) => {
+    const planId = currentPlanIdRef.current;
+    const room = resolveRoomRef(floorPlanRef.current, coords);
+    if (!planId || !room) return;
+    applyServerPlan(await deleteRoom(planId, room.id));
+  };
+
+  /** Replace the polygon of the room currently shaped `from` with `to` */
+  const reshapeRoomAt = async (from: [number, number][], to: [number, number][]) => {
+    const planId = currentPlanIdRef.current;
+    const room = resolveRoomRef(floorPlanRef.current, from);
+    if (!planId || !room) return;
+    applyServerPlan(await updateRoom(planId, room.id, { polygon_coords: to, properties: manualRoomProperties(room) }));
+  };
+
+  const handleRoomCreate = async (coords: [number, number][]) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const properties = manualRoomProperties({});
+      const roomId = await createRoomAt(coords, [], properties);
+      setSelectedRoomId(roomId);
+      recordCommand(
+        'Add room',
+        () => deleteRoomAt(coords),
+        async () => { await createRoomAt(coords, [], properties); }
+      );
+    } catch (err) {
+      console.error('Failed to create room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create room');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoomUpdate = async (roomId: string, coords: [number, number][], previous: [number, number][]) => {
+    const planId = currentPlanIdRef.current;
+    if (!planId) return;
+
+    // Optimistic update so the handles don't jump back while saving
+    const setRoomCoords = (polygon: [number, number][]) =>
+      setFloorPlan(prev => ({
+        ...prev,
+        rooms: prev.rooms?.map(r => r.id === roomId ? { ...r, polygon_coords: polygon } : r),
+      }));
+    setRoomCoords(coords);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const room = floorPlanRef.current.rooms?.find(r => r.id === roomId);
+      // A reshaped room is the user's from now on, so detection stops rewriting it
+      const properties = room ? manualRoomProperties(room) : undefined;
+      applyServerPlan(await updateRoom(planId, roomId, { polygon_coords: coords, properties }));
+      const label = coords.length > previous.length
+        ? 'Add room vertex'
+        : coords.length < previous.length ? 'Remove room vertex' : 'Reshape room';
+      recordCommand(label, () => reshapeRoomAt(coords, previous), () => reshapeRoomAt(previous, coords));
+    } catch (err) {
+      console.error('Failed to update room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update room');
+      setRoomCoords(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoomDelete = async (roomId: string) => {
+    const planId = currentPlanIdRef.current;
+    const room = floorPlan.rooms?.find(r => r.id === roomId);
+    if (!planId || !room) return;
+
+    try {
+      applyServerPlan(await deleteRoom(planId, roomId));
+      if (selectedRoomId === roomId) setSelectedRoomId(null);
+      setError(null);
+      const { polygon_coords: coords, tags, properties } = room;
+      recordCommand(
+        'Delete room',
+        async () => { await createRoomAt(coords, tags, properties); },
+        () => deleteRoomAt(coords)
+      );
+    } catch (err) {
+      console.error('Failed to delete room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete room');
+    }
+  };
+
+  /** Replace the tags of the room currently shaped like `coords` */
+  const retagRoomAt = async (coords: [number, number][], tags: string[]) => {
+    const planId = currentPlanIdRef.current;
+    const room = resolveRoomRef(floorPlanRef.current, coords);
+    if (!planId || !room) return;
+    applyServerPlan(await updateRoom(planId, room.id, { tags }));
+  };
+
+  const handleRoomTagsChange = async (roomId: string, tags: string[]) => {
+    const planId = currentPlanIdRef.current;
+    const room = floorPlan.rooms?.find(r => r.id === roomId);
+    if (!planId || !room) return;
+
+    const previous = room.tags;
+    const setRoomTags = (next: string[]) =>
+      setFloorPlan(prev => ({
+        ...prev,
+        rooms: prev.rooms?.map(r => r.id === roomId ? { ...r, tags: next } : r),
+      }));
+    setRoomTags(tags);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      applyServerPlan(await updateRoom(planId, roomId, { tags }));
+      const coords = room.polygon_coords;
+      recordCommand('Edit room', () => retagRoomAt(coords, previous), () => retagRoomAt(coords, tags));
+    } catch (err) {
+      console.error('Failed to update room:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update room');
+      setRoomTags(previous);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Re-derive rooms from the current wall graph, show them right away and push
+   * the difference to the backend. Existing rooms keep their ID and tags when
+   * their face only changed shape; rooms drawn or reshaped with the room tool are never
+   * touched.
+   */
+  const syncDetectedRooms = () => {
+    if (!autoDetectRoomsRef.current) return;
+    roomSyncRef.current = roomSyncRef.current.then(async () => {
+      const planId = currentPlanIdRef.current;
+      if (!planId) return;
+      const plan = floorPlanRef.current;
+      const detected = detectRooms(plan, { defaultThickness: plan.is_calibrated ? 0.2 : 10 });
+      const { created, updated, deleted } = diffRooms(plan.rooms ?? [], detected);
+      if (created.length === 0 && updated.length === 0 && deleted.length === 0) return;
+
+      const setRooms = (rooms: FloorPlan['rooms']) => {
+        floorPlanRef.current = { ...floorPlanRef.current, rooms };
+        setFloorPlan(prev => ({ ...prev, rooms }));
+      };
+      setRooms(detected);
+
+      try {
+        let result: FloorPlanDetail | null = null;
+        for (const room of deleted) result = await deleteRoom(planId, room.id);
+        for (const room of updated) result = await updateRoom(planId, room.id, { polygon_coords: room.polygon_coords });
+        for (const room of created) result = await createRoom(planId, { polygon_coords: room.polygon_coords, tags: room.tags, properties: room.properties });
+        // Only take the rooms from the response — node edits may have landed meanwhile
+        if (result) setRooms(convertApiToFloorPlan(result).rooms);
+      } catch (err) {
+        console.error('Failed to sync detected rooms:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save detected rooms');
+      }
+    });
+    // Generated dimensions measure the rooms too, so they follow the room sync
+    syncAutoDimensions();
+  };
+
+  /** Swap the plan's generated dimensions for `next`; returns the last server response */
+  const replaceAutoDimensions = async (planId: string, next: DimensionProperties[]): Promise<FloorPlanDetail | null> => {
+    const { created, deleted } = diffAutoDimensions(floorPlanRef.current, next);
+    let result: FloorPlanDetail | null = null;
+    for (const annotation of deleted) result = await deleteAnnotation(planId, annotation.id);
+    for (const properties of created) result = await createAnnotation(planId, { annotation_type: 'dimension', properties });
+    return result;
+  };
+
+  /** Regenerate Auto-dimension output after geometry edits, once it has been run on the plan */
+  const syncAutoDimensions = () => {
+    roomSyncRef.current = roomSyncRef.current.then(async () => {
+      const planId = currentPlanIdRef.current;
+      const plan = floorPlanRef.current;
+      if (!planId || !(plan.annotations ?? []).some(a => getDimensionProperties(a)?.auto)) return;
+      try {
+        const result = await replaceAutoDimensions(planId, autoDimensions(plan));
+        if (!result) return;
+        // Only take the annotations from the response — node edits may have landed meanwhile
+        const annotations = convertApiToFloorPlan(result).annotations;
+        floorPlanRef.current = { ...floorPlanRef.current, annotations };
+        setFloorPlan(prev => ({ ...prev, annotations }));
+      } catch (err) {
+        console.error('Failed to sync generated dimensions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save generated dimensions');
+      }
+    });
+  };
+
+  const handleAutoDetectRoomsChange = (enabled: boolean) => {
+    setAutoDetectRooms(enabled);
+    autoDetectRoomsRef.current = enabled;
+    if (enabled) syncDetectedRooms();
+  };
+
   const canSetScale = !!currentPlanId;
+  const selectedRoom = floorPlan.rooms?.find(r => r.id === selectedRoomId) ?? null;
+  const selectedFixture = floorPlan.fixtures?.find(f => f.id === selectedFixtureId) ?? null;
+  const selectedAnnotation = floorPlan.annotations?.find(a => a.id === selectedAnnotationId) ?? null;
+  const selectedNote = selectedAnnotation && getNoteProperties(selectedAnnotation);
+  const inspectedEdges = floorPlan.edges.filter(e => selectedEdgeIds.has(e.id));
+  const inspectedFixtures = (floorPlan.fixtures ?? []).filter(f => selectedFixtureIds.has(f.id) || f.id === selectedFixtureId);
 
   return (
     <div className="app-container">
@@ -785,11 +2674,28 @@ export const EditorLayout: React.FC = () => {
           {hasUnsavedChanges && <span style={{ color: '#ff9800', marginLeft: '10px', fontSize: '14px' }}>● Unsaved</span>}
           {isSaving && <span style={{ color: '#4CAF50', marginLeft: '10px', fontSize: '14px' }}>💾 Saving...</span>}
         </h2>
+        {currentPlanId && (
+          <LevelSwitcher
+            levels={planLevels(floorPlan, currentPlanId)}
+            currentPlanId={currentPlanId}
+            onSelect={handleLoadPlan}
+            onAdd={handleAddLevel}
+            onChange={handleLevelChange}
+            isBusy={isAddingLevel}
+          />
+        )}
         <div className="canvas-controls">
           <button onClick={handleUploadClick} disabled={isUploading}>
             {isUploading ? 'Uploading...' : 'Upload Image'}
           </button>
           <button onClick={handleResetZoom}>Reset Zoom</button>
+          <button
+            onClick={handleInferConstraints}
+            disabled={!currentPlanId}
+            title="Constrain walls that are already nearly horizontal, vertical or at right angles so later edits keep them square"
+          >
+            📐 Square Up
+          </button>
           <button 
             onClick={handleToggleRedesignMode}
             style={{
@@ -898,6 +2804,34 @@ export const EditorLayout: React.FC = () => {
               </div>
             ))}
           </div>
+          {currentPlanId && (floorPlan.levels?.length ?? 0) > 1 && (
+            <LevelsPanel
+              levels={floorPlan.levels!}
+              currentPlanId={currentPlanId}
+              plans={levelPlans}
+              currentPlan={floorPlan}
+              onSelect={handleLoadPlan}
+            />
+          )}
+          <HistoryPanel
+            history={history}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            isBusy={isReplayingHistory}
+          />
+          <LayersPanel
+            layers={floorPlan.layers ?? DEFAULT_LAYERS}
+            onChange={handleLayersChange}
+            selectionCount={selectedEdgeIds.size + selectedFixtureIds.size + (selectedAnnotationId ? 1 : 0)}
+            onAssignSelection={handleAssignLayer}
+          />
+          <UnderlayPanel
+            underlay={floorPlan.underlay ?? null}
+            onLoadImage={handleUnderlayFile}
+            onChange={handleUnderlayChange}
+            isAligning={isAligningUnderlay}
+            onAlignToggle={() => setIsAligningUnderlay(prev => !prev)}
+          />
         </div>
 
         {/* Left Divider */}
@@ -912,12 +2846,21 @@ export const EditorLayout: React.FC = () => {
           <ToolsBar 
             activeTool={activeTool}
             onToolChange={setActiveTool}
+            grid={grid}
+            onGridChange={setGrid}
+            isCalibrated={floorPlan.is_calibrated ?? false}
+            snapSettings={snapSettings}
+            onSnapSettingsChange={setSnapSettings}
           />
           {activeTool === 'wall' && (
             <WallToolOptions
               thickness={wallThickness}
               onThicknessChange={setWallThickness}
               isCalibrated={floorPlan.is_calibrated ?? false}
+              mode={wallMode}
+              onModeChange={setWallMode}
+              boxSize={wallBoxSize}
+              onBoxSizeChange={setWallBoxSize}
             />
           )}
           {activeTool === 'assets' && (
@@ -927,6 +2870,51 @@ export const EditorLayout: React.FC = () => {
               onAssetTypeChange={setAssetType}
               onWidthChange={setAssetWidthM}
               isCalibrated={floorPlan.is_calibrated ?? false}
+              door={assetDoor}
+              onDoorChange={setAssetDoor}
+              windowSettings={assetWindow}
+              onWindowSettingsChange={setAssetWindow}
+              openingSettings={assetOpening}
+              onOpeningSettingsChange={setAssetOpening}
+            />
+          )}
+          {activeTool === 'room' && (
+            <RoomToolOptions
+              selectedRoom={selectedRoom}
+              onDeleteRoom={handleRoomDelete}
+              autoDetect={autoDetectRooms}
+              onAutoDetectChange={handleAutoDetectRoomsChange}
+            />
+          )}
+          {activeTool === 'furniture' && (
+            <FurnitureToolOptions
+              furnitureType={furnitureType}
+              onFurnitureTypeChange={setFurnitureType}
+              selectedFixture={selectedFixture}
+              onDeleteFixture={handleFixtureDelete}
+              isCalibrated={floorPlan.is_calibrated ?? false}
+              onCalibrate={() => { if (!isMeasureMode) handleToggleMeasureMode(); }}
+              onCirculationChange={handleCirculationChange}
+            />
+          )}
+          {activeTool === 'dimension' && (
+            <DimensionToolOptions
+              kind={dimensionKind}
+              onKindChange={setDimensionKind}
+              selectedDimension={selectedAnnotation}
+              onDeleteDimension={handleAnnotationDelete}
+              onAutoDimension={handleAutoDimension}
+              autoDimensionCount={(floorPlan.annotations ?? []).filter(a => getDimensionProperties(a)?.auto).length}
+            />
+          )}
+          {(activeTool === 'text' || (activeTool === 'cursor' && selectedNote)) && (
+            <TextToolOptions
+              noteType={noteType}
+              onNoteTypeChange={setNoteType}
+              style={selectedNote ? noteStyle(selectedNote) : noteStyleDraft}
+              onStyleChange={handleNoteStyleChange}
+              selectedNote={selectedNote ? selectedAnnotation : null}
+              onDeleteNote={handleAnnotationDelete}
             />
           )}
           
@@ -949,7 +2937,7 @@ export const EditorLayout: React.FC = () => {
                 zIndex: 1000,
                 boxShadow: '0 2px 8px rgba(0,0,0,0.2)'
               }}>
-                🎨 Redesign Mode Active - Click rooms to lock/unlock
+                🎨 Redesign Mode Active - Click rooms to lock/unlock; structural walls and columns stay fixed
               </div>
             )}
             {isMeasureMode && (
@@ -997,8 +2985,21 @@ export const EditorLayout: React.FC = () => {
             )}
 
             {/* Edge Selection Controls */}
-            {selectedEdgeIds.size > 0 && isEditMode && !isRedesignMode && !isMeasureMode && (() => {
+            {selectedEdgeIds.size + selectedNodeIds.size + selectedRoomIds.size + selectedFixtureIds.size > 0 && isEditMode && !isRedesignMode && !isMeasureMode && (() => {
+              const selectionLabel = ([
+                [selectedEdgeIds.size, 'edge'],
+                [selectedNodeIds.size, 'node'],
+                [selectedRoomIds.size, 'room'],
+                [selectedFixtureIds.size, 'fixture'],
+              ] as [number, string][])
+                .filter(([count]) => count > 0)
+                .map(([count, noun]) => `${count} ${noun}${count > 1 ? 's' : ''}`)
+                .join(', ');
               const selectedEdges = floorPlan.edges.filter(e => selectedEdgeIds.has(e.id));
+              // Walls in the order they were selected
+              const selectedWalls = Array.from(selectedEdgeIds)
+                .map(id => selectedEdges.find(e => e.id === id && e.type === 'wall'))
+                .filter((e): e is Edge => !!e);
               const isCalibrated = floorPlan.is_calibrated ?? false;
               const defaultThick = isCalibrated ? 0.2 : 16;
               const thicknessValues = [...new Set(selectedEdges.map(e => e.thickness ?? defaultThick))];
@@ -1051,42 +3052,65 @@ export const EditorLayout: React.FC = () => {
                   {/* Row 1: selection label + action buttons */}
                   <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
                     <span style={{ fontWeight: 'bold', color: '#2196F3' }}>
-                      {selectedEdgeIds.size} edge{selectedEdgeIds.size > 1 ? 's' : ''} selected
+                      {selectionLabel} selected
                     </span>
-                    <button
-                      onClick={handleDeleteSelected}
-                      style={{
-                        backgroundColor: '#f44336',
-                        color: '#fff',
-                        border: 'none',
-                        borderRadius: '4px',
-                        padding: '6px 16px',
-                        cursor: 'pointer',
-                        fontWeight: 'bold',
-                        fontSize: '14px'
-                      }}
-                      title="Delete selected edges (Delete key)"
-                    >
-                      🗑️ Delete
-                    </button>
-                    <button
-                      onClick={handleMergeSelected}
-                      disabled={selectedEdgeIds.size < 2}
-                      style={{
-                        backgroundColor: selectedEdgeIds.size < 2 ? '#ccc' : '#2196F3',
-                        color: '#fff',
-                        border: 'none',
-                        borderRadius: '4px',
-                        padding: '6px 16px',
-                        cursor: selectedEdgeIds.size < 2 ? 'not-allowed' : 'pointer',
-                        fontWeight: 'bold',
-                        fontSize: '14px',
-                        opacity: selectedEdgeIds.size < 2 ? 0.6 : 1
-                      }}
-                      title={selectedEdgeIds.size < 2 ? 'Select at least 2 edges to merge' : 'Merge selected edges into one'}
-                    >
-                      🔗 Merge
-                    </button>
+                    {selectedEdgeIds.size > 0 && (<>
+                      <button
+                        onClick={handleDeleteSelected}
+                        style={{
+                          backgroundColor: '#f44336',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          padding: '6px 16px',
+                          cursor: 'pointer',
+                          fontWeight: 'bold',
+                          fontSize: '14px'
+                        }}
+                        title="Delete selected edges (Delete key)"
+                      >
+                        🗑️ Delete
+                      </button>
+                      <button
+                        onClick={handleMergeSelected}
+                        disabled={selectedEdgeIds.size < 2}
+                        style={{
+                          backgroundColor: selectedEdgeIds.size < 2 ? '#ccc' : '#2196F3',
+                          color: '#fff',
+                          border: 'none',
+                          borderRadius: '4px',
+                          padding: '6px 16px',
+                          cursor: selectedEdgeIds.size < 2 ? 'not-allowed' : 'pointer',
+                          fontWeight: 'bold',
+                          fontSize: '14px',
+                          opacity: selectedEdgeIds.size < 2 ? 0.6 : 1
+                        }}
+                        title={selectedEdgeIds.size < 2 ? 'Select at least 2 edges to merge' : 'Merge selected edges into one'}
+                      >
+                        🔗 Merge
+                      </button>
+                      {selectedWalls.length > 0 && (() => {
+                        const allStructural = selectedWalls.every(isStructuralWall);
+                        return (
+                          <button
+                            onClick={() => handleStructuralChange(selectedWalls.map(w => w.id), !allStructural)}
+                            style={{
+                              backgroundColor: allStructural ? '#5d4037' : '#fff',
+                              color: allStructural ? '#fff' : '#5d4037',
+                              border: '1px solid #5d4037',
+                              borderRadius: '4px',
+                              padding: '6px 16px',
+                              cursor: 'pointer',
+                              fontWeight: 'bold',
+                              fontSize: '14px'
+                            }}
+                            title={allStructural ? 'Clear the load-bearing mark' : 'Mark as load-bearing: hatched, fixed in redesign, confirmed before moving or deleting'}
+                          >
+                            🏗️ Structural
+                          </button>
+                        );
+                      })()}
+                    </>)}
                     <button
                       onClick={handleClearSelection}
                       style={{
@@ -1103,85 +3127,172 @@ export const EditorLayout: React.FC = () => {
                       ✕ Clear
                     </button>
                   </div>
-                  {/* Row 2: thickness + shift steppers */}
+                  {/* Row 2: group transforms (drag a selected item or use the arrow keys to move) */}
                   <div style={{
                     display: 'flex',
                     alignItems: 'center',
-                    gap: '20px',
+                    gap: '6px',
                     borderTop: '1px solid #e3f2fd',
                     paddingTop: '8px',
                     width: '100%',
                   }}>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
-                      <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Thickness:</span>
-                      <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ thickness: -thicknessStep })} title="Decrease thickness">▼</button>
-                      <input
-                        key={`${Array.from(selectedEdgeIds).sort().join(',')}_${thicknessDisplay}`}
-                        type="number"
-                        defaultValue={thicknessDisplay}
-                        step={thicknessStep}
-                        min={isCalibrated ? 0.01 : 1}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            const v = parseFloat((e.target as HTMLInputElement).value);
+                    <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Transform:</span>
+                    {([
+                      ['⟲ 90°', 'Rotate 90° anticlockwise about the selection centre', { kind: 'rotate', angle: -90 }],
+                      ['⟳ 90°', 'Rotate 90° clockwise about the selection centre', { kind: 'rotate', angle: 90 }],
+                      ['⇋ Mirror', 'Mirror left ↔ right', { kind: 'mirror', axis: 'horizontal' }],
+                      ['⇵ Mirror', 'Mirror top ↔ bottom', { kind: 'mirror', axis: 'vertical' }],
+                    ] as [string, string, SelectionTransform][]).map(([text, title, transform]) => (
+                      <button
+                        key={title}
+                        onClick={() => handleSelectionTransform(transform)}
+                        title={title}
+                        style={{ ...stepperBtn, width: 'auto', padding: '0 8px' }}
+                      >
+                        {text}
+                      </button>
+                    ))}
+                    <span style={{ fontSize: '11px', color: '#888', fontStyle: 'italic', marginLeft: '6px' }}>
+                      Drag or use arrow keys to move
+                    </span>
+                  </div>
+                  {/* Row 3: thickness + shift steppers */}
+                  {selectedEdges.length > 0 && (
+                    <div style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '20px',
+                      borderTop: '1px solid #e3f2fd',
+                      paddingTop: '8px',
+                      width: '100%',
+                    }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Thickness:</span>
+                        <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ thickness: -thicknessStep })} title="Decrease thickness">▼</button>
+                        <input
+                          key={`${Array.from(selectedEdgeIds).sort().join(',')}_${thicknessDisplay}`}
+                          type="number"
+                          defaultValue={thicknessDisplay}
+                          step={thicknessStep}
+                          min={isCalibrated ? 0.01 : 1}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              const v = parseFloat((e.target as HTMLInputElement).value);
+                              if (!isNaN(v)) handleEdgeThicknessSet(v);
+                              (e.target as HTMLInputElement).blur();
+                            }
+                          }}
+                          onBlur={(e) => {
+                            const v = parseFloat(e.target.value);
                             if (!isNaN(v)) handleEdgeThicknessSet(v);
-                            (e.target as HTMLInputElement).blur();
-                          }
-                        }}
-                        onBlur={(e) => {
-                          const v = parseFloat(e.target.value);
-                          if (!isNaN(v)) handleEdgeThicknessSet(v);
-                        }}
-                        style={{
-                          width: '60px',
-                          textAlign: 'center',
-                          fontSize: '13px',
-                          fontWeight: 'bold',
-                          color: '#1565c0',
-                          border: '1px solid #90caf9',
-                          borderRadius: '4px',
-                          padding: '2px 4px',
-                          backgroundColor: '#e3f2fd',
-                        }}
-                      />
-                      <span style={{ fontSize: '12px', color: '#888' }}>{thicknessUnit}</span>
-                      <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ thickness: thicknessStep })} title="Increase thickness">▲</button>
-                    </div>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
-                      <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Shift:</span>
-                      <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ shift: -shiftStep })} title="Shift wall left/down">▼</button>
-                      <input
-                        key={`${Array.from(selectedEdgeIds).sort().join(',')}_shift_${shiftDisplay}`}
-                        type="number"
-                        defaultValue={shiftDisplay}
-                        step={shiftStep}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            const v = parseFloat((e.target as HTMLInputElement).value);
+                          }}
+                          style={{
+                            width: '60px',
+                            textAlign: 'center',
+                            fontSize: '13px',
+                            fontWeight: 'bold',
+                            color: '#1565c0',
+                            border: '1px solid #90caf9',
+                            borderRadius: '4px',
+                            padding: '2px 4px',
+                            backgroundColor: '#e3f2fd',
+                          }}
+                        />
+                        <span style={{ fontSize: '12px', color: '#888' }}>{thicknessUnit}</span>
+                        <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ thickness: thicknessStep })} title="Increase thickness">▲</button>
+                      </div>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Shift:</span>
+                        <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ shift: -shiftStep })} title="Shift wall left/down">▼</button>
+                        <input
+                          key={`${Array.from(selectedEdgeIds).sort().join(',')}_shift_${shiftDisplay}`}
+                          type="number"
+                          defaultValue={shiftDisplay}
+                          step={shiftStep}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              const v = parseFloat((e.target as HTMLInputElement).value);
+                              if (!isNaN(v)) handleEdgeShiftSet(v);
+                              (e.target as HTMLInputElement).blur();
+                            }
+                          }}
+                          onBlur={(e) => {
+                            const v = parseFloat(e.target.value);
                             if (!isNaN(v)) handleEdgeShiftSet(v);
-                            (e.target as HTMLInputElement).blur();
-                          }
-                        }}
-                        onBlur={(e) => {
-                          const v = parseFloat(e.target.value);
-                          if (!isNaN(v)) handleEdgeShiftSet(v);
-                        }}
-                        style={{
-                          width: '60px',
-                          textAlign: 'center',
-                          fontSize: '13px',
-                          fontWeight: 'bold',
-                          color: '#1565c0',
-                          border: '1px solid #90caf9',
-                          borderRadius: '4px',
-                          padding: '2px 4px',
-                          backgroundColor: '#e3f2fd',
-                        }}
-                      />
-                      <span style={{ fontSize: '12px', color: '#888' }}>{shiftUnit}</span>
-                      <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ shift: shiftStep })} title="Shift wall right/up">▲</button>
+                          }}
+                          style={{
+                            width: '60px',
+                            textAlign: 'center',
+                            fontSize: '13px',
+                            fontWeight: 'bold',
+                            color: '#1565c0',
+                            border: '1px solid #90caf9',
+                            borderRadius: '4px',
+                            padding: '2px 4px',
+                            backgroundColor: '#e3f2fd',
+                          }}
+                        />
+                        <span style={{ fontSize: '12px', color: '#888' }}>{shiftUnit}</span>
+                        <button style={stepperBtn} onClick={() => handleEdgePropertyUpdate({ shift: shiftStep })} title="Shift wall right/up">▲</button>
+                      </div>
                     </div>
-                  </div>
+                  )}
+                  {/* Row 4: constraints (relative ones tie the second selected wall to the first) */}
+                  {selectedWalls.length > 0 && (
+                    <div style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '6px',
+                      borderTop: '1px solid #e3f2fd',
+                      paddingTop: '8px',
+                      width: '100%',
+                    }}>
+                      <span style={{ fontSize: '13px', color: '#555', fontWeight: 500 }}>Constraints:</span>
+                      {CONSTRAINT_TYPES.map(t => {
+                        const [refWall, constrainedWall] = selectedWalls;
+                        const usable = t.needsRef ? selectedWalls.length === 2 : true;
+                        const active = t.needsRef
+                          ? usable && getEdgeConstraints(constrainedWall).some(c => c.type === t.id && c.ref_edge_id === refWall.id)
+                          : selectedWalls.every(w => getEdgeConstraints(w).some(c => c.type === t.id));
+                        const toggle = () => {
+                          const targets = t.needsRef ? [constrainedWall] : selectedWalls;
+                          const changes = new Map(targets.map(w => {
+                            const current = getEdgeConstraints(w);
+                            if (active) return [w.id, withoutConstraint(current, t.id)] as [string, EdgeConstraint[]];
+                            const src = floorPlan.nodes.find(n => n.id === w.source);
+                            const tgt = floorPlan.nodes.find(n => n.id === w.target);
+                            const constraint: EdgeConstraint = t.needsRef
+                              ? { type: t.id, ref_edge_id: refWall.id }
+                              : t.id === 'fixed_length'
+                              ? { type: t.id, length: src && tgt ? Math.hypot(tgt.x - src.x, tgt.y - src.y) : 0 }
+                              : { type: t.id };
+                            return [w.id, withConstraint(current, constraint)] as [string, EdgeConstraint[]];
+                          }));
+                          handleEdgeConstraintsChange(`${active ? 'Remove' : 'Add'} ${t.label.toLowerCase()} constraint`, changes);
+                        };
+                        return (
+                          <button
+                            key={t.id}
+                            onClick={toggle}
+                            disabled={!usable}
+                            title={t.needsRef ? `${t.label} the first selected wall (select exactly 2 walls)` : t.label}
+                            style={{
+                              ...stepperBtn,
+                              width: 'auto',
+                              padding: '0 8px',
+                              gap: '4px',
+                              backgroundColor: active ? '#2196F3' : '#e3f2fd',
+                              color: active ? '#fff' : '#1565c0',
+                              cursor: usable ? 'pointer' : 'not-allowed',
+                              opacity: usable ? 1 : 0.5,
+                            }}
+                          >
+                            {t.icon} {t.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
               );
             })()}
@@ -1190,10 +3301,22 @@ export const EditorLayout: React.FC = () => {
               floorPlan={floorPlan}
               activeTool={activeTool}
               wallThickness={wallThickness}
+              wallMode={wallMode}
+              wallBoxSize={wallBoxSize}
+              grid={grid}
+              snapSettings={snapSettings}
+              onRoomBoxAdd={(coords) => { pendingRoomBoxesRef.current.push(coords); }}
               onWallAdd={handleWallAdd}
               assetType={assetType}
               assetWidthM={assetWidthM}
               onAssetPlace={handleAssetPlace}
+              assetDoor={assetDoor}
+              onAssetDoorChange={setAssetDoor}
+              assetWindow={assetWindow}
+              assetOpening={assetOpening}
+              onDoorChange={(edgeId, door) => handleDoorChange([edgeId], () => door)}
+              onStructuralChange={(edgeId, structural) => handleStructuralChange([edgeId], structural)}
+              onEdgeConstraintsChange={(edgeId, constraints) => handleEdgeConstraintsChange('Edit constraint', new Map([[edgeId, constraints]]))}
               onEdgeClick={() => {}}
               onRoomClick={isRedesignMode ? handleToggleRoomLock : undefined}
               measureMode={isMeasureMode}
@@ -1202,7 +3325,39 @@ export const EditorLayout: React.FC = () => {
               onNodePositionsChange={handleNodePositionsChange}
               selectedEdgeIds={selectedEdgeIds}
               onSelectedEdgesChange={handleSelectedEdgesChange}
+              selectedNodeIds={selectedNodeIds}
+              selectedRoomIds={selectedRoomIds}
+              selectedFixtureIds={selectedFixtureIds}
+              onSelectionChange={handleSelectionChange}
+              onSelectionTransform={handleSelectionTransform}
+              pasteFragment={pasteFragment}
+              onPastePlace={handlePastePlace}
+              onPasteCancel={() => setPasteFragment(null)}
+              underlayAlign={isAligningUnderlay}
+              onUnderlayAlign={handleUnderlayAlign}
+              onUnderlayAlignCancel={() => setIsAligningUnderlay(false)}
+              levelGhosts={ghosts}
               onEdgeDelete={handleEdgeDelete}
+              selectedRoomId={selectedRoomId}
+              onSelectedRoomChange={setSelectedRoomId}
+              onRoomCreate={handleRoomCreate}
+              onRoomUpdate={handleRoomUpdate}
+              onRoomDelete={handleRoomDelete}
+              furnitureType={furnitureType}
+              onFurnitureTypeChange={setFurnitureType}
+              selectedFixtureId={selectedFixtureId}
+              onSelectedFixtureChange={setSelectedFixtureId}
+              onFixturePlace={handleFixturePlace}
+              onFixtureUpdate={handleFixtureUpdate}
+              onFixtureDelete={handleFixtureDelete}
+              dimensionKind={dimensionKind}
+              selectedAnnotationId={selectedAnnotationId}
+              onSelectedAnnotationChange={setSelectedAnnotationId}
+              onAnnotationAdd={handleAnnotationAdd}
+              onAnnotationDelete={handleAnnotationDelete}
+              onAnnotationUpdate={handleAnnotationUpdate}
+              noteType={noteType}
+              noteStyle={noteStyleDraft}
             />
           </div>
         </div>
@@ -1275,7 +3430,7 @@ export const EditorLayout: React.FC = () => {
                               onClick={(e) => e.stopPropagation()}
                             />
                             <span>
-                              Room {index + 1}
+                              {getRoomName(room.tags) || `Room ${index + 1}`}
                               {room.tags && room.tags.length > 0 && (
                                 <span style={{ color: '#666', fontSize: '11px' }}>
                                   {' '}({room.tags.join(', ')})
@@ -1314,6 +3469,28 @@ export const EditorLayout: React.FC = () => {
           ) : (
             // Original Assistant Panel
             <>
+              {selectedRoom && (
+                <RoomInspector
+                  room={selectedRoom}
+                  onTagsChange={(tags) => handleRoomTagsChange(selectedRoom.id, tags)}
+                  onClose={() => setSelectedRoomId(null)}
+                />
+              )}
+              {isEditMode && inspectedEdges.length + inspectedFixtures.length > 0 && (
+                <ElementInspector
+                  edges={inspectedEdges}
+                  fixtures={inspectedFixtures}
+                  nodes={floorPlan.nodes}
+                  isCalibrated={floorPlan.is_calibrated ?? false}
+                  onThicknessChange={handleEdgeThicknessSet}
+                  onShiftChange={handleEdgeShiftSet}
+                  onPropertiesChange={handlePropertiesChange}
+                  onClose={() => {
+                    handleClearSelection();
+                    setSelectedFixtureId(null);
+                  }}
+                />
+              )}
               <h2>Roomly Live Assistant</h2>
               <div className="assistant-section">
                 <div className="assistant-card">
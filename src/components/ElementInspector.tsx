@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import type { ElementInspectorProps, Node } from '../types';
+import {
+  commonValue,
+  findPropertyField,
+  formatPropertyValue,
+  parsePropertyValue,
+  propertyKeys,
+  type PropertyField,
+} from '../utils/properties';
+import './ElementInspector.css';
+
+/** Shown wherever the inspected elements disagree */
+const MIXED = '—';
+
+/** Round for display without trailing zeros */
+const formatNumber = (v: number): string => String(Math.round(v * 1000) / 1000);
+
+/** The value all items share, or undefined when they differ */
+function shared<T>(values: T[]): T | undefined {
+  return values.every(v => v === values[0]) ? values[0] : undefined;
+}
+
+interface DraftInputProps {
+  value: string;
+  type?: 'text' | 'number';
+  placeholder?: string;
+  min?: number;
+  step?: number;
+  readOnly?: boolean;
+  title?: string;
+  onCommit: (text: string) => void;
+}
+
+/** Input edited locally and committed on blur / Enter; Escape reverts */
+const DraftInput: React.FC<DraftInputProps> = ({ value, type = 'text', onCommit, ...rest }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <input
+      {...rest}
+      type={type}
+      className="element-inspector__input"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => { if (draft !== value) onCommit(draft); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setDraft(value);
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+};
+
+export const ElementInspector: React.FC<ElementInspectorProps> = ({
+  edges,
+  fixtures,
+  nodes,
+  isCalibrated,
+  onThicknessChange,
+  onShiftChange,
+  onPropertiesChange,
+  onClose,
+}) => {
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  const count = edges.length + fixtures.length;
+  const single = count === 1 ? (edges[0] ?? fixtures[0]) : null;
+  const type = shared([...edges.map(e => e.type as string), ...fixtures.map(f => f.fixture_type)]);
+  const records = [...edges.map(e => e.properties), ...fixtures.map(f => f.properties)];
+  const keys = propertyKeys(records);
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const unit = isCalibrated ? 'm' : 'px';
+  const formatLength = (v: number) => (isCalibrated ? v.toFixed(2) : String(Math.round(v)));
+  const formatPoint = (n: Node | undefined) => (n ? `(${formatLength(n.x)}, ${formatLength(n.y)})` : '?');
+  const lengths = edges.map(e => {
+    const a = nodeById.get(e.source);
+    const b = nodeById.get(e.target);
+    return a && b ? `${formatLength(Math.hypot(b.x - a.x, b.y - a.y))} ${unit}` : '?';
+  });
+  const defaultThickness = isCalibrated ? 0.2 : 16;
+  const thickness = shared(edges.map(e => e.thickness ?? defaultThickness));
+  const shift = shared(edges.map(e => e.shift ?? 0));
+  const inner = shared(edges.map(e => e.is_inner ?? true));
+
+  const commitNumber = (text: string, apply: (v: number) => void) => {
+    const v = parseFloat(text);
+    if (!isNaN(v)) apply(v);
+  };
+
+  const handleAdd = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    onPropertiesChange({ set: { [key]: parsePropertyValue(newValue) } });
+    setNewKey('');
+    setNewValue('');
+  };
+
+  /** Typed editor for a schema key */
+  const renderField = (field: PropertyField, mixed: boolean, value: any) => {
+    const set = (v: any) => onPropertiesChange({ set: { [field.key]: v } });
+    switch (field.kind) {
+      case 'boolean':
+        return (
+          <select
+            className="element-inspector__input"
+            value={mixed ? '' : value === true ? 'true' : 'false'}
+            onChange={(e) => set(e.target.value === 'true')}
+          >
+            {mixed && <option value="" disabled>{MIXED}</option>}
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        );
+      case 'select': {
+        // Values outside the schema stay selectable so they aren't lost on display
+        const options = !mixed && value !== undefined && !field.options.some(o => o.value === value)
+          ? [...field.options, { value, label: String(value) }]
+          : field.options;
+        return (
+          <select
+            className="element-inspector__input"
+            value={mixed ? '' : String(value)}
+            onChange={(e) => set(options.find(o => String(o.value) === e.target.value)?.value)}
+          >
+            {mixed && <option value="" disabled>{MIXED}</option>}
+            {options.map(o => (
+              <option key={String(o.value)} value={String(o.value)}>{o.label}</option>
+            ))}
+          </select>
+        );
+      }
+      case 'number':
+        return (
+          <>
+            <DraftInput
+              type="number"
+              value={!mixed && typeof value === 'number' ? formatNumber(value) : ''}
+              placeholder={mixed ? MIXED : ''}
+              min={field.min}
+              step={field.step}
+              readOnly={field.readOnly}
+              title={field.readOnly ? 'Change with the furniture tool' : undefined}
+              onCommit={(text) => commitNumber(text, v => set(field.min !== undefined ? Math.max(field.min, v) : v))}
+            />
+            {field.unit && <span className="element-inspector__unit">{field.unit}</span>}
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="element-inspector">
+      <div className="element-inspector__header">
+        <span className="element-inspector__title">
+          {single ? type : `${count} elements`}
+        </span>
+        <button className="element-inspector__close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <div className="element-inspector__rows">
+        <div className="element-inspector__row">
+          <span className="element-inspector__label">ID</span>
+          <span className="element-inspector__value element-inspector__id" title={single?.id}>{single?.id ?? MIXED}</span>
+        </div>
+        <div className="element-inspector__row">
+          <span className="element-inspector__label">Type</span>
+          <span className="element-inspector__value">{type ?? MIXED}</span>
+        </div>
+        {edges.length > 0 && (
+          <>
+            <div className="element-inspector__row">
+              <span className="element-inspector__label">Endpoints</span>
+              <span className="element-inspector__value">
+                {edges.length === 1
+                  ? `${formatPoint(nodeById.get(edges[0].source))} → ${formatPoint(nodeById.get(edges[0].target))}`
+                  : MIXED}
+              </span>
+            </div>
+            <div className="element-inspector__row">
+              <span className="element-inspector__label">Length</span>
+              <span className="element-inspector__value">{shared(lengths) ?? MIXED}</span>
+            </div>
+            <div className="element-inspector__row">
+              <span className="element-inspector__label">Thickness</span>
+              <DraftInput
+                type="number"
+                value={thickness !== undefined ? formatNumber(thickness) : ''}
+                placeholder={thickness === undefined ? MIXED : ''}
+                min={0}
+                step={isCalibrated ? 0.01 : 1}
+                onCommit={(text) => commitNumber(text, onThicknessChange)}
+              />
+              <span className="element-inspector__unit">{unit}</span>
+            </div>
+            <div className="element-inspector__row">
+              <span className="element-inspector__label">Shift</span>
+              <DraftInput
+                type="number"
+                value={shift !== undefined ? formatNumber(shift) : ''}
+                placeholder={shift === undefined ? MIXED : ''}
+                step={isCalibrated ? 0.01 : 1}
+                onCommit={(text) => commitNumber(text, onShiftChange)}
+              />
+              <span className="element-inspector__unit">{unit}</span>
+            </div>
+            <div className="element-inspector__row">
+              <span className="element-inspector__label">Inner</span>
+              <span className="element-inspector__value">{inner === undefined ? MIXED : inner ? 'Yes' : 'No'}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="element-inspector__section">Properties</div>
+      <div className="element-inspector__rows">
+        {keys.length === 0 && <span className="element-inspector__empty">No properties</span>}
+        {keys.map(key => {
+          const field = findPropertyField(key);
+          const { mixed, value } = commonValue(records, key);
+          return (
+            <div key={key} className="element-inspector__row">
+              <span className="element-inspector__label" title={key}>{field?.label ?? key}</span>
+              {field ? renderField(field, mixed, value) : (
+                <DraftInput
+                  value={mixed ? '' : formatPropertyValue(value)}
+                  placeholder={mixed ? MIXED : ''}
+                  title="Text, or JSON for numbers, booleans, lists and objects"
+                  onCommit={(text) => onPropertiesChange({ set: { [key]: parsePropertyValue(text) } })}
+                />
+              )}
+              <button
+                className="element-inspector__remove"
+                onClick={() => onPropertiesChange({ unset: [key] })}
+                title={`Remove "${key}"`}
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+        <div className="element-inspector__row element-inspector__add">
+          <input
+            type="text"
+            className="element-inspector__input element-inspector__key"
+            value={newKey}
+            placeholder="key"
+            onChange={(e) => setNewKey(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          />
+          <input
+            type="text"
+            className="element-inspector__input"
+            value={newValue}
+            placeholder="value"
+            onChange={(e) => setNewValue(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          />
+          <button className="element-inspector__remove" onClick={handleAdd} disabled={!newKey.trim()} title="Add property">
+            +
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,22 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import type { FloorPlan, Node, Edge, Room, Fixture, EditorTool, AssetType, AssetPlacement } from '../types';
+import type { FloorPlan, Node, Edge, Room, Fixture, FixtureFrame, CirculationType, EditorTool, AssetType, AssetPlacement, DoorProperties, WindowType, WindowProperties, OpeningKind, OpeningProperties, WallMode, WallBoxSize, GridSettings, SnapKind, SnapSettings, EdgeConstraint, PlanSelection, SelectionTransform, PlanFragment, LevelGhost, AnnotationType, DimensionKind, DimensionProperties, NoteProperties, NoteStyle } from '../types';
+import { DEFAULT_DOOR, DOOR_LEAVES, DOOR_SWING_ANGLES, getDoorProperties, flipDoorHinge, flipDoorSwing } from '../utils/doors';
+import { DEFAULT_WINDOW, getWindowProperties } from '../utils/windows';
+import { DEFAULT_OPENING, getOpeningProperties, isOpeningKind } from '../utils/openings';
+import { snapValueToGrid } from '../utils/grid';
+import { DEFAULT_SNAP_SETTINGS, SNAP_KINDS } from '../utils/snapping';
+import { CONSTRAINT_TYPES, getEdgeConstraints, solveConstraints, withConstraint } from '../utils/constraints';
+import { ROTATION_STEP_DEG, findFurnitureItem, fixturePolygon, getFixtureFrame, normaliseRotation } from '../utils/furniture';
+import { circulationSymbol, fixtureKind, getCirculationProperties, isCirculation, isParametric, netRoomArea } from '../utils/circulation';
+import { fragmentAnchor } from '../utils/clipboard';
+import { isColumn, isStructuralWall, snapToJunction } from '../utils/structure';
+import { dimensionGeometry, dimensionGeometryFor, dimensionNodeCount, dimensionOffsetAt, getDimensionProperties, linearAxisAt, type DimensionGeometry } from '../utils/dimensions';
+import { DEFAULT_NOTE_STYLE, getNoteProperties } from '../utils/notes';
+import { interactiveSelection, isInteractive, planLayerView } from '../utils/layers';
+import { underlayTransform } from '../utils/underlay';
+import { EMPTY_SELECTION, mergeSelections, selectionInRect, selectionNodeIds, selectionSize, toggleInSelection } from '../utils/selection';
+import { ROOM_TYPES, UNASSIGNED_ROOM_STYLE, getRoomName, getRoomStyle, getRoomType } from '../utils/roomTypes';
 import './FloorPlanCanvas.css';
 
 interface FloorPlanCanvasProps {
@@ -10,20 +26,91 @@ interface FloorPlanCanvasProps {
   measureMode?: boolean;
   onMeasure?: (pixelDistance: number) => void;
   isEditMode?: boolean;
-  onNodePositionsChange?: (nodes: Node[]) => void;
+  /** `previous` holds the positions before the drag, for undo */
+  onNodePositionsChange?: (nodes: Node[], previous?: Node[]) => void;
   selectedEdgeIds?: Set<string>;
   onSelectedEdgesChange?: (edgeIds: string[]) => void;
+  /** Nodes, rooms and fixtures selected alongside the edges */
+  selectedNodeIds?: Set<string>;
+  selectedRoomIds?: Set<string>;
+  selectedFixtureIds?: Set<string>;
+  /** Called with the whole selection after a selection box or shift-click */
+  onSelectionChange?: (selection: PlanSelection) => void;
+  /** Dragging any member of a multi-item selection moves all of it */
+  onSelectionTransform?: (transform: SelectionTransform) => void;
   onEdgeDelete?: (edgeId: string) => void;
   activeTool?: EditorTool;
   wallThickness?: number;
   /** splits: map of nodeId → edgeId that should be split at that node's position */
   onWallAdd?: (edge: Edge, newNodes: Node[], splits?: { [nodeId: string]: string }) => void;
+  /** Wall tool sub-mode */
+  wallMode?: WallMode;
+  /** Rectangle / room box modes: fixed box size, or null to drag */
+  wallBoxSize?: WallBoxSize | null;
+  /** Background grid; drawing and drags snap to it unless Alt is held */
+  grid?: GridSettings;
+  /** Derived snap targets (midpoints, perpendiculars, extensions, intersections) to offer */
+  snapSettings?: SnapSettings;
+  /** Room box mode: called with the room polygon inside the new walls */
+  onRoomBoxAdd?: (coords: [number, number][]) => void;
   /** Asset tool: type of asset to place */
   assetType?: AssetType;
   /** Asset tool: desired asset width in metres (or pixels when uncalibrated) */
   assetWidthM?: number;
   /** Asset tool: called when user places an asset on a wall */
   onAssetPlace?: (placement: AssetPlacement) => void;
+  /** Asset tool: hinge/swing/leaf of the door being placed (H / F flip it) */
+  assetDoor?: DoorProperties;
+  onAssetDoorChange?: (door: DoorProperties) => void;
+  /** Asset tool: subtype of the window being placed */
+  assetWindow?: WindowProperties;
+  /** Asset tool: settings of the opening, arch, pass-through or half wall being placed */
+  assetOpening?: OpeningProperties;
+  /** Called with an edge's full new constraint list (see utils/constraints) */
+  onEdgeConstraintsChange?: (edgeId: string, constraints: EdgeConstraint[]) => void;
+  /** Called when a door's hinge, swing or leaf is changed from the context menu */
+  onDoorChange?: (edgeId: string, door: DoorProperties) => void;
+  /** Called when a wall is marked or unmarked as structural from the context menu */
+  onStructuralChange?: (edgeId: string, structural: boolean) => void;
+  /** Room tool: room whose vertices are being edited */
+  selectedRoomId?: string | null;
+  onSelectedRoomChange?: (roomId: string | null) => void;
+  /** Room tool: called with the closed polygon when the user finishes drawing */
+  onRoomCreate?: (coords: [number, number][]) => void;
+  /** Room tool: `previous` holds the polygon before the edit, for undo */
+  onRoomUpdate?: (roomId: string, coords: [number, number][], previous: [number, number][]) => void;
+  onRoomDelete?: (roomId: string) => void;
+  /** Furniture tool: catalogue type armed for placement */
+  furnitureType?: string | null;
+  onFurnitureTypeChange?: (type: string | null) => void;
+  selectedFixtureId?: string | null;
+  onSelectedFixtureChange?: (fixtureId: string | null) => void;
+  onFixturePlace?: (fixtureType: string, frame: FixtureFrame) => void;
+  /** `previous` holds the frame before the edit, for undo */
+  onFixtureUpdate?: (fixtureId: string, frame: FixtureFrame, previous: FixtureFrame) => void;
+  onFixtureDelete?: (fixtureId: string) => void;
+  /** Fragment being pasted; it follows the cursor until a click places it */
+  pasteFragment?: PlanFragment | null;
+  /** `at` is where the fragment's centre lands */
+  onPastePlace?: (at: Point) => void;
+  onPasteCancel?: () => void;
+  /** Two-point underlay alignment: pick a point on the image, then where it belongs, once or twice */
+  underlayAlign?: boolean;
+  onUnderlayAlign?: (from: Point[], to: Point[]) => void;
+  onUnderlayAlignCancel?: () => void;
+  /** Neighbouring levels of a multi-storey building, drawn faintly beneath the plan */
+  levelGhosts?: LevelGhost[];
+  /** Dimension tool: style of the next dimension */
+  dimensionKind?: DimensionKind;
+  selectedAnnotationId?: string | null;
+  onSelectedAnnotationChange?: (annotationId: string | null) => void;
+  onAnnotationAdd?: (annotationType: AnnotationType, properties: Record<string, any>) => void;
+  onAnnotationDelete?: (annotationId: string) => void;
+  /** `previous` holds the properties before the edit, for undo */
+  onAnnotationUpdate?: (annotationId: string, properties: Record<string, any>, previous: Record<string, any>) => void;
+  /** Text tool: type and style of the next note */
+  noteType?: 'text' | 'callout';
+  noteStyle?: NoteStyle;
 }
 
 // ============================================
@@ -67,6 +154,130 @@ function formatDataLen(dataLen: number, isCalibrated: boolean): string {
     : `${Math.round(dataLen)} px`;
 }
 
+/** Size a room label group's background rect to the union of its text lines. */
+function fitRoomLabelBackground(
+  labelG: d3.Selection<SVGGElement, any, any, any>,
+  dataUnit: number,
+) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  labelG.selectAll<SVGTextElement, unknown>('text').each(function() {
+    try {
+      const b = this.getBBox();
+      minX = Math.min(minX, b.x);
+      minY = Math.min(minY, b.y);
+      maxX = Math.max(maxX, b.x + b.width);
+      maxY = Math.max(maxY, b.y + b.height);
+    } catch (_) { /* getBBox unavailable outside live DOM */ }
+  });
+  if (!isFinite(minX)) return;
+  labelG.select('.room-label-bg')
+    .attr('x', minX - 2 * dataUnit)
+    .attr('y', minY - dataUnit)
+    .attr('width', maxX - minX + 4 * dataUnit)
+    .attr('height', maxY - minY + 2 * dataUnit);
+}
+
+const contextMenuItemStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '8px 16px',
+  border: 'none',
+  backgroundColor: 'transparent',
+  textAlign: 'left',
+  cursor: 'pointer',
+  fontSize: '14px',
+  color: '#333',
+};
+
+const contextMenuRowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '4px',
+  padding: '4px 16px',
+};
+
+const contextMenuChipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '2px 8px',
+  fontSize: '12px',
+  border: `1px solid ${active ? '#8B4513' : '#ddd'}`,
+  borderRadius: '10px',
+  backgroundColor: active ? '#8B4513' : '#fff',
+  color: active ? '#fff' : '#555',
+  cursor: 'pointer',
+});
+
+/** SVG transform placing a fixture's local frame (origin at its centre) in data-space. */
+function frameTransform(frame: FixtureFrame): string {
+  return `translate(${frame.cx},${frame.cy}) rotate(${frame.rotation})`;
+}
+
+/** Body fill and outline of the opening kinds; edge types the editor doesn't know share the fallback */
+const OPENING_STYLES: Record<OpeningKind | 'unknown', { fill: string; stroke: string }> = {
+  opening: { fill: '#F5F5F5', stroke: 'none' },
+  arch: { fill: '#F5F5F5', stroke: 'none' },
+  pass_through: { fill: '#D7CCC8', stroke: 'none' },
+  half_wall: { fill: '#BDBDBD', stroke: '#333' },
+  unknown: { fill: '#E0E0E0', stroke: '#757575' },
+};
+
+/** Fill of structural walls and columns: the hatch pattern defined with each render */
+const STRUCTURAL_FILL = 'url(#structural-hatch)';
+
+/** Grid lines closer than this on screen are thinned out (every 5th kept) */
+const GRID_MIN_PX = 8;
+/** Every n-th grid line is drawn heavier */
+const GRID_MAJOR_EVERY = 5;
+
+/** Which end of a wall stays put when its length is edited */
+type LengthAnchor = 'start' | 'centre' | 'end';
+
+const LENGTH_ANCHORS: { id: LengthAnchor; label: string; title: string }[] = [
+  { id: 'start', label: '|←', title: 'Keep the start fixed' },
+  { id: 'centre', label: '↔', title: 'Move both ends symmetrically' },
+  { id: 'end', label: '→|', title: 'Keep the end fixed' },
+];
+
+/** New endpoints for segment a→b resized to `length` about `anchor` */
+function resizeSegment(a: Point, b: Point, length: number, anchor: LengthAnchor): [Point, Point] {
+  const dir = vecNorm(vecSub(b, a));
+  if (anchor === 'start') return [a, vecAdd(a, vecScale(dir, length))];
+  if (anchor === 'end') return [vecSub(b, vecScale(dir, length)), b];
+  const mid = vecScale(vecAdd(a, b), 0.5);
+  return [vecSub(mid, vecScale(dir, length / 2)), vecAdd(mid, vecScale(dir, length / 2))];
+}
+
+/**
+ * Resolve typed wall input against the segment start. Values are data units
+ * (metres when calibrated, pixels otherwise); angles and Δy treat y as up,
+ * like a paper drawing:
+ *   "3.45"        length along the current preview direction
+ *   "3.45<30"     length at 30° counter-clockwise from +x
+ *   "@1.2,-0.5"   relative Δx, Δy
+ */
+function parseWallEntry(text: string, start: Point, direction: Point): Point | null {
+  const t = text.replace(/\s+/g, '');
+  const num = (v: string) => (v !== '' && isFinite(Number(v)) ? Number(v) : null);
+  if (t.startsWith('@')) {
+    const [dxText, dyText] = t.slice(1).split(',');
+    const dx = num(dxText ?? ''), dy = num(dyText ?? '');
+    return dx === null || dy === null ? null : { x: start.x + dx, y: start.y - dy };
+  }
+  const [lenText, angleText] = t.split('<');
+  const len = num(lenText);
+  if (len === null) return null;
+  if (angleText === undefined) return vecAdd(start, vecScale(direction, len));
+  const angle = num(angleText);
+  if (angle === null) return null;
+  const rad = (angle * Math.PI) / 180;
+  return { x: start.x + len * Math.cos(rad), y: start.y - len * Math.sin(rad) };
+}
+
+/** Format a data-space area as m² (calibrated) or px² (uncalibrated). */
+function formatDataArea(area: number, isCalibrated: boolean): string {
+  return isCalibrated
+    ? `${area.toFixed(1)} m\u00b2`
+    : `${Math.round(area).toLocaleString()} px\u00b2`;
+}
+
 function vecAdd(a: Point, b: Point): Point {
   return { x: a.x + b.x, y: a.y + b.y };
 }
@@ -461,6 +672,114 @@ function snapToAxis(
   return null;
 }
 
+/** Screen-pixel radius within which derived snap targets engage */
+const TARGET_SNAP_PX = 10;
+
+/** A derived snap; `edge` is set when the point lies on that wall (it gets split there) */
+interface SnapTarget {
+  kind: SnapKind;
+  point: Point;
+  edge?: Edge;
+  guidelines: Guideline[];
+}
+
+/**
+ * Find the best derived snap target for `p` (see SnapKind).
+ *
+ * `from` is the fixed end of the segment being drawn or dragged; perpendicular
+ * feet are dropped from it and are skipped without one. Walls touching
+ * `excludeNodeId` are ignored so a dragged node can't snap to its own walls.
+ * Kinds are tried in SNAP_KINDS order, nearest candidate within `snapPx`
+ * screen pixels winning inside each kind.
+ */
+function findSnapTarget(
+  p: Point,
+  from: Point | null,
+  edges: Edge[],
+  nodes: Node[],
+  settings: SnapSettings,
+  k: number,
+  excludeNodeId: string | null = null,
+  snapPx = TARGET_SNAP_PX,
+): SnapTarget | null {
+  const threshold = snapPx / k;
+  const best: Partial<Record<SnapKind, { target: SnapTarget; dist: number }>> = {};
+  const consider = (target: SnapTarget) => {
+    const dist = vecLen(vecSub(p, target.point));
+    if (dist >= threshold) return;
+    const current = best[target.kind];
+    if (!current || dist < current.dist) best[target.kind] = { target, dist };
+  };
+
+  // Wall lines passing close to p: candidates for extensions and intersections
+  const nearLines: { a: Point; dir: Point }[] = [];
+
+  for (const edge of edges) {
+    if (edge.type !== 'wall') continue;
+    if (excludeNodeId && (edge.source === excludeNodeId || edge.target === excludeNodeId)) continue;
+    const a = nodes.find(n => n.id === edge.source);
+    const b = nodes.find(n => n.id === edge.target);
+    if (!a || !b) continue;
+    const len = vecLen(vecSub(b, a));
+    if (len < 1e-6) continue;
+    const dir = vecScale(vecSub(b, a), 1 / len);
+
+    if (settings.midpoint) {
+      consider({ kind: 'midpoint', point: vecScale(vecAdd(a, b), 0.5), edge, guidelines: [] });
+    }
+
+    if (settings.perpendicular && from) {
+      const tFoot = (from.x - a.x) * dir.x + (from.y - a.y) * dir.y;
+      const foot = vecAdd(a, vecScale(dir, tFoot));
+      if (tFoot > 0 && tFoot < len && vecLen(vecSub(foot, from)) > threshold) {
+        consider({
+          kind: 'perpendicular',
+          point: foot,
+          edge,
+          guidelines: [{ orientation: 'along', anchor: from, direction: vecNorm(vecSub(foot, from)), color: '#9C27B0' }],
+        });
+      }
+    }
+
+    const t = (p.x - a.x) * dir.x + (p.y - a.y) * dir.y;
+    const proj = vecAdd(a, vecScale(dir, t));
+    if (vecLen(vecSub(p, proj)) >= threshold) continue;
+    nearLines.push({ a, dir });
+    if (settings.extension && (t < 0 || t > len)) {
+      consider({
+        kind: 'extension',
+        point: proj,
+        guidelines: [{ orientation: 'along', anchor: t < 0 ? a : b, direction: dir, color: '#9C27B0' }],
+      });
+    }
+  }
+
+  if (settings.intersection) {
+    for (let i = 0; i < nearLines.length; i++) {
+      for (let j = i + 1; j < nearLines.length; j++) {
+        const l1 = nearLines[i], l2 = nearLines[j];
+        const denom = vecCross(l1.dir, l2.dir);
+        if (Math.abs(denom) < 1e-6) continue; // parallel
+        const s = vecCross(vecSub(l2.a, l1.a), l2.dir) / denom;
+        consider({
+          kind: 'intersection',
+          point: vecAdd(l1.a, vecScale(l1.dir, s)),
+          guidelines: [
+            { orientation: 'along', anchor: l1.a, direction: l1.dir, color: '#9C27B0' },
+            { orientation: 'along', anchor: l2.a, direction: l2.dir, color: '#9C27B0' },
+          ],
+        });
+      }
+    }
+  }
+
+  for (const kind of SNAP_KINDS) {
+    const hit = best[kind.id];
+    if (hit) return hit.target;
+  }
+  return null;
+}
+
 /**
  * Create simple rectangle polygon (for doors/windows)
  */
@@ -477,15 +796,217 @@ function createRectPolygon(p1: Point, p2: Point, thickness: number): Point[] {
 }
 
 /**
- * Create door arc SVG path
+ * Create the plan symbol for a door spanning p1→p2 (source→target).
+ * `leaf` is drawn solid; `swing` holds the dashed parts (swing arcs, or the
+ * part of a pocket leaf hidden in the wall).
+ */
+function createDoorSymbol(p1: Point, p2: Point, door: DoorProperties, depth: number): { leaf: string; swing: string } {
+  const width = vecLen(vecSub(p2, p1));
+  if (width === 0) return { leaf: '', swing: '' };
+  const u = vecNorm(vecSub(p2, p1));
+  // vecPerp points to the right of source→target in screen space (y down)
+  const side = door.swing === 'right' ? vecPerp(u) : vecScale(vecPerp(u), -1);
+  const theta = (door.swing_angle * Math.PI) / 180;
+  const hinge = door.hinge === 'start' ? p1 : p2;
+  const along = door.hinge === 'start' ? u : vecScale(u, -1);
+  const line = (a: Point, b: Point) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+
+  /** Leaf hinged at `at`, closed along `dir`, opened by theta towards `side` */
+  const hingedLeaf = (at: Point, dir: Point, len: number) => {
+    const closed = vecAdd(at, vecScale(dir, len));
+    const open = vecAdd(at, vecScale(vecAdd(vecScale(dir, Math.cos(theta)), vecScale(side, Math.sin(theta))), len));
+    // Sweep flag 1 turns towards positive angles, i.e. clockwise on screen
+    const sweep = vecCross(dir, side) > 0 ? 1 : 0;
+    return { leaf: line(at, open), swing: `M ${closed.x} ${closed.y} A ${len} ${len} 0 0 ${sweep} ${open.x} ${open.y}` };
+  };
+
+  switch (door.leaf) {
+    case 'double': {
+      const a = hingedLeaf(p1, u, width / 2);
+      const b = hingedLeaf(p2, vecScale(u, -1), width / 2);
+      return { leaf: `${a.leaf} ${b.leaf}`, swing: `${a.swing} ${b.swing}` };
+    }
+    case 'sliding': {
+      // Two overlapping panels on parallel tracks, the hinge-side one in front
+      const offset = vecScale(side, depth / 4);
+      const panel = width * 0.55;
+      const front = line(vecAdd(hinge, offset), vecAdd(vecAdd(hinge, vecScale(along, panel)), offset));
+      const far = door.hinge === 'start' ? p2 : p1;
+      const back = line(vecSub(far, offset), vecSub(vecAdd(far, vecScale(along, -panel)), offset));
+      return { leaf: `${front} ${back}`, swing: '' };
+    }
+    case 'pocket': {
+      // The leaf slides into the wall beyond the hinge end; only its edge shows
+      const visible = vecAdd(hinge, vecScale(along, width * 0.1));
+      const hidden = vecAdd(hinge, vecScale(along, -width * 0.9));
+      return { leaf: line(hinge, visible), swing: line(hidden, hinge) };
+    }
+    default:
+      return hingedLeaf(hinge, along, width);
+  }
+}
+
+/**
+ * Create the plan symbol for a window spanning p1→p2 inside a wall of the
+ * given depth. `glass` is drawn solid; `swing` holds the dashed opening
+ * indicators. Sashes open to the right of source→target (the same side as a
+ * default door); a bay projects to the left.
+ */
+function createWindowSymbol(p1: Point, p2: Point, type: WindowType, depth: number): { glass: string; swing: string } {
+  const width = vecLen(vecSub(p2, p1));
+  if (width === 0) return { glass: '', swing: '' };
+  const u = vecNorm(vecSub(p2, p1));
+  const inside = vecPerp(u);
+  const line = (a: Point, b: Point) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+  const offset = (p: Point, d: number) => vecAdd(p, vecScale(inside, d));
+  // Double glazing: two panes either side of the wall centre line
+  const panes = `${line(offset(p1, -depth / 6), offset(p2, -depth / 6))} ${line(offset(p1, depth / 6), offset(p2, depth / 6))}`;
+
+  /** Quarter-circle sash opening from `at` along `dir`, swung to the inside */
+  const sashArc = (at: Point, dir: Point, len: number) => {
+    const closed = vecAdd(at, vecScale(dir, len));
+    const open = vecAdd(at, vecScale(inside, len));
+    const sweep = vecCross(dir, inside) > 0 ? 1 : 0;
+    return {
+      leaf: line(at, open),
+      arc: `M ${closed.x} ${closed.y} A ${len} ${len} 0 0 ${sweep} ${open.x} ${open.y}`,
+    };
+  };
+
+  switch (type) {
+    case 'fixed':
+      return { glass: line(p1, p2), swing: '' };
+    case 'sliding': {
+      // Two overlapping sashes on parallel tracks
+      const panel = width * 0.55;
+      return {
+        glass: `${line(offset(p1, -depth / 4), offset(vecAdd(p1, vecScale(u, panel)), -depth / 4))} ${line(offset(p2, depth / 4), offset(vecSub(p2, vecScale(u, panel)), depth / 4))}`,
+        swing: '',
+      };
+    }
+    case 'tilt_turn': {
+      // Turn: one sash hinged at the start; tilt: the dashed V to the head
+      const sash = sashArc(p1, u, width);
+      const mid = offset(vecAdd(p1, vecScale(u, width / 2)), depth / 2);
+      return { glass: panes, swing: `${sash.arc} ${line(offset(p1, depth / 2), mid)} ${line(mid, offset(p2, depth / 2))}` };
+    }
+    case 'casement':
+    case 'french': {
+      // A pair of sashes meeting in the middle; French windows draw the leaves
+      // because they open down to the floor like doors
+      const a = sashArc(p1, u, width / 2);
+      const b = sashArc(p2, vecScale(u, -1), width / 2);
+      return type === 'french'
+        ? { glass: `${line(p1, p2)} ${a.leaf} ${b.leaf}`, swing: `${a.arc} ${b.arc}` }
+        : { glass: panes, swing: `${a.arc} ${b.arc}` };
+    }
+    case 'bay': {
+      // Three-sided bay projecting outwards with 45° returns
+      const out = width / 4;
+      const a = offset(vecAdd(p1, vecScale(u, out)), -out);
+      const b = offset(vecSub(p2, vecScale(u, out)), -out);
+      return { glass: `M ${p1.x} ${p1.y} L ${a.x} ${a.y} L ${b.x} ${b.y} L ${p2.x} ${p2.y}`, swing: '' };
+    }
+  }
+}
+
+/**
+ * Create the plan symbol for an opening kind spanning p1→p2 inside a wall of
+ * the given depth. `solid` is drawn solid; `dashed` holds what is above the
+ * cut plane (heads, arches). Openings, arches and pass-throughs show their
+ * jambs; a pass-through adds its counter, a railing its posts.
  */
-function createDoorArc(x1: number, y1: number, x2: number, y2: number, radius: number): string {
-  const dx = x2 - x1, dy = y2 - y1;
-  const len = Math.sqrt(dx * dx + dy * dy);
-  if (len === 0) return '';
-  const px = -dy / len, py = dx / len;
-  const endX = x1 + px * radius, endY = y1 + py * radius;
-  return `M ${x1} ${y1} A ${radius} ${radius} 0 0 1 ${endX} ${endY}`;
+function createOpeningSymbol(p1: Point, p2: Point, kind: OpeningKind, depth: number, railing: boolean): { solid: string; dashed: string } {
+  const width = vecLen(vecSub(p2, p1));
+  if (width === 0) return { solid: '', dashed: '' };
+  const u = vecNorm(vecSub(p2, p1));
+  const n = vecPerp(u);
+  const half = depth / 2;
+  const line = (a: Point, b: Point) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+  const offset = (p: Point, d: number) => vecAdd(p, vecScale(n, d));
+  const jambs = `${line(offset(p1, -half), offset(p1, half))} ${line(offset(p2, -half), offset(p2, half))}`;
+  const heads = `${line(offset(p1, -half), offset(p2, -half))} ${line(offset(p1, half), offset(p2, half))}`;
+
+  switch (kind) {
+    case 'opening':
+      return { solid: jambs, dashed: heads };
+    case 'arch': {
+      // Half-ellipse on each face, rising a quarter of the span
+      const rotation = (vecAngle(u) * 180) / Math.PI;
+      const arc = (side: number) => {
+        const a = offset(p1, side * half);
+        const b = offset(p2, side * half);
+        const sweep = vecCross(vecScale(u, -1), vecScale(n, side)) > 0 ? 1 : 0;
+        return `M ${a.x} ${a.y} A ${width / 2} ${width / 4} ${rotation} 0 ${sweep} ${b.x} ${b.y}`;
+      };
+      return { solid: jambs, dashed: `${arc(-1)} ${arc(1)}` };
+    }
+    case 'pass_through': {
+      // The counter top overhangs the wall on both sides
+      const c = half + depth;
+      const counter = `M ${offset(p1, -c).x} ${offset(p1, -c).y} L ${offset(p2, -c).x} ${offset(p2, -c).y} L ${offset(p2, c).x} ${offset(p2, c).y} L ${offset(p1, c).x} ${offset(p1, c).y} Z`;
+      return { solid: `${jambs} ${counter}`, dashed: heads };
+    }
+    case 'half_wall': {
+      if (!railing) return { solid: '', dashed: '' };
+      // Handrail along the centre line with posts at roughly four depths apart
+      const posts = Math.max(1, Math.round(width / (depth * 4)));
+      const ticks = Array.from({ length: posts + 1 }, (_, i) => {
+        const p = vecAdd(p1, vecScale(u, (width * i) / posts));
+        return line(offset(p, -half), offset(p, half));
+      });
+      return { solid: `${line(p1, p2)} ${ticks.join(' ')}`, dashed: '' };
+    }
+  }
+}
+
+/**
+ * Draw the symbol of a stair, ramp or lift shaft into its furniture group
+ * (local frame). Any previous symbol is replaced, so the resize handles can
+ * redraw it while dragging.
+ */
+function renderCirculationSymbol(
+  g: d3.Selection<SVGGElement, any, any, any>,
+  type: CirculationType,
+  frame: FixtureFrame,
+  properties: Record<string, any> | undefined,
+  unit: number,
+): void {
+  g.selectAll('.circulation-symbol').remove();
+  const p = getCirculationProperties(type, properties, frame);
+  const symbol = circulationSymbol(type, frame.width, frame.depth, p);
+  const color = '#37474F';
+  const group = g.append('g')
+    .attr('class', 'circulation-symbol')
+    .attr('pointer-events', 'none')
+    .attr('fill', 'none')
+    .attr('stroke', color);
+  group.append('path').attr('d', symbol.outline).attr('stroke-width', unit);
+  group.append('path').attr('d', symbol.detail).attr('stroke-width', 0.75 * unit);
+  group.append('path')
+    .attr('d', symbol.hidden)
+    .attr('stroke-width', 0.75 * unit)
+    .attr('stroke-dasharray', `${3 * unit},${2 * unit}`);
+  group.append('path').attr('d', symbol.breakLine).attr('stroke-width', unit);
+  group.append('path').attr('d', symbol.walkLine).attr('stroke-width', 0.75 * unit);
+  group.append('path').attr('d', symbol.arrow).attr('fill', color).attr('stroke', 'none');
+  if (symbol.start) {
+    const fontSize = p.flight_width * 0.25;
+    group.append('circle')
+      .attr('cx', symbol.start.x)
+      .attr('cy', symbol.start.y)
+      .attr('r', fontSize * 0.25)
+      .attr('fill', color)
+      .attr('stroke', 'none');
+    group.append('text')
+      .attr('x', symbol.start.x + fontSize * 0.4)
+      .attr('y', symbol.start.y - fontSize * 0.6)
+      .attr('font-size', `${fontSize}px`)
+      .attr('font-weight', '600')
+      .attr('fill', color)
+      .attr('stroke', 'none')
+      .text(p.direction === 'up' ? 'UP' : 'DN');
+  }
 }
 
 // ============================================
@@ -494,14 +1015,15 @@ function createDoorArc(x1: number, y1: number, x2: number, y2: number, radius: n
 
 /**
  * Render a dimension label along a segment p1→p2, offset perpendicularly.
- * Uses orange (#FF9800) colour for lengths.
+ * Uses orange (#FF9800) colour for lengths. Returns the label's text and
+ * background so callers can make them interactive.
  */
 function renderLengthLabel(
   g: d3.Selection<SVGGElement, unknown, null, undefined>,
   p1: Point, p2: Point,
   text: string,
   k: number,
-): void {
+): { label: d3.Selection<SVGTextElement, unknown, null, undefined>; background: d3.Selection<SVGRectElement, unknown, null, undefined> } {
   const dir = vecNorm(vecSub(p2, p1));
   const perp = vecPerp(dir);
   const offset = 18 / k;
@@ -552,6 +1074,7 @@ function renderLengthLabel(
       .attr('x', bbox.x - pad).attr('y', bbox.y - pad)
       .attr('width', bbox.width + 2 * pad).attr('height', bbox.height + 2 * pad);
   } catch (_) { /* getBBox unavailable outside live DOM */ }
+  return { label: textEl, background: bgRect };
 }
 
 /**
@@ -608,6 +1131,182 @@ function renderAngleArcs(
   }
 }
 
+/** Persistent dimension colour (#455A64), kept apart from the orange live labels */
+const DIMENSION_COLOR = '#455A64';
+
+/**
+ * Children of annotationG drawn by tools and drags. Stored annotations live in
+ * `.plan-annotations` and survive those redraws.
+ */
+const TRANSIENT_ANNOTATIONS = ':scope > :not(.plan-annotations)';
+
+/** Text label with a white backing, rotated by `angle` degrees about (x, y) */
+function renderDimensionText(
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  x: number, y: number, angle: number,
+  text: string, color: string, k: number,
+): void {
+  const pad = 2 / k;
+  const label = g.append('g').attr('transform', `translate(${x},${y}) rotate(${angle})`);
+  const bgRect = label.append('rect').attr('fill', 'rgba(255,255,255,0.9)');
+  const textEl = label.append('text')
+    .attr('text-anchor', 'middle').attr('dominant-baseline', 'middle')
+    .attr('font-size', `${11 / k}px`).attr('fill', color)
+    .attr('font-family', 'sans-serif')
+    .text(text);
+  try {
+    const bbox = (textEl.node() as SVGGraphicsElement).getBBox();
+    bgRect
+      .attr('x', bbox.x - pad).attr('y', bbox.y - pad)
+      .attr('width', bbox.width + 2 * pad).attr('height', bbox.height + 2 * pad);
+  } catch (_) { /* getBBox unavailable outside live DOM */ }
+}
+
+/**
+ * Render a dimension: extension lines, a dimension line with oblique ticks and
+ * one label per segment for linear kinds; an arc and the angle for angular ones.
+ * Sizes are in screen pixels (divided by the zoom `k`).
+ */
+function renderDimension(
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  geometry: DimensionGeometry,
+  isCalibrated: boolean,
+  k: number,
+  color: string,
+): void {
+  const stroke = 1 / k;
+  // Wide invisible stroke so the dimension is easy to click
+  const hit = (sel: d3.Selection<any, unknown, null, undefined>) => sel
+    .attr('fill', 'none').attr('stroke', 'transparent').attr('stroke-width', 10 / k)
+    .attr('pointer-events', 'stroke');
+
+  if (geometry.kind === 'angular') {
+    const { vertex, radius, start, sweep } = geometry;
+    const at = (a: number, r: number) => ({ x: vertex.x + r * Math.cos(a), y: vertex.y + r * Math.sin(a) });
+    const p0 = at(start, radius), p1 = at(start + sweep, radius);
+    const arc = `M ${p0.x} ${p0.y} A ${radius} ${radius} 0 0 ${sweep > 0 ? 1 : 0} ${p1.x} ${p1.y}`;
+    // Arms out to the arc, for arcs drawn past the measured nodes
+    for (const [arm, end] of [[geometry.arms[0], p0], [geometry.arms[1], p1]] as const) {
+      if (Math.hypot(arm.x - vertex.x, arm.y - vertex.y) >= radius) continue;
+      g.append('line')
+        .attr('x1', arm.x).attr('y1', arm.y).attr('x2', end.x).attr('y2', end.y)
+        .attr('stroke', color).attr('stroke-width', stroke)
+        .attr('stroke-dasharray', `${3 / k},${2 / k}`);
+    }
+    g.append('path').attr('d', arc)
+      .attr('fill', 'none').attr('stroke', color).attr('stroke-width', stroke);
+    hit(g.append('path').attr('d', arc));
+    const label = at(start + sweep / 2, radius + 10 / k);
+    renderDimensionText(g, label.x, label.y, 0, `${geometry.value.toFixed(1)}°`, color, k);
+    return;
+  }
+
+  const { dir, points, feet, values } = geometry;
+  const gap = 3 / k, overshoot = 4 / k, tick = 4 / k;
+  points.forEach((p, i) => {
+    const foot = feet[i];
+    const len = Math.hypot(foot.x - p.x, foot.y - p.y);
+    if (len <= gap) return;
+    const ux = (foot.x - p.x) / len, uy = (foot.y - p.y) / len;
+    g.append('line')
+      .attr('x1', p.x + ux * gap).attr('y1', p.y + uy * gap)
+      .attr('x2', foot.x + ux * overshoot).attr('y2', foot.y + uy * overshoot)
+      .attr('stroke', color).attr('stroke-width', stroke);
+  });
+  const first = feet[0], last = feet[feet.length - 1];
+  g.append('line')
+    .attr('x1', first.x - dir.x * overshoot).attr('y1', first.y - dir.y * overshoot)
+    .attr('x2', last.x + dir.x * overshoot).attr('y2', last.y + dir.y * overshoot)
+    .attr('stroke', color).attr('stroke-width', stroke);
+  hit(g.append('line').attr('x1', first.x).attr('y1', first.y).attr('x2', last.x).attr('y2', last.y));
+  // Architectural 45° ticks where the extension lines cross
+  const tx = (dir.x - dir.y) * tick / Math.SQRT2, ty = (dir.y + dir.x) * tick / Math.SQRT2;
+  for (const f of feet) {
+    g.append('line')
+      .attr('x1', f.x - tx).attr('y1', f.y - ty).attr('x2', f.x + tx).attr('y2', f.y + ty)
+      .attr('stroke', color).attr('stroke-width', 1.6 / k);
+  }
+  // Labels sit just off the line, rotated with it but never upside down
+  let angle = (Math.atan2(dir.y, dir.x) * 180) / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  const rad = (angle * Math.PI) / 180;
+  const lift = { x: Math.sin(rad) * 8 / k, y: -Math.cos(rad) * 8 / k };
+  values.forEach((value, i) => {
+    if (value < 1e-9) return;
+    const mx = (feet[i].x + feet[i + 1].x) / 2 + lift.x;
+    const my = (feet[i].y + feet[i + 1].y) / 2 + lift.y;
+    renderDimensionText(g, mx, my, angle, formatDataLen(value, isCalibrated), color, k);
+  });
+}
+
+/** Callout leader: a line from the note to `to`, ending in an arrowhead */
+function renderNoteLeader(
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  from: Point, to: Point,
+  color: string,
+  k: number,
+): void {
+  g.selectAll('.plan-note__leader').remove();
+  const len = Math.hypot(to.x - from.x, to.y - from.y);
+  if (len < 1e-9) return;
+  const ux = (to.x - from.x) / len, uy = (to.y - from.y) / len;
+  const head = 9 / k, half = 4 / k;
+  // Inserted first so the text box covers the start of the line
+  const leader = g.insert('g', ':first-child').attr('class', 'plan-note__leader');
+  leader.append('line')
+    .attr('x1', from.x).attr('y1', from.y)
+    .attr('x2', to.x - ux * head).attr('y2', to.y - uy * head)
+    .attr('stroke', color).attr('stroke-width', 1.5 / k);
+  leader.append('path')
+    .attr('d', `M ${to.x} ${to.y} L ${to.x - ux * head - uy * half} ${to.y - uy * head + ux * half} L ${to.x - ux * head + uy * half} ${to.y - uy * head - ux * half} Z`)
+    .attr('fill', color);
+}
+
+/**
+ * Render a text or callout note at a fixed screen size: a boxed, rotated
+ * block of text and, for callouts, a leader arrow from the box to its target.
+ */
+function renderNote(
+  g: d3.Selection<SVGGElement, unknown, null, undefined>,
+  note: NoteProperties,
+  k: number,
+  selected: boolean,
+): void {
+  const fontSize = note.font_size / k;
+  const pad = 4 / k;
+  const box = g.append('g')
+    .attr('class', 'plan-note__box')
+    .attr('transform', `translate(${note.x},${note.y}) rotate(${note.rotation})`);
+  const bgRect = box.append('rect')
+    .attr('fill', 'rgba(255,255,255,0.9)')
+    .attr('stroke', selected ? '#2196F3' : note.color)
+    .attr('stroke-width', (selected ? 2 : 1) / k)
+    .attr('stroke-dasharray', selected ? `${4 / k},${2 / k}` : null)
+    .attr('rx', 2 / k);
+  const lines = note.text.split('\n');
+  const textEl = box.append('text')
+    .attr('text-anchor', 'middle')
+    .attr('font-size', `${fontSize}px`)
+    .attr('font-family', 'sans-serif')
+    .attr('fill', note.color);
+  lines.forEach((line, i) => {
+    textEl.append('tspan')
+      .attr('x', 0)
+      // Centre the block of lines on the anchor
+      .attr('y', (i - (lines.length - 1) / 2) * fontSize * 1.2)
+      .attr('dominant-baseline', 'middle')
+      .text(line || ' ');
+  });
+  try {
+    const bbox = (textEl.node() as SVGGraphicsElement).getBBox();
+    bgRect
+      .attr('x', bbox.x - pad).attr('y', bbox.y - pad)
+      .attr('width', bbox.width + 2 * pad).attr('height', bbox.height + 2 * pad);
+  } catch (_) { /* getBBox unavailable outside live DOM */ }
+  if (note.target) renderNoteLeader(g, note, note.target, note.color, k);
+}
+
 export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   floorPlan,
   onEdgeClick,
@@ -618,13 +1317,57 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   onNodePositionsChange,
   selectedEdgeIds = new Set(),
   onSelectedEdgesChange,
+  selectedNodeIds = new Set(),
+  selectedRoomIds = new Set(),
+  selectedFixtureIds = new Set(),
+  onSelectionChange,
+  onSelectionTransform,
   onEdgeDelete,
   activeTool,
   wallThickness = 16,
   onWallAdd,
+  wallMode = 'segment',
+  wallBoxSize = null,
+  grid,
+  snapSettings = DEFAULT_SNAP_SETTINGS,
+  onRoomBoxAdd,
   assetType = 'door',
   assetWidthM = 0.8,
   onAssetPlace,
+  assetDoor = DEFAULT_DOOR,
+  assetWindow = DEFAULT_WINDOW,
+  assetOpening = DEFAULT_OPENING,
+  onAssetDoorChange,
+  onDoorChange,
+  onStructuralChange,
+  onEdgeConstraintsChange,
+  selectedRoomId = null,
+  onSelectedRoomChange,
+  onRoomCreate,
+  onRoomUpdate,
+  onRoomDelete,
+  furnitureType = null,
+  onFurnitureTypeChange,
+  selectedFixtureId = null,
+  onSelectedFixtureChange,
+  onFixturePlace,
+  onFixtureUpdate,
+  onFixtureDelete,
+  pasteFragment = null,
+  onPastePlace,
+  onPasteCancel,
+  underlayAlign = false,
+  onUnderlayAlign,
+  onUnderlayAlignCancel,
+  levelGhosts = [],
+  dimensionKind = 'aligned',
+  selectedAnnotationId = null,
+  onSelectedAnnotationChange,
+  onAnnotationAdd,
+  onAnnotationDelete,
+  onAnnotationUpdate,
+  noteType = 'text',
+  noteStyle,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const gRef = useRef<SVGGElement>(null);
@@ -632,15 +1375,26 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const measureGRef = useRef<SVGGElement>(null);
   const wallPreviewGRef = useRef<SVGGElement | null>(null);
+  const pasteGRef = useRef<SVGGElement | null>(null);
   const dragGhostGRef = useRef<SVGGElement | null>(null);
   const guidelineGRef = useRef<SVGGElement | null>(null);
   const annotationGRef = useRef<SVGGElement | null>(null);
+  const lengthDimGRef = useRef<SVGGElement | null>(null);
+  const gridGRef = useRef<SVGGElement | null>(null);
+  const levelGhostGRef = useRef<SVGGElement | null>(null);
 
   // Track calibration state to reset zoom when it changes
   const prevIsCalibrated = useRef<boolean | undefined>(undefined);
 
   // Wall drawing state — kept in refs to avoid re-renders on every mouse move
-  const wallDrawRef = useRef<{ startPoint: Point; startNodeId?: string; startSplitEdgeId?: string } | null>(null);
+  // chainStart: first point of the chain, where a polyline closes
+  const wallDrawRef = useRef<{ startPoint: Point; startNodeId?: string; startSplitEdgeId?: string; chainStart?: Point } | null>(null);
+  // Rectangle / room box modes: corner where the current drag started
+  const wallBoxStartRef = useRef<Point | null>(null);
+  // Exact-entry box shown while typing a length mid-draw (position in container px)
+  const [wallEntry, setWallEntry] = useState<{ left: number; top: number; text: string } | null>(null);
+  // Set by the wall tool effect while it is active
+  const wallEntryRef = useRef<{ preview: (text: string) => void; commit: (text: string) => boolean } | null>(null);
   const wallSnapNodeRef = useRef<string | null>(null);
   const wallSnapEdgeRef = useRef<string | null>(null); // edge ID currently highlighted for snap
   // Always-current refs so wall handlers never get stale closures
@@ -648,14 +1402,52 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   wallThicknessRef.current = wallThickness;
   const onWallAddRef = useRef(onWallAdd);
   onWallAddRef.current = onWallAdd;
+  const wallModeRef = useRef(wallMode);
+  wallModeRef.current = wallMode;
+  const wallBoxSizeRef = useRef(wallBoxSize);
+  wallBoxSizeRef.current = wallBoxSize;
+  const onRoomBoxAddRef = useRef(onRoomBoxAdd);
+  onRoomBoxAddRef.current = onRoomBoxAdd;
   const wallFloorPlanNodesRef = useRef(floorPlan.nodes);
   wallFloorPlanNodesRef.current = floorPlan.nodes;
   const wallFloorPlanEdgesRef = useRef(floorPlan.edges);
   wallFloorPlanEdgesRef.current = floorPlan.edges;
+  // Hidden and locked layers take no part in snapping or hit testing
+  const layerView = planLayerView(floorPlan);
+  const snapNodesRef = useRef(floorPlan.nodes);
+  snapNodesRef.current = floorPlan.nodes.filter(n => isInteractive(layerView.node(n.id)));
+  const snapEdgesRef = useRef(floorPlan.edges);
+  snapEdgesRef.current = floorPlan.edges.filter(e => isInteractive(layerView.edge(e)));
   const activeToolRef = useRef(activeTool);
   activeToolRef.current = activeTool;
   const selectedEdgeIdsRef = useRef(selectedEdgeIds);
   selectedEdgeIdsRef.current = selectedEdgeIds;
+  const selectedNodeIdsRef = useRef(selectedNodeIds);
+  selectedNodeIdsRef.current = selectedNodeIds;
+  const selectedRoomIdsRef = useRef(selectedRoomIds);
+  selectedRoomIdsRef.current = selectedRoomIds;
+  const selectedFixtureIdsRef = useRef(selectedFixtureIds);
+  selectedFixtureIdsRef.current = selectedFixtureIds;
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  const onSelectionTransformRef = useRef(onSelectionTransform);
+  onSelectionTransformRef.current = onSelectionTransform;
+
+  const currentSelection = (): PlanSelection => ({
+    nodeIds: Array.from(selectedNodeIdsRef.current),
+    edgeIds: Array.from(selectedEdgeIdsRef.current),
+    roomIds: Array.from(selectedRoomIdsRef.current),
+    fixtureIds: Array.from(selectedFixtureIdsRef.current),
+  });
+  /** Report a new selection; parents without mixed selection only hear about edges */
+  const changeSelection = (selection: PlanSelection) => {
+    if (onSelectionChangeRef.current) onSelectionChangeRef.current(selection);
+    else onSelectedEdgesChange?.(selection.edgeIds);
+  };
+  /** Shift-click: add the item to the selection or take it out again */
+  const toggleSelection = (kind: keyof PlanSelection, id: string) => {
+    changeSelection(toggleInSelection(currentSelection(), kind, id));
+  };
 
   // Asset tool state — kept in refs to avoid re-renders on every mouse move
   interface AssetSnap {
@@ -672,8 +1464,100 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   assetWidthMRef.current = assetWidthM;
   const onAssetPlaceRef = useRef(onAssetPlace);
   onAssetPlaceRef.current = onAssetPlace;
+  const assetDoorRef = useRef(assetDoor);
+  assetDoorRef.current = assetDoor;
+  const assetWindowRef = useRef(assetWindow);
+  assetWindowRef.current = assetWindow;
+  const assetOpeningRef = useRef(assetOpening);
+  assetOpeningRef.current = assetOpening;
+  const onAssetDoorChangeRef = useRef(onAssetDoorChange);
+  onAssetDoorChangeRef.current = onAssetDoorChange;
   const isCalibratedRef = useRef<boolean>(floorPlan.is_calibrated ?? false);
   isCalibratedRef.current = floorPlan.is_calibrated ?? false;
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  const snapSettingsRef = useRef(snapSettings);
+  snapSettingsRef.current = snapSettings;
+  // Grid overlay redraw, called on zoom so line density follows the zoom level
+  const renderGridRef = useRef<(() => void) | null>(null);
+  const onNodePositionsChangeRef = useRef(onNodePositionsChange);
+  onNodePositionsChangeRef.current = onNodePositionsChange;
+  const onEdgeConstraintsChangeRef = useRef(onEdgeConstraintsChange);
+  onEdgeConstraintsChangeRef.current = onEdgeConstraintsChange;
+
+  // Length label of a single selected wall; redrawn on zoom to keep its screen size
+  const renderSelectedWallDimRef = useRef<(() => void) | null>(null);
+  // Open length editor for that label (position in container px)
+  const [lengthEdit, setLengthEdit] = useState<{ edgeId: string; left: number; top: number; text: string; anchor: LengthAnchor } | null>(null);
+
+  // Room tool state — draft vertices live in a ref, like the wall tool
+  const roomDraftRef = useRef<Point[] | null>(null);
+  const roomsRef = useRef(floorPlan.rooms ?? []);
+  roomsRef.current = (floorPlan.rooms ?? []).filter(r => isInteractive(layerView.room(r)));
+  const selectedRoomIdRef = useRef(selectedRoomId);
+  selectedRoomIdRef.current = selectedRoomId;
+  const onSelectedRoomChangeRef = useRef(onSelectedRoomChange);
+  onSelectedRoomChangeRef.current = onSelectedRoomChange;
+  const onRoomCreateRef = useRef(onRoomCreate);
+  onRoomCreateRef.current = onRoomCreate;
+  const onRoomDeleteRef = useRef(onRoomDelete);
+  onRoomDeleteRef.current = onRoomDelete;
+
+  // Furniture tool state
+  const furnitureTypeRef = useRef(furnitureType);
+  furnitureTypeRef.current = furnitureType;
+  const fixturesRef = useRef(floorPlan.fixtures ?? []);
+  fixturesRef.current = floorPlan.fixtures ?? [];
+  const selectedFixtureIdRef = useRef(selectedFixtureId);
+  selectedFixtureIdRef.current = selectedFixtureId;
+  const onFurnitureTypeChangeRef = useRef(onFurnitureTypeChange);
+  onFurnitureTypeChangeRef.current = onFurnitureTypeChange;
+  const onSelectedFixtureChangeRef = useRef(onSelectedFixtureChange);
+  onSelectedFixtureChangeRef.current = onSelectedFixtureChange;
+  const onFixturePlaceRef = useRef(onFixturePlace);
+  onFixturePlaceRef.current = onFixturePlace;
+  const onFixtureUpdateRef = useRef(onFixtureUpdate);
+  onFixtureUpdateRef.current = onFixtureUpdate;
+  const onFixtureDeleteRef = useRef(onFixtureDelete);
+  const onPastePlaceRef = useRef(onPastePlace);
+  onPastePlaceRef.current = onPastePlace;
+  const onPasteCancelRef = useRef(onPasteCancel);
+  onPasteCancelRef.current = onPasteCancel;
+  const onUnderlayAlignRef = useRef(onUnderlayAlign);
+  onUnderlayAlignRef.current = onUnderlayAlign;
+  const onUnderlayAlignCancelRef = useRef(onUnderlayAlignCancel);
+  onUnderlayAlignCancelRef.current = onUnderlayAlignCancel;
+
+  // Dimension tool state
+  const dimensionKindRef = useRef(dimensionKind);
+  dimensionKindRef.current = dimensionKind;
+  const selectedAnnotationIdRef = useRef(selectedAnnotationId);
+  selectedAnnotationIdRef.current = selectedAnnotationId;
+  const onSelectedAnnotationChangeRef = useRef(onSelectedAnnotationChange);
+  onSelectedAnnotationChangeRef.current = onSelectedAnnotationChange;
+  const onAnnotationAddRef = useRef(onAnnotationAdd);
+  onAnnotationAddRef.current = onAnnotationAdd;
+  const onAnnotationDeleteRef = useRef(onAnnotationDelete);
+  onAnnotationDeleteRef.current = onAnnotationDelete;
+  const onAnnotationUpdateRef = useRef(onAnnotationUpdate);
+  onAnnotationUpdateRef.current = onAnnotationUpdate;
+  // Text tool state
+  const noteTypeRef = useRef(noteType);
+  noteTypeRef.current = noteType;
+  const noteStyleRef = useRef(noteStyle);
+  noteStyleRef.current = noteStyle;
+  const annotationsRef = useRef(floorPlan.annotations ?? []);
+  annotationsRef.current = floorPlan.annotations ?? [];
+  // Open note text editor (position in container px); `annotationId` is null for a new note
+  const [noteEdit, setNoteEdit] = useState<{
+    left: number; top: number; text: string;
+    annotationId: string | null;
+    annotationType: 'text' | 'callout';
+    note: NoteProperties;
+  } | null>(null);
+  // Stored annotations; redrawn on zoom and, with moved node positions, during drags
+  const renderAnnotationsRef = useRef<((overrides?: Map<string, Point>) => void) | null>(null);
+  onFixtureDeleteRef.current = onFixtureDelete;
 
   const [measurePoint1, setMeasurePoint1] = useState<Point | null>(null);
   const [measurePoint2, setMeasurePoint2] = useState<Point | null>(null);
@@ -681,7 +1565,14 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
   const [draggedEdge, setDraggedEdge] = useState<Edge | null>(null);
   const [isShiftPressed, setIsShiftPressed] = useState<boolean>(false);
   const [selectionBox, setSelectionBox] = useState<{x1: number; y1: number; x2: number; y2: number} | null>(null);
-  const [contextMenu, setContextMenu] = useState<{x: number; y: number; edgeId: string} | null>(null);
+  const [contextMenu, setContextMenu] = useState<{x: number; y: number; edgeId?: string; roomId?: string} | null>(null);
+  const [isLegendOpen, setIsLegendOpen] = useState(true);
+  const contextDoor = contextMenu?.edgeId
+    ? floorPlan.edges.find(e => e.id === contextMenu.edgeId && e.type === 'door')
+    : undefined;
+  const contextWall = contextMenu?.edgeId
+    ? floorPlan.edges.find(e => e.id === contextMenu.edgeId && e.type === 'wall')
+    : undefined;
 
   // Close context menu on any click (with delay to avoid immediate closing)
   useEffect(() => {
@@ -813,18 +1704,37 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     const svg = svgRef.current;
     const gElement = gRef.current;
 
-    const handleMeasureClick = (event: MouseEvent) => {
-      event.stopPropagation();
-      event.preventDefault();
-
+    const toDataPoint = (event: MouseEvent): Point | null => {
       const point = svg.createSVGPoint();
       point.x = event.clientX;
       point.y = event.clientY;
 
       const ctm = gElement.getScreenCTM();
-      if (!ctm) return;
+      if (!ctm) return null;
       const transformedPoint = point.matrixTransform(ctm.inverse());
-      const dataPoint: Point = { x: transformedPoint.x, y: transformedPoint.y };
+      return { x: transformedPoint.x, y: transformedPoint.y };
+    };
+
+    /** Snap target for the next measure point; perpendiculars drop from the first point */
+    const measureTarget = (p: Point): SnapTarget | null => {
+      const { measurePoint1: p1, measurePoint2: p2 } = measureStateRef.current;
+      return findSnapTargetAt(p, p1 && !p2 ? p1 : null);
+    };
+
+    const handleMeasureMouseMove = (event: MouseEvent) => {
+      const p = toDataPoint(event);
+      const target = p ? measureTarget(p) : null;
+      renderGuidelines(target?.guidelines ?? []);
+      renderSnapMarker(target);
+    };
+
+    const handleMeasureClick = (event: MouseEvent) => {
+      event.stopPropagation();
+      event.preventDefault();
+
+      const rawPoint = toDataPoint(event);
+      if (!rawPoint) return;
+      const dataPoint: Point = measureTarget(rawPoint)?.point ?? rawPoint;
 
       const { measurePoint1: p1, measurePoint2: p2 } = measureStateRef.current;
       if (!p1 || p2) {
@@ -837,7 +1747,12 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
 
     // Use capture phase so this fires before any child stopPropagation
     svg.addEventListener('click', handleMeasureClick, true);
-    return () => svg.removeEventListener('click', handleMeasureClick, true);
+    svg.addEventListener('mousemove', handleMeasureMouseMove);
+    return () => {
+      svg.removeEventListener('click', handleMeasureClick, true);
+      svg.removeEventListener('mousemove', handleMeasureMouseMove);
+      clearGuidelines();
+    };
   }, [measureMode]);
 
   // ============================================
@@ -922,10 +1837,76 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     if (guidelineGRef.current) d3.select(guidelineGRef.current).selectAll('*').remove();
   };
   const clearAnnotations = () => {
-    if (annotationGRef.current) d3.select(annotationGRef.current).selectAll('*').remove();
+    if (annotationGRef.current) d3.select(annotationGRef.current).selectAll(TRANSIENT_ANNOTATIONS).remove();
+  };
+
+  // ─── Derived snap targets ──────────────────────────────────────────────────
+  const findSnapTargetAt = (p: Point, from: Point | null, excludeNodeId: string | null = null): SnapTarget | null => {
+    if (!svgRef.current) return null;
+    return findSnapTarget(
+      p, from,
+      snapEdgesRef.current,
+      wallFloorPlanNodesRef.current,
+      snapSettingsRef.current,
+      d3.zoomTransform(svgRef.current).k,
+      excludeNodeId,
+    );
+  };
+
+  /** Draw (or clear) the glyph and label for a derived snap on the guideline layer */
+  const renderSnapMarker = (target: SnapTarget | null) => {
+    if (!guidelineGRef.current || !svgRef.current) return;
+    const gl = d3.select(guidelineGRef.current);
+    gl.selectAll('.snap-marker').remove();
+    if (!target) return;
+    const k = d3.zoomTransform(svgRef.current).k;
+    const r = 6 / k;
+    const color = '#9C27B0';
+    const marker = gl.append('g')
+      .attr('class', `snap-marker snap-marker--${target.kind}`)
+      .attr('transform', `translate(${target.point.x},${target.point.y})`)
+      .attr('pointer-events', 'none');
+    const glyphs: Record<SnapKind, string> = {
+      midpoint: `M0,${-r}L${r},${r * 0.75}L${-r},${r * 0.75}Z`,
+      perpendicular: `M${-r},${r}H${r}M0,${r}V${-r}M0,${r * 0.4}H${r * 0.6}V${r}`,
+      extension: `M${-r},0H${r}M0,${-r}V${r}`,
+      intersection: `M${-r},${-r}L${r},${r}M${-r},${r}L${r},${-r}`,
+    };
+    marker.append('path')
+      .attr('d', glyphs[target.kind])
+      .attr('fill', target.kind === 'midpoint' ? 'rgba(156, 39, 176, 0.15)' : 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 1.5 / k);
+    marker.append('text')
+      .attr('x', r * 1.5)
+      .attr('y', -r * 1.2)
+      .attr('font-size', `${10 / k}px`)
+      .attr('font-family', 'sans-serif')
+      .attr('fill', color)
+      .text(SNAP_KINDS.find(kind => kind.id === target.kind)?.label ?? '');
+  };
+
+  // ─── Grid snapping ──────────────────────────────────────────────────────────
+  /** Grid spacing to snap to for this pointer event, or null when off or Alt is held */
+  const activeGridSpacing = (event?: { altKey?: boolean } | null): number | null => {
+    const g = gridRef.current;
+    return g?.enabled && g.spacing > 0 && !event?.altKey ? g.spacing : null;
+  };
+  const snapPointToGrid = (p: Point, event?: { altKey?: boolean } | null): Point => {
+    const spacing = activeGridSpacing(event);
+    return spacing === null ? p : { x: snapValueToGrid(p.x, spacing), y: snapValueToGrid(p.y, spacing) };
   };
   // ─────────────────────────────────────────────────────────────────────────────
 
+  // Switching wall sub-mode abandons whatever was being drawn
+  useEffect(() => {
+    wallDrawRef.current = null;
+    wallBoxStartRef.current = null;
+    if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
+    clearGuidelines();
+    clearAnnotations();
+  }, [wallMode, wallBoxSize]);
+
   // ============================================
   // Wall Drawing Tool interaction
   // ============================================
@@ -933,6 +1914,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     // When switching away from wall tool, abort any in-progress drawing
     if (activeTool !== 'wall') {
       wallDrawRef.current = null;
+      wallBoxStartRef.current = null;
       if (wallPreviewGRef.current) {
         d3.select(wallPreviewGRef.current).selectAll('*').remove();
       }
@@ -974,7 +1956,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       const dp = toDataPoint(clientX, clientY);
       let best: Node | null = null;
       let bestDist = threshold;
-      wallFloorPlanNodesRef.current.forEach((node) => {
+      snapNodesRef.current.forEach((node) => {
         const dist = Math.hypot(node.x - dp.x, node.y - dp.y);
         if (dist < bestDist) {
           bestDist = dist;
@@ -992,7 +1974,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       const dp = toDataPoint(clientX, clientY);
       let best: { edge: Edge; point: Point } | null = null;
       let bestDist = snapThreshold;
-      for (const edge of wallFloorPlanEdgesRef.current) {
+      for (const edge of snapEdgesRef.current) {
         const fromNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.source);
         const toNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.target);
         if (!fromNode || !toNode) continue;
@@ -1061,137 +2043,276 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       wallSnapNodeRef.current = snapNode?.id ?? null;
     };
 
-    const handleWallClick = (event: MouseEvent) => {
-      event.stopPropagation();
-      event.preventDefault();
+    const isBoxMode = () => wallModeRef.current === 'rectangle' || wallModeRef.current === 'room_box';
 
-      const snapNode = findSnapNode(event.clientX, event.clientY);
-      const snapEdge = snapNode ? null : findSnapEdge(event.clientX, event.clientY);
-      const dp = toDataPoint(event.clientX, event.clientY);
-      const effectivePoint = snapNode
-        ? { x: snapNode.x, y: snapNode.y }
-        : snapEdge
-        ? snapEdge.point
-        : dp;
+    /** Box corners from two opposite points, clockwise on screen from the top-left */
+    const boxCorners = (a: Point, b: Point): Point[] => {
+      const x0 = Math.min(a.x, b.x), x1 = Math.max(a.x, b.x);
+      const y0 = Math.min(a.y, b.y), y1 = Math.max(a.y, b.y);
+      return [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+    };
 
-      if (!wallDrawRef.current) {
-        // Phase 1 — record start point
-        wallDrawRef.current = {
-          startPoint: effectivePoint,
-          startNodeId: snapNode?.id,
-          startSplitEdgeId: snapEdge?.edge.id,
-        };
-      } else {
-        // Phase 2 — finish wall
-        const { startPoint, startNodeId, startSplitEdgeId } = wallDrawRef.current;
-        const newNodes: Node[] = [];
-        const splits: { [nodeId: string]: string } = {};
+    /** Box corner under the pointer: an existing node within snap range, else the raw point */
+    /**
+     * Resolve what the pointer snaps to: a node first, then a derived target
+     * (midpoint, perpendicular, intersection), then the nearest point on a
+     * wall, and only then a wall extension. On-wall targets come back as
+     * `snapEdge` too, so the wall is split there.
+     */
+    const resolveWallSnap = (event: MouseEvent, from: Point | null): {
+      snapNode: Node | null; snapEdge: { edge: Edge; point: Point } | null; target: SnapTarget | null;
+    } => {
+      const snapNode = findSnapNode(event.clientX, event.clientY);
+      if (snapNode) return { snapNode, snapEdge: null, target: null };
+      const target = findSnapTargetAt(toDataPoint(event.clientX, event.clientY), from);
+      if (target && target.kind !== 'extension') {
+        return { snapNode: null, snapEdge: target.edge ? { edge: target.edge, point: target.point } : null, target };
+      }
+      const snapEdge = findSnapEdge(event.clientX, event.clientY);
+      if (snapEdge) return { snapNode: null, snapEdge, target: null };
+      return { snapNode: null, snapEdge: null, target };
+    };
 
-        // Apply axis / parallel snap to the endpoint when no node/edge snap is active.
-        const kClick = d3.zoomTransform(svg as SVGSVGElement).k;
-        const finalPoint = (!snapNode && !snapEdge)
-          ? (
-              snapToAxis(startPoint, effectivePoint, kClick)?.point ??
-              snapToParallel(startPoint, effectivePoint, wallFloorPlanEdgesRef.current, wallFloorPlanNodesRef.current, startNodeId ?? null, kClick)?.point ??
-              effectivePoint
-            )
-          : effectivePoint;
+    const boxPoint = (event: MouseEvent): Point => {
+      const { snapNode, target } = resolveWallSnap(event, null);
+      if (snapNode) return { x: snapNode.x, y: snapNode.y };
+      return target ? target.point : snapPointToGrid(toDataPoint(event.clientX, event.clientY), event);
+    };
 
-        let sourceId: string;
-        if (startNodeId) {
-          sourceId = startNodeId;
-        } else {
-          sourceId = crypto.randomUUID();
-          newNodes.push({ id: sourceId, x: startPoint.x, y: startPoint.y });
-          if (startSplitEdgeId) splits[sourceId] = startSplitEdgeId;
-        }
+    /** Second corner of a typed-size box anchored at `corner` */
+    const typedBoxEnd = (corner: Point): Point | null => {
+      const size = wallBoxSizeRef.current;
+      return size ? { x: corner.x + size.width, y: corner.y + size.height } : null;
+    };
 
-        let targetId: string;
-        if (snapNode) {
-          targetId = snapNode.id;
-        } else {
-          targetId = crypto.randomUUID();
-          newNodes.push({ id: targetId, x: finalPoint.x, y: finalPoint.y });
-          if (snapEdge) splits[targetId] = snapEdge.edge.id;
-        }
+    const renderBoxPreview = (a: Point, b: Point) => {
+      if (!wallPreviewGRef.current) return;
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const corners = boxCorners(a, b);
+      const pg = d3.select(wallPreviewGRef.current);
+      pg.selectAll('*').remove();
+      const points = corners.map(c => `${c.x},${c.y}`).join(' ');
+      pg.append('polygon')
+        .attr('points', points)
+        .attr('fill', wallModeRef.current === 'room_box' ? 'rgba(76, 175, 80, 0.12)' : 'none')
+        .attr('stroke', '#2196F3')
+        .attr('stroke-width', wallThicknessRef.current)
+        .attr('stroke-opacity', 0.25)
+        .attr('pointer-events', 'none');
+      pg.append('polygon')
+        .attr('points', points)
+        .attr('fill', 'none')
+        .attr('stroke', '#2196F3')
+        .attr('stroke-width', 2 / k)
+        .attr('stroke-dasharray', `${8 / k},${4 / k}`)
+        .attr('pointer-events', 'none');
+      if (annotationGRef.current) {
+        const ag = d3.select(annotationGRef.current as SVGGElement);
+        ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
+        const isCalibrated = isCalibratedRef.current;
+        const [tl, tr, , bl] = corners;
+        if (tr.x - tl.x > 1e-6) renderLengthLabel(ag, tl, tr, formatDataLen(tr.x - tl.x, isCalibrated), k);
+        if (bl.y - tl.y > 1e-6) renderLengthLabel(ag, bl, tl, formatDataLen(bl.y - tl.y, isCalibrated), k);
+      }
+    };
 
-        // Guard: reject zero-length walls
-        if (sourceId === targetId) {
-          wallDrawRef.current = null;
-          if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
-          return;
-        }
+    const clearBoxPreview = () => {
+      if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
+      clearAnnotations();
+    };
 
-        const newEdge: Edge = {
+    /**
+     * Emit the four walls of a box through onWallAdd (so they join the same
+     * save batch as chained walls). Corners that land exactly on existing
+     * nodes reuse them.
+     */
+    const emitBox = (a: Point, b: Point) => {
+      const corners = boxCorners(a, b);
+      const [tl, , br] = corners;
+      if (br.x - tl.x < 1e-6 || br.y - tl.y < 1e-6) return;
+      const ids = corners.map(c =>
+        wallFloorPlanNodesRef.current.find(n => Math.abs(n.x - c.x) < 1e-9 && Math.abs(n.y - c.y) < 1e-9)?.id ?? null
+      );
+      const emitted = new Set<string>();
+      const nodeIds = ids.map(id => id ?? crypto.randomUUID());
+      corners.forEach((_, i) => {
+        const j = (i + 1) % corners.length;
+        const newNodes: Node[] = [i, j]
+          .filter(n => ids[n] === null && !emitted.has(nodeIds[n]))
+          .map(n => ({ id: nodeIds[n], x: corners[n].x, y: corners[n].y }));
+        newNodes.forEach(n => emitted.add(n.id));
+        onWallAddRef.current?.({
           id: crypto.randomUUID(),
-          source: sourceId,
-          target: targetId,
+          source: nodeIds[i],
+          target: nodeIds[j],
           type: 'wall',
           thickness: wallThicknessRef.current,
-        };
-
-        onWallAddRef.current?.(newEdge, newNodes, Object.keys(splits).length > 0 ? splits : undefined);
-
-        // Auto-continue: immediately start next wall from the end of this one.
-        // The user can break the chain by pressing Escape.
-        wallDrawRef.current = {
-          startPoint: finalPoint,
-          startNodeId: targetId,
-          startSplitEdgeId: undefined,
-        };
-        if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
-        clearGuidelines();
-        updateSnapHighlight(null);
-        updateEdgeSnapHighlight(null);
+        }, newNodes);
+      });
+      if (wallModeRef.current === 'room_box') {
+        // The room follows the inner face of the walls
+        const half = wallThicknessRef.current / 2;
+        const inner = boxCorners({ x: tl.x + half, y: tl.y + half }, { x: br.x - half, y: br.y - half });
+        if (br.x - tl.x > 2 * half && br.y - tl.y > 2 * half) {
+          onRoomBoxAddRef.current?.(inner.map(c => [c.x, c.y] as [number, number]));
+        }
       }
     };
 
-    const handleWallMouseMove = (event: MouseEvent) => {
-      const snapNode = findSnapNode(event.clientX, event.clientY);
-      updateSnapHighlight(snapNode);
-      const snapEdge = snapNode ? null : findSnapEdge(event.clientX, event.clientY);
+    // Dragging a box: mousedown starts it, window-level move/up finish it
+    let boxDragged = false;
 
-      if (!wallDrawRef.current || !wallPreviewGRef.current) {
-        // No drawing in progress — just show/hide the snap indicator
-        updateEdgeSnapHighlight(snapEdge);
-        return;
-      }
+    const handleBoxMouseDown = (event: MouseEvent) => {
+      if (!isBoxMode() || event.button !== 0 || wallBoxSizeRef.current) return;
+      // Keep d3-zoom from panning while the box is dragged
+      event.stopImmediatePropagation();
+      event.preventDefault();
+      wallBoxStartRef.current = boxPoint(event);
+      boxDragged = false;
+      window.addEventListener('mousemove', handleBoxDragMove);
+      window.addEventListener('mouseup', handleBoxDragEnd);
+    };
 
-      const { startPoint } = wallDrawRef.current;
-      const dp = toDataPoint(event.clientX, event.clientY);
-      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+    const handleBoxDragMove = (event: MouseEvent) => {
+      const start = wallBoxStartRef.current;
+      if (!start) return;
+      boxDragged = true;
+      renderBoxPreview(start, boxPoint(event));
+    };
 
-      // Axis snap: when no node/edge snap active, snap near-H/V walls to exact axis.
-      // Build a guidelines array so any caller can extend it (e.g. parallel walls).
-      const activeGuidelines: Guideline[] = [];
-      let endPoint: Point;
+    const handleBoxDragEnd = (event: MouseEvent) => {
+      window.removeEventListener('mousemove', handleBoxDragMove);
+      window.removeEventListener('mouseup', handleBoxDragEnd);
+      const start = wallBoxStartRef.current;
+      wallBoxStartRef.current = null;
+      clearBoxPreview();
+      if (!start || !boxDragged) return;
+      emitBox(start, boxPoint(event));
+    };
+
+    /**
+     * Commit the wall from the current start point to `finalPoint` and carry
+     * on from its end (or close the loop in polyline mode)
+     */
+    const finishWall = (finalPoint: Point, snapNode: Node | null, snapEdge: { edge: Edge; point: Point } | null) => {
+      if (!wallDrawRef.current) return;
+      const { startPoint, startNodeId, startSplitEdgeId, chainStart } = wallDrawRef.current;
+      const newNodes: Node[] = [];
+      const splits: { [nodeId: string]: string } = {};
+
+      let sourceId: string;
+      if (startNodeId) {
+        sourceId = startNodeId;
+      } else {
+        sourceId = crypto.randomUUID();
+        newNodes.push({ id: sourceId, x: startPoint.x, y: startPoint.y });
+        if (startSplitEdgeId) splits[sourceId] = startSplitEdgeId;
+      }
+
+      let targetId: string;
       if (snapNode) {
-        endPoint = { x: snapNode.x, y: snapNode.y };
-      } else if (snapEdge) {
-        endPoint = snapEdge.point;
+        targetId = snapNode.id;
       } else {
-        const axisSnap = snapToAxis(startPoint, dp, k);
-        if (axisSnap) {
-          endPoint = axisSnap.point;
-          activeGuidelines.push(...axisSnap.guidelines);
-        } else {
-          // Parallel snap: only fires when no axis snap is active
-          const parallelSnap = snapToParallel(
-            startPoint, dp,
-            wallFloorPlanEdgesRef.current,
-            wallFloorPlanNodesRef.current,
-            wallDrawRef.current.startNodeId ?? null,
-            k,
-          );
-          if (parallelSnap) {
-            endPoint = parallelSnap.point;
-            activeGuidelines.push(...parallelSnap.guidelines);
-          } else {
-            endPoint = dp;
-          }
-        }
+        targetId = crypto.randomUUID();
+        newNodes.push({ id: targetId, x: finalPoint.x, y: finalPoint.y });
+        if (snapEdge) splits[targetId] = snapEdge.edge.id;
       }
-      renderGuidelines(activeGuidelines);
+
+      // Guard: reject zero-length walls
+      if (sourceId === targetId) {
+        wallDrawRef.current = null;
+        if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
+        return;
+      }
+
+      const newEdge: Edge = {
+        id: crypto.randomUUID(),
+        source: sourceId,
+        target: targetId,
+        type: 'wall',
+        thickness: wallThicknessRef.current,
+      };
+
+      onWallAddRef.current?.(newEdge, newNodes, Object.keys(splits).length > 0 ? splits : undefined);
+
+      // Polyline: landing back on the first point closes the loop and ends the chain
+      const closesLoop = wallModeRef.current === 'polyline' && !!snapNode && !!chainStart &&
+        Math.abs(snapNode.x - chainStart.x) < 1e-9 && Math.abs(snapNode.y - chainStart.y) < 1e-9;
+      if (closesLoop) {
+        wallDrawRef.current = null;
+        if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
+        clearGuidelines();
+        clearAnnotations();
+        updateSnapHighlight(null);
+        updateEdgeSnapHighlight(null);
+        return;
+      }
+
+      // Auto-continue: immediately start next wall from the end of this one.
+      // The user can break the chain by pressing Escape.
+      wallDrawRef.current = {
+        startPoint: finalPoint,
+        startNodeId: targetId,
+        startSplitEdgeId: undefined,
+        chainStart,
+      };
+      if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
+      clearGuidelines();
+      updateSnapHighlight(null);
+      updateEdgeSnapHighlight(null);
+    };
+
+    const handleWallClick = (event: MouseEvent) => {
+      event.stopPropagation();
+      event.preventDefault();
+
+      if (isBoxMode()) {
+        // Dragged boxes are emitted on mouseup; a click only places a typed-size box
+        const corner = boxPoint(event);
+        const end = typedBoxEnd(corner);
+        if (end) emitBox(corner, end);
+        return;
+      }
+
+      const { snapNode, snapEdge, target } = resolveWallSnap(event, wallDrawRef.current?.startPoint ?? null);
+      const dp = snapPointToGrid(toDataPoint(event.clientX, event.clientY), event);
+      const effectivePoint = snapNode
+        ? { x: snapNode.x, y: snapNode.y }
+        : snapEdge
+        ? snapEdge.point
+        : target
+        ? target.point
+        : dp;
+
+      if (!wallDrawRef.current) {
+        // Phase 1 — record start point
+        wallDrawRef.current = {
+          startPoint: effectivePoint,
+          startNodeId: snapNode?.id,
+          startSplitEdgeId: snapEdge?.edge.id,
+          chainStart: effectivePoint,
+        };
+      } else {
+        // Phase 2 — finish wall
+        const { startPoint, startNodeId } = wallDrawRef.current;
+
+        // Apply axis / parallel snap to the endpoint when no node/edge/target snap is active.
+        const kClick = d3.zoomTransform(svg as SVGSVGElement).k;
+        const finalPoint = (!snapNode && !snapEdge && !target)
+          ? (
+              snapToAxis(startPoint, effectivePoint, kClick)?.point ??
+              snapToParallel(startPoint, effectivePoint, snapEdgesRef.current, wallFloorPlanNodesRef.current, startNodeId ?? null, kClick)?.point ??
+              effectivePoint
+            )
+          : effectivePoint;
+        finishWall(finalPoint, snapNode, snapEdge);
+      }
+    };
+
+    /** Draw the in-progress wall from `startPoint` to `endPoint` on the preview layer */
+    const renderSegmentPreview = (startPoint: Point, endPoint: Point) => {
+      if (!wallPreviewGRef.current) return;
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
       const thick = wallThicknessRef.current;
 
       const pg = d3.select(wallPreviewGRef.current);
@@ -1228,11 +2349,123 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
         .attr('stroke', '#fff')
         .attr('stroke-width', 1.5 / k)
         .attr('pointer-events', 'none');
+    };
+
+    // Last previewed endpoint and pointer position: typed lengths follow the
+    // preview direction, and the entry box opens next to the pointer
+    let lastPreviewEnd: Point | null = null;
+    let lastPointer: { clientX: number; clientY: number } | null = null;
+
+    // Typed entry: live preview while typing, commit on Enter
+    wallEntryRef.current = {
+      preview: (text: string) => {
+        const draw = wallDrawRef.current;
+        if (!draw) return;
+        const end = parseWallEntry(text, draw.startPoint, entryDirection());
+        if (!end) return;
+        renderSegmentPreview(draw.startPoint, end);
+        if (annotationGRef.current) {
+          const ag = d3.select(annotationGRef.current as SVGGElement);
+          ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
+          const len = vecLen(vecSub(end, draw.startPoint));
+          if (len > 1e-6) {
+            renderLengthLabel(ag, draw.startPoint, end, formatDataLen(len, isCalibratedRef.current), d3.zoomTransform(svg as SVGSVGElement).k);
+          }
+        }
+      },
+      commit: (text: string) => {
+        const draw = wallDrawRef.current;
+        if (!draw) return false;
+        const end = parseWallEntry(text, draw.startPoint, entryDirection());
+        if (!end || vecLen(vecSub(end, draw.startPoint)) < 1e-9) return false;
+        // Landing exactly on an existing node joins it (and may close a polyline)
+        const node = wallFloorPlanNodesRef.current.find(n => Math.abs(n.x - end.x) < 1e-9 && Math.abs(n.y - end.y) < 1e-9);
+        finishWall(end, node ?? null, null);
+        // The next typed length keeps going the same way until the pointer moves
+        lastPreviewEnd = vecAdd(end, vecSub(end, draw.startPoint));
+        clearAnnotations();
+        return true;
+      },
+    };
+
+    /** Unit direction of the current preview, +x when there is none yet */
+    const entryDirection = (): Point => {
+      const draw = wallDrawRef.current;
+      if (!draw || !lastPreviewEnd) return { x: 1, y: 0 };
+      const dir = vecNorm(vecSub(lastPreviewEnd, draw.startPoint));
+      return vecLen(dir) > 0 ? dir : { x: 1, y: 0 };
+    };
+
+    const handleWallMouseMove = (event: MouseEvent) => {
+      lastPointer = { clientX: event.clientX, clientY: event.clientY };
+
+      if (isBoxMode()) {
+        updateSnapHighlight(findSnapNode(event.clientX, event.clientY));
+        // Typed size: the box follows the cursor by its top-left corner
+        if (wallBoxStartRef.current) return;
+        const corner = boxPoint(event);
+        const end = typedBoxEnd(corner);
+        if (end) renderBoxPreview(corner, end);
+        return;
+      }
+
+      const { snapNode, snapEdge, target } = resolveWallSnap(event, wallDrawRef.current?.startPoint ?? null);
+      updateSnapHighlight(snapNode);
+
+      if (!wallDrawRef.current || !wallPreviewGRef.current) {
+        // No drawing in progress — just show/hide the snap indicators
+        updateEdgeSnapHighlight(target ? null : snapEdge);
+        renderGuidelines(target?.guidelines ?? []);
+        renderSnapMarker(target);
+        return;
+      }
+
+      const { startPoint } = wallDrawRef.current;
+      const dp = snapPointToGrid(toDataPoint(event.clientX, event.clientY), event);
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+
+      // Axis snap: when no node/edge snap active, snap near-H/V walls to exact axis.
+      // Build a guidelines array so any caller can extend it (e.g. parallel walls).
+      const activeGuidelines: Guideline[] = [];
+      let endPoint: Point;
+      if (snapNode) {
+        endPoint = { x: snapNode.x, y: snapNode.y };
+      } else if (target) {
+        endPoint = target.point;
+        activeGuidelines.push(...target.guidelines);
+      } else if (snapEdge) {
+        endPoint = snapEdge.point;
+      } else {
+        const axisSnap = snapToAxis(startPoint, dp, k);
+        if (axisSnap) {
+          endPoint = axisSnap.point;
+          activeGuidelines.push(...axisSnap.guidelines);
+        } else {
+          // Parallel snap: only fires when no axis snap is active
+          const parallelSnap = snapToParallel(
+            startPoint, dp,
+            snapEdgesRef.current,
+            wallFloorPlanNodesRef.current,
+            wallDrawRef.current.startNodeId ?? null,
+            k,
+          );
+          if (parallelSnap) {
+            endPoint = parallelSnap.point;
+            activeGuidelines.push(...parallelSnap.guidelines);
+          } else {
+            endPoint = dp;
+          }
+        }
+      }
+      renderGuidelines(activeGuidelines);
+      renderSnapMarker(target);
+      renderSegmentPreview(startPoint, endPoint);
+      lastPreviewEnd = endPoint;
 
       // Annotation overlay: length + angles at snapped nodes
       if (annotationGRef.current) {
         const ag = d3.select(annotationGRef.current as SVGGElement);
-        ag.selectAll('*').remove();
+        ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
         const isCalibrated = isCalibratedRef.current;
         const wallLen = vecLen(vecSub(endPoint, startPoint));
         // Length label along the preview wall
@@ -1281,6 +2514,25 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     };
 
     const handleWallKeyDown = (event: KeyboardEvent) => {
+      // Typing a number mid-draw opens the exact-entry box beside the pointer
+      const t = event.target as HTMLElement | null;
+      const inField = !!t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable);
+      if (wallDrawRef.current && !isBoxMode() && !inField && !event.ctrlKey && !event.metaKey && !event.altKey &&
+          /^[0-9.@-]$/.test(event.key)) {
+        event.preventDefault();
+        const rect = (svg as SVGSVGElement).getBoundingClientRect();
+        const pointer = lastPointer ?? { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+        setWallEntry({ left: pointer.clientX - rect.left + 16, top: pointer.clientY - rect.top + 16, text: event.key });
+        wallEntryRef.current?.preview(event.key);
+        return;
+      }
+      if (event.key === 'Escape' && wallBoxStartRef.current) {
+        window.removeEventListener('mousemove', handleBoxDragMove);
+        window.removeEventListener('mouseup', handleBoxDragEnd);
+        wallBoxStartRef.current = null;
+        clearBoxPreview();
+        return;
+      }
       if (event.key === 'Escape' && wallDrawRef.current) {
         wallDrawRef.current = null;
         if (wallPreviewGRef.current) d3.select(wallPreviewGRef.current).selectAll('*').remove();
@@ -1291,14 +2543,20 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       }
     };
 
+    svg.addEventListener('mousedown', handleBoxMouseDown, true);
     svg.addEventListener('click', handleWallClick, true);
     svg.addEventListener('mousemove', handleWallMouseMove);
     window.addEventListener('keydown', handleWallKeyDown);
 
     return () => {
+      svg.removeEventListener('mousedown', handleBoxMouseDown, true);
       svg.removeEventListener('click', handleWallClick, true);
       svg.removeEventListener('mousemove', handleWallMouseMove);
       window.removeEventListener('keydown', handleWallKeyDown);
+      window.removeEventListener('mousemove', handleBoxDragMove);
+      window.removeEventListener('mouseup', handleBoxDragEnd);
+      wallEntryRef.current = null;
+      setWallEntry(null);
     };
   }, [activeTool]);
 
@@ -1310,8 +2568,825 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     if (activeTool !== 'assets') {
       assetSnapRef.current = null;
       if (wallPreviewGRef.current) {
-        d3.select(wallPreviewGRef.current).selectAll('.asset-ghost').remove();
+        d3.select(wallPreviewGRef.current).selectAll('.asset-ghost').remove();
+      }
+      return;
+    }
+
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    if (!svg || !gElement) return;
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    /**
+     * Find the nearest WALL edge within 15 screen-pixels of the cursor and
+     * compute where on that wall the asset would snap.
+     * Returns null when no wall is close enough or the asset doesn't fit.
+     */
+    const findAssetSnap = (clientX: number, clientY: number, gridSpacing: number | null = null): {
+      edge: Edge; sourceNode: Node; targetNode: Node;
+      assetStartPt: Point; assetEndPt: Point;
+    } | null => {
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const hitThreshold = 15 / k;
+      const dp = toDataPoint(clientX, clientY);
+      // 1 data-unit == 1 metre when calibrated, so widthM IS the data-space width.
+      const assetWidthData = assetWidthMRef.current;
+
+      let best: { edge: Edge; sourceNode: Node; targetNode: Node; t: number; dist: number } | null = null;
+
+      for (const edge of snapEdgesRef.current) {
+        if (edge.type !== 'wall') continue;
+        const fromNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.source);
+        const toNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.target);
+        if (!fromNode || !toNode) continue;
+
+        const edx = toNode.x - fromNode.x;
+        const edy = toNode.y - fromNode.y;
+        const lenSq = edx * edx + edy * edy;
+        if (lenSq === 0) continue;
+
+        const t = ((dp.x - fromNode.x) * edx + (dp.y - fromNode.y) * edy) / lenSq;
+        const tClamped = Math.max(0, Math.min(1, t));
+        const projX = fromNode.x + tClamped * edx;
+        const projY = fromNode.y + tClamped * edy;
+        const dist = Math.hypot(dp.x - projX, dp.y - projY);
+
+        if (dist >= hitThreshold) continue;
+        if (!best || dist < best.dist) {
+          best = { edge, sourceNode: fromNode, targetNode: toNode, t: tClamped, dist };
+        }
+      }
+
+      if (!best) return null;
+
+      const { edge, sourceNode, targetNode, t } = best;
+      const edx = targetNode.x - sourceNode.x;
+      const edy = targetNode.y - sourceNode.y;
+      const wallLen = Math.sqrt(edx * edx + edy * edy);
+
+      if (assetWidthData >= wallLen) return null; // asset doesn't fit
+
+      const assetHalf = assetWidthData / 2;
+      const tCenterMin = assetHalf / wallLen;
+      const tCenterMax = 1 - assetHalf / wallLen;
+      let tCenter = Math.max(tCenterMin, Math.min(tCenterMax, t));
+      if (gridSpacing !== null) {
+        // Grid: step the asset's offset from the wall's start node
+        const offset = snapValueToGrid((tCenter - assetHalf / wallLen) * wallLen, gridSpacing);
+        tCenter = Math.max(tCenterMin, Math.min(tCenterMax, (offset + assetHalf) / wallLen));
+      }
+      const tStart = tCenter - assetHalf / wallLen;
+      const tEnd = tCenter + assetHalf / wallLen;
+
+      return {
+        edge,
+        sourceNode,
+        targetNode,
+        assetStartPt: {
+          x: sourceNode.x + tStart * edx,
+          y: sourceNode.y + tStart * edy,
+        },
+        assetEndPt: {
+          x: sourceNode.x + tEnd * edx,
+          y: sourceNode.y + tEnd * edy,
+        },
+      };
+    };
+
+    /** Render (or clear) the asset ghost on the preview layer */
+    const renderAssetGhost = (snap: typeof assetSnapRef.current) => {
+      if (!wallPreviewGRef.current) return;
+      const pg = d3.select(wallPreviewGRef.current);
+      pg.selectAll('.asset-ghost').remove();
+      if (!snap) return;
+
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const { edge, assetStartPt, assetEndPt } = snap;
+      const type = assetTypeRef.current;
+      // Openings have a fixed depth independent of the host wall's thickness; half walls carry it on
+      const thickness = type === 'half_wall'
+        ? (edge.thickness ?? 16)
+        : (isCalibratedRef.current ? 0.1 : 8);
+
+      const poly = createRectPolygon(assetStartPt, assetEndPt, thickness);
+      const polyStr = poly.map(p => `${p.x},${p.y}`).join(' ');
+
+      const ghost = pg.append('g')
+        .attr('class', 'asset-ghost')
+        .attr('pointer-events', 'none');
+
+      // Ghost rectangle
+      const fillColor = type === 'door' ? 'rgba(210,105,30,0.45)' : (type === 'window' ? 'rgba(135,206,235,0.45)' : 'rgba(117,117,117,0.3)');
+      const strokeColor = type === 'door' ? '#8B4513' : (type === 'window' ? '#4682B4' : '#424242');
+
+      ghost.append('polygon')
+        .attr('points', polyStr)
+        .attr('fill', fillColor)
+        .attr('stroke', strokeColor)
+        .attr('stroke-width', 1.5 / k);
+
+      // Door: leaf and swing for the pending hinge/swing/leaf settings
+      if (type === 'door') {
+        const symbol = createDoorSymbol(assetStartPt, assetEndPt, assetDoorRef.current, thickness);
+        ghost.append('path')
+          .attr('d', symbol.leaf)
+          .attr('fill', 'none')
+          .attr('stroke', strokeColor)
+          .attr('stroke-width', 1.5 / k);
+        if (symbol.swing) {
+          ghost.append('path')
+            .attr('d', symbol.swing)
+            .attr('fill', 'none')
+            .attr('stroke', strokeColor)
+            .attr('stroke-width', 1 / k)
+            .attr('stroke-dasharray', `${4 / k},${2 / k}`);
+        }
+      }
+
+      // Window: symbol for the pending subtype
+      if (type === 'window') {
+        const symbol = createWindowSymbol(assetStartPt, assetEndPt, assetWindowRef.current.window_type, thickness);
+        ghost.append('path')
+          .attr('d', symbol.glass)
+          .attr('fill', 'none')
+          .attr('stroke', strokeColor)
+          .attr('stroke-width', 1.5 / k);
+        if (symbol.swing) {
+          ghost.append('path')
+            .attr('d', symbol.swing)
+            .attr('fill', 'none')
+            .attr('stroke', strokeColor)
+            .attr('stroke-width', 1 / k)
+            .attr('stroke-dasharray', `${4 / k},${2 / k}`);
+        }
+      }
+
+      // Opening kinds: jambs, counter or railing for the pending settings
+      if (isOpeningKind(type)) {
+        const symbol = createOpeningSymbol(assetStartPt, assetEndPt, type, thickness, assetOpeningRef.current.railing);
+        ghost.append('path')
+          .attr('d', symbol.solid)
+          .attr('fill', 'none')
+          .attr('stroke', strokeColor)
+          .attr('stroke-width', 1.5 / k);
+        if (symbol.dashed) {
+          ghost.append('path')
+            .attr('d', symbol.dashed)
+            .attr('fill', 'none')
+            .attr('stroke', strokeColor)
+            .attr('stroke-width', 1 / k)
+            .attr('stroke-dasharray', `${4 / k},${2 / k}`);
+        }
+      }
+
+      // Snap endpoints
+      ghost.append('circle')
+        .attr('cx', assetStartPt.x).attr('cy', assetStartPt.y)
+        .attr('r', 3 / k).attr('fill', strokeColor);
+      ghost.append('circle')
+        .attr('cx', assetEndPt.x).attr('cy', assetEndPt.y)
+        .attr('r', 3 / k).attr('fill', strokeColor);
+    };
+
+    const handleAssetMouseMove = (event: MouseEvent) => {
+      const snap = findAssetSnap(event.clientX, event.clientY, activeGridSpacing(event));
+      assetSnapRef.current = snap;
+      renderAssetGhost(snap);
+      // Update cursor
+      if (svgRef.current) {
+        svgRef.current.style.cursor = snap ? 'crosshair' : 'default';
+      }
+    };
+
+    const handleAssetClick = (event: MouseEvent) => {
+      const snap = assetSnapRef.current;
+      if (!snap) return;
+      event.stopPropagation();
+      event.preventDefault();
+
+      onAssetPlaceRef.current?.({
+        wallEdge: snap.edge,
+        wallSourceNode: snap.sourceNode,
+        wallTargetNode: snap.targetNode,
+        assetStartPt: snap.assetStartPt,
+        assetEndPt: snap.assetEndPt,
+      });
+
+      // Clear ghost after placement
+      assetSnapRef.current = null;
+      renderAssetGhost(null);
+    };
+
+    const handleAssetKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        assetSnapRef.current = null;
+        renderAssetGhost(null);
+        return;
+      }
+      const t = event.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      if (assetTypeRef.current !== 'door' || event.ctrlKey || event.metaKey) return;
+      // H flips the hinge end, F the side the door opens into
+      const key = event.key.toLowerCase();
+      const flip = key === 'h' ? flipDoorHinge : key === 'f' ? flipDoorSwing : null;
+      if (!flip) return;
+      event.preventDefault();
+      assetDoorRef.current = flip(assetDoorRef.current);
+      onAssetDoorChangeRef.current?.(assetDoorRef.current);
+      renderAssetGhost(assetSnapRef.current);
+    };
+
+    svg.addEventListener('mousemove', handleAssetMouseMove);
+    svg.addEventListener('click', handleAssetClick, true);
+    window.addEventListener('keydown', handleAssetKeyDown);
+
+    return () => {
+      svg.removeEventListener('mousemove', handleAssetMouseMove);
+      svg.removeEventListener('click', handleAssetClick, true);
+      window.removeEventListener('keydown', handleAssetKeyDown);
+      // Clear ghost and cursor on cleanup
+      if (wallPreviewGRef.current) {
+        d3.select(wallPreviewGRef.current).selectAll('.asset-ghost').remove();
+      }
+      if (svgRef.current) svgRef.current.style.cursor = '';
+    };
+  }, [activeTool]);
+
+  // ============================================
+  // Room Drawing Tool interaction
+  // ============================================
+  useEffect(() => {
+    const clearRoomDraft = () => {
+      roomDraftRef.current = null;
+      if (wallPreviewGRef.current) {
+        d3.select(wallPreviewGRef.current).selectAll('.room-draft').remove();
+      }
+    };
+
+    // When switching away from room tool, abort any in-progress polygon
+    if (activeTool !== 'room') {
+      clearRoomDraft();
+      clearGuidelines();
+      return;
+    }
+
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    if (!svg || !gElement) return;
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    /**
+     * Resolve the next vertex: wall nodes and existing room corners within
+     * 12 screen-pixels win, otherwise axis-snap against the previous vertex.
+     */
+    const snapRoomPoint = (clientX: number, clientY: number, prev: Point | null): { point: Point; guidelines: Guideline[] } => {
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const dp = toDataPoint(clientX, clientY);
+      let best: Point | null = null;
+      let bestDist = 12 / k;
+      const consider = (x: number, y: number) => {
+        const dist = Math.hypot(x - dp.x, y - dp.y);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = { x, y };
+        }
+      };
+      snapNodesRef.current.forEach(n => consider(n.x, n.y));
+      roomsRef.current.forEach(r => r.polygon_coords.forEach(([x, y]) => consider(x, y)));
+      if (best) return { point: best, guidelines: [] };
+      if (prev) {
+        const axisSnap = snapToAxis(prev, dp, k);
+        if (axisSnap) return { point: axisSnap.point, guidelines: axisSnap.guidelines };
+      }
+      return { point: dp, guidelines: [] };
+    };
+
+    /** Draw the in-progress polygon (plus rubber-band vertex) with a live area label */
+    const renderRoomDraft = (cursor: Point | null) => {
+      if (!wallPreviewGRef.current) return;
+      const pg = d3.select(wallPreviewGRef.current);
+      pg.selectAll('.room-draft').remove();
+      const draft = roomDraftRef.current;
+      if (!draft || draft.length === 0) return;
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const pts = cursor ? [...draft, cursor] : draft;
+      const dg = pg.append('g').attr('class', 'room-draft').attr('pointer-events', 'none');
+
+      if (pts.length >= 3) {
+        dg.append('polygon')
+          .attr('points', pts.map(p => `${p.x},${p.y}`).join(' '))
+          .attr('fill', 'rgba(33, 150, 243, 0.12)')
+          .attr('stroke', 'none');
+      }
+      dg.append('polyline')
+        .attr('points', pts.map(p => `${p.x},${p.y}`).join(' '))
+        .attr('fill', 'none')
+        .attr('stroke', '#2196F3')
+        .attr('stroke-width', 2 / k)
+        .attr('stroke-dasharray', `${8 / k},${4 / k}`);
+      if (pts.length >= 3) {
+        // Closing segment back to the first vertex
+        dg.append('line')
+          .attr('x1', pts[pts.length - 1].x).attr('y1', pts[pts.length - 1].y)
+          .attr('x2', pts[0].x).attr('y2', pts[0].y)
+          .attr('stroke', '#2196F3')
+          .attr('stroke-width', 1 / k)
+          .attr('stroke-opacity', 0.5)
+          .attr('stroke-dasharray', `${4 / k},${4 / k}`);
+      }
+      draft.forEach((p, i) => {
+        dg.append('circle')
+          .attr('cx', p.x).attr('cy', p.y)
+          .attr('r', (i === 0 ? 6 : 4) / k)
+          .attr('fill', i === 0 ? '#fff' : '#2196F3')
+          .attr('stroke', '#2196F3')
+          .attr('stroke-width', 1.5 / k);
+      });
+      if (pts.length >= 3) {
+        const coords = pts.map(p => [p.x, p.y] as [number, number]);
+        const centroid = calculateCentroid(coords);
+        dg.append('text')
+          .attr('x', centroid.x).attr('y', centroid.y)
+          .attr('text-anchor', 'middle')
+          .attr('dominant-baseline', 'middle')
+          .attr('font-size', `${12 / k}px`)
+          .attr('font-weight', '600')
+          .attr('fill', '#1565c0')
+          .text(formatDataArea(calculatePolygonArea(coords), isCalibratedRef.current));
+      }
+    };
+
+    /** Close the draft and hand it to the parent (needs ≥ 3 distinct vertices) */
+    const finishRoomDraft = () => {
+      const draft = roomDraftRef.current;
+      clearRoomDraft();
+      clearGuidelines();
+      if (!draft || draft.length < 3) return;
+      const coords = draft.map(p => [p.x, p.y] as [number, number]);
+      if (calculatePolygonArea(coords) < 1e-9) return;
+      onRoomCreateRef.current?.(coords);
+    };
+
+    const isNear = (a: Point, b: Point) =>
+      Math.hypot(a.x - b.x, a.y - b.y) < 12 / d3.zoomTransform(svg as SVGSVGElement).k;
+
+    const handleRoomClick = (event: MouseEvent) => {
+      const target = event.target as Element;
+      // Reshape handles own their pointer events
+      if (target.closest('.room-handle')) return;
+      const draft = roomDraftRef.current;
+      // Not drawing: a click on a room selects it via the room's own listener
+      if (!draft && target.closest('.room-group') && !event.shiftKey) return;
+
+      event.stopPropagation();
+      event.preventDefault();
+
+      const { point } = snapRoomPoint(event.clientX, event.clientY, draft ? draft[draft.length - 1] : null);
+      if (!draft) {
+        onSelectedRoomChangeRef.current?.(null);
+        roomDraftRef.current = [point];
+      } else if (draft.length >= 3 && isNear(point, draft[0])) {
+        // Clicking the first vertex closes the polygon
+        finishRoomDraft();
+        return;
+      } else if (vecLen(vecSub(point, draft[draft.length - 1])) < 1e-9) {
+        // Repeated click on the same spot (e.g. first half of a double-click)
+        return;
+      } else {
+        roomDraftRef.current = [...draft, point];
+      }
+      renderRoomDraft(null);
+    };
+
+    const handleRoomDblClick = (event: MouseEvent) => {
+      if (!roomDraftRef.current) return;
+      event.stopPropagation();
+      event.preventDefault();
+      finishRoomDraft();
+    };
+
+    const handleRoomMouseMove = (event: MouseEvent) => {
+      const draft = roomDraftRef.current;
+      if (!draft) return;
+      const { point, guidelines } = snapRoomPoint(event.clientX, event.clientY, draft[draft.length - 1]);
+      renderGuidelines(guidelines);
+      renderRoomDraft(point);
+    };
+
+    const handleRoomKeyDown = (event: KeyboardEvent) => {
+      const t = event.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      const draft = roomDraftRef.current;
+      if (event.key === 'Escape') {
+        if (draft) {
+          clearRoomDraft();
+          clearGuidelines();
+        } else {
+          onSelectedRoomChangeRef.current?.(null);
+        }
+      } else if (event.key === 'Enter' && draft) {
+        event.preventDefault();
+        finishRoomDraft();
+      } else if (event.key === 'Backspace' && draft) {
+        // Step back one vertex
+        event.preventDefault();
+        event.stopPropagation();
+        if (draft.length <= 1) {
+          clearRoomDraft();
+          clearGuidelines();
+        } else {
+          roomDraftRef.current = draft.slice(0, -1);
+          renderRoomDraft(null);
+        }
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedRoomIdRef.current) {
+        event.preventDefault();
+        event.stopPropagation();
+        onRoomDeleteRef.current?.(selectedRoomIdRef.current);
+      }
+    };
+
+    svg.addEventListener('click', handleRoomClick, true);
+    svg.addEventListener('dblclick', handleRoomDblClick, true);
+    svg.addEventListener('mousemove', handleRoomMouseMove);
+    window.addEventListener('keydown', handleRoomKeyDown);
+
+    return () => {
+      svg.removeEventListener('click', handleRoomClick, true);
+      svg.removeEventListener('dblclick', handleRoomDblClick, true);
+      svg.removeEventListener('mousemove', handleRoomMouseMove);
+      window.removeEventListener('keydown', handleRoomKeyDown);
+    };
+  }, [activeTool]);
+
+  // ============================================
+  // Furniture Tool interaction
+  // ============================================
+  useEffect(() => {
+    const clearFurnitureGhost = () => {
+      if (wallPreviewGRef.current) {
+        d3.select(wallPreviewGRef.current).selectAll('.furniture-ghost').remove();
+      }
+    };
+
+    if (activeTool !== 'furniture') {
+      clearFurnitureGhost();
+      return;
+    }
+
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    if (!svg || !gElement) return;
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    // Rotation carried between placements so a row of chairs keeps its heading
+    let ghostRotation = 0;
+    let lastPoint: Point | null = null;
+
+    /** Frame for the armed catalogue item at `pt`, or null when nothing can be placed */
+    const ghostFrame = (pt: Point): FixtureFrame | null => {
+      const item = findFurnitureItem(furnitureTypeRef.current ?? '');
+      // Catalogue sizes are metres, meaningless on an uncalibrated plan
+      if (!item || !isCalibratedRef.current) return null;
+      // Columns sit on a wall junction when one is near
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const at = isColumn(item.type)
+        ? snapToJunction(pt, snapNodesRef.current, snapEdgesRef.current, TARGET_SNAP_PX / k) ?? pt
+        : pt;
+      return { cx: at.x, cy: at.y, width: item.width, depth: item.depth, rotation: ghostRotation };
+    };
+
+    const renderFurnitureGhost = () => {
+      clearFurnitureGhost();
+      const frame = lastPoint ? ghostFrame(lastPoint) : null;
+      if (!frame || !wallPreviewGRef.current) return;
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const ghost = d3.select(wallPreviewGRef.current).append('g')
+        .attr('class', 'furniture-ghost')
+        .attr('transform', frameTransform(frame))
+        .attr('pointer-events', 'none');
+      ghost.append('rect')
+        .attr('x', -frame.width / 2)
+        .attr('y', -frame.depth / 2)
+        .attr('width', frame.width)
+        .attr('height', frame.depth)
+        .attr('fill', 'rgba(141, 110, 99, 0.25)')
+        .attr('stroke', '#6d4c41')
+        .attr('stroke-width', 1.5 / k)
+        .attr('stroke-dasharray', `${4 / k},${3 / k}`);
+      ghost.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .attr('font-size', `${Math.min(frame.width, frame.depth) * 0.5}px`)
+        .text(findFurnitureItem(furnitureTypeRef.current ?? '')?.icon ?? '');
+    };
+
+    const handleFurnitureMouseMove = (event: MouseEvent) => {
+      lastPoint = toDataPoint(event.clientX, event.clientY);
+      renderFurnitureGhost();
+    };
+
+    const handleFurnitureMouseLeave = () => {
+      lastPoint = null;
+      clearFurnitureGhost();
+    };
+
+    const handleFurnitureClick = (event: MouseEvent) => {
+      const target = event.target as Element;
+      // Pieces and their handles own their pointer events
+      if (target.closest('.furniture-group, .fixture-handle')) return;
+      const type = furnitureTypeRef.current;
+      const frame = ghostFrame(toDataPoint(event.clientX, event.clientY));
+      event.stopPropagation();
+      event.preventDefault();
+      if (!type || !frame) {
+        onSelectedFixtureChangeRef.current?.(null);
+        return;
+      }
+      onFixturePlaceRef.current?.(type, frame);
+    };
+
+    const handleFurnitureKeyDown = (event: KeyboardEvent) => {
+      const t = event.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      const selectedId = selectedFixtureIdRef.current;
+      if (event.key === 'r' || event.key === 'R') {
+        const step = event.shiftKey ? -ROTATION_STEP_DEG : ROTATION_STEP_DEG;
+        if (furnitureTypeRef.current) {
+          ghostRotation = normaliseRotation(ghostRotation + step);
+          renderFurnitureGhost();
+        } else if (selectedId) {
+          const fixture = fixturesRef.current.find(f => f.id === selectedId);
+          if (!fixture) return;
+          const previous = getFixtureFrame(fixture);
+          onFixtureUpdateRef.current?.(selectedId, { ...previous, rotation: normaliseRotation(previous.rotation + step) }, previous);
+        }
+      } else if (event.key === 'Escape') {
+        // First disarm the catalogue, then drop the selection
+        if (furnitureTypeRef.current) {
+          onFurnitureTypeChangeRef.current?.(null);
+          clearFurnitureGhost();
+        } else {
+          onSelectedFixtureChangeRef.current?.(null);
+        }
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        event.stopPropagation();
+        onFixtureDeleteRef.current?.(selectedId);
+      }
+    };
+
+    svg.addEventListener('mousemove', handleFurnitureMouseMove);
+    svg.addEventListener('mouseleave', handleFurnitureMouseLeave);
+    svg.addEventListener('click', handleFurnitureClick, true);
+    window.addEventListener('keydown', handleFurnitureKeyDown);
+
+    return () => {
+      svg.removeEventListener('mousemove', handleFurnitureMouseMove);
+      svg.removeEventListener('mouseleave', handleFurnitureMouseLeave);
+      svg.removeEventListener('click', handleFurnitureClick, true);
+      window.removeEventListener('keydown', handleFurnitureKeyDown);
+      clearFurnitureGhost();
+    };
+  }, [activeTool]);
+
+  // ============================================
+  // Paste placement
+  // ============================================
+  useEffect(() => {
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    const pasteG = pasteGRef.current;
+    if (!pasteFragment || !svg || !gElement || !pasteG) return;
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    // The ghost is drawn once around the fragment's centre and translated with the cursor
+    const k = d3.zoomTransform(svg as SVGSVGElement).k;
+    const ghost = d3.select(pasteG).append('g')
+      .attr('class', 'paste-ghost')
+      .attr('pointer-events', 'none')
+      .style('display', 'none');
+    ghost.selectAll('polygon.paste-ghost__room')
+      .data(pasteFragment.rooms)
+      .enter().append('polygon')
+      .attr('class', 'paste-ghost__room')
+      .attr('points', r => r.polygon_coords.map(([x, y]) => `${x},${y}`).join(' '));
+    ghost.selectAll('line.paste-ghost__edge')
+      .data(pasteFragment.edges)
+      .enter().append('line')
+      .attr('class', 'paste-ghost__edge')
+      .attr('x1', e => e.from.x)
+      .attr('y1', e => e.from.y)
+      .attr('x2', e => e.to.x)
+      .attr('y2', e => e.to.y)
+      .attr('stroke-width', e => Math.max(e.thickness ?? 0, 2 / k));
+    ghost.selectAll('polygon.paste-ghost__fixture')
+      .data(pasteFragment.fixtures)
+      .enter().append('polygon')
+      .attr('class', 'paste-ghost__fixture')
+      .attr('points', f => fixturePolygon(f.frame).map(([x, y]) => `${x},${y}`).join(' '));
+
+    // The anchor (first wall end, room corner or fixture centre) lands on the grid
+    const anchor = fragmentAnchor(pasteFragment);
+    const placement = (event: MouseEvent): Point => {
+      const cursor = toDataPoint(event.clientX, event.clientY);
+      const snapped = snapPointToGrid({ x: cursor.x + anchor.x, y: cursor.y + anchor.y }, event);
+      return { x: snapped.x - anchor.x, y: snapped.y - anchor.y };
+    };
+
+    const handlePasteMouseMove = (event: MouseEvent) => {
+      const at = placement(event);
+      ghost.style('display', null).attr('transform', `translate(${at.x},${at.y})`);
+    };
+
+    const handlePasteClick = (event: MouseEvent) => {
+      event.stopPropagation();
+      event.preventDefault();
+      onPastePlaceRef.current?.(placement(event));
+    };
+
+    const handlePasteKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      event.stopPropagation();
+      onPasteCancelRef.current?.();
+    };
+
+    svg.addEventListener('mousemove', handlePasteMouseMove);
+    svg.addEventListener('click', handlePasteClick, true);
+    window.addEventListener('keydown', handlePasteKeyDown, true);
+
+    return () => {
+      svg.removeEventListener('mousemove', handlePasteMouseMove);
+      svg.removeEventListener('click', handlePasteClick, true);
+      window.removeEventListener('keydown', handlePasteKeyDown, true);
+      ghost.remove();
+    };
+  }, [pasteFragment]);
+
+  // ============================================
+  // Underlay alignment
+  // ============================================
+  useEffect(() => {
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    const previewG = wallPreviewGRef.current;
+    if (!underlayAlign || !svg || !gElement || !previewG) return;
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    /** Targets snap to a wall node within 12 screen-pixels; points on the image don't */
+    const snapTarget = (p: Point): Point => {
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      let best = p;
+      let bestDist = 12 / k;
+      for (const node of snapNodesRef.current) {
+        const dist = Math.hypot(node.x - p.x, node.y - p.y);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = { x: node.x, y: node.y };
+        }
+      }
+      return best;
+    };
+
+    // Picks alternate: a point on the image, then where it belongs
+    const from: Point[] = [];
+    const to: Point[] = [];
+    const pickingTarget = () => from.length > to.length;
+
+    const draw = (cursor: Point | null) => {
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const g = d3.select(previewG);
+      g.selectAll('.underlay-align').remove();
+      const dg = g.append('g').attr('class', 'underlay-align').attr('pointer-events', 'none');
+      const ends = [...to];
+      if (cursor && pickingTarget()) ends.push(snapTarget(cursor));
+      from.forEach((a, i) => {
+        const b = ends[i];
+        if (b) {
+          dg.append('line')
+            .attr('class', 'underlay-align__link')
+            .attr('x1', a.x).attr('y1', a.y)
+            .attr('x2', b.x).attr('y2', b.y);
+          dg.append('circle')
+            .attr('class', 'underlay-align__target')
+            .attr('cx', b.x).attr('cy', b.y)
+            .attr('r', 5 / k);
+        }
+        dg.append('circle')
+          .attr('class', 'underlay-align__source')
+          .attr('cx', a.x).attr('cy', a.y)
+          .attr('r', 5 / k);
+      });
+    };
+
+    const handleAlignMouseMove = (event: MouseEvent) => {
+      draw(toDataPoint(event.clientX, event.clientY));
+    };
+
+    const handleAlignClick = (event: MouseEvent) => {
+      event.stopPropagation();
+      event.preventDefault();
+      const p = toDataPoint(event.clientX, event.clientY);
+      if (pickingTarget()) to.push(snapTarget(p));
+      else from.push(p);
+      if (to.length === 2) {
+        onUnderlayAlignRef.current?.(from, to);
+        return;
+      }
+      draw(null);
+    };
+
+    const handleAlignKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        onUnderlayAlignCancelRef.current?.();
+      } else if (event.key === 'Enter' && to.length === 1) {
+        // A single pair just moves the image
+        event.stopPropagation();
+        onUnderlayAlignRef.current?.(from.slice(0, 1), to);
+      } else if (event.key === 'Backspace' && from.length > 0) {
+        event.stopPropagation();
+        event.preventDefault();
+        if (pickingTarget()) from.pop();
+        else to.pop();
+        draw(null);
+      }
+    };
+
+    svg.addEventListener('mousemove', handleAlignMouseMove);
+    svg.addEventListener('click', handleAlignClick, true);
+    window.addEventListener('keydown', handleAlignKeyDown, true);
+
+    return () => {
+      svg.removeEventListener('mousemove', handleAlignMouseMove);
+      svg.removeEventListener('click', handleAlignClick, true);
+      window.removeEventListener('keydown', handleAlignKeyDown, true);
+      d3.select(previewG).selectAll('.underlay-align').remove();
+    };
+  }, [underlayAlign]);
+
+  // ============================================
+  // Dimension Tool interaction
+  // ============================================
+  useEffect(() => {
+    const clearDimensionDraft = () => {
+      if (wallPreviewGRef.current) {
+        d3.select(wallPreviewGRef.current).selectAll('.dimension-draft').remove();
       }
+    };
+
+    if (activeTool !== 'dimension') {
+      clearDimensionDraft();
       return;
     }
 
@@ -1330,202 +3405,276 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       return { x: tp.x, y: tp.y };
     };
 
-    /**
-     * Find the nearest WALL edge within 15 screen-pixels of the cursor and
-     * compute where on that wall the asset would snap.
-     * Returns null when no wall is close enough or the asset doesn't fit.
-     */
-    const findAssetSnap = (clientX: number, clientY: number): {
-      edge: Edge; sourceNode: Node; targetNode: Node;
-      assetStartPt: Point; assetEndPt: Point;
-    } | null => {
+    /** Find nearest node within 12 screen-pixels */
+    const findDimensionNode = (p: Point): Node | null => {
       const k = d3.zoomTransform(svg as SVGSVGElement).k;
-      const hitThreshold = 15 / k;
-      const dp = toDataPoint(clientX, clientY);
-      // 1 data-unit == 1 metre when calibrated, so widthM IS the data-space width.
-      const assetWidthData = assetWidthMRef.current;
-
-      let best: { edge: Edge; sourceNode: Node; targetNode: Node; t: number; dist: number } | null = null;
-
-      for (const edge of wallFloorPlanEdgesRef.current) {
-        if (edge.type !== 'wall') continue;
-        const fromNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.source);
-        const toNode = wallFloorPlanNodesRef.current.find(n => n.id === edge.target);
-        if (!fromNode || !toNode) continue;
-
-        const edx = toNode.x - fromNode.x;
-        const edy = toNode.y - fromNode.y;
-        const lenSq = edx * edx + edy * edy;
-        if (lenSq === 0) continue;
-
-        const t = ((dp.x - fromNode.x) * edx + (dp.y - fromNode.y) * edy) / lenSq;
-        const tClamped = Math.max(0, Math.min(1, t));
-        const projX = fromNode.x + tClamped * edx;
-        const projY = fromNode.y + tClamped * edy;
-        const dist = Math.hypot(dp.x - projX, dp.y - projY);
-
-        if (dist >= hitThreshold) continue;
-        if (!best || dist < best.dist) {
-          best = { edge, sourceNode: fromNode, targetNode: toNode, t: tClamped, dist };
+      let best: Node | null = null;
+      let bestDist = 12 / k;
+      for (const node of snapNodesRef.current) {
+        const dist = Math.hypot(node.x - p.x, node.y - p.y);
+        if (dist < bestDist) {
+          bestDist = dist;
+          best = node;
         }
       }
+      return best;
+    };
 
-      if (!best) return null;
-
-      const { edge, sourceNode, targetNode, t } = best;
-      const edx = targetNode.x - sourceNode.x;
-      const edy = targetNode.y - sourceNode.y;
-      const wallLen = Math.sqrt(edx * edx + edy * edy);
-
-      if (assetWidthData >= wallLen) return null; // asset doesn't fit
+    // Nodes picked so far; once enough are picked the next click places the line
+    let picked: Node[] = [];
+    let placing = false;
+    let cursor: Point | null = null;
 
-      const assetHalf = assetWidthData / 2;
-      const tCenterMin = assetHalf / wallLen;
-      const tCenterMax = 1 - assetHalf / wallLen;
-      const tCenter = Math.max(tCenterMin, Math.min(tCenterMax, t));
-      const tStart = tCenter - assetHalf / wallLen;
-      const tEnd = tCenter + assetHalf / wallLen;
+    const reset = () => {
+      picked = [];
+      placing = false;
+      renderDimensionDraft();
+    };
 
+    /** Settings of the dimension being placed, with its line through `at` */
+    const draftProperties = (at: Point): DimensionProperties => {
+      const kind = dimensionKindRef.current;
+      const measured = picked.map(n => ({ x: n.x, y: n.y }));
+      const axis = kind === 'linear' ? linearAxisAt(measured, at) : undefined;
       return {
-        edge,
-        sourceNode,
-        targetNode,
-        assetStartPt: {
-          x: sourceNode.x + tStart * edx,
-          y: sourceNode.y + tStart * edy,
-        },
-        assetEndPt: {
-          x: sourceNode.x + tEnd * edx,
-          y: sourceNode.y + tEnd * edy,
-        },
+        kind,
+        node_ids: picked.map(n => n.id),
+        offset: dimensionOffsetAt({ kind, axis }, measured, at),
+        ...(axis ? { axis } : {}),
       };
     };
 
-    /** Render (or clear) the asset ghost on the preview layer */
-    const renderAssetGhost = (snap: typeof assetSnapRef.current) => {
+    const renderDimensionDraft = () => {
+      clearDimensionDraft();
       if (!wallPreviewGRef.current) return;
-      const pg = d3.select(wallPreviewGRef.current);
-      pg.selectAll('.asset-ghost').remove();
-      if (!snap) return;
-
       const k = d3.zoomTransform(svg as SVGSVGElement).k;
-      const { edge, assetStartPt, assetEndPt } = snap;
-      const type = assetTypeRef.current;
-      // Doors/windows have a fixed depth independent of the host wall's thickness
-      const thickness = type === 'door'
-        ? (isCalibratedRef.current ? 0.1 : 8)
-        : (type === 'window' ? (isCalibratedRef.current ? 0.1 : 8) : (edge.thickness ?? 16));
-
-      const poly = createRectPolygon(assetStartPt, assetEndPt, thickness);
-      const polyStr = poly.map(p => `${p.x},${p.y}`).join(' ');
-
-      const ghost = pg.append('g')
-        .attr('class', 'asset-ghost')
+      const dg = d3.select(wallPreviewGRef.current).append('g')
+        .attr('class', 'dimension-draft')
         .attr('pointer-events', 'none');
+      const hover = !placing && cursor ? findDimensionNode(cursor) : null;
+      for (const node of hover ? [...picked, hover] : picked) {
+        dg.append('circle')
+          .attr('cx', node.x).attr('cy', node.y).attr('r', 6 / k)
+          .attr('fill', 'none').attr('stroke', '#2196F3').attr('stroke-width', 1.5 / k);
+      }
+      if (!cursor) return;
+      if (placing) {
+        const props = draftProperties(cursor);
+        const geometry = dimensionGeometryFor(props, picked.map(n => ({ x: n.x, y: n.y })));
+        if (geometry) renderDimension(dg as d3.Selection<SVGGElement, unknown, null, undefined>, geometry, isCalibratedRef.current, k, '#2196F3');
+      } else if (picked.length > 0) {
+        const path = [...picked, hover ?? cursor].map(p => `${p.x},${p.y}`).join(' ');
+        dg.append('polyline')
+          .attr('points', path)
+          .attr('fill', 'none').attr('stroke', '#2196F3').attr('stroke-width', 1 / k)
+          .attr('stroke-dasharray', `${4 / k},${3 / k}`);
+      }
+    };
 
-      // Ghost rectangle
-      const fillColor = type === 'door' ? 'rgba(210,105,30,0.45)' : 'rgba(135,206,235,0.45)';
-      const strokeColor = type === 'door' ? '#8B4513' : '#4682B4';
-
-      ghost.append('polygon')
-        .attr('points', polyStr)
-        .attr('fill', fillColor)
-        .attr('stroke', strokeColor)
-        .attr('stroke-width', 1.5 / k);
+    const handleDimensionMouseMove = (event: MouseEvent) => {
+      cursor = toDataPoint(event.clientX, event.clientY);
+      renderDimensionDraft();
+    };
 
-      // Door: swing arc from assetStartPt
-      if (type === 'door') {
-        const radius = Math.hypot(
-          assetEndPt.x - assetStartPt.x,
-          assetEndPt.y - assetStartPt.y
-        );
-        const arcPath = createDoorArc(assetStartPt.x, assetStartPt.y, assetEndPt.x, assetEndPt.y, radius);
-        if (arcPath) {
-          ghost.append('path')
-            .attr('d', arcPath)
-            .attr('fill', 'none')
-            .attr('stroke', strokeColor)
-            .attr('stroke-width', 1 / k)
-            .attr('stroke-dasharray', `${4 / k},${2 / k}`);
+    const handleDimensionClick = (event: MouseEvent) => {
+      event.stopPropagation();
+      event.preventDefault();
+      const point = toDataPoint(event.clientX, event.clientY);
+      if (placing) {
+        onAnnotationAddRef.current?.('dimension', draftProperties(point));
+        reset();
+        return;
+      }
+      const node = findDimensionNode(point);
+      if (!node) {
+        // Outside a dimension in progress, clicks select stored dimensions
+        if (picked.length === 0) {
+          const hit = (event.target as Element).closest('[data-annotation-id]');
+          onSelectedAnnotationChangeRef.current?.(hit?.getAttribute('data-annotation-id') ?? null);
         }
+        return;
       }
+      onSelectedAnnotationChangeRef.current?.(null);
+      const { min, max } = dimensionNodeCount(dimensionKindRef.current);
+      const last = picked[picked.length - 1];
+      if (last && last.id === node.id) {
+        // Clicking the last node again finishes a chain
+        if (picked.length >= min) placing = true;
+      } else if (!picked.some(n => n.id === node.id)) {
+        picked = [...picked, node];
+        if (picked.length >= max) placing = true;
+      }
+      renderDimensionDraft();
+    };
 
-      // Window: center line
-      if (type === 'window') {
-        const midX = (assetStartPt.x + assetEndPt.x) / 2;
-        const midY = (assetStartPt.y + assetEndPt.y) / 2;
-        const dir = vecNorm(vecSub(assetEndPt, assetStartPt));
-        const perp = vecPerp(dir);
-        const halfT = thickness / 2;
-        ghost.append('line')
-          .attr('x1', midX - perp.x * halfT)
-          .attr('y1', midY - perp.y * halfT)
-          .attr('x2', midX + perp.x * halfT)
-          .attr('y2', midY + perp.y * halfT)
-          .attr('stroke', strokeColor)
-          .attr('stroke-width', 1.5 / k);
+    const handleDimensionKeyDown = (event: KeyboardEvent) => {
+      const t = event.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      const selectedId = selectedAnnotationIdRef.current;
+      if (event.key === 'Escape') {
+        if (picked.length > 0) reset();
+        else onSelectedAnnotationChangeRef.current?.(null);
+      } else if (event.key === 'Enter') {
+        if (!placing && picked.length >= dimensionNodeCount(dimensionKindRef.current).min) {
+          placing = true;
+          renderDimensionDraft();
+        }
+      } else if (event.key === 'Backspace' && picked.length > 0) {
+        event.preventDefault();
+        event.stopPropagation();
+        picked = picked.slice(0, -1);
+        placing = false;
+        renderDimensionDraft();
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        event.stopPropagation();
+        onAnnotationDeleteRef.current?.(selectedId);
       }
+    };
 
-      // Snap endpoints
-      ghost.append('circle')
-        .attr('cx', assetStartPt.x).attr('cy', assetStartPt.y)
-        .attr('r', 3 / k).attr('fill', strokeColor);
-      ghost.append('circle')
-        .attr('cx', assetEndPt.x).attr('cy', assetEndPt.y)
-        .attr('r', 3 / k).attr('fill', strokeColor);
+    svg.addEventListener('mousemove', handleDimensionMouseMove);
+    svg.addEventListener('click', handleDimensionClick, true);
+    window.addEventListener('keydown', handleDimensionKeyDown);
+
+    return () => {
+      svg.removeEventListener('mousemove', handleDimensionMouseMove);
+      svg.removeEventListener('click', handleDimensionClick, true);
+      window.removeEventListener('keydown', handleDimensionKeyDown);
+      clearDimensionDraft();
     };
+  }, [activeTool, dimensionKind]);
 
-    const handleAssetMouseMove = (event: MouseEvent) => {
-      const snap = findAssetSnap(event.clientX, event.clientY);
-      assetSnapRef.current = snap;
-      renderAssetGhost(snap);
-      // Update cursor
-      if (svgRef.current) {
-        svgRef.current.style.cursor = snap ? 'crosshair' : 'default';
+  // ============================================
+  // Text Tool interaction (and note selection with the cursor)
+  // ============================================
+  useEffect(() => {
+    const clearNoteDraft = () => {
+      if (wallPreviewGRef.current) {
+        d3.select(wallPreviewGRef.current).selectAll('.note-draft').remove();
       }
     };
 
-    const handleAssetClick = (event: MouseEvent) => {
-      const snap = assetSnapRef.current;
-      if (!snap) return;
+    if (activeTool !== 'text' && activeTool !== 'cursor') {
+      clearNoteDraft();
+      setNoteEdit(null);
+      return;
+    }
+
+    const svg = svgRef.current;
+    const gElement = gRef.current;
+    if (!svg || !gElement) return;
+    const textTool = activeTool === 'text';
+
+    /** Convert screen coords → data-space coords */
+    const toDataPoint = (clientX: number, clientY: number): Point => {
+      const p = (svg as SVGSVGElement).createSVGPoint();
+      p.x = clientX;
+      p.y = clientY;
+      const ctm = gElement.getScreenCTM();
+      if (!ctm) return { x: 0, y: 0 };
+      const tp = p.matrixTransform(ctm.inverse());
+      return { x: tp.x, y: tp.y };
+    };
+
+    // Callouts: the arrow tip picked by the first click
+    let calloutTarget: Point | null = null;
+
+    const renderNoteDraft = (cursor: Point | null) => {
+      clearNoteDraft();
+      if (!calloutTarget || !wallPreviewGRef.current) return;
+      const k = d3.zoomTransform(svg as SVGSVGElement).k;
+      const dg = d3.select(wallPreviewGRef.current).append('g')
+        .attr('class', 'note-draft')
+        .attr('pointer-events', 'none') as d3.Selection<SVGGElement, unknown, null, undefined>;
+      const color = noteStyleRef.current?.color ?? '#2196F3';
+      dg.append('circle')
+        .attr('cx', calloutTarget.x).attr('cy', calloutTarget.y).attr('r', 3 / k)
+        .attr('fill', color);
+      if (cursor) renderNoteLeader(dg, cursor, calloutTarget, color, k);
+    };
+
+    const handleNoteMouseMove = (event: MouseEvent) => {
+      if (calloutTarget) renderNoteDraft(toDataPoint(event.clientX, event.clientY));
+    };
+
+    const handleNoteClick = (event: MouseEvent) => {
+      const target = event.target as Element;
+      // Notes handle their own clicks and drags
+      if (target.closest('.plan-note')) return;
+      if (!textTool) {
+        if (selectedAnnotationIdRef.current && annotationsRef.current.some(a => a.id === selectedAnnotationIdRef.current && getNoteProperties(a))) {
+          onSelectedAnnotationChangeRef.current?.(null);
+        }
+        return;
+      }
       event.stopPropagation();
       event.preventDefault();
-
-      onAssetPlaceRef.current?.({
-        wallEdge: snap.edge,
-        wallSourceNode: snap.sourceNode,
-        wallTargetNode: snap.targetNode,
-        assetStartPt: snap.assetStartPt,
-        assetEndPt: snap.assetEndPt,
+      if (selectedAnnotationIdRef.current) onSelectedAnnotationChangeRef.current?.(null);
+      const point = toDataPoint(event.clientX, event.clientY);
+      if (noteTypeRef.current === 'callout' && !calloutTarget) {
+        calloutTarget = point;
+        renderNoteDraft(point);
+        return;
+      }
+      const style = noteStyleRef.current ?? DEFAULT_NOTE_STYLE;
+      const rect = svg.getBoundingClientRect();
+      setNoteEdit({
+        left: event.clientX - rect.left + 12,
+        top: event.clientY - rect.top + 12,
+        text: '',
+        annotationId: null,
+        annotationType: calloutTarget ? 'callout' : 'text',
+        note: { text: '', x: point.x, y: point.y, ...style, ...(calloutTarget ? { target: calloutTarget } : {}) },
       });
-
-      // Clear ghost after placement
-      assetSnapRef.current = null;
-      renderAssetGhost(null);
+      calloutTarget = null;
+      clearNoteDraft();
     };
 
-    const handleAssetKeyDown = (event: KeyboardEvent) => {
+    const handleNoteKeyDown = (event: KeyboardEvent) => {
+      const t = event.target as HTMLElement | null;
+      if (t && (t.tagName === 'INPUT' || t.tagName === 'TEXTAREA' || t.isContentEditable)) return;
+      const selectedId = selectedAnnotationIdRef.current;
+      const selectedNote = selectedId ? annotationsRef.current.find(a => a.id === selectedId && getNoteProperties(a)) : undefined;
       if (event.key === 'Escape') {
-        assetSnapRef.current = null;
-        renderAssetGhost(null);
+        if (calloutTarget) {
+          calloutTarget = null;
+          clearNoteDraft();
+        } else if (selectedNote) {
+          onSelectedAnnotationChangeRef.current?.(null);
+        }
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedNote) {
+        event.preventDefault();
+        event.stopPropagation();
+        onAnnotationDeleteRef.current?.(selectedNote.id);
       }
     };
 
-    svg.addEventListener('mousemove', handleAssetMouseMove);
-    svg.addEventListener('click', handleAssetClick, true);
-    window.addEventListener('keydown', handleAssetKeyDown);
+    svg.addEventListener('mousemove', handleNoteMouseMove);
+    svg.addEventListener('click', handleNoteClick, textTool);
+    window.addEventListener('keydown', handleNoteKeyDown);
 
     return () => {
-      svg.removeEventListener('mousemove', handleAssetMouseMove);
-      svg.removeEventListener('click', handleAssetClick, true);
-      window.removeEventListener('keydown', handleAssetKeyDown);
-      // Clear ghost and cursor on cleanup
-      if (wallPreviewGRef.current) {
-        d3.select(wallPreviewGRef.current).selectAll('.asset-ghost').remove();
-      }
-      if (svgRef.current) svgRef.current.style.cursor = '';
+      svg.removeEventListener('mousemove', handleNoteMouseMove);
+      svg.removeEventListener('click', handleNoteClick, textTool);
+      window.removeEventListener('keydown', handleNoteKeyDown);
+      clearNoteDraft();
     };
-  }, [activeTool]);
+  }, [activeTool, noteType]);
+
+  /** Save the note editor: create the new note, or change (or, emptied, delete) an existing one */
+  const commitNoteEdit = () => {
+    if (!noteEdit) return;
+    const text = noteEdit.text.replace(/\s+$/, '');
+    setNoteEdit(null);
+    if (noteEdit.annotationId === null) {
+      if (text) onAnnotationAddRef.current?.(noteEdit.annotationType, { ...noteEdit.note, text });
+      return;
+    }
+    const annotation = annotationsRef.current.find(a => a.id === noteEdit.annotationId);
+    if (!annotation) return;
+    if (!text) onAnnotationDeleteRef.current?.(annotation.id);
+    else if (text !== noteEdit.note.text) onAnnotationUpdateRef.current?.(annotation.id, { ...annotation.properties, text }, annotation.properties);
+  };
 
   useEffect(() => {
     if (!svgRef.current || !gRef.current || !drawGRef.current) return;
@@ -1550,12 +3699,20 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     // Setup zoom (recreate to capture latest drawGRef for node scaling)
     zoomRef.current = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 500])
+      // Shift-drag draws the selection box instead of panning
+      .filter((event) => (!event.ctrlKey || event.type === 'wheel') && !event.button && !(event.shiftKey && event.type === 'mousedown'))
       .on('zoom', (event) => {
         g.attr('transform', event.transform.toString());
         // Keep node indicators at fixed screen-pixel size
         const k = event.transform.k;
         d3.select(drawGRef.current).selectAll('.node-point')
           .attr('r', 3 / k);
+        d3.select(drawGRef.current).selectAll<SVGCircleElement, unknown>('.room-handle, .fixture-handle')
+          .attr('r', function() { return Number(this.getAttribute('data-screen-r')) / k; })
+          .attr('stroke-width', 1.5 / k);
+        renderSelectedWallDimRef.current?.();
+        renderGridRef.current?.();
+        renderAnnotationsRef.current?.();
       });
 
     svg.call(zoomRef.current);
@@ -1564,6 +3721,110 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     const nodeMap = new Map<string, Node>();
     floorPlan.nodes.forEach(node => nodeMap.set(node.id, node));
 
+    // Edge constraints: drags re-solve them from the positions at drag start
+    const hasConstraints = floorPlan.edges.some((e: Edge) => getEdgeConstraints(e).length > 0);
+    const snapshotPositions = () => new Map(floorPlan.nodes.map((n: Node) => [n.id, { x: n.x, y: n.y }] as [string, Point]));
+    /**
+     * Solve constraints with the `pinned` nodes at their current positions, starting
+     * from `base`. Moves node data and markers; `touched` collects every node moved
+     * during this drag so ones that no longer need moving go back to `base`.
+     */
+    const applyConstraints = (base: Map<string, Point>, pinned: Set<string>, touched: Set<string>): Map<string, Point> => {
+      const result = new Map<string, Point>();
+      if (!hasConstraints) return result;
+      const positions = new Map(base);
+      pinned.forEach(id => {
+        const n = nodeMap.get(id);
+        if (n) positions.set(id, { x: n.x, y: n.y });
+      });
+      solveConstraints(positions, floorPlan.edges, pinned).forEach(id => touched.add(id));
+      touched.forEach(id => {
+        const n = nodeMap.get(id);
+        const p = positions.get(id);
+        if (!n || !p) return;
+        n.x = p.x;
+        n.y = p.y;
+        result.set(id, p);
+      });
+      drawG.selectAll('.node-group')
+        .filter((n: any) => touched.has(n.id))
+        .attr('transform', (n: any) => `translate(${n.x},${n.y})`);
+      return result;
+    };
+
+    // Group drag: dragging any member of a multi-item selection moves all of it.
+    // Node data is left alone; the parent applies the move as one transform.
+    let groupDrag: { anchor: Point; raw: Point; offset: Point; selection: PlanSelection; nodeIds: Set<string> } | null = null;
+    const isGroupMember = (kind: keyof PlanSelection, id: string): boolean => {
+      const tool = activeToolRef.current;
+      if (!isEditMode || measureMode || !onSelectionTransformRef.current) return false;
+      if (tool && tool !== 'cursor' && tool !== 'selection') return false;
+      const selection = currentSelection();
+      if (selectionSize(selection) < 2) return false;
+      return selection[kind].includes(id) || (kind === 'nodeIds' && selectionNodeIds(floorPlan, selection).has(id));
+    };
+    /** `anchor` is the point that snaps to the grid while the group moves */
+    const beginGroupDrag = (anchor: Point) => {
+      const selection = currentSelection();
+      groupDrag = { anchor, raw: { x: 0, y: 0 }, offset: { x: 0, y: 0 }, selection, nodeIds: selectionNodeIds(floorPlan, selection) };
+    };
+    const moveGroupDrag = (event: any) => {
+      if (!groupDrag) return;
+      const { anchor, raw, selection, nodeIds } = groupDrag;
+      raw.x += event.dx;
+      raw.y += event.dy;
+      const offset = vecSub(snapPointToGrid(vecAdd(anchor, raw), event.sourceEvent), anchor);
+      groupDrag.offset = offset;
+      const translate = `translate(${offset.x},${offset.y})`;
+
+      const overrides = new Map<string, Point>();
+      nodeIds.forEach(id => {
+        const n = nodeMap.get(id);
+        if (n) overrides.set(id, vecAdd(n, offset));
+      });
+      drawG.selectAll<SVGGElement, Node>('.node-group')
+        .filter(n => overrides.has(n.id))
+        .attr('transform', n => `translate(${overrides.get(n.id)!.x},${overrides.get(n.id)!.y})`);
+      // Edges with both ends in the group move rigidly; the rest stretch as ghosts
+      const rigid = new Set(floorPlan.edges
+        .filter((e: Edge) => nodeIds.has(e.source) && nodeIds.has(e.target))
+        .map((e: Edge) => e.id));
+      drawG.selectAll<Element, unknown>('[data-edge-id]')
+        .filter(function() { return rigid.has(this.getAttribute('data-edge-id') ?? ''); })
+        .attr('transform', translate);
+      drawG.selectAll<SVGGElement, Room>('.room-group')
+        .filter(r => selection.roomIds.includes(r.id))
+        .attr('transform', translate);
+      drawG.selectAll<SVGGElement, Fixture>('.furniture-group')
+        .filter(f => selection.fixtureIds.includes(f.id))
+        .attr('transform', f => {
+          const frame = getFixtureFrame(f);
+          return frameTransform({ ...frame, cx: frame.cx + offset.x, cy: frame.cy + offset.y });
+        });
+      drawG.selectAll<SVGPolygonElement, Fixture>('polygon.fixture')
+        .filter(f => selection.fixtureIds.includes(f.id))
+        .attr('transform', translate);
+      renderDragGhosts(overrides, rigid);
+      renderAnnotationsRef.current?.(overrides);
+    };
+    /** Returns false when the group never moved, so callers can treat it as a click */
+    const endGroupDrag = (): boolean => {
+      if (!groupDrag) return false;
+      const { offset } = groupDrag;
+      groupDrag = null;
+      clearDragGhosts();
+      if (offset.x === 0 && offset.y === 0) return false;
+      onSelectionTransformRef.current?.({ kind: 'translate', dx: offset.x, dy: offset.y });
+      return true;
+    };
+    /** Drag behaviour for selection members that have no drag of their own */
+    const groupMemberDrag = <E extends Element, D extends { id: string }>(kind: keyof PlanSelection, anchorOf: (d: D) => Point) =>
+      d3.drag<E, D>()
+        .filter((event, d) => !event.button && isGroupMember(kind, d.id))
+        .on('start', (_event, d) => beginGroupDrag(anchorOf(d)))
+        .on('drag', (event) => moveGroupDrag(event))
+        .on('end', () => { endGroupDrag(); });
+
     // Compute a data-space unit for proportional sizing
     // This ensures stroke widths, node radii, etc. look correct regardless of coordinate scale
     let dataExtent = 1;
@@ -1580,6 +3841,23 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     }
     const dataUnit = dataExtent / 500;
 
+    // Diagonal hatch for structural walls and columns, sized with the plan
+    const hatch = drawG.append('defs').append('pattern')
+      .attr('id', 'structural-hatch')
+      .attr('patternUnits', 'userSpaceOnUse')
+      .attr('width', 4 * dataUnit)
+      .attr('height', 4 * dataUnit)
+      .attr('patternTransform', 'rotate(45)');
+    hatch.append('rect')
+      .attr('width', 4 * dataUnit)
+      .attr('height', 4 * dataUnit)
+      .attr('fill', '#5d4037');
+    hatch.append('line')
+      .attr('x1', 0).attr('y1', 0)
+      .attr('x2', 0).attr('y2', 4 * dataUnit)
+      .attr('stroke', '#d7ccc8')
+      .attr('stroke-width', 1.5 * dataUnit);
+
     // Background rect for click-to-deselect (placed first so it's beneath all elements)
     drawG.append('rect')
       .attr('class', 'canvas-bg')
@@ -1592,15 +3870,18 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
         if (activeToolRef.current !== 'cursor') return;
         event.stopPropagation();
         onSelectedEdgesChange?.([]);
+        onSelectedRoomChangeRef.current?.(null);
       });
 
     // Draw rooms (if available)
-    if (floorPlan.rooms && floorPlan.rooms.length > 0) {
+    if (floorPlan.rooms && floorPlan.rooms.length > 0 && layerView.category('rooms').visible) {
       const roomGroups = drawG.selectAll('.room-group')
         .data(floorPlan.rooms, (d: any) => d.id)
         .enter()
         .append('g')
-        .attr('class', 'room-group');
+        .attr('class', 'room-group')
+        .classed('selected', (d: Room) => selectedRoomIdsRef.current.has(d.id))
+        .attr('data-room-id', (d: Room) => d.id);
 
       // Room polygons
       roomGroups
@@ -1616,12 +3897,8 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           } else if (onRoomClick) {
             return 'rgba(255, 152, 0, 0.3)'; // Orange for unlocked in redesign mode
           } else {
-            // Generate consistent random color based on room ID (normal mode)
-            const hash = d.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-            const hue = (hash % 360);
-            const saturation = 60 + (hash % 30);
-            const lightness = 60 + (hash % 20);
-            return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+            // Fixed palette keyed on the room type tag (normal mode)
+            return getRoomStyle(d.tags).fill;
           }
         })
         .attr('stroke', (d: Room) => {
@@ -1638,11 +3915,8 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               .attr('stroke', d.locked ? '#2E7D32' : '#F57C00')
               .attr('stroke-width', 3 * dataUnit);
           } else {
-            const hash = d.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-            const hue = (hash % 360);
-            const saturation = 60 + (hash % 30);
             d3.select(this)
-              .attr('fill', `hsl(${hue}, ${saturation}%, 85%)`)
+              .attr('fill', getRoomStyle(d.tags).hoverFill)
               .attr('stroke', '#000')
               .attr('stroke-width', 3 * dataUnit);
           }
@@ -1654,26 +3928,52 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               .attr('stroke', d.locked ? '#4CAF50' : '#ff9800')
               .attr('stroke-width', 2 * dataUnit);
           } else {
-            const hash = d.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-            const hue = (hash % 360);
-            const saturation = 60 + (hash % 30);
-            const lightness = 60 + (hash % 20);
+            const isEdited = d.id === selectedRoomIdRef.current;
             d3.select(this)
-              .attr('fill', `hsl(${hue}, ${saturation}%, ${lightness}%)`)
-              .attr('stroke', '#ccc')
-              .attr('stroke-width', 1 * dataUnit);
+              .attr('fill', getRoomStyle(d.tags).fill)
+              .attr('stroke', isEdited ? '#2196F3' : '#ccc')
+              .attr('stroke-width', (isEdited ? 2 : 1) * dataUnit);
           }
         })
         .on('click', function(event, d: Room) {
           event.stopPropagation();
           if (onRoomClick) {
             onRoomClick(d.id);
+          } else if (activeToolRef.current === 'room') {
+            onSelectedRoomChangeRef.current?.(d.id);
+          } else if (isShiftPressed && activeToolRef.current === 'cursor') {
+            toggleSelection('roomIds', d.id);
           } else {
-            // In cursor mode, a room click should clear edge selection
+            // In cursor mode, a room click selects the room and clears edge selection
             onSelectedEdgesChange?.([]);
+            if (activeToolRef.current === 'cursor') onSelectedRoomChangeRef.current?.(d.id);
           }
+        })
+        .on('contextmenu', function(event, d: Room) {
+          if (activeToolRef.current !== 'room' || !onRoomDelete) return;
+          event.preventDefault();
+          event.stopPropagation();
+          onSelectedRoomChangeRef.current?.(d.id);
+          setContextMenu({
+            x: event.pageX,
+            y: event.pageY,
+            roomId: d.id
+          });
         });
 
+      if (isEditMode && !measureMode && !onRoomClick) {
+        roomGroups.call(groupMemberDrag<SVGGElement, Room>('roomIds', d => ({ x: d.polygon_coords[0][0], y: d.polygon_coords[0][1] })) as any);
+      }
+
+      // Outline the selected room
+      if (selectedRoomId && !onRoomClick) {
+        roomGroups
+          .filter((d: Room) => d.id === selectedRoomId)
+          .select('polygon.room')
+          .attr('stroke', '#2196F3')
+          .attr('stroke-width', 2 * dataUnit);
+      }
+
       // Add lock icon for locked rooms
       roomGroups
         .filter((d: Room) => !!(d.locked && onRoomClick))
@@ -1695,85 +3995,91 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
             .text('🔒');
         });
 
-      // Add area labels for all rooms
+      // Name / type / area labels, stacked around the room centroid
       roomGroups.each(function(d: Room) {
         const polygon = d.polygon_coords;
-        if (polygon.length === 0) return;
+        if (polygon.length === 0 || !layerView.category('labels').visible) return;
         
-        // Calculate area
-        const area = calculatePolygonArea(polygon);
+        // Net area: stairs and lift shafts in the room don't count
+        const area = netRoomArea(polygon, floorPlan.fixtures ?? []);
         const centroid = calculateCentroid(polygon);
         
-        // Compute area label depending on calibration state.
-        const isCalibrated = floorPlan.is_calibrated ?? false;
-        let areaLabel: string;
-        if (isCalibrated) {
-          areaLabel = `${area.toFixed(1)} m\u00b2`;
-        } else {
-          areaLabel = `${Math.round(area).toLocaleString()} px\u00b2`;
-        }
-        
         // Determine vertical offset based on whether lock icon is present
         const hasLock = d.locked && onRoomClick;
         const yOffset = hasLock ? 10 * dataUnit : 0;
-        
-        // Add area text
-        d3.select(this)
-          .append('text')
-          .attr('class', 'room-area-label')
-          .attr('x', centroid.x)
-          .attr('y', centroid.y + yOffset)
-          .attr('text-anchor', 'middle')
-          .attr('dominant-baseline', 'middle')
-          .attr('font-size', `${6 * dataUnit}px`)
-          .attr('font-weight', '600')
-          .attr('fill', '#333')
-          .attr('pointer-events', 'none')
-          .text(areaLabel);
+
+        const name = getRoomName(d.tags);
+        const type = getRoomType(d.tags);
+        const lines: { cls: string; text: string; size: number; weight: string; fill: string }[] = [];
+        if (name) lines.push({ cls: 'room-name-label', text: name, size: 7, weight: '700', fill: '#222' });
+        if (type) lines.push({ cls: 'room-type-label', text: getRoomStyle(d.tags).label, size: 5, weight: '500', fill: '#555' });
+        lines.push({
+          cls: 'room-area-label',
+          text: formatDataArea(area, floorPlan.is_calibrated ?? false),
+          size: 6,
+          weight: '600',
+          fill: '#333',
+        });
+
+        const labelG = d3.select(this)
+          .append('g')
+          .attr('class', 'room-labels')
+          .attr('transform', `translate(${centroid.x},${centroid.y + yOffset})`)
+          .attr('pointer-events', 'none');
+        const lineGap = 8 * dataUnit;
+        lines.forEach((line, i) => {
+          labelG.append('text')
+            .attr('class', line.cls)
+            .attr('x', 0)
+            .attr('y', (i - (lines.length - 1) / 2) * lineGap)
+            .attr('text-anchor', 'middle')
+            .attr('dominant-baseline', 'middle')
+            .attr('font-size', `${line.size * dataUnit}px`)
+            .attr('font-weight', line.weight)
+            .attr('fill', line.fill)
+            .text(line.text);
+        });
         
         // Add semi-transparent background for better readability
-        const textNode = d3.select(this).select('.room-area-label').node() as SVGGraphicsElement | null;
-        const bbox = textNode?.getBBox();
-        if (bbox) {
-          d3.select(this)
-            .insert('rect', '.room-area-label')
-            .attr('x', bbox.x - 2 * dataUnit)
-            .attr('y', bbox.y - dataUnit)
-            .attr('width', bbox.width + 4 * dataUnit)
-            .attr('height', bbox.height + 2 * dataUnit)
-            .attr('fill', 'white')
-            .attr('opacity', 0.8)
-            .attr('rx', 2 * dataUnit)
-            .attr('pointer-events', 'none');
-        }
+        labelG.insert('rect', 'text')
+          .attr('class', 'room-label-bg')
+          .attr('fill', 'white')
+          .attr('opacity', 0.8)
+          .attr('rx', 2 * dataUnit);
+        fitRoomLabelBackground(labelG, dataUnit);
       });
     }
 
     // Render edges with geometries
     // Group edges by type
     const walls = floorPlan.edges.filter((e: Edge) => e.type === 'wall');
-    const doors = floorPlan.edges.filter((e: Edge) => e.type === 'door');
-    const windows = floorPlan.edges.filter((e: Edge) => e.type === 'window');
+    const doors = floorPlan.edges.filter((e: Edge) => e.type === 'door' && layerView.edge(e).visible);
+    const windows = floorPlan.edges.filter((e: Edge) => e.type === 'window' && layerView.edge(e).visible);
+    const otherEdges = floorPlan.edges.filter((e: Edge) =>
+      e.type !== 'wall' && e.type !== 'door' && e.type !== 'window' && layerView.edge(e).visible);
 
-    // Compute wall polygons with proper corners and junctions
+    // Compute wall polygons (hidden walls still shape their neighbours' corners) with proper corners and junctions
     const defaultWallThickness = isCalibratedRef.current ? 0.2 : 10;
     const wallPolygons = computeWallPolygons(walls, nodeMap, defaultWallThickness);
 
     // Render walls with computed geometries
     wallPolygons.forEach((wallPoly: WallPolygon) => {
       const edge = wallPoly.edge;
+      if (!layerView.edge(edge).visible) return;
       // Use computed polygon with proper corners
       const pointsStr = wallPoly.polygon
         .map(p => `${p.x},${p.y}`)
         .join(' ');
 
+      // Load-bearing walls are hatched
+      const wallFill = isStructuralWall(edge) ? STRUCTURAL_FILL : '#333';
       const wallElement = drawG.append('polygon')
         .attr('class', selectedEdgeIdsRef.current.has(edge.id) ? 'wall selected' : 'wall')
         .attr('data-edge-id', edge.id)
         .attr('data-base-class', 'wall')
-        .attr('data-default-fill', '#333')
+        .attr('data-default-fill', wallFill)
         .attr('points', pointsStr)
-        .attr('fill', draggedEdge?.id === edge.id ? '#0066cc' : (selectedEdgeIdsRef.current.has(edge.id) ? '#2196F3' : '#333'))
+        .attr('fill', draggedEdge?.id === edge.id ? '#0066cc' : (selectedEdgeIdsRef.current.has(edge.id) ? '#2196F3' : wallFill))
         .attr('cursor', (isEditMode && !measureMode && activeTool !== 'assets') ? 'move' : (activeTool === 'assets' ? 'crosshair' : 'default'))
         .attr('pointer-events', activeTool === 'assets' ? 'none' : 'auto')
         .on('mouseenter', function() {
@@ -1791,7 +4097,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               const poly = miterPoly.polygon;
               const kHov = d3.zoomTransform(svgRef.current!).k;
               const ag = d3.select(annotationGRef.current as SVGGElement);
-              ag.selectAll('*').remove();
+              ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
               const isCalibrated = isCalibratedRef.current;
               for (let si = 0; si < poly.length; si++) {
                 const pa = poly[si];
@@ -1810,7 +4116,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           d3.select(this)
             .transition()
             .duration(150)
-            .attr('fill', isDragged ? '#0066cc' : (isSelected ? '#2196F3' : '#333'))
+            .attr('fill', isDragged ? '#0066cc' : (isSelected ? '#2196F3' : wallFill))
             .attr('opacity', 1);
           clearAnnotations();
         })
@@ -1818,14 +4124,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           if (activeToolRef.current === 'assets') return;
           event.stopPropagation();
           if (isShiftPressed && onSelectedEdgesChange) {
-            // Toggle selection
-            const newSelection = new Set(selectedEdgeIdsRef.current);
-            if (newSelection.has(edge.id)) {
-              newSelection.delete(edge.id);
-            } else {
-              newSelection.add(edge.id);
-            }
-            onSelectedEdgesChange(Array.from(newSelection));
+            toggleSelection('edgeIds', edge.id);
           } else {
             onSelectedEdgesChange?.([edge.id]);
           }
@@ -1852,16 +4151,24 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           let startSourceX = 0, startSourceY = 0;
           let startTargetX = 0, startTargetY = 0;
           let didDrag = false;
+          let constraintBase = new Map<string, Point>();
+          let constraintTouched = new Set<string>();
 
           const wallDrag = d3.drag<SVGPolygonElement, WallPolygon>()
             .filter(function() {
+              // Moving a wall that shares a corner with a locked one would drag that one too
+              if (layerView.node(edge.source).locked || layerView.node(edge.target).locked) return false;
               // Disable drag when Shift is pressed (for selection mode), wall tool or assets tool active
-              return !isShiftPressed && activeToolRef.current !== 'wall' && activeToolRef.current !== 'assets';
+              return !isShiftPressed && activeToolRef.current !== 'wall' && activeToolRef.current !== 'assets' && activeToolRef.current !== 'room' && activeToolRef.current !== 'furniture' && activeToolRef.current !== 'dimension';
             })
             .on('start', function(_event) {
+              didDrag = false;
+              if (isGroupMember('edgeIds', edge.id)) {
+                beginGroupDrag({ x: sourceNode.x, y: sourceNode.y });
+                return;
+              }
               setDraggedEdge(edge);
               d3.select(this).attr('fill', '#0066cc');
-              didDrag = false;
               
               // Store initial positions
               startSourceX = sourceNode.x;
@@ -1870,18 +4177,30 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               startTargetY = targetNode.y;
               dragStartX = 0;
               dragStartY = 0;
+              constraintBase = snapshotPositions();
+              constraintTouched = new Set();
             })
             .on('drag', function(event) {
               didDrag = true;
+              if (groupDrag) {
+                moveGroupDrag(event);
+                return;
+              }
               // Accumulate drag deltas
               dragStartX += event.dx;
               dragStartY += event.dy;
+
+              // Grid: snap the source node and carry the target along by the same offset
+              const snappedSource = snapPointToGrid({ x: startSourceX + dragStartX, y: startSourceY + dragStartY }, event.sourceEvent);
+              const offsetX = snappedSource.x - startSourceX;
+              const offsetY = snappedSource.y - startSourceY;
               
               // Update both node positions (move wall as a whole)
-              sourceNode.x = startSourceX + dragStartX;
-              sourceNode.y = startSourceY + dragStartY;
-              targetNode.x = startTargetX + dragStartX;
-              targetNode.y = startTargetY + dragStartY;
+              sourceNode.x = startSourceX + offsetX;
+              sourceNode.y = startSourceY + offsetY;
+              targetNode.x = startTargetX + offsetX;
+              targetNode.y = startTargetY + offsetY;
+              const constrained = applyConstraints(constraintBase, new Set([edge.source, edge.target]), constraintTouched);
               
               // Update node visuals
               drawG.selectAll('.node-group')
@@ -1899,15 +4218,17 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
 
               // Show ghost lines for adjacent walls (sharing one endpoint with this edge)
               const overrides = new Map<string, Point>([
+                ...constrained,
                 [edge.source, { x: sourceNode.x, y: sourceNode.y }],
                 [edge.target, { x: targetNode.x, y: targetNode.y }],
               ]);
               renderDragGhosts(overrides, new Set([edge.id]));
+              renderAnnotationsRef.current?.(overrides);
               // Show length labels for all edges sharing the moved nodes
               if (annotationGRef.current) {
                 const kEdgeDrag = d3.zoomTransform(svgRef.current!).k;
                 const ag = d3.select(annotationGRef.current as SVGGElement);
-                ag.selectAll('*').remove();
+                ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
                 const isCalibrated = isCalibratedRef.current;
                 const sharedEdges = wallFloorPlanEdgesRef.current.filter(e =>
                   e.source === edge.source || e.target === edge.source ||
@@ -1924,21 +4245,18 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               }
             })
             .on('end', function() {
+              if (groupDrag) {
+                endGroupDrag();
+                if (didDrag) return;
+              }
               setDraggedEdge(null);
               clearDragGhosts();
               clearAnnotations();
 
               if (!didDrag) {
                 // Treat as a click — d3 drag suppresses the native click event
-                const isSelected = selectedEdgeIdsRef.current.has(edge.id);
                 if (isShiftPressed && onSelectedEdgesChange) {
-                  const newSelection = new Set(selectedEdgeIdsRef.current);
-                  if (isSelected) {
-                    newSelection.delete(edge.id);
-                  } else {
-                    newSelection.add(edge.id);
-                  }
-                  onSelectedEdgesChange(Array.from(newSelection));
+                  toggleSelection('edgeIds', edge.id);
                 } else {
                   onSelectedEdgesChange?.([edge.id]);
                 }
@@ -1947,12 +4265,18 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
 
               // Restore fill respecting current selection
               const isSelected = selectedEdgeIdsRef.current.has(edge.id);
-              d3.select(this).attr('fill', isSelected ? '#2196F3' : '#333');
+              d3.select(this).attr('fill', isSelected ? '#2196F3' : wallFill);
               
-              // Notify parent of both node position changes
+              // Notify parent of both node position changes (plus any the constraints moved)
+              const followers = Array.from(constraintTouched).filter(id => id !== edge.source && id !== edge.target);
               onNodePositionsChange([
                 { id: edge.source, x: sourceNode.x, y: sourceNode.y },
-                { id: edge.target, x: targetNode.x, y: targetNode.y }
+                { id: edge.target, x: targetNode.x, y: targetNode.y },
+                ...followers.flatMap(id => nodeMap.get(id) ? [{ id, x: nodeMap.get(id)!.x, y: nodeMap.get(id)!.y }] : []),
+              ], [
+                { id: edge.source, x: startSourceX, y: startSourceY },
+                { id: edge.target, x: startTargetX, y: startTargetY },
+                ...followers.flatMap(id => constraintBase.get(id) ? [{ id, ...constraintBase.get(id)! }] : []),
               ]);
             });
           
@@ -1961,6 +4285,31 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       }
     });
 
+    // Constraint badges beside constrained walls
+    walls.forEach((edge: Edge) => {
+      const constraints = getEdgeConstraints(edge);
+      const src = nodeMap.get(edge.source);
+      const tgt = nodeMap.get(edge.target);
+      if (constraints.length === 0 || !src || !tgt) return;
+      if (!layerView.category('overlays').visible || !layerView.edge(edge).visible) return;
+      const dir = vecNorm(vecSub(tgt, src));
+      const offset = (edge.thickness ?? defaultWallThickness) / 2 + 8 * dataUnit;
+      const at = vecAdd(vecScale(vecAdd(src, tgt), 0.5), vecScale(vecPerp(dir), -offset));
+      drawG.append('text')
+        .attr('class', 'constraint-badge')
+        .attr('x', at.x)
+        .attr('y', at.y)
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .attr('font-size', `${9 * dataUnit}px`)
+        .attr('fill', '#6A1B9A')
+        .attr('stroke', '#fff')
+        .attr('stroke-width', 2 * dataUnit)
+        .attr('paint-order', 'stroke')
+        .attr('pointer-events', 'none')
+        .text(constraints.map(c => CONSTRAINT_TYPES.find(t => t.id === c.type)?.icon ?? '').join(' '));
+    });
+
     // Render doors with geometries
     doors.forEach((edge: Edge) => {
       if (edge.geometries && edge.geometries.length > 0) {
@@ -1979,26 +4328,32 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
             .on('click', function(event) {
               event.stopPropagation();
               if (isShiftPressed && onSelectedEdgesChange) {
-                const newSelection = new Set(selectedEdgeIdsRef.current);
-                if (newSelection.has(edge.id)) {
-                  newSelection.delete(edge.id);
-                } else {
-                  newSelection.add(edge.id);
-                }
-                onSelectedEdgesChange(Array.from(newSelection));
+                toggleSelection('edgeIds', edge.id);
               } else {
                 onSelectedEdgesChange?.([edge.id]);
               }
+            })
+            .on('contextmenu', function(event) {
+              event.preventDefault();
+              event.stopPropagation();
+              if (onEdgeDelete || onDoorChange) {
+                setContextMenu({
+                  x: event.pageX,
+                  y: event.pageY,
+                  edgeId: edge.id
+                });
+              }
             });
         });
-      } else {
-        // Render door as a polygon with proper thickness
-        const sourceNode = nodeMap.get(edge.source);
-        const targetNode = nodeMap.get(edge.target);
-        
-        if (!sourceNode || !targetNode) return;
+      }
 
-        const thickness = edge.thickness || (isCalibratedRef.current ? 0.1 : 8);
+      const sourceNode = nodeMap.get(edge.source);
+      const targetNode = nodeMap.get(edge.target);
+      if (!sourceNode || !targetNode) return;
+      const thickness = edge.thickness || (isCalibratedRef.current ? 0.1 : 8);
+
+      if (!edge.geometries || edge.geometries.length === 0) {
+        // Render door as a polygon with proper thickness
         const doorPolygon = createRectPolygon(
           { x: sourceNode.x, y: sourceNode.y },
           { x: targetNode.x, y: targetNode.y },
@@ -2016,13 +4371,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           .on('click', function(event) {
             event.stopPropagation();
             if (isShiftPressed && onSelectedEdgesChange) {
-              const newSelection = new Set(selectedEdgeIdsRef.current);
-              if (newSelection.has(edge.id)) {
-                newSelection.delete(edge.id);
-              } else {
-                newSelection.add(edge.id);
-              }
-              onSelectedEdgesChange(Array.from(newSelection));
+              toggleSelection('edgeIds', edge.id);
             } else {
               onSelectedEdgesChange?.([edge.id]);
             }
@@ -2030,7 +4379,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           .on('contextmenu', function(event) {
             event.preventDefault();
             event.stopPropagation();
-            if (onEdgeDelete) {
+            if (onEdgeDelete || onDoorChange) {
               setContextMenu({
                 x: event.pageX,
                 y: event.pageY,
@@ -2038,20 +4387,26 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               });
             }
           });
+      }
 
-        // Add door swing arc
-        const doorLength = Math.sqrt(
-          Math.pow(targetNode.x - sourceNode.x, 2) + 
-          Math.pow(targetNode.y - sourceNode.y, 2)
-        );
-        
+      // Door symbol: leaf and swing for the door's hinge/swing/leaf settings
+      const symbol = createDoorSymbol(sourceNode, targetNode, getDoorProperties(edge), thickness);
+      drawG.append('path')
+        .attr('class', 'door-leaf')
+        .attr('d', symbol.leaf)
+        .attr('fill', 'none')
+        .attr('stroke', '#5C3317')
+        .attr('stroke-width', dataUnit)
+        .attr('pointer-events', 'none');
+      if (symbol.swing) {
         drawG.append('path')
           .attr('class', 'door-arc')
-          .attr('d', createDoorArc(sourceNode.x, sourceNode.y, targetNode.x, targetNode.y, doorLength * 0.4))
+          .attr('d', symbol.swing)
           .attr('fill', 'none')
           .attr('stroke', '#8B4513')
           .attr('stroke-width', 0.5 * dataUnit)
-          .attr('stroke-dasharray', `${2 * dataUnit},${2 * dataUnit}`);
+          .attr('stroke-dasharray', `${2 * dataUnit},${2 * dataUnit}`)
+          .attr('pointer-events', 'none');
       }
     });
 
@@ -2071,13 +4426,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
             .on('click', function(event) {
               event.stopPropagation();
               if (isShiftPressed && onSelectedEdgesChange) {
-                const newSelection = new Set(selectedEdgeIdsRef.current);
-                if (newSelection.has(edge.id)) {
-                  newSelection.delete(edge.id);
-                } else {
-                  newSelection.add(edge.id);
-                }
-                onSelectedEdgesChange(Array.from(newSelection));
+                toggleSelection('edgeIds', edge.id);
               } else {
                 onSelectedEdgesChange?.([edge.id]);
               }
@@ -2094,14 +4443,15 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               }
             });
         });
-      } else {
-        // Render window as a polygon with proper thickness
-        const sourceNode = nodeMap.get(edge.source);
-        const targetNode = nodeMap.get(edge.target);
-        
-        if (!sourceNode || !targetNode) return;
+      }
 
-        const thickness = edge.thickness || (isCalibratedRef.current ? 0.1 : 8);
+      const sourceNode = nodeMap.get(edge.source);
+      const targetNode = nodeMap.get(edge.target);
+      if (!sourceNode || !targetNode) return;
+      const thickness = edge.thickness || (isCalibratedRef.current ? 0.1 : 8);
+
+      if (!edge.geometries || edge.geometries.length === 0) {
+        // Render window as a polygon with proper thickness
         const windowPolygon = createRectPolygon(
           { x: sourceNode.x, y: sourceNode.y },
           { x: targetNode.x, y: targetNode.y },
@@ -2120,13 +4470,78 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           .on('click', function(event) {
             event.stopPropagation();
             if (isShiftPressed && onSelectedEdgesChange) {
-              const newSelection = new Set(selectedEdgeIdsRef.current);
-              if (newSelection.has(edge.id)) {
-                newSelection.delete(edge.id);
-              } else {
-                newSelection.add(edge.id);
-              }
-              onSelectedEdgesChange(Array.from(newSelection));
+              toggleSelection('edgeIds', edge.id);
+            } else {
+              onSelectedEdgesChange?.([edge.id]);
+            }
+          })
+          .on('contextmenu', function(event) {
+            event.preventDefault();
+            event.stopPropagation();
+            if (onEdgeDelete) {
+              setContextMenu({
+                x: event.pageX,
+                y: event.pageY,
+                edgeId: edge.id
+              });
+            }
+          });
+      }
+
+      // Window symbol for the edge's subtype, drawn inside the wall thickness
+      const symbol = createWindowSymbol(sourceNode, targetNode, getWindowProperties(edge).window_type, thickness);
+      drawG.append('path')
+        .attr('class', 'window-glass')
+        .attr('d', symbol.glass)
+        .attr('fill', 'none')
+        .attr('stroke', '#4682B4')
+        .attr('stroke-width', 0.75 * dataUnit)
+        .attr('pointer-events', 'none');
+      if (symbol.swing) {
+        drawG.append('path')
+          .attr('class', 'window-swing')
+          .attr('d', symbol.swing)
+          .attr('fill', 'none')
+          .attr('stroke', '#4682B4')
+          .attr('stroke-width', 0.5 * dataUnit)
+          .attr('stroke-dasharray', `${2 * dataUnit},${2 * dataUnit}`)
+          .attr('pointer-events', 'none');
+      }
+    });
+
+    // Render openings, arches, pass-throughs and half walls; edge types the
+    // editor doesn't know get a neutral dashed outline named in a tooltip
+    otherEdges.forEach((edge: Edge) => {
+      const sourceNode = nodeMap.get(edge.source);
+      const targetNode = nodeMap.get(edge.target);
+      if (!sourceNode || !targetNode) return;
+      const kind = isOpeningKind(edge.type) ? edge.type : null;
+      const thickness = edge.thickness || (isCalibratedRef.current ? 0.1 : 8);
+      const settings = getOpeningProperties(edge);
+      const railing = kind === 'half_wall' && settings.railing;
+      const style = OPENING_STYLES[kind ?? 'unknown'];
+      const fill = railing ? '#FFFFFF' : style.fill;
+      const baseClass = kind ? `opening opening-${kind}` : 'opening opening-unknown';
+
+      const bodies = edge.geometries && edge.geometries.length > 0
+        ? edge.geometries.map(geom => geom.polygon_coords.map(([x, y]) => ({ x, y })))
+        : [createRectPolygon({ x: sourceNode.x, y: sourceNode.y }, { x: targetNode.x, y: targetNode.y }, thickness)];
+      bodies.forEach((polygon) => {
+        const body = drawG.append('polygon')
+          .attr('class', selectedEdgeIdsRef.current.has(edge.id) ? `${baseClass} selected` : baseClass)
+          .attr('data-edge-id', edge.id)
+          .attr('data-base-class', baseClass)
+          .attr('data-default-fill', fill)
+          .attr('points', polygon.map(p => `${p.x},${p.y}`).join(' '))
+          .attr('fill', selectedEdgeIdsRef.current.has(edge.id) ? '#2196F3' : fill)
+          .attr('stroke', railing ? '#757575' : style.stroke)
+          .attr('stroke-width', 0.5 * dataUnit)
+          .attr('stroke-dasharray', kind ? null : `${2 * dataUnit},${dataUnit}`)
+          .attr('cursor', 'pointer')
+          .on('click', function(event) {
+            event.stopPropagation();
+            if (isShiftPressed && onSelectedEdgesChange) {
+              toggleSelection('edgeIds', edge.id);
             } else {
               onSelectedEdgesChange?.([edge.id]);
             }
@@ -2142,29 +4557,49 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               });
             }
           });
+        if (!kind) body.append('title').text(edge.type);
+      });
 
-        // Add center line for window glass effect
-        drawG.append('line')
-          .attr('class', 'window-glass')
-          .attr('x1', sourceNode.x)
-          .attr('y1', sourceNode.y)
-          .attr('x2', targetNode.x)
-          .attr('y2', targetNode.y)
-          .attr('stroke', '#87CEEB')
-          .attr('stroke-width', thickness * 0.5);
+      if (!kind) return;
+      const symbol = createOpeningSymbol(sourceNode, targetNode, kind, thickness, railing);
+      if (symbol.solid) {
+        drawG.append('path')
+          .attr('class', 'opening-symbol')
+          .attr('d', symbol.solid)
+          .attr('fill', 'none')
+          .attr('stroke', '#333')
+          .attr('stroke-width', 0.75 * dataUnit)
+          .attr('pointer-events', 'none');
+      }
+      if (symbol.dashed) {
+        drawG.append('path')
+          .attr('class', 'opening-head')
+          .attr('d', symbol.dashed)
+          .attr('fill', 'none')
+          .attr('stroke', '#555')
+          .attr('stroke-width', 0.5 * dataUnit)
+          .attr('stroke-dasharray', `${2 * dataUnit},${2 * dataUnit}`)
+          .attr('pointer-events', 'none');
       }
     });
 
     // Draw fixtures (if available)
     if (floorPlan.fixtures && floorPlan.fixtures.length > 0) {
+      const shownFixtures = floorPlan.fixtures.filter((f: Fixture) => layerView.fixture(f).visible);
+      const furniture = shownFixtures.filter((f: Fixture) => !!findFurnitureItem(fixtureKind(f.fixture_type)));
+      const otherFixtures = shownFixtures.filter((f: Fixture) => !findFurnitureItem(fixtureKind(f.fixture_type)));
+
       drawG.selectAll('.fixture')
-        .data(floorPlan.fixtures, (d: any) => d.id)
+        .data(otherFixtures, (d: any) => d.id)
         .enter()
         .append('polygon')
         .attr('class', (d: Fixture) => `fixture fixture-${d.fixture_type}`)
+        .classed('selected', (d: Fixture) => selectedFixtureIdsRef.current.has(d.id))
+        .attr('data-fixture-id', (d: Fixture) => d.id)
         .attr('points', (d: Fixture) => 
           d.polygon_coords.map(([x, y]) => `${x},${y}`).join(' ')
         )
+        .call(groupMemberDrag<SVGPolygonElement, Fixture>('fixtureIds', d => ({ x: d.polygon_coords[0][0], y: d.polygon_coords[0][1] })) as any)
         .attr('fill', (d: Fixture) => {
           // Color fixtures by type
           if (d.fixture_type === 'door') return '#8B4513';
@@ -2173,14 +4608,123 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
         })
         .attr('stroke', '#000')
         .attr('stroke-width', 0.5 * dataUnit);
+
+      // Catalogue furniture is drawn in its own local frame, so moving or
+      // rotating a piece only has to touch the group transform
+      const furnitureTool = activeTool === 'furniture';
+      const furnitureGroups = drawG.selectAll('.furniture-group')
+        .data(furniture, (d: any) => d.id)
+        .enter()
+        .append('g')
+        .attr('class', 'furniture-group')
+        .classed('selected', (d: Fixture) => selectedFixtureIdsRef.current.has(d.id))
+        .attr('data-fixture-id', (d: Fixture) => d.id)
+        .attr('transform', (d: Fixture) => frameTransform(getFixtureFrame(d)))
+        .attr('cursor', furnitureTool && isEditMode ? 'move' : 'default')
+        // Outside the furniture tool pieces must not swallow room/wall clicks,
+        // unless Shift is held to pick them or they are part of a selection
+        .attr('pointer-events', (d: Fixture) =>
+          furnitureTool || isShiftPressed || selectedFixtureIdsRef.current.has(d.id) ? 'all' : 'none');
+
+      furnitureGroups.each(function(d: Fixture) {
+        const frame = getFixtureFrame(d);
+        const group = d3.select(this);
+        const isSelected = furnitureTool && d.id === selectedFixtureId;
+        const kind = fixtureKind(d.fixture_type);
+        const circulation = isCirculation(kind);
+        const body = group.append('rect')
+          .attr('class', 'furniture-body')
+          .attr('x', -frame.width / 2)
+          .attr('y', -frame.depth / 2)
+          .attr('width', frame.width)
+          .attr('height', frame.depth)
+          .attr('rx', circulation ? 0 : Math.min(frame.width, frame.depth) * 0.06)
+          .attr('fill', circulation ? '#fff' : '#faf6f0')
+          // Stairs and shafts draw their own outline; the body only shows the selection
+          .attr('stroke', isSelected ? '#2196F3' : circulation ? 'none' : '#6d4c41')
+          .attr('stroke-width', (isSelected ? 2 : 1) * dataUnit);
+        if (isColumn(d.fixture_type)) {
+          body
+            .attr('rx', d.fixture_type === 'column_round' ? frame.width / 2 : 0)
+            .attr('ry', d.fixture_type === 'column_round' ? frame.depth / 2 : 0)
+            .attr('fill', STRUCTURAL_FILL)
+            .attr('stroke', isSelected ? '#2196F3' : '#3e2723');
+          return;
+        }
+        if (circulation) {
+          renderCirculationSymbol(group, kind as CirculationType, frame, d.properties, dataUnit);
+          return;
+        }
+        group.append('text')
+          .attr('class', 'furniture-label')
+          .attr('text-anchor', 'middle')
+          .attr('dominant-baseline', 'central')
+          .attr('font-size', `${Math.min(frame.width, frame.depth) * 0.5}px`)
+          .attr('pointer-events', 'none')
+          .text(findFurnitureItem(kind)?.icon ?? '');
+      });
+
+      furnitureGroups.on('click', function(event, d: Fixture) {
+        if (isShiftPressed && activeToolRef.current === 'cursor') {
+          event.stopPropagation();
+          toggleSelection('fixtureIds', d.id);
+          return;
+        }
+        if (activeToolRef.current !== 'furniture') return;
+        event.stopPropagation();
+        onSelectedFixtureChangeRef.current?.(d.id);
+      });
+
+      if (!furnitureTool && isEditMode && !measureMode) {
+        furnitureGroups.call(groupMemberDrag<SVGGElement, Fixture>('fixtureIds', d => {
+          const frame = getFixtureFrame(d);
+          return { x: frame.cx, y: frame.cy };
+        }) as any);
+      }
+
+      // Drag any piece to move it
+      if (furnitureTool && isEditMode && !measureMode && onFixtureUpdate) {
+        furnitureGroups.call(d3.drag<SVGGElement, Fixture>()
+          .subject((event) => ({ x: event.x, y: event.y }))
+          .on('start', function(_event, d: Fixture) {
+            (this as any).__startFrame = getFixtureFrame(d);
+            (this as any).__moved = false;
+          })
+          .on('drag', function(event, d: Fixture) {
+            const start: FixtureFrame = (this as any).__startFrame;
+            (this as any).__moved = true;
+            const moved = { ...start, cx: start.cx + event.x - event.subject.x, cy: start.cy + event.y - event.subject.y };
+            if (isColumn(d.fixture_type)) {
+              const k = d3.zoomTransform(svgRef.current!).k;
+              const junction = snapToJunction({ x: moved.cx, y: moved.cy }, snapNodesRef.current, snapEdgesRef.current, TARGET_SNAP_PX / k);
+              if (junction) { moved.cx = junction.x; moved.cy = junction.y; }
+            }
+            (this as any).__frame = moved;
+            d3.select(this).attr('transform', frameTransform(moved));
+            // Handles go stale during the move; they are rebuilt after the update
+            drawG.selectAll('.fixture-handles').attr('display', 'none');
+          })
+          .on('end', function(_event, d: Fixture) {
+            const start: FixtureFrame = (this as any).__startFrame;
+            const moved: FixtureFrame | undefined = (this as any).__frame;
+            const didMove = (this as any).__moved;
+            delete (this as any).__startFrame;
+            delete (this as any).__frame;
+            delete (this as any).__moved;
+            if (!didMove || !moved) return;
+            onSelectedFixtureChangeRef.current?.(d.id);
+            onFixtureUpdate(d.id, moved, start);
+          }) as any);
+      }
     }
 
     // Draw node points visualization
     // Radius is set to a placeholder; the zoom handler keeps it at 3 screen-pixels
     const nodeGroups = drawG.selectAll('.node-group')
-      .data(floorPlan.nodes, (d: any) => d.id)
+      .data(floorPlan.nodes.filter((n: Node) => layerView.node(n.id).visible), (d: any) => d.id)
       .join('g')
       .attr('class', 'node-group')
+      .classed('selected', (d: Node) => selectedNodeIdsRef.current.has(d.id))
       .attr('transform', (d: Node) => `translate(${d.x},${d.y})`);
     
     nodeGroups.each(function(d: Node) {
@@ -2219,7 +4763,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               }).filter((a): a is number => a !== null);
               angles.sort((a, b) => a - b);
               const ag = d3.select(annotationGRef.current as SVGGElement);
-              ag.selectAll('*').remove();
+              ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
               renderAngleArcs(ag, d, angles, k);
             }
           }
@@ -2291,16 +4835,31 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
 
     // Add drag behavior to nodes in edit mode
     if (isEditMode && !measureMode && onNodePositionsChange) {
+      // Positions at drag start and nodes the constraint solver has moved since
+      let nodeConstraintBase = new Map<string, Point>();
+      let nodeConstraintTouched = new Set<string>();
       const drag = d3.drag<SVGGElement, Node>()
         .filter(function() {
-          return activeToolRef.current !== 'wall' && activeToolRef.current !== 'assets';
+          return activeToolRef.current !== 'wall' && activeToolRef.current !== 'assets' && activeToolRef.current !== 'room' && activeToolRef.current !== 'furniture' && activeToolRef.current !== 'dimension';
         })
         .on('start', function(_event, d) {
+          if (isGroupMember('nodeIds', d.id)) {
+            beginGroupDrag({ x: d.x, y: d.y });
+            return;
+          }
           setDraggedNodeId(d.id);
+          (this as any).__startX = d.x;
+          (this as any).__startY = d.y;
+          nodeConstraintBase = snapshotPositions();
+          nodeConstraintTouched = new Set();
           d3.select(this).select('.node-point')
             .attr('fill', '#0066cc');
         })
         .on('drag', function(event, d) {
+          if (groupDrag) {
+            moveGroupDrag(event);
+            return;
+          }
           // --- Raw position tracking -----------------------------------------
           // We accumulate raw (unsnapped) deltas separately so snap release is
           // based on true cursor distance from the axis, not the snapped d.x/d.y.
@@ -2314,6 +4873,8 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           (this as any).__rawY += event.dy;
           const rawX: number = (this as any).__rawX;
           const rawY: number = (this as any).__rawY;
+          // Grid position, used for whichever coordinate no axis/parallel snap claims
+          const gridded = snapPointToGrid({ x: rawX, y: rawY }, event.sourceEvent);
 
           // Axis snap: evaluate each connected wall independently for X and Y.
           // Compare RAW position against the axis — so release fires as soon as
@@ -2350,8 +4911,8 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           }
           // Apply axis snap or, if no axis snap, parallel snap
           if (bestXSnap || bestYSnap) {
-            d.x = bestXSnap ? bestXSnap.value : rawX;
-            d.y = bestYSnap ? bestYSnap.value : rawY;
+            d.x = bestXSnap ? bestXSnap.value : gridded.x;
+            d.y = bestYSnap ? bestYSnap.value : gridded.y;
             if (bestXSnap) dragGuidelines.push({ orientation: 'vertical',   value: bestXSnap.value });
             if (bestYSnap) dragGuidelines.push({ orientation: 'horizontal', value: bestYSnap.value });
           } else {
@@ -2371,7 +4932,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               const aLen = Math.hypot(aDx, aDy);
               const aNx = aDx / aLen;
               const aNy = aDy / aLen;
-              for (const edgeB of wallFloorPlanEdgesRef.current) {
+              for (const edgeB of snapEdgesRef.current) {
                 if (edgeB.id === edgeA.id) continue;
                 if (edgeB.source === d.id || edgeB.target === d.id) continue;
                 const fromB = wallFloorPlanNodesRef.current.find(n => n.id === edgeB.source);
@@ -2397,22 +4958,39 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               d.y = parallelPoint.y;
               dragGuidelines.push(parallelGuideline!);
             } else {
-              d.x = rawX;
-              d.y = rawY;
+              d.x = gridded.x;
+              d.y = gridded.y;
             }
           }
+          // Derived targets win over axis, parallel and grid snaps. The node's own
+          // walls are excluded; its first neighbour is where perpendiculars start.
+          const firstNeighbourId = connectedEdges[0]
+            ? (connectedEdges[0].source === d.id ? connectedEdges[0].target : connectedEdges[0].source)
+            : null;
+          const firstNeighbour = wallFloorPlanNodesRef.current.find(n => n.id === firstNeighbourId) ?? null;
+          const dragTarget = findSnapTargetAt({ x: rawX, y: rawY }, firstNeighbour, d.id);
+          if (dragTarget) {
+            d.x = dragTarget.point.x;
+            d.y = dragTarget.point.y;
+            dragGuidelines.splice(0, dragGuidelines.length, ...dragTarget.guidelines);
+          }
           renderGuidelines(dragGuidelines);
+          renderSnapMarker(dragTarget);
 
           // Update node position in DOM immediately for visual feedback
           d3.select(this).attr('transform', `translate(${d.x},${d.y})`);
 
+          // Constrained walls pull their other nodes along
+          const constrained = applyConstraints(nodeConstraintBase, new Set([d.id]), nodeConstraintTouched);
+
           // Show ghost lines for all edges connected to this node
-          const overrides = new Map<string, Point>([[d.id, { x: d.x, y: d.y }]]);
+          const overrides = new Map<string, Point>([...constrained, [d.id, { x: d.x, y: d.y }]]);
           renderDragGhosts(overrides);
+          renderAnnotationsRef.current?.(overrides);
           // Show length labels + angle arcs around dragged node
           if (annotationGRef.current) {
             const ag = d3.select(annotationGRef.current as SVGGElement);
-            ag.selectAll('*').remove();
+            ag.selectAll(TRANSIENT_ANNOTATIONS).remove();
             const isCalibrated = isCalibratedRef.current;
             for (const edge of connectedEdges) {
               const otherId = edge.source === d.id ? edge.target : edge.source;
@@ -2434,94 +5012,343 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           }
         })
         .on('end', function(_event, d) {
+          if (groupDrag) {
+            if (!endGroupDrag() && isShiftPressed) toggleSelection('nodeIds', d.id);
+            return;
+          }
           setDraggedNodeId(null);
           d3.select(this).select('.node-point')
             .attr('fill', '#FF6B6B');
+          const startX: number = (this as any).__startX ?? d.x;
+          const startY: number = (this as any).__startY ?? d.y;
           // Clean up raw position tracking
           delete (this as any).__rawX;
           delete (this as any).__rawY;
+          delete (this as any).__startX;
+          delete (this as any).__startY;
           clearDragGhosts();
           clearGuidelines();
           clearAnnotations();
 
-          // Notify parent of node position change
-          onNodePositionsChange([{ id: d.id, x: d.x, y: d.y }]);
+          // A press without movement is not a move (with Shift it picks the node)
+          if (startX === d.x && startY === d.y) {
+            if (isShiftPressed) toggleSelection('nodeIds', d.id);
+            return;
+          }
+
+          // Notify parent of node position change (plus any the constraints moved)
+          const followers = Array.from(nodeConstraintTouched).filter(id => id !== d.id);
+          onNodePositionsChange([
+            { id: d.id, x: d.x, y: d.y },
+            ...followers.flatMap(id => nodeMap.get(id) ? [{ id, x: nodeMap.get(id)!.x, y: nodeMap.get(id)!.y }] : []),
+          ], [
+            { id: d.id, x: startX, y: startY },
+            ...followers.flatMap(id => nodeConstraintBase.get(id) ? [{ id, ...nodeConstraintBase.get(id)! }] : []),
+          ]);
         });
       
       nodeGroups.call(drag as any);
     }
     
+    // Locked layers stay drawn but let clicks and drags through to what's beneath
+    const edgeById = new Map(floorPlan.edges.map((e: Edge) => [e.id, e]));
+    const fixtureById = new Map((floorPlan.fixtures ?? []).map((f: Fixture) => [f.id, f]));
+    const isLockedElement = (el: Element) => {
+      const edge = edgeById.get(el.getAttribute('data-edge-id') ?? '');
+      if (edge) return layerView.edge(edge).locked;
+      const fixture = fixtureById.get(el.getAttribute('data-fixture-id') ?? '');
+      if (fixture) return layerView.fixture(fixture).locked;
+      return el.hasAttribute('data-room-id') && layerView.category('rooms').locked;
+    };
+    drawG.selectAll<Element, unknown>('[data-edge-id], [data-fixture-id], [data-room-id]')
+      .filter(function() { return isLockedElement(this); })
+      .attr('pointer-events', 'none');
+    nodeGroups
+      .filter((d: Node) => layerView.node(d.id).locked)
+      .attr('pointer-events', 'none');
+
+    // Room reshaping handles (room tool): drag a vertex to move it, drag an
+    // edge midpoint to insert a vertex, double-click a vertex to remove it.
+    const editedRoom = activeTool === 'room' && selectedRoomId && !onRoomClick
+      ? floorPlan.rooms?.find((r: Room) => r.id === selectedRoomId)
+      : undefined;
+    if (editedRoom && isEditMode && !measureMode && onRoomUpdate) {
+      const roomGroup = drawG.selectAll<SVGGElement, Room>('.room-group')
+        .filter((d: Room) => d.id === editedRoom.id);
+      const original = editedRoom.polygon_coords.map(([x, y]) => [x, y] as [number, number]);
+      const working = original.map(([x, y]) => [x, y] as [number, number]);
+      const kHandles = d3.zoomTransform(svgRef.current!).k;
+      const handleG = drawG.append('g').attr('class', 'room-handles');
+
+      /** Redraw the polygon and its live area label from `working` */
+      const refreshRoom = () => {
+        roomGroup.select('polygon.room')
+          .attr('points', working.map(([x, y]) => `${x},${y}`).join(' '));
+        const labelG = roomGroup.select<SVGGElement>('.room-labels');
+        if (labelG.empty()) return;
+        const centroid = calculateCentroid(working);
+        labelG.attr('transform', `translate(${centroid.x},${centroid.y})`);
+        labelG.select('.room-area-label')
+          .text(formatDataArea(netRoomArea(working, floorPlan.fixtures ?? []), floorPlan.is_calibrated ?? false));
+        fitRoomLabelBackground(labelG, dataUnit);
+      };
+
+      /** Snap a dragged vertex onto a wall node within 10 screen-pixels */
+      const snapRoomVertex = (x: number, y: number): [number, number] => {
+        let best: [number, number] = [x, y];
+        let bestDist = 10 / d3.zoomTransform(svgRef.current!).k;
+        snapNodesRef.current.forEach((n: Node) => {
+          const dist = Math.hypot(n.x - x, n.y - y);
+          if (dist < bestDist) {
+            bestDist = dist;
+            best = [n.x, n.y];
+          }
+        });
+        return best;
+      };
+
+      const commitRoom = () => {
+        const unchanged = working.length === original.length &&
+          working.every(([x, y], i) => x === original[i][0] && y === original[i][1]);
+        if (unchanged) return;
+        onRoomUpdate(editedRoom.id, working.map(([x, y]) => [x, y] as [number, number]), original);
+      };
+
+      // Edge-midpoint handles (drawn first so vertex handles sit on top)
+      original.forEach(([x1, y1], i) => {
+        const [x2, y2] = original[(i + 1) % original.length];
+        let inserted = false;
+        handleG.append('circle')
+          .attr('class', 'room-handle room-handle-mid')
+          .attr('data-screen-r', 4)
+          .attr('cx', (x1 + x2) / 2)
+          .attr('cy', (y1 + y2) / 2)
+          .attr('r', 4 / kHandles)
+          .attr('fill', '#fff')
+          .attr('stroke', '#2196F3')
+          .attr('stroke-width', 1.5 / kHandles)
+          .attr('cursor', 'copy')
+          .call(d3.drag<SVGCircleElement, unknown>()
+            .on('drag', function(event) {
+              if (!inserted) {
+                // Insert lazily so a plain click doesn't add a collinear vertex.
+                // Other handles' indices go stale until the next render, so hide them.
+                working.splice(i + 1, 0, [event.x, event.y]);
+                inserted = true;
+                const self = this;
+                handleG.selectAll('.room-handle').filter(function() { return this !== self; })
+                  .attr('display', 'none');
+              }
+              working[i + 1] = snapRoomVertex(event.x, event.y);
+              d3.select(this).attr('cx', working[i + 1][0]).attr('cy', working[i + 1][1]);
+              refreshRoom();
+            })
+            .on('end', commitRoom));
+      });
+
+      // Vertex handles
+      original.forEach(([x, y], i) => {
+        handleG.append('circle')
+          .attr('class', 'room-handle room-handle-vertex')
+          .attr('data-screen-r', 5)
+          .attr('cx', x)
+          .attr('cy', y)
+          .attr('r', 5 / kHandles)
+          .attr('fill', '#2196F3')
+          .attr('stroke', '#fff')
+          .attr('stroke-width', 1.5 / kHandles)
+          .attr('cursor', 'move')
+          .call(d3.drag<SVGCircleElement, unknown>()
+            .on('drag', function(event) {
+              working[i] = snapRoomVertex(event.x, event.y);
+              d3.select(this).attr('cx', working[i][0]).attr('cy', working[i][1]);
+              handleG.selectAll('.room-handle-mid').attr('display', 'none');
+              refreshRoom();
+            })
+            .on('end', commitRoom))
+          .on('dblclick', function(event) {
+            event.stopPropagation();
+            event.preventDefault();
+            // A room needs at least three corners
+            if (working.length <= 3) return;
+            working.splice(i, 1);
+            commitRoom();
+          });
+      });
+    }
+
+    // Furniture handles (furniture tool): drag a corner to resize about the
+    // opposite corner, drag the knob above the piece to rotate in fixed steps.
+    const editedFixture = activeTool === 'furniture' && selectedFixtureId
+      ? floorPlan.fixtures?.find((f: Fixture) => f.id === selectedFixtureId && !!findFurnitureItem(fixtureKind(f.fixture_type)))
+      : undefined;
+    if (editedFixture && isEditMode && !measureMode && onFixtureUpdate) {
+      const fixtureGroup = drawG.selectAll<SVGGElement, Fixture>('.furniture-group')
+        .filter((d: Fixture) => d.id === editedFixture.id);
+      const editedKind = fixtureKind(editedFixture.fixture_type);
+      const original = getFixtureFrame(editedFixture);
+      const working: FixtureFrame = { ...original };
+      const kHandles = d3.zoomTransform(svgRef.current!).k;
+      const minSize = floorPlan.is_calibrated ? 0.1 : 10;
+      const rotateOffset = 24 / kHandles;
+      const handleG = drawG.append('g')
+        .attr('class', 'fixture-handles')
+        .attr('transform', frameTransform(working));
+
+      /** Redraw the piece and its handles from `working` */
+      const refreshFixture = () => {
+        fixtureGroup.attr('transform', frameTransform(working));
+        fixtureGroup.select('.furniture-body')
+          .attr('x', -working.width / 2)
+          .attr('y', -working.depth / 2)
+          .attr('width', working.width)
+          .attr('height', working.depth);
+        if (editedFixture.fixture_type === 'column_round') {
+          fixtureGroup.select('.furniture-body')
+            .attr('rx', working.width / 2)
+            .attr('ry', working.depth / 2);
+        }
+        fixtureGroup.select('.furniture-label')
+          .attr('font-size', `${Math.min(working.width, working.depth) * 0.5}px`);
+        if (isCirculation(editedKind)) {
+          renderCirculationSymbol(fixtureGroup, editedKind, working, editedFixture.properties, dataUnit);
+        }
+        handleG.attr('transform', frameTransform(working));
+        handleG.selectAll<SVGCircleElement, [number, number]>('.fixture-handle-corner')
+          .attr('cx', ([sx]) => sx * working.width / 2)
+          .attr('cy', ([, sy]) => sy * working.depth / 2);
+        handleG.select('.fixture-rotate-stem')
+          .attr('y1', -working.depth / 2)
+          .attr('y2', -working.depth / 2 - rotateOffset);
+        handleG.select('.fixture-handle-rotate')
+          .attr('cy', -working.depth / 2 - rotateOffset);
+      };
+
+      const commitFixture = () => {
+        const unchanged = (Object.keys(original) as (keyof FixtureFrame)[])
+          .every(key => working[key] === original[key]);
+        if (unchanged) return;
+        onFixtureUpdate(editedFixture.id, { ...working }, original);
+      };
+
+      handleG.append('line')
+        .attr('class', 'fixture-rotate-stem')
+        .attr('x1', 0)
+        .attr('x2', 0)
+        .attr('y1', -working.depth / 2)
+        .attr('y2', -working.depth / 2 - rotateOffset)
+        .attr('stroke', '#2196F3')
+        .attr('stroke-width', 1.5 / kHandles)
+        .attr('pointer-events', 'none');
+
+      // Corner handles; drag coordinates are read in data-space so the
+      // handle group's own transform can change mid-drag. Stairs and ramps
+      // are sized by their parameters instead.
+      handleG.selectAll('.fixture-handle-corner')
+        .data((isParametric(editedKind) ? [] : [[-1, -1], [1, -1], [1, 1], [-1, 1]]) as [number, number][])
+        .enter()
+        .append('circle')
+        .attr('class', 'fixture-handle fixture-handle-corner')
+        .attr('data-screen-r', 5)
+        .attr('cx', ([sx]) => sx * working.width / 2)
+        .attr('cy', ([, sy]) => sy * working.depth / 2)
+        .attr('r', 5 / kHandles)
+        .attr('fill', '#fff')
+        .attr('stroke', '#2196F3')
+        .attr('stroke-width', 1.5 / kHandles)
+        .attr('cursor', ([sx, sy]) => (sx === sy ? 'nwse-resize' : 'nesw-resize'))
+        .call(d3.drag<SVGCircleElement, [number, number]>()
+          .container(drawG.node()!)
+          .on('drag', (event, [sx, sy]) => {
+            const rad = (original.rotation * Math.PI) / 180;
+            const ux = Math.cos(rad), uy = Math.sin(rad);
+            // Opposite corner stays put
+            const ox = original.cx - sx * (original.width / 2) * ux + sy * (original.depth / 2) * uy;
+            const oy = original.cy - sx * (original.width / 2) * uy - sy * (original.depth / 2) * ux;
+            const du = (event.x - ox) * ux + (event.y - oy) * uy;
+            const dv = -(event.x - ox) * uy + (event.y - oy) * ux;
+            working.width = Math.max(minSize, du * sx);
+            working.depth = Math.max(minSize, dv * sy);
+            const hw = sx * working.width / 2, hd = sy * working.depth / 2;
+            working.cx = ox + hw * ux - hd * uy;
+            working.cy = oy + hw * uy + hd * ux;
+            refreshFixture();
+          })
+          .on('end', commitFixture) as any);
+
+      handleG.append('circle')
+        .attr('class', 'fixture-handle fixture-handle-rotate')
+        .attr('data-screen-r', 5)
+        .attr('cx', 0)
+        .attr('cy', -working.depth / 2 - rotateOffset)
+        .attr('r', 5 / kHandles)
+        .attr('fill', '#2196F3')
+        .attr('stroke', '#fff')
+        .attr('stroke-width', 1.5 / kHandles)
+        .attr('cursor', 'grab')
+        .call(d3.drag<SVGCircleElement, unknown>()
+          .container(drawG.node()!)
+          .on('drag', (event) => {
+            // The knob sits on the local -y axis, i.e. 90° behind the rotation
+            const angle = (Math.atan2(event.y - working.cy, event.x - working.cx) * 180) / Math.PI + 90;
+            working.rotation = normaliseRotation(Math.round(angle / ROTATION_STEP_DEG) * ROTATION_STEP_DEG);
+            refreshFixture();
+          })
+          .on('end', commitFixture));
+    }
+
     // Drag-to-select rectangle functionality
     if (isEditMode && !measureMode && onSelectedEdgesChange) {
       let selectionStart: { x: number; y: number } | null = null;
+      let selectionEnd: { x: number; y: number } | null = null;
+      const toData = (event: any) => {
+        const ctm = gRef.current?.getScreenCTM();
+        if (!ctm) return null;
+        const point = svgRef.current!.createSVGPoint();
+        point.x = event.sourceEvent.clientX;
+        point.y = event.sourceEvent.clientY;
+        const transformed = point.matrixTransform(ctm.inverse());
+        return { x: transformed.x, y: transformed.y };
+      };
       
       const selectionDrag = d3.drag<SVGSVGElement, unknown>()
         .filter(function(event) {
           // Only start drag-to-select when Shift is pressed and clicking on background
-          return isShiftPressed && event.target === svgRef.current;
+          return isShiftPressed && (event.target === svgRef.current || (event.target as Element).classList?.contains('canvas-bg'));
         })
         .on('start', function(event) {
-          const ctm = gRef.current?.getScreenCTM();
-          if (!ctm) return;
-          
-          const point = svgRef.current!.createSVGPoint();
-          point.x = event.sourceEvent.clientX;
-          point.y = event.sourceEvent.clientY;
-          const transformed = point.matrixTransform(ctm.inverse());
-          
-          selectionStart = { x: transformed.x, y: transformed.y };
-          setSelectionBox({ x1: transformed.x, y1: transformed.y, x2: transformed.x, y2: transformed.y });
+          selectionStart = selectionEnd = toData(event);
+          if (selectionStart) setSelectionBox({ x1: selectionStart.x, y1: selectionStart.y, x2: selectionStart.x, y2: selectionStart.y });
         })
         .on('drag', function(event) {
           if (!selectionStart) return;
-          
-          const ctm = gRef.current?.getScreenCTM();
-          if (!ctm) return;
-          
-          const point = svgRef.current!.createSVGPoint();
-          point.x = event.sourceEvent.clientX;
-          point.y = event.sourceEvent.clientY;
-          const transformed = point.matrixTransform(ctm.inverse());
-          
+          selectionEnd = toData(event) ?? selectionEnd;
+          if (!selectionEnd) return;
           setSelectionBox({
             x1: selectionStart.x,
             y1: selectionStart.y,
-            x2: transformed.x,
-            y2: transformed.y
+            x2: selectionEnd.x,
+            y2: selectionEnd.y
           });
         })
         .on('end', function() {
-          if (!selectionStart || !selectionBox) {
+          // The box state is stale in this closure, so use the tracked corners
+          if (!selectionStart || !selectionEnd) {
             setSelectionBox(null);
             return;
           }
           
-          // Calculate selection rectangle bounds
-          const minX = Math.min(selectionBox.x1, selectionBox.x2);
-          const maxX = Math.max(selectionBox.x1, selectionBox.x2);
-          const minY = Math.min(selectionBox.y1, selectionBox.y2);
-          const maxY = Math.max(selectionBox.y1, selectionBox.y2);
-          
-          // Check which edges fall within the selection box
-          const selectedIds = new Set(selectedEdgeIdsRef.current);
-          floorPlan.edges.forEach((edge: Edge) => {
-            const sourceNode = nodeMap.get(edge.source);
-            const targetNode = nodeMap.get(edge.target);
-            
-            if (!sourceNode || !targetNode) return;
-            
-            // Check if edge midpoint is inside selection box
-            const midX = (sourceNode.x + targetNode.x) / 2;
-            const midY = (sourceNode.y + targetNode.y) / 2;
-            
-            if (midX >= minX && midX <= maxX && midY >= minY && midY <= maxY) {
-              selectedIds.add(edge.id);
-            }
-          });
-          
-          onSelectedEdgesChange(Array.from(selectedIds));
+          // Add nodes, walls, rooms and fixtures inside the box (and on unlocked layers) to the selection
+          const inBox = interactiveSelection(floorPlan, selectionInRect(
+            floorPlan,
+            Math.min(selectionStart.x, selectionEnd.x),
+            Math.min(selectionStart.y, selectionEnd.y),
+            Math.max(selectionStart.x, selectionEnd.x),
+            Math.max(selectionStart.y, selectionEnd.y),
+          ));
+          changeSelection(mergeSelections(currentSelection(), inBox));
           setSelectionBox(null);
-          selectionStart = null;
+          selectionStart = selectionEnd = null;
         });
       
       svg.call(selectionDrag as any);
@@ -2551,7 +5378,289 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
 
     // Center and fit the floor plan
     centerFloorPlan(drawG, floorPlan, width, height, zoomRef.current!, drawGRef);
-  }, [floorPlan, onEdgeClick, onRoomClick, isShiftPressed, onSelectedEdgesChange, onEdgeDelete, activeTool]);
+  }, [floorPlan, onEdgeClick, onRoomClick, isShiftPressed, onSelectedEdgesChange, onEdgeDelete, onDoorChange, activeTool, selectedRoomId, onRoomUpdate, selectedFixtureId, onFixtureUpdate]);
+
+  // Levels below and above, to line up stairs and load-bearing walls between storeys
+  useEffect(() => {
+    const layer = levelGhostGRef.current;
+    if (!layer) return;
+    const g = d3.select(layer);
+    g.selectAll('*').remove();
+    for (const { plan, position } of levelGhosts) {
+      const ghost = g.append('g')
+        .attr('class', `level-ghost level-ghost--${position}`)
+        .attr('pointer-events', 'none');
+      ghost.selectAll('polygon.level-ghost__room')
+        .data(plan.rooms ?? [])
+        .enter().append('polygon')
+        .attr('class', 'level-ghost__room')
+        .attr('points', r => r.polygon_coords.map(([x, y]) => `${x},${y}`).join(' '));
+      const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+      const defaultThickness = plan.is_calibrated ? 0.2 : 10;
+      for (const edge of plan.edges) {
+        const a = nodeById.get(edge.source), b = nodeById.get(edge.target);
+        if (!a || !b) continue;
+        ghost.append('line')
+          .attr('class', `level-ghost__edge level-ghost__edge--${edge.type}`)
+          .attr('x1', a.x).attr('y1', a.y)
+          .attr('x2', b.x).attr('y2', b.y)
+          .attr('stroke-width', edge.thickness ?? defaultThickness);
+      }
+    }
+  }, [levelGhosts]);
+
+  // Background grid: thinned out as you zoom out so lines stay at least GRID_MIN_PX apart
+  useEffect(() => {
+    const svg = svgRef.current;
+    const layer = gridGRef.current;
+    if (!svg || !layer) return;
+    const enabled = !!grid?.enabled;
+    const spacing = grid?.spacing ?? 0;
+
+    const render = () => {
+      const g = d3.select(layer);
+      g.selectAll('*').remove();
+      if (!enabled || spacing <= 0) return;
+      const t = d3.zoomTransform(svg);
+      let step = spacing;
+      while (step * t.k < GRID_MIN_PX) step *= GRID_MAJOR_EVERY;
+      const { width, height } = svg.getBoundingClientRect();
+      const x0 = t.invertX(0), x1 = t.invertX(width);
+      const y0 = t.invertY(0), y1 = t.invertY(height);
+
+      let minor = '', major = '';
+      for (let i = Math.floor(x0 / step); i <= Math.ceil(x1 / step); i++) {
+        const seg = `M${i * step},${y0}V${y1}`;
+        if (i % GRID_MAJOR_EVERY === 0) major += seg; else minor += seg;
+      }
+      for (let j = Math.floor(y0 / step); j <= Math.ceil(y1 / step); j++) {
+        const seg = `M${x0},${j * step}H${x1}`;
+        if (j % GRID_MAJOR_EVERY === 0) major += seg; else minor += seg;
+      }
+      g.append('path')
+        .attr('class', 'grid-minor')
+        .attr('d', minor)
+        .attr('stroke', '#e3e8ee')
+        .attr('stroke-width', 1 / t.k)
+        .attr('fill', 'none')
+        .attr('pointer-events', 'none');
+      g.append('path')
+        .attr('class', 'grid-major')
+        .attr('d', major)
+        .attr('stroke', '#c9d3de')
+        .attr('stroke-width', 1 / t.k)
+        .attr('fill', 'none')
+        .attr('pointer-events', 'none');
+    };
+    render();
+    renderGridRef.current = render;
+    window.addEventListener('resize', render);
+
+    return () => {
+      renderGridRef.current = null;
+      window.removeEventListener('resize', render);
+      d3.select(layer).selectAll('*').remove();
+    };
+  }, [grid?.enabled, grid?.spacing]);
+
+  // Selected wall: persistent length label; double-click it to type an exact length
+  useEffect(() => {
+    const svg = svgRef.current;
+    const layer = lengthDimGRef.current;
+    if (!svg || !layer) return;
+    const canEdit = !!isEditMode && !measureMode && (!activeTool || activeTool === 'cursor' || activeTool === 'selection');
+    const edge = selectedEdgeIds.size === 1
+      ? floorPlan.edges.find(e => selectedEdgeIds.has(e.id) && e.type === 'wall')
+      : undefined;
+    const source = edge && floorPlan.nodes.find(n => n.id === edge.source);
+    const target = edge && floorPlan.nodes.find(n => n.id === edge.target);
+
+    const render = () => {
+      const g = d3.select(layer);
+      g.selectAll('*').remove();
+      if (!canEdit || !edge || !source || !target) return;
+      const len = vecLen(vecSub(target, source));
+      if (len < 1e-6) return;
+      const k = d3.zoomTransform(svg).k;
+      const isCalibrated = floorPlan.is_calibrated ?? false;
+      const { label, background } = renderLengthLabel(g, source, target, formatDataLen(len, isCalibrated), k);
+      for (const node of [label.node(), background.node()]) {
+        if (!node) continue;
+        d3.select<SVGElement, unknown>(node)
+          .attr('pointer-events', 'all')
+          .attr('cursor', 'text')
+          .on('dblclick', (event: MouseEvent) => {
+            // Keep d3-zoom's double-click zoom from firing
+            event.stopPropagation();
+            event.preventDefault();
+            const rect = svg.getBoundingClientRect();
+            setLengthEdit({
+              edgeId: edge.id,
+              left: event.clientX - rect.left + 12,
+              top: event.clientY - rect.top + 12,
+              text: isCalibrated ? len.toFixed(2) : String(Math.round(len)),
+              anchor: 'start',
+            });
+          })
+          .append('title').text('Double-click to edit length');
+      }
+    };
+    render();
+    renderSelectedWallDimRef.current = render;
+    if (!canEdit || !edge) setLengthEdit(null);
+
+    return () => {
+      renderSelectedWallDimRef.current = null;
+      d3.select(layer).selectAll('*').remove();
+    };
+  }, [floorPlan, selectedEdgeIds, activeTool, isEditMode, measureMode]);
+
+  // Stored annotations, drawn beneath the live labels in annotationG
+  useEffect(() => {
+    const svg = svgRef.current;
+    const layer = annotationGRef.current;
+    if (!svg || !layer) return;
+    const canEdit = !!isEditMode && !measureMode;
+    const dimensionsInteractive = canEdit && activeTool === 'dimension';
+    // Notes can be picked and moved with the text tool and the cursor
+    const notesInteractive = canEdit && (activeTool === 'text' || activeTool === 'cursor');
+
+    const render = (overrides?: Map<string, Point>) => {
+      const ag = d3.select(layer);
+      ag.selectAll('.plan-annotations').remove();
+      const g = ag.insert('g', ':first-child').attr('class', 'plan-annotations');
+      const k = d3.zoomTransform(svg).k;
+      const nodeById = new Map(floorPlan.nodes.map(n => {
+        const moved = overrides?.get(n.id);
+        return [n.id, moved ? { ...n, ...moved } : n] as [string, Node];
+      }));
+      for (const annotation of floorPlan.annotations ?? []) {
+        const props = getDimensionProperties(annotation);
+        const geometry = props && dimensionGeometry(props, nodeById, floorPlan.rooms);
+        const layerState = layerView.annotation(annotation);
+        if (!geometry || !layerState.visible) continue;
+        const interactive = dimensionsInteractive && !layerState.locked;
+        const dg = g.append('g')
+          .attr('class', 'plan-dimension')
+          .attr('data-annotation-id', annotation.id)
+          .attr('pointer-events', interactive ? null : 'none')
+          .attr('cursor', interactive ? 'pointer' : null);
+        const color = annotation.id === selectedAnnotationId ? '#2196F3' : DIMENSION_COLOR;
+        renderDimension(dg, geometry, floorPlan.is_calibrated ?? false, k, color);
+      }
+      // Notes go on top of the dimensions
+      for (const annotation of floorPlan.annotations ?? []) {
+        const note = getNoteProperties(annotation);
+        const layerState = layerView.annotation(annotation);
+        if (!note || !layerState.visible) continue;
+        const interactive = notesInteractive && !layerState.locked;
+        const selected = annotation.id === selectedAnnotationId;
+        const ng = g.append('g')
+          .attr('class', 'plan-note')
+          .attr('data-annotation-id', annotation.id)
+          .attr('pointer-events', interactive ? null : 'none')
+          .attr('cursor', interactive ? 'move' : null);
+        renderNote(ng, note, k, selected);
+        if (!interactive) continue;
+
+        // Drag the box to move the note; a callout's arrow tip stays put
+        let moved = false;
+        const boxDrag = d3.drag<SVGGElement, unknown>()
+          .on('start', () => { moved = false; })
+          .on('drag', (event) => {
+            moved = true;
+            const dx = event.x - event.subject.x, dy = event.y - event.subject.y;
+            ng.select('.plan-note__box')
+              .attr('transform', `translate(${note.x + dx},${note.y + dy}) rotate(${note.rotation})`);
+            if (note.target) renderNoteLeader(ng, { x: note.x + dx, y: note.y + dy }, note.target, note.color, k);
+          })
+          .on('end', (event) => {
+            onSelectedAnnotationChangeRef.current?.(annotation.id);
+            changeSelection(EMPTY_SELECTION);
+            if (!moved) return;
+            const dx = event.x - event.subject.x, dy = event.y - event.subject.y;
+            onAnnotationUpdateRef.current?.(annotation.id, { ...annotation.properties, x: note.x + dx, y: note.y + dy }, annotation.properties);
+          });
+        ng.select<SVGGElement>('.plan-note__box')
+          .call(boxDrag)
+          .on('dblclick', (event: MouseEvent) => {
+            // Keep d3-zoom's double-click zoom from firing
+            event.stopPropagation();
+            event.preventDefault();
+            const rect = svg.getBoundingClientRect();
+            setNoteEdit({
+              left: event.clientX - rect.left + 12,
+              top: event.clientY - rect.top + 12,
+              text: note.text,
+              annotationId: annotation.id,
+              annotationType: annotation.annotation_type === 'callout' ? 'callout' : 'text',
+              note,
+            });
+          });
+
+        // Selected callouts get a handle on the arrow tip
+        if (selected && note.target) {
+          const target = note.target;
+          let tipMoved = false;
+          const tipDrag = d3.drag<SVGCircleElement, unknown>()
+            .on('start', () => { tipMoved = false; })
+            .on('drag', (event) => {
+              tipMoved = true;
+              ng.select('.plan-note__tip').attr('cx', event.x).attr('cy', event.y);
+              renderNoteLeader(ng, note, { x: event.x, y: event.y }, note.color, k);
+            })
+            .on('end', (event) => {
+              if (!tipMoved) return;
+              onAnnotationUpdateRef.current?.(annotation.id, { ...annotation.properties, target: { x: event.x, y: event.y } }, annotation.properties);
+            });
+          ng.append('circle')
+            .attr('class', 'plan-note__tip')
+            .attr('cx', target.x).attr('cy', target.y).attr('r', 5 / k)
+            .attr('fill', '#fff').attr('stroke', '#2196F3').attr('stroke-width', 1.5 / k)
+            .attr('cursor', 'crosshair')
+            .call(tipDrag);
+        }
+      }
+    };
+    render();
+    renderAnnotationsRef.current = render;
+
+    return () => {
+      renderAnnotationsRef.current = null;
+      d3.select(layer).selectAll('.plan-annotations').remove();
+    };
+  }, [floorPlan, selectedAnnotationId, activeTool, isEditMode, measureMode]);
+
+  /** Apply the typed length to the edited wall; connected walls follow its nodes */
+  const commitLengthEdit = () => {
+    if (!lengthEdit) return;
+    const length = Number(lengthEdit.text.trim());
+    const edge = floorPlan.edges.find(e => e.id === lengthEdit.edgeId);
+    const source = edge && floorPlan.nodes.find(n => n.id === edge.source);
+    const target = edge && floorPlan.nodes.find(n => n.id === edge.target);
+    setLengthEdit(null);
+    if (!edge || !source || !target || !isFinite(length) || length <= 0) return;
+    const [a, b] = resizeSegment(source, target, length, lengthEdit.anchor);
+    // Walls constrained to this one (or to its nodes) follow the new length
+    const positions = new Map(floorPlan.nodes.map(n => [n.id, { x: n.x, y: n.y }] as [string, Point]));
+    positions.set(source.id, a);
+    positions.set(target.id, b);
+    solveConstraints(positions, floorPlan.edges, new Set([source.id, target.id]));
+    const previous = floorPlan.nodes.filter(n => {
+      const p = positions.get(n.id)!;
+      return Math.abs(p.x - n.x) > 1e-9 || Math.abs(p.y - n.y) > 1e-9;
+    });
+    if (previous.length === 0) return;
+    onNodePositionsChangeRef.current?.(
+      previous.map(n => ({ id: n.id, ...positions.get(n.id)! })),
+      previous.map(n => ({ id: n.id, x: n.x, y: n.y }))
+    );
+    // A fixed length constraint takes the typed length as its new value
+    const constraints = getEdgeConstraints(edge);
+    if (constraints.some(c => c.type === 'fixed_length')) {
+      onEdgeConstraintsChangeRef.current?.(edge.id, withConstraint(constraints, { type: 'fixed_length', length }));
+    }
+  };
 
   // Lightweight effect: update edge visual styles when selection changes without rebuilding D3
   useEffect(() => {
@@ -2568,8 +5677,25 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
     });
   }, [selectedEdgeIds]);
 
+  // Same for nodes, rooms and fixtures picked into a mixed selection (styled in CSS)
+  useEffect(() => {
+    if (!drawGRef.current) return;
+    const drawG = d3.select(drawGRef.current);
+    drawG.selectAll<SVGGElement, Node>('.node-group').classed('selected', d => selectedNodeIds.has(d.id));
+    drawG.selectAll<SVGGElement, Room>('.room-group').classed('selected', d => selectedRoomIds.has(d.id));
+    drawG.selectAll<SVGElement, Fixture>('.furniture-group, polygon.fixture').classed('selected', d => selectedFixtureIds.has(d.id));
+  }, [selectedNodeIds, selectedRoomIds, selectedFixtureIds]);
+
   const isEmpty = floorPlan.nodes.length === 0 && floorPlan.edges.length === 0;
 
+  // Legend lists only the room types present in the plan (redesign mode uses its own lock colours)
+  const rooms = floorPlan.rooms ?? [];
+  const presentTypes = new Set(rooms.map(r => getRoomType(r.tags)));
+  const legendEntries = [
+    ...ROOM_TYPES.filter(t => presentTypes.has(t.id)),
+    ...(presentTypes.has(null) ? [UNASSIGNED_ROOM_STYLE] : []),
+  ];
+
   return (
     <div className="floor-plan-canvas-container">
       {isEmpty && (
@@ -2581,14 +5707,30 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
       )}
       <svg
         ref={svgRef}
-        style={{ cursor: measureMode || activeTool === 'wall' ? 'crosshair' : (isShiftPressed && isEditMode ? 'crosshair' : undefined) }}
+        style={{ cursor: measureMode || activeTool === 'wall' || activeTool === 'room' || activeTool === 'dimension' || (activeTool === 'furniture' && furnitureType) ? 'crosshair' : (isShiftPressed && isEditMode ? 'crosshair' : undefined) }}
       >
         <g ref={gRef}>
+          {floorPlan.underlay?.visible && (
+            <image
+              className="plan-underlay"
+              href={floorPlan.underlay.src}
+              width={floorPlan.underlay.width}
+              height={floorPlan.underlay.height}
+              transform={underlayTransform(floorPlan.underlay)}
+              opacity={floorPlan.underlay.opacity}
+              preserveAspectRatio="none"
+              pointerEvents="none"
+            />
+          )}
+          <g ref={gridGRef} />
+          <g ref={levelGhostGRef} />
           <g ref={drawGRef} />
+          <g ref={lengthDimGRef} />
           <g ref={dragGhostGRef} />
           <g ref={annotationGRef} />
           <g ref={guidelineGRef} />
           <g ref={wallPreviewGRef} />
+          <g ref={pasteGRef} />
           <g ref={measureGRef} />
           {selectionBox && (
             <rect
@@ -2605,6 +5747,124 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
           )}
         </g>
       </svg>
+      {noteEdit && (
+        <div className="note-edit" style={{ left: noteEdit.left, top: noteEdit.top }}>
+          <textarea
+            autoFocus
+            className="note-edit__input"
+            rows={Math.max(2, noteEdit.text.split('\n').length)}
+            value={noteEdit.text}
+            placeholder="Note text"
+            style={{ color: noteEdit.note.color }}
+            onChange={(e) => {
+              const text = e.target.value;
+              setNoteEdit(prev => prev && { ...prev, text });
+            }}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                commitNoteEdit();
+              } else if (e.key === 'Escape') {
+                setNoteEdit(null);
+              }
+            }}
+            onBlur={commitNoteEdit}
+          />
+          <div className="wall-entry__hint">Enter saves · Shift+Enter new line · Esc cancels</div>
+        </div>
+      )}
+      {lengthEdit && (
+        <div className="length-edit" style={{ left: lengthEdit.left, top: lengthEdit.top }}>
+          <input
+            autoFocus
+            className="wall-entry__input"
+            value={lengthEdit.text}
+            onFocus={(e) => e.target.select()}
+            onChange={(e) => {
+              const text = e.target.value;
+              setLengthEdit(prev => prev && { ...prev, text });
+            }}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter') commitLengthEdit();
+              else if (e.key === 'Escape') setLengthEdit(null);
+            }}
+            onBlur={() => setLengthEdit(null)}
+          />
+          <span className="wall-entry__unit">{floorPlan.is_calibrated ? 'm' : 'px'}</span>
+          <div className="length-edit__anchors">
+            {LENGTH_ANCHORS.map(a => (
+              <button
+                key={a.id}
+                type="button"
+                title={a.title}
+                className={`length-edit__anchor${lengthEdit.anchor === a.id ? ' active' : ''}`}
+                // Don't steal focus from the input (its blur closes the editor)
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => setLengthEdit(prev => prev && { ...prev, anchor: a.id })}
+              >
+                {a.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {pasteFragment && (
+        <div className="paste-hint">Click to place · Esc to cancel · Alt to skip the grid</div>
+      )}
+      {underlayAlign && (
+        <div className="paste-hint">
+          Click a point on the image, then where it belongs · a second pair scales and rotates · Enter after one pair just moves · Esc to cancel
+        </div>
+      )}
+      {wallEntry && (
+        <div className="wall-entry" style={{ left: wallEntry.left, top: wallEntry.top }}>
+          <input
+            autoFocus
+            className="wall-entry__input"
+            value={wallEntry.text}
+            onChange={(e) => {
+              const text = e.target.value;
+              setWallEntry(prev => prev && { ...prev, text });
+              wallEntryRef.current?.preview(text);
+            }}
+            onKeyDown={(e) => {
+              // Keep Enter/Escape away from the canvas-level shortcuts
+              e.stopPropagation();
+              if (e.key === 'Enter') {
+                if (wallEntryRef.current?.commit(wallEntry.text)) setWallEntry(null);
+              } else if (e.key === 'Escape') {
+                setWallEntry(null);
+              }
+            }}
+            onBlur={() => setWallEntry(null)}
+          />
+          <span className="wall-entry__unit">{floorPlan.is_calibrated ? 'm' : 'px'}</span>
+          <div className="wall-entry__hint">length · length&lt;angle° · @Δx,Δy</div>
+        </div>
+      )}
+      {legendEntries.length > 0 && !onRoomClick && (
+        <div className="room-legend">
+          <button
+            className="room-legend__toggle"
+            onClick={() => setIsLegendOpen(open => !open)}
+            title={isLegendOpen ? 'Hide legend' : 'Show legend'}
+          >
+            Rooms {isLegendOpen ? '▾' : '▸'}
+          </button>
+          {isLegendOpen && (
+            <ul className="room-legend__list">
+              {legendEntries.map(entry => (
+                <li key={entry.label} className="room-legend__item">
+                  <span className="room-legend__swatch" style={{ backgroundColor: entry.fill }} />
+                  {entry.label}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       {contextMenu && (
         <div
           style={{
@@ -2619,10 +5879,82 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
             minWidth: '120px'
           }}
         >
+          {contextDoor && onDoorChange && (
+            <div style={{ borderBottom: '1px solid #eee', padding: '4px 0' }}>
+              {([
+                ['↔️ Flip Hinge Side (H)', flipDoorHinge],
+                ['🔄 Flip Swing Direction (F)', flipDoorSwing],
+              ] as [string, (door: DoorProperties) => DoorProperties][]).map(([label, flip]) => (
+                <button
+                  key={label}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDoorChange(contextDoor.id, flip(getDoorProperties(contextDoor)));
+                    setContextMenu(null);
+                  }}
+                  style={contextMenuItemStyle}
+                  onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#f5f5f5'; }}
+                  onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+                >
+                  {label}
+                </button>
+              ))}
+              <div style={contextMenuRowStyle}>
+                {DOOR_LEAVES.map(({ id, label }) => (
+                  <button
+                    key={id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDoorChange(contextDoor.id, { ...getDoorProperties(contextDoor), leaf: id });
+                      setContextMenu(null);
+                    }}
+                    style={contextMenuChipStyle(getDoorProperties(contextDoor).leaf === id)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div style={contextMenuRowStyle}>
+                {DOOR_SWING_ANGLES.map(angle => (
+                  <button
+                    key={angle}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDoorChange(contextDoor.id, { ...getDoorProperties(contextDoor), swing_angle: angle });
+                      setContextMenu(null);
+                    }}
+                    style={contextMenuChipStyle(getDoorProperties(contextDoor).swing_angle === angle)}
+                  >
+                    {angle}°
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {contextWall && onStructuralChange && (
+            <div style={{ borderBottom: '1px solid #eee', padding: '4px 0' }}>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onStructuralChange(contextWall.id, !isStructuralWall(contextWall));
+                  setContextMenu(null);
+                }}
+                style={contextMenuItemStyle}
+                onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#f5f5f5'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+              >
+                {isStructuralWall(contextWall) ? '🧱 Unmark Structural' : '🏗️ Mark as Structural'}
+              </button>
+            </div>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
-              onEdgeDelete?.(contextMenu.edgeId);
+              if (contextMenu.roomId) {
+                onRoomDelete?.(contextMenu.roomId);
+              } else if (contextMenu.edgeId) {
+                onEdgeDelete?.(contextMenu.edgeId);
+              }
               setContextMenu(null);
             }}
             style={{
@@ -2643,7 +5975,7 @@ export const FloorPlanCanvas: React.FC<FloorPlanCanvasProps> = ({
               e.currentTarget.style.backgroundColor = 'transparent';
             }}
           >
-            🗑️ Delete Edge
+            {contextMenu.roomId ? '🗑️ Delete Room' : '🗑️ Delete Edge'}
           </button>
         </div>
       )}
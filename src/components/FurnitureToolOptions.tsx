@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import type { CirculationProperties, FurnitureToolOptionsProps } from '../types';
+import { FURNITURE_CATALOG, findFurnitureItem, getFixtureFrame } from '../utils/furniture';
+import { fixtureKind, getCirculationProperties, isParametric, minSteps } from '../utils/circulation';
+import './FurnitureToolOptions.css';
+
+const formatSize = (v: number, calibrated: boolean): string =>
+  calibrated ? v.toFixed(2) : `${Math.round(v)}`;
+
+export const FurnitureToolOptions: React.FC<FurnitureToolOptionsProps> = ({
+  furnitureType,
+  onFurnitureTypeChange,
+  selectedFixture,
+  onDeleteFixture,
+  isCalibrated,
+  onCalibrate,
+  onCirculationChange,
+}) => {
+  const [categoryId, setCategoryId] = useState(FURNITURE_CATALOG[0].id);
+  const category = FURNITURE_CATALOG.find(c => c.id === categoryId) ?? FURNITURE_CATALOG[0];
+
+  const selectedKind = selectedFixture && fixtureKind(selectedFixture.fixture_type);
+  if (selectedFixture && selectedKind && isParametric(selectedKind)) {
+    const type = selectedKind;
+    const item = findFurnitureItem(type);
+    const params = getCirculationProperties(type, selectedFixture.properties, getFixtureFrame(selectedFixture));
+    const isRamp = type === 'ramp';
+    const change = (next: Partial<CirculationProperties>) =>
+      onCirculationChange?.(selectedFixture.id, { ...params, ...next });
+
+    /** Number input that saves on blur or Enter, so typing doesn't send a request per keystroke */
+    const paramInput = (field: 'flight_width' | 'steps' | 'rise' | 'run', label: string, title: string, step: number, min: number) => (
+      <label className="furniture-param" title={title}>
+        {label}
+        <input
+          key={`${selectedFixture.id}-${field}-${params[field]}`}
+          className="furniture-param-input"
+          type="number"
+          step={step}
+          min={min}
+          defaultValue={field === 'steps' ? params.steps : Number(params[field].toFixed(3))}
+          onBlur={e => {
+            const raw = parseFloat(e.target.value);
+            const value = field === 'steps' ? Math.round(raw) : raw;
+            if (isFinite(value) && value >= min && value !== params[field]) {
+              change({ [field]: value });
+            } else {
+              e.target.value = String(params[field]);
+            }
+          }}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        />
+      </label>
+    );
+
+    return (
+      <div className="furniture-tool-options">
+        <span className="furniture-tool-label">{item ? `${item.icon} ${item.label}` : type}</span>
+        {paramInput('flight_width', 'Width', isRamp ? 'Clear width of the ramp (m)' : 'Clear width of a flight (m)', 0.05, 0.3)}
+        {!isRamp && paramInput('steps', 'Steps', 'Number of steps', 1, minSteps(type))}
+        {paramInput('rise', 'Rise', isRamp ? 'Total rise of the ramp (m)' : 'Height of one step (m)', isRamp ? 0.05 : 0.005, 0.01)}
+        {paramInput('run', isRamp ? 'Length' : 'Run', isRamp ? 'Length of the ramp (m)' : 'Going of one step (m)', isRamp ? 0.1 : 0.005, 0.05)}
+        <div className="furniture-category-tabs">
+          {(['up', 'down'] as const).map(direction => (
+            <button
+              key={direction}
+              className={`furniture-category-tab${params.direction === direction ? ' active' : ''}`}
+              onClick={() => params.direction !== direction && change({ direction })}
+            >
+              {direction === 'up' ? '↑ Up' : '↓ Down'}
+            </button>
+          ))}
+        </div>
+        <span className="furniture-readout">
+          {isRamp
+            ? `${(100 * params.rise / params.run).toFixed(1)}% slope`
+            : `${(params.steps * params.rise).toFixed(2)} m total rise`}
+        </span>
+        <span className="furniture-hint">Drag to move • top handle rotates • R / Shift+R rotate</span>
+        <button
+          className="furniture-delete-btn"
+          onClick={() => onDeleteFixture(selectedFixture.id)}
+        >
+          🗑️ Delete
+        </button>
+      </div>
+    );
+  }
+
+  if (selectedFixture) {
+    const frame = getFixtureFrame(selectedFixture);
+    const item = findFurnitureItem(fixtureKind(selectedFixture.fixture_type));
+    return (
+      <div className="furniture-tool-options">
+        <span className="furniture-tool-label">{item ? `${item.icon} ${item.label}` : selectedFixture.fixture_type}</span>
+        <span className="furniture-readout">
+          {formatSize(frame.width, isCalibrated)} × {formatSize(frame.depth, isCalibrated)} {isCalibrated ? 'm' : 'px'} · {Math.round(frame.rotation)}°
+        </span>
+        <span className="furniture-hint">
+          Drag to move • corner handles resize • top handle rotates in 15° steps • R / Shift+R rotate
+        </span>
+        <button
+          className="furniture-delete-btn"
+          onClick={() => onDeleteFixture(selectedFixture.id)}
+        >
+          🗑️ Delete
+        </button>
+      </div>
+    );
+  }
+
+  if (!isCalibrated) {
+    return (
+      <div className="furniture-tool-options">
+        <span className="furniture-tool-label">Furniture</span>
+        <span className="furniture-hint">
+          Furniture uses real-world sizes — set the plan scale before placing any.
+        </span>
+        <button className="furniture-calibrate-btn" onClick={onCalibrate}>
+          📏 Calibrate scale
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="furniture-tool-options">
+      <div className="furniture-category-tabs">
+        {FURNITURE_CATALOG.map(c => (
+          <button
+            key={c.id}
+            className={`furniture-category-tab${c.id === category.id ? ' active' : ''}`}
+            onClick={() => setCategoryId(c.id)}
+          >
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="furniture-items">
+        {category.items.map(item => (
+          <button
+            key={item.type}
+            className={`furniture-item${furnitureType === item.type ? ' active' : ''}`}
+            onClick={() => onFurnitureTypeChange(furnitureType === item.type ? null : item.type)}
+            title={`${item.label} — ${item.width.toFixed(2)} × ${item.depth.toFixed(2)} m`}
+          >
+            <span className="furniture-item-icon">{item.icon}</span>
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <span className="furniture-hint">
+        {furnitureType ? 'Click to place • R rotates • Esc cancels' : 'Pick an item, or click a piece to edit it'}
+      </span>
+    </div>
+  );
+};
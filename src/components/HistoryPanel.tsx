@@ -0,0 +1,56 @@
+import React from 'react';
+import type { HistoryState } from '../utils/history';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** True while an undo/redo is being replayed against the backend */
+  isBusy?: boolean;
+}
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, isBusy = false }) => {
+  const { undoStack, redoStack } = history;
+  const canUndo = undoStack.length > 0 && !isBusy;
+  const canRedo = redoStack.length > 0 && !isBusy;
+
+  return (
+    <div className="history-panel">
+      <div className="history-header">
+        <span className="history-title">History</span>
+        <button className="history-btn" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+          ↶
+        </button>
+        <button className="history-btn" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+          ↷
+        </button>
+      </div>
+
+      {undoStack.length === 0 && redoStack.length === 0 ? (
+        <div className="history-empty">No changes yet</div>
+      ) : (
+        <ul className="history-list">
+          {/* Redo entries first (greyed), newest at the bottom of that block */}
+          {redoStack.map((cmd) => (
+            <li key={cmd.id} className="history-entry undone" title={formatTime(cmd.timestamp)}>
+              {cmd.label}
+            </li>
+          ))}
+          {[...undoStack].reverse().map((cmd, i) => (
+            <li
+              key={cmd.id}
+              className={`history-entry${i === 0 ? ' current' : ''}`}
+              title={formatTime(cmd.timestamp)}
+            >
+              {cmd.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import type { LayerState, PlanLayers, UserLayer } from '../types';
+import { LAYER_CATEGORIES } from '../utils/layers';
+import './LayersPanel.css';
+
+interface LayersPanelProps {
+  layers: PlanLayers;
+  onChange: (layers: PlanLayers) => void;
+  /** Selected items that can be put on a user layer */
+  selectionCount: number;
+  /** Move the selection onto a user layer, or off its user layer with null */
+  onAssignSelection: (layerId: string | null) => void;
+}
+
+interface LayerTogglesProps {
+  state: LayerState;
+  onChange: (state: LayerState) => void;
+}
+
+const LayerToggles: React.FC<LayerTogglesProps> = ({ state, onChange }) => (
+  <>
+    <button
+      className={`layers-toggle${state.visible ? '' : ' off'}`}
+      onClick={() => onChange({ ...state, visible: !state.visible })}
+      title={state.visible ? 'Hide' : 'Show'}
+    >
+      {state.visible ? '👁' : '⊘'}
+    </button>
+    <button
+      className={`layers-toggle${state.locked ? ' on' : ''}`}
+      onClick={() => onChange({ ...state, locked: !state.locked })}
+      title={state.locked ? 'Unlock' : 'Lock'}
+    >
+      {state.locked ? '🔒' : '🔓'}
+    </button>
+  </>
+);
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({ layers, onChange, selectionCount, onAssignSelection }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const updateUser = (id: string, patch: Partial<UserLayer>) =>
+    onChange({ ...layers, user: layers.user.map(l => l.id === id ? { ...l, ...patch } : l) });
+
+  const addLayer = () => {
+    const layer: UserLayer = { id: crypto.randomUUID(), name: `Layer ${layers.user.length + 1}`, visible: true, locked: false };
+    onChange({ ...layers, user: [...layers.user, layer] });
+    setRenamingId(layer.id);
+    setRenameValue(layer.name);
+  };
+
+  const submitRename = () => {
+    const name = renameValue.trim();
+    if (renamingId && name) updateUser(renamingId, { name });
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="layers-panel">
+      <div className="layers-header">
+        <span className="layers-title">Layers</span>
+        <button className="layers-btn" onClick={addLayer} title="New layer">＋</button>
+      </div>
+
+      <ul className="layers-list">
+        {LAYER_CATEGORIES.map(c => (
+          <li key={c.id} className={`layers-row${layers.categories[c.id].visible ? '' : ' hidden'}`}>
+            <span className="layers-name">{c.icon} {c.label}</span>
+            <LayerToggles
+              state={layers.categories[c.id]}
+              onChange={state => onChange({ ...layers, categories: { ...layers.categories, [c.id]: state } })}
+            />
+          </li>
+        ))}
+      </ul>
+
+      {layers.user.length > 0 && (
+        <ul className="layers-list">
+          {layers.user.map(layer => (
+            <li key={layer.id} className={`layers-row${layer.visible ? '' : ' hidden'}`}>
+              {renamingId === layer.id ? (
+                <input
+                  autoFocus
+                  className="layers-rename"
+                  value={renameValue}
+                  onChange={e => setRenameValue(e.target.value)}
+                  onBlur={submitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') submitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                />
+              ) : (
+                <span
+                  className="layers-name"
+                  onDoubleClick={() => { setRenamingId(layer.id); setRenameValue(layer.name); }}
+                  title="Double-click to rename"
+                >
+                  {layer.name}
+                </span>
+              )}
+              <button
+                className="layers-toggle"
+                onClick={() => onAssignSelection(layer.id)}
+                disabled={selectionCount === 0}
+                title="Move the selection to this layer"
+              >
+                ⇥
+              </button>
+              <LayerToggles state={layer} onChange={state => updateUser(layer.id, state)} />
+              <button
+                className="layers-toggle"
+                onClick={() => onChange({ ...layers, user: layers.user.filter(l => l.id !== layer.id) })}
+                title="Delete layer (its items stay on their built-in layers)"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {layers.user.length > 0 && selectionCount > 0 && (
+        <button className="layers-unassign" onClick={() => onAssignSelection(null)}>
+          Remove selection from its layer
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import type { Level } from '../types';
+import './LevelSwitcher.css';
+
+interface LevelSwitcherProps {
+  /** Levels of the current building, lowest first */
+  levels: Level[];
+  currentPlanId: string | null;
+  onSelect: (planId: string) => void;
+  /** Add a level on top of the building */
+  onAdd: () => void;
+  /** Save a renamed or re-levelled level */
+  onChange: (level: Level) => void;
+  isBusy?: boolean;
+}
+
+export const LevelSwitcher: React.FC<LevelSwitcherProps> = ({ levels, currentPlanId, onSelect, onAdd, onChange, isBusy = false }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const current = levels.find(l => l.plan_id === currentPlanId);
+
+  const submitRename = (level: Level) => {
+    const name = renameValue.trim();
+    if (name && name !== level.name) onChange({ ...level, name });
+    setRenamingId(null);
+  };
+
+  /** Number input that saves on blur or Enter, so typing doesn't send a request per keystroke */
+  const metresInput = (level: Level, field: 'elevation' | 'height', title: string, min?: number) => (
+    <input
+      key={`${level.plan_id}-${field}-${level[field]}`}
+      className="level-switcher__metres"
+      type="number"
+      step={0.05}
+      min={min}
+      defaultValue={level[field]}
+      title={title}
+      onBlur={e => {
+        const value = parseFloat(e.target.value);
+        if (isFinite(value) && (min === undefined || value >= min) && value !== level[field]) {
+          onChange({ ...level, [field]: value });
+        } else {
+          e.target.value = String(level[field]);
+        }
+      }}
+      onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+    />
+  );
+
+  return (
+    <div className="level-switcher">
+      {levels.map(level => (
+        renamingId === level.plan_id ? (
+          <input
+            key={level.plan_id}
+            autoFocus
+            className="level-switcher__rename"
+            value={renameValue}
+            onChange={e => setRenameValue(e.target.value)}
+            onBlur={() => submitRename(level)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') submitRename(level);
+              if (e.key === 'Escape') setRenamingId(null);
+            }}
+          />
+        ) : (
+          <button
+            key={level.plan_id}
+            className={`level-switcher__level${level.plan_id === currentPlanId ? ' active' : ''}`}
+            onClick={() => level.plan_id !== currentPlanId && onSelect(level.plan_id)}
+            onDoubleClick={() => { setRenamingId(level.plan_id); setRenameValue(level.name); }}
+            disabled={isBusy}
+            title="Double-click to rename"
+          >
+            {level.name}
+          </button>
+        )
+      ))}
+      <button className="level-switcher__add" onClick={onAdd} disabled={isBusy} title="Add a level on top">
+        ＋ Level
+      </button>
+      {current && levels.length > 1 && (
+        <span className="level-switcher__fields">
+          ↥ {metresInput(current, 'elevation', 'Elevation of this floor above the lowest level (m)')} m
+          ↕ {metresInput(current, 'height', 'Floor-to-floor height (m)', 0.1)} m
+        </span>
+      )}
+    </div>
+  );
+};
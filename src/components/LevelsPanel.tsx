@@ -0,0 +1,54 @@
+import React from 'react';
+import type { FloorPlan, Level } from '../types';
+import { formatLevelArea, levelArea } from '../utils/levels';
+import './LevelsPanel.css';
+
+interface LevelsPanelProps {
+  /** Levels of the current building, lowest first */
+  levels: Level[];
+  currentPlanId: string | null;
+  /** Loaded level plans by plan ID; the current level is passed live as `currentPlan` */
+  plans: Record<string, FloorPlan>;
+  currentPlan: FloorPlan;
+  onSelect: (planId: string) => void;
+}
+
+export const LevelsPanel: React.FC<LevelsPanelProps> = ({ levels, currentPlanId, plans, currentPlan, onSelect }) => {
+  const planFor = (level: Level) => level.plan_id === currentPlanId ? currentPlan : plans[level.plan_id];
+  const loaded = levels.map(planFor).filter((p): p is FloorPlan => !!p);
+  // A building total only makes sense when every level is measured in metres
+  const total = loaded.length === levels.length && loaded.every(p => p.is_calibrated)
+    ? loaded.reduce((sum, p) => sum + levelArea(p), 0)
+    : null;
+
+  return (
+    <div className="levels-panel">
+      <div className="levels-header">Levels</div>
+      <ul className="levels-list">
+        {/* Top floor first, as in a section */}
+        {[...levels].reverse().map(level => {
+          const plan = planFor(level);
+          return (
+            <li
+              key={level.plan_id}
+              className={`levels-entry${level.plan_id === currentPlanId ? ' current' : ''}`}
+              onClick={() => level.plan_id !== currentPlanId && onSelect(level.plan_id)}
+              title={`Elevation ${level.elevation.toFixed(2)} m · floor-to-floor ${level.height.toFixed(2)} m`}
+            >
+              <span className="levels-name">{level.name}</span>
+              <span className="levels-area">
+                {plan ? formatLevelArea(levelArea(plan), plan.is_calibrated ?? false) : '…'}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {total !== null && (
+        <div className="levels-total">
+          <span>Total</span>
+          <span>{formatLevelArea(total, true)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
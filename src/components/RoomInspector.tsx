@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import type { RoomInspectorProps, RoomType } from '../types';
+import { ROOM_TYPES, buildRoomTags, getExtraTags, getRoomName, getRoomStyle, getRoomType } from '../utils/roomTypes';
+import './RoomInspector.css';
+
+export const RoomInspector: React.FC<RoomInspectorProps> = ({
+  room,
+  onTagsChange,
+  onClose,
+}) => {
+  const type = getRoomType(room.tags);
+  const name = getRoomName(room.tags);
+  const extras = getExtraTags(room.tags);
+
+  // Text fields are edited locally and committed on blur / Enter
+  const [nameDraft, setNameDraft] = useState(name);
+  const [tagDraft, setTagDraft] = useState('');
+  useEffect(() => {
+    setNameDraft(name);
+    setTagDraft('');
+  }, [room.id, name]);
+
+  const commit = (nextType: RoomType | null, nextName: string, nextExtras: string[]) => {
+    const tags = buildRoomTags(nextType, nextName, nextExtras);
+    if (tags.join('\u0000') !== room.tags.join('\u0000')) onTagsChange(tags);
+  };
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    commit((e.target.value || null) as RoomType | null, nameDraft, extras);
+  };
+
+  const handleNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+    if (e.key === 'Escape') {
+      setNameDraft(name);
+      e.currentTarget.blur();
+    }
+  };
+
+  const handleAddTag = () => {
+    const tag = tagDraft.trim();
+    setTagDraft('');
+    if (tag) commit(type, nameDraft, [...extras, tag]);
+  };
+
+  return (
+    <div className="room-inspector">
+      <div className="room-inspector__header">
+        <span
+          className="room-inspector__swatch"
+          style={{ backgroundColor: getRoomStyle(room.tags).fill }}
+        />
+        <span className="room-inspector__title">{name || getRoomStyle(room.tags).label}</span>
+        <button className="room-inspector__close" onClick={onClose} title="Close">✕</button>
+      </div>
+
+      <label className="room-inspector__field">
+        <span>Type</span>
+        <select value={type ?? ''} onChange={handleTypeChange}>
+          <option value="">Unassigned</option>
+          {ROOM_TYPES.map(t => (
+            <option key={t.id} value={t.id}>{t.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="room-inspector__field">
+        <span>Name</span>
+        <input
+          type="text"
+          value={nameDraft}
+          placeholder="e.g. Master bedroom"
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={() => commit(type, nameDraft, extras)}
+          onKeyDown={handleNameKeyDown}
+        />
+      </label>
+
+      <div className="room-inspector__field">
+        <span>Tags</span>
+        <div className="room-inspector__tags">
+          {extras.map(tag => (
+            <span key={tag} className="room-inspector__tag">
+              {tag}
+              <button
+                onClick={() => commit(type, nameDraft, extras.filter(t => t !== tag))}
+                title={`Remove "${tag}"`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            className="room-inspector__tag-input"
+            value={tagDraft}
+            placeholder="Add tag…"
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddTag(); }}
+            onBlur={handleAddTag}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { RoomToolOptionsProps } from '../types';
+import './RoomToolOptions.css';
+
+export const RoomToolOptions: React.FC<RoomToolOptionsProps> = ({
+  selectedRoom,
+  onDeleteRoom,
+  autoDetect,
+  onAutoDetectChange,
+}) => {
+  return (
+    <div className="room-tool-options">
+      <span className="room-tool-label">Room</span>
+
+      <label
+        className="room-auto-detect"
+        title="Recompute rooms from enclosed walls whenever walls are added, deleted or moved"
+      >
+        <input
+          type="checkbox"
+          checked={autoDetect}
+          onChange={(e) => onAutoDetectChange(e.target.checked)}
+        />
+        Auto-detect from walls
+      </label>
+
+      {selectedRoom ? (
+        <>
+          <span className="room-tool-hint">
+            {selectedRoom.polygon_coords.length} corners · drag a corner to move it, drag an edge midpoint to add one, double-click a corner to remove it
+          </span>
+          <button
+            className="room-delete-btn"
+            onClick={() => onDeleteRoom(selectedRoom.id)}
+          >
+            🗑️ Delete room
+          </button>
+        </>
+      ) : (
+        <span className="room-tool-hint">
+          Click to place corners · click the first corner, double-click or press Enter to close · Backspace removes the last corner · click a room to reshape it
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SnapSettingsPopoverProps } from '../types';
+import { SNAP_KINDS } from '../utils/snapping';
+import './SnapSettingsPopover.css';
+
+export const SnapSettingsPopover: React.FC<SnapSettingsPopoverProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the popover
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (rootRef.current && !rootRef.current.contains(event.target as globalThis.Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const activeCount = SNAP_KINDS.filter(kind => settings[kind.id]).length;
+
+  return (
+    <div className="snap-settings" ref={rootRef}>
+      <button
+        className={open ? 'active' : ''}
+        onClick={() => setOpen(prev => !prev)}
+        title="Choose which snap targets are offered while drawing, dragging and measuring"
+      >
+        <span className="tool-icon">🧲</span>
+        <span className="tool-label">Snap {activeCount}/{SNAP_KINDS.length}</span>
+      </button>
+      {open && (
+        <div className="snap-settings__panel">
+          {SNAP_KINDS.map(kind => (
+            <label key={kind.id} className="snap-settings__item" title={kind.description}>
+              <input
+                type="checkbox"
+                checked={settings[kind.id]}
+                onChange={(e) => onChange({ ...settings, [kind.id]: e.target.checked })}
+              />
+              <span className="snap-settings__glyph">{kind.glyph}</span>
+              {kind.label}
+            </label>
+          ))}
+          <div className="snap-settings__hint">Nodes and walls always snap</div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import type { TextToolOptionsProps } from '../types';
+import { NOTE_COLORS, NOTE_FONT_SIZES } from '../utils/notes';
+import './TextToolOptions.css';
+
+const NOTE_TYPES: { id: 'text' | 'callout'; label: string; title: string }[] = [
+  { id: 'text', label: '𝐓 Text', title: 'Click to place a text box' },
+  { id: 'callout', label: '↖ Callout', title: 'Click where the arrow points, then where the text goes' },
+];
+
+export const TextToolOptions: React.FC<TextToolOptionsProps> = ({
+  noteType,
+  onNoteTypeChange,
+  style,
+  onStyleChange,
+  selectedNote,
+  onDeleteNote,
+}) => {
+  return (
+    <div className="text-tool-options">
+      <span className="text-tool-label">{selectedNote ? 'Note' : 'Text'}</span>
+
+      {!selectedNote && (
+        <div className="text-type-group">
+          {NOTE_TYPES.map((t) => (
+            <button
+              key={t.id}
+              className={`text-type-btn${noteType === t.id ? ' active' : ''}`}
+              onClick={() => onNoteTypeChange(t.id)}
+              title={t.title}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label className="text-tool-field" title="Font size in screen pixels">
+        Size
+        <select
+          value={style.font_size}
+          onChange={(e) => onStyleChange({ ...style, font_size: Number(e.target.value) })}
+        >
+          {NOTE_FONT_SIZES.map((size) => (
+            <option key={size} value={size}>{size}px</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="text-color-group">
+        {NOTE_COLORS.map((c) => (
+          <button
+            key={c.id}
+            className={`text-color-swatch${style.color === c.id ? ' active' : ''}`}
+            style={{ backgroundColor: c.id }}
+            onClick={() => onStyleChange({ ...style, color: c.id })}
+            title={c.label}
+          />
+        ))}
+      </div>
+
+      <label className="text-tool-field" title="Clockwise rotation in degrees">
+        Rotation
+        <input
+          type="number"
+          step={15}
+          value={style.rotation}
+          onChange={(e) => {
+            const rotation = Number(e.target.value);
+            if (isFinite(rotation)) onStyleChange({ ...style, rotation: ((rotation % 360) + 360) % 360 });
+          }}
+        />
+        °
+      </label>
+
+      {selectedNote ? (
+        <>
+          <span className="text-tool-hint">Drag to move · double-click to edit the text</span>
+          <button
+            className="text-delete-btn"
+            onClick={() => onDeleteNote(selectedNote.id)}
+          >
+            🗑️ Delete note
+          </button>
+        </>
+      ) : (
+        <span className="text-tool-hint">
+          {noteType === 'callout'
+            ? 'Click the point to call out, then click where the text goes'
+            : 'Click to place a text box'} · Enter saves, Shift+Enter adds a line
+        </span>
+      )}
+    </div>
+  );
+};
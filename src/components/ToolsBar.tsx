@@ -1,10 +1,17 @@
 import React from 'react';
-import type { EditorTool, ToolDefinition } from '../types';
+import type { EditorTool, GridSettings, SnapSettings, ToolDefinition } from '../types';
+import { formatGridSpacing, gridSpacings } from '../utils/grid';
+import { SnapSettingsPopover } from './SnapSettingsPopover';
 import './ToolsBar.css';
 
 interface ToolsBarProps {
   activeTool: EditorTool;
   onToolChange: (tool: EditorTool) => void;
+  grid?: GridSettings;
+  onGridChange?: (grid: GridSettings) => void;
+  isCalibrated?: boolean;
+  snapSettings?: SnapSettings;
+  onSnapSettingsChange?: (settings: SnapSettings) => void;
 }
 
 const TOOLS: ToolDefinition[] = [
@@ -31,10 +38,42 @@ const TOOLS: ToolDefinition[] = [
     label: 'Assets',
     icon: '🚪',
     description: 'Place doors and windows on walls'
+  },
+  {
+    id: 'room',
+    label: 'Room',
+    icon: '⬠',
+    description: 'Draw, reshape and delete room polygons'
+  },
+  {
+    id: 'furniture',
+    label: 'Furniture',
+    icon: '🛋️',
+    description: 'Place, move, rotate and resize furniture'
+  },
+  {
+    id: 'dimension',
+    label: 'Dimension',
+    icon: '⟷',
+    description: 'Add linear, aligned, chained and angular dimensions'
+  },
+  {
+    id: 'text',
+    label: 'Text',
+    icon: '📝',
+    description: 'Write notes and callouts on the plan'
   }
 ];
 
-export const ToolsBar: React.FC<ToolsBarProps> = ({ activeTool, onToolChange }) => {
+export const ToolsBar: React.FC<ToolsBarProps> = ({
+  activeTool,
+  onToolChange,
+  grid,
+  onGridChange,
+  isCalibrated = false,
+  snapSettings,
+  onSnapSettingsChange,
+}) => {
   return (
     <div className="tools-bar">
       {TOOLS.map((tool) => (
@@ -48,6 +87,31 @@ export const ToolsBar: React.FC<ToolsBarProps> = ({ activeTool, onToolChange })
           <span className="tool-label">{tool.label}</span>
         </button>
       ))}
+      {grid && onGridChange && (
+        <div className="tools-bar-grid">
+          <button
+            className={grid.enabled ? 'active' : ''}
+            onClick={() => onGridChange({ ...grid, enabled: !grid.enabled })}
+            title="Show the grid and snap to it (hold Alt to ignore it)"
+          >
+            <span className="tool-icon">▦</span>
+            <span className="tool-label">Grid</span>
+          </button>
+          <select
+            className="tools-bar-grid-select"
+            value={grid.spacing}
+            onChange={(e) => onGridChange({ ...grid, spacing: Number(e.target.value) })}
+            title="Grid spacing"
+          >
+            {gridSpacings(isCalibrated).map(spacing => (
+              <option key={spacing} value={spacing}>{formatGridSpacing(spacing, isCalibrated)}</option>
+            ))}
+          </select>
+          {snapSettings && onSnapSettingsChange && (
+            <SnapSettingsPopover settings={snapSettings} onChange={onSnapSettingsChange} />
+          )}
+        </div>
+      )}
     </div>
   );
 };
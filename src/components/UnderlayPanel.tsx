@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import type { Underlay } from '../types';
+import './UnderlayPanel.css';
+
+interface UnderlayPanelProps {
+  underlay: Underlay | null;
+  /** Put an image file under the plan, replacing any current underlay */
+  onLoadImage: (file: File) => void;
+  /** Save new settings, or remove the underlay with null */
+  onChange: (underlay: Underlay | null) => void;
+  /** True while two-point alignment is picking points on the canvas */
+  isAligning: boolean;
+  onAlignToggle: () => void;
+}
+
+export const UnderlayPanel: React.FC<UnderlayPanelProps> = ({ underlay, onLoadImage, onChange, isAligning, onAlignToggle }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="underlay-panel">
+      <div className="underlay-header">
+        <span className="underlay-title">Underlay</span>
+        <button
+          className="underlay-btn"
+          onClick={() => fileInputRef.current?.click()}
+          title={underlay ? 'Replace image' : 'Load an image to trace over'}
+        >
+          📁
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onLoadImage(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {!underlay ? (
+        <div className="underlay-empty">No image</div>
+      ) : (
+        <>
+          <div className="underlay-row">
+            <button
+              className={`underlay-btn${underlay.visible ? '' : ' off'}`}
+              onClick={() => onChange({ ...underlay, visible: !underlay.visible })}
+              title={underlay.visible ? 'Hide' : 'Show'}
+            >
+              {underlay.visible ? '👁' : '⊘'}
+            </button>
+            <input
+              className="underlay-opacity"
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={underlay.opacity}
+              disabled={!underlay.visible}
+              onChange={e => onChange({ ...underlay, opacity: parseFloat(e.target.value) })}
+              title="Opacity"
+            />
+            <span className="underlay-value">{Math.round(underlay.opacity * 100)}%</span>
+          </div>
+          <div className="underlay-row">
+            <button
+              className={`underlay-action${isAligning ? ' active' : ''}`}
+              onClick={onAlignToggle}
+              disabled={!underlay.visible}
+              title="Pick two points on the image and where they belong to move, scale and rotate it"
+            >
+              📍 {isAligning ? 'Aligning…' : 'Align'}
+            </button>
+            <button className="underlay-action" onClick={() => onChange(null)} title="Remove the underlay">
+              ✕ Remove
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
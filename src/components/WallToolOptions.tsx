@@ -1,5 +1,5 @@
-import React from 'react';
-import type { WallToolOptionsProps } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { WallMode, WallToolOptionsProps } from '../types';
 import './WallToolOptions.css';
 
 /**
@@ -13,6 +13,13 @@ const PRESETS_M: { label: string; m: number }[] = [
   { label: '0.30 m', m: 0.30 },
 ];
 
+const MODES: { id: WallMode; label: string; title: string }[] = [
+  { id: 'segment', label: '╱ Segment', title: 'Chained walls; Escape ends the chain' },
+  { id: 'polyline', label: '⌇ Polyline', title: 'Chained walls; clicking the start node closes the loop' },
+  { id: 'rectangle', label: '▭ Rectangle', title: 'Drag a box to draw four walls' },
+  { id: 'room_box', label: '⬚ Room box', title: 'Drag a box to draw four walls and the room inside them' },
+];
+
 /** Human-readable label for the current thickness. */
 const displayLabel = (thickness: number, isCalibrated: boolean): string =>
   isCalibrated ? `${thickness.toFixed(2)} m` : `${Math.round(thickness)} px`;
@@ -21,7 +28,28 @@ export const WallToolOptions: React.FC<WallToolOptionsProps> = ({
   thickness,
   onThicknessChange,
   isCalibrated,
+  mode,
+  onModeChange,
+  boxSize,
+  onBoxSizeChange,
 }) => {
+  // Typed box dimensions are kept as text so a half-typed value isn't lost
+  const [boxWidth, setBoxWidth] = useState(boxSize ? String(boxSize.width) : '');
+  const [boxHeight, setBoxHeight] = useState(boxSize ? String(boxSize.height) : '');
+
+  useEffect(() => {
+    setBoxWidth(boxSize ? String(boxSize.width) : '');
+    setBoxHeight(boxSize ? String(boxSize.height) : '');
+  }, [boxSize]);
+
+  const commitBoxSize = (w: string, h: string) => {
+    const width = parseFloat(w);
+    const height = parseFloat(h);
+    onBoxSizeChange(width > 0 && height > 0 ? { width, height } : null);
+  };
+
+  const isBoxMode = mode === 'rectangle' || mode === 'room_box';
+
   const matchedPreset = isCalibrated
     ? PRESETS_M.find((p) => Math.abs(p.m - thickness) < 0.001)
     : null;
@@ -50,6 +78,19 @@ export const WallToolOptions: React.FC<WallToolOptionsProps> = ({
 
   return (
     <div className="wall-tool-options">
+      <div className="wall-mode-tabs">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            className={`wall-mode-tab${mode === m.id ? ' active' : ''}`}
+            onClick={() => onModeChange(m.id)}
+            title={m.title}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
       <span className="wall-tool-label">Wall Width</span>
 
       {isCalibrated && (
@@ -80,6 +121,44 @@ export const WallToolOptions: React.FC<WallToolOptionsProps> = ({
       />
 
       <span className="wall-thickness-readout">{displayLabel(thickness, isCalibrated)}</span>
+
+      {isBoxMode && (
+        <div className="wall-box-size">
+          <span className="wall-tool-label">Size</span>
+          <input
+            type="number"
+            className="wall-box-input"
+            min={0}
+            step={isCalibrated ? 0.1 : 10}
+            value={boxWidth}
+            placeholder="W"
+            onChange={(e) => setBoxWidth(e.target.value)}
+            onBlur={() => commitBoxSize(boxWidth, boxHeight)}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitBoxSize(boxWidth, boxHeight); }}
+          />
+          <span className="wall-box-times">×</span>
+          <input
+            type="number"
+            className="wall-box-input"
+            min={0}
+            step={isCalibrated ? 0.1 : 10}
+            value={boxHeight}
+            placeholder="H"
+            onChange={(e) => setBoxHeight(e.target.value)}
+            onBlur={() => commitBoxSize(boxWidth, boxHeight)}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitBoxSize(boxWidth, boxHeight); }}
+          />
+          <span className="wall-box-unit">{isCalibrated ? 'm' : 'px'}</span>
+          {boxSize && (
+            <button className="wall-box-clear" onClick={() => onBoxSizeChange(null)} title="Drag to size instead">
+              ✕
+            </button>
+          )}
+          <span className="wall-box-hint">
+            {boxSize ? 'Click to place the box' : 'Drag a box, or type a size'}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
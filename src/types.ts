@@ -1,3 +1,11 @@
+/**
+ * A bare 2D position in data-space
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
 /**
  * Represents a junction point in the floor plan
  */
@@ -8,9 +16,88 @@ export interface Node {
 }
 
 /**
- * Type of edge/wall element
+ * Type of edge/wall element. Edge types the editor doesn't know are kept
+ * verbatim from the backend and drawn with a neutral fallback.
+ */
+export type EdgeType = "wall" | "door" | "window" | OpeningKind | (string & {});
+
+/**
+ * Wall openings without a door or window in them:
+ * - opening: a plain gap in the wall, no leaf
+ * - arch: an opening with an arched head
+ * - pass_through: a hatch at counter height, e.g. between kitchen and dining
+ * - half_wall: a stretch of wall built only part of the way up, or a railing
+ */
+export type OpeningKind = 'opening' | 'arch' | 'pass_through' | 'half_wall';
+
+/**
+ * Door hinge position: at the edge's source node ('start') or target node ('end')
  */
-export type EdgeType = "wall" | "door" | "window";
+export type DoorHinge = 'start' | 'end';
+
+/**
+ * Side a door opens into, looking along the edge from source to target
+ */
+export type DoorSwing = 'left' | 'right';
+
+/**
+ * Door leaf construction
+ */
+export type DoorLeaf = 'single' | 'double' | 'sliding' | 'pocket';
+
+/**
+ * Door settings, stored in Edge.properties of door edges
+ */
+export interface DoorProperties {
+  hinge: DoorHinge;
+  swing: DoorSwing;
+  /** How far the leaf opens, in degrees (hinged leaves only) */
+  swing_angle: number;
+  leaf: DoorLeaf;
+}
+
+/**
+ * Window construction, drawn as the matching plan symbol
+ */
+export type WindowType = 'fixed' | 'casement' | 'sliding' | 'tilt_turn' | 'french' | 'bay';
+
+/**
+ * Window settings, stored in Edge.properties of window edges.
+ * Heights are always metres above finished floor, even on uncalibrated plans.
+ */
+export interface WindowProperties {
+  window_type: WindowType;
+  sill_height: number;
+  head_height: number;
+}
+
+/**
+ * Settings for the opening kinds, stored in Edge.properties. Each kind keeps
+ * only the keys it uses: openings and arches a head height, pass-throughs a
+ * counter (sill) and head height, half walls a height and whether they are a
+ * railing. Heights are metres above finished floor.
+ */
+export interface OpeningProperties {
+  sill_height: number;
+  head_height: number;
+  height: number;
+  railing: boolean;
+}
+
+/**
+ * Geometric constraint kept in Edge.properties.constraints:
+ * - horizontal / vertical: the edge stays axis-aligned
+ * - perpendicular / parallel: relative to the edge `ref_edge_id`
+ * - fixed_length: the edge keeps `length` (data units)
+ * - equal_length: the edge keeps the length of `ref_edge_id`
+ */
+export type EdgeConstraintType = 'horizontal' | 'vertical' | 'perpendicular' | 'parallel' | 'fixed_length' | 'equal_length';
+
+export interface EdgeConstraint {
+  type: EdgeConstraintType;
+  ref_edge_id?: string;
+  length?: number;
+}
 
 /**
  * Geometry polygon for an edge
@@ -43,8 +130,24 @@ export interface Room {
   polygon_coords: [number, number][];
   tags: string[];
   locked?: boolean; // For redesign mode
+  properties?: Record<string, any>; // `manual` marks rooms drawn or reshaped with the room tool
 }
 
+/**
+ * Room classification, stored as a plain tag in Room.tags
+ */
+export type RoomType =
+  | 'bedroom'
+  | 'bathroom'
+  | 'kitchen'
+  | 'living'
+  | 'dining'
+  | 'hallway'
+  | 'office'
+  | 'storage'
+  | 'laundry'
+  | 'balcony';
+
 /**
  * Represents a fixture (door, window, furniture) with polygon coordinates
  */
@@ -55,6 +158,203 @@ export interface Fixture {
   properties?: Record<string, any>;
 }
 
+/**
+ * Position, footprint and orientation of a free-standing fixture.
+ * Stored in Fixture.properties alongside the derived polygon_coords.
+ */
+export interface FixtureFrame {
+  cx: number;
+  cy: number;
+  /** Extent along the fixture's local x axis, in data units */
+  width: number;
+  /** Extent along the fixture's local y axis, in data units */
+  depth: number;
+  /** Clockwise rotation in degrees */
+  rotation: number;
+}
+
+/**
+ * Catalogue entry for the furniture tool
+ */
+export interface FurnitureItem {
+  /** Stored as Fixture.fixture_type */
+  type: string;
+  label: string;
+  icon: string;
+  /** Default width in metres */
+  width: number;
+  /** Default depth in metres */
+  depth: number;
+}
+
+export interface FurnitureCategory {
+  id: string;
+  label: string;
+  items: FurnitureItem[];
+}
+
+/**
+ * Vertical circulation, stored as Fixture.fixture_type
+ */
+export type CirculationType = 'stair_straight' | 'stair_l' | 'stair_u' | 'stair_spiral' | 'ramp' | 'lift_shaft';
+
+/** Whether a stair or ramp leads up or down from its level */
+export type CirculationDirection = 'up' | 'down';
+
+/**
+ * Parameters of a stair or ramp, stored in Fixture.properties next to the
+ * frame. Lengths are metres; the frame footprint is derived from them.
+ */
+export interface CirculationProperties {
+  /** Clear width of one flight (or of the ramp) */
+  flight_width: number;
+  /** Number of steps; unused by ramps */
+  steps: number;
+  /** Height of one step; for a ramp, its total rise */
+  rise: number;
+  /** Going of one step; for a ramp, its total length */
+  run: number;
+  direction: CirculationDirection;
+}
+
+/**
+ * Kind of drawing annotation
+ */
+export type AnnotationType = 'dimension' | 'text' | 'callout';
+
+/**
+ * Annotation drawn on top of the plan (dimension lines, notes, …).
+ * Its settings live in `properties`, shaped by `annotation_type`.
+ */
+export interface Annotation {
+  id: string;
+  annotation_type: AnnotationType;
+  properties: Record<string, any>;
+}
+
+/**
+ * Dimension styles:
+ * - linear: horizontal or vertical distance between two nodes
+ * - aligned: true distance between two nodes, measured along the line joining them
+ * - chained: consecutive distances between several nodes on one dimension line
+ * - angular: angle at the middle node between the other two
+ */
+export type DimensionKind = 'linear' | 'aligned' | 'chained' | 'angular';
+
+/**
+ * Dimension settings, stored in Annotation.properties of dimension annotations
+ */
+export interface DimensionProperties {
+  kind: DimensionKind;
+  /** Measured nodes, in order; the vertex is the middle one for angular dimensions */
+  node_ids: string[];
+  /**
+   * Signed distance of the dimension line from the first node, in data units.
+   * Angular dimensions use it as the arc radius.
+   */
+  offset: number;
+  /** Direction measured by linear (and optionally chained) dimensions */
+  axis?: 'horizontal' | 'vertical';
+  /** Linear dimensions across a room measure its polygon instead of nodes */
+  room_id?: string;
+  /** Generated by Auto-dimension, and regenerated when the geometry changes */
+  auto?: boolean;
+}
+
+/**
+ * Look of a text or callout note. The font size is in screen pixels so notes
+ * stay readable at any zoom level.
+ */
+export interface NoteStyle {
+  font_size: number;
+  color: string;
+  /** Clockwise rotation of the text in degrees */
+  rotation: number;
+}
+
+/**
+ * Text and callout settings, stored in Annotation.properties of note annotations
+ */
+export interface NoteProperties extends NoteStyle {
+  text: string;
+  /** Centre of the text box, in data units */
+  x: number;
+  y: number;
+  /** Callouts only: where the leader arrow points */
+  target?: Point;
+}
+
+/**
+ * Built-in layers every element belongs to by kind. Labels are the room
+ * name/area labels and text notes; overlays are dimensions and constraint badges.
+ */
+export type LayerCategory = 'walls' | 'doors' | 'windows' | 'rooms' | 'fixtures' | 'labels' | 'overlays';
+
+/**
+ * Visibility and lock of one layer. Hidden and locked layers are both left out
+ * of hit testing, snapping and the selection box; locked ones stay drawn.
+ */
+export interface LayerState {
+  visible: boolean;
+  locked: boolean;
+}
+
+/**
+ * A layer the user created. Walls, openings, fixtures and annotations join it
+ * through a `layer_id` in their properties.
+ */
+export interface UserLayer extends LayerState {
+  id: string;
+  name: string;
+}
+
+/**
+ * Layer panel state, saved with the plan
+ */
+export interface PlanLayers {
+  categories: Record<LayerCategory, LayerState>;
+  user: UserLayer[];
+}
+
+/**
+ * Raster image drawn beneath the plan for tracing and checking recognition.
+ * Image pixel (u, v) lands on the plan at (x, y) + scale · rotate(rotation) · (u, v).
+ */
+export interface Underlay {
+  /** URL of the uploaded image */
+  src: string;
+  /** Natural size of the image in pixels */
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  /** Data units per image pixel */
+  scale: number;
+  /** Clockwise rotation in degrees */
+  rotation: number;
+  opacity: number;
+  visible: boolean;
+}
+
+/**
+ * One storey of a building. Each level is a floor plan of its own, linked to
+ * the others by plan ID through the level list in its settings (see utils/levels.ts).
+ */
+export interface Level {
+  plan_id: string;
+  name: string;
+  /** Height of the finished floor above the lowest level's, in metres */
+  elevation: number;
+  /** Floor-to-floor height in metres */
+  height: number;
+}
+
+/** A neighbouring level drawn faintly under the one being edited */
+export interface LevelGhost {
+  plan: FloorPlan;
+  position: 'below' | 'above';
+}
+
 /**
  * Complete floor plan data structure
  */
@@ -63,6 +363,11 @@ export interface FloorPlan {
   edges: Edge[];
   rooms?: Room[];
   fixtures?: Fixture[];
+  annotations?: Annotation[];
+  layers?: PlanLayers;
+  underlay?: Underlay | null;
+  /** Levels of the building this plan belongs to, lowest first; absent for single-storey plans */
+  levels?: Level[];
   /** false = uncalibrated (pixel coords); true = coordinates are in metres */
   is_calibrated?: boolean;
 }
@@ -70,12 +375,12 @@ export interface FloorPlan {
 /**
  * Available editor tools
  */
-export type EditorTool = 'cursor' | 'selection' | 'wall' | 'assets';
+export type EditorTool = 'cursor' | 'selection' | 'wall' | 'assets' | 'room' | 'furniture' | 'dimension' | 'text';
 
 /**
  * Asset type for the assets tool
  */
-export type AssetType = 'door' | 'window';
+export type AssetType = 'door' | 'window' | OpeningKind;
 
 /**
  * Describes a resolved snap position for placing an asset onto a wall
@@ -88,6 +393,100 @@ export interface AssetPlacement {
   assetEndPt: { x: number; y: number };
 }
 
+/**
+ * Wall tool sub-modes:
+ * - segment: chained single walls (Escape ends the chain)
+ * - polyline: like segment, but clicking the chain's start node closes it
+ * - rectangle: four walls from a dragged (or typed) box
+ * - room_box: rectangle plus the matching Room inside the walls
+ */
+export type WallMode = 'segment' | 'polyline' | 'rectangle' | 'room_box';
+
+/**
+ * Typed box size for the rectangle / room box modes, in data-space units
+ */
+export interface WallBoxSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Background grid. Spacing is in data-space units (metres when calibrated,
+ * pixels otherwise); drawing and drags snap to it while it is enabled.
+ */
+export interface GridSettings {
+  enabled: boolean;
+  spacing: number;
+}
+
+/**
+ * Derived snap targets, on top of nodes, walls and the grid:
+ * - midpoint: the middle of a wall
+ * - perpendicular: foot of the perpendicular from the fixed point onto a wall
+ * - extension: a wall's line continued past its ends
+ * - intersection: where two wall lines (or their extensions) cross
+ */
+export type SnapKind = 'midpoint' | 'perpendicular' | 'extension' | 'intersection';
+
+/** Which derived snap targets are active */
+export type SnapSettings = Record<SnapKind, boolean>;
+
+/**
+ * Mixed selection built with the selection box and shift-click
+ */
+export interface PlanSelection {
+  nodeIds: string[];
+  edgeIds: string[];
+  roomIds: string[];
+  fixtureIds: string[];
+}
+
+/**
+ * Transform applied to a whole selection about the centre of its bounds:
+ * - translate: shift by (dx, dy) data units
+ * - rotate: turn clockwise on screen by `angle` degrees
+ * - mirror: 'horizontal' flips left ↔ right, 'vertical' flips top ↔ bottom
+ */
+export type SelectionTransform =
+  | { kind: 'translate'; dx: number; dy: number }
+  | { kind: 'rotate'; angle: number }
+  | { kind: 'mirror'; axis: 'horizontal' | 'vertical' };
+
+/**
+ * Edge of a copied plan fragment; endpoints are matched by position on paste
+ */
+export interface FragmentEdge {
+  from: Point;
+  to: Point;
+  type: EdgeType;
+  thickness?: number;
+  shift?: number;
+  is_inner?: boolean;
+  properties?: Record<string, any>;
+}
+
+/**
+ * Copied plan fragment, serialised as JSON to the system clipboard.
+ * Coordinates are relative to the fragment's centre, in the units of the
+ * plan it was copied from (see `is_calibrated`).
+ */
+export interface PlanFragment {
+  format: 'apt-plan-fragment';
+  version: 1;
+  is_calibrated: boolean;
+  edges: FragmentEdge[];
+  rooms: { polygon_coords: [number, number][]; tags: string[] }[];
+  fixtures: { fixture_type: string; frame: FixtureFrame; properties: Record<string, any> }[];
+}
+
+/**
+ * Props for the snap settings popover in the tools bar
+ */
+export interface SnapSettingsPopoverProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
 /**
  * Props for WallToolOptions panel
  */
@@ -95,6 +494,11 @@ export interface WallToolOptionsProps {
   thickness: number;          // in data-space units
   onThicknessChange: (v: number) => void;
   isCalibrated: boolean;
+  mode: WallMode;
+  onModeChange: (mode: WallMode) => void;
+  /** Fixed box size; null = drag to size */
+  boxSize: WallBoxSize | null;
+  onBoxSizeChange: (size: WallBoxSize | null) => void;
 }
 
 /**
@@ -107,6 +511,109 @@ export interface AssetToolOptionsProps {
   onAssetTypeChange: (t: AssetType) => void;
   onWidthChange: (m: number) => void;
   isCalibrated: boolean;
+  /** Hinge, swing and leaf for the next door placed */
+  door: DoorProperties;
+  onDoorChange: (door: DoorProperties) => void;
+  /** Subtype and heights for the next window placed */
+  windowSettings: WindowProperties;
+  onWindowSettingsChange: (settings: WindowProperties) => void;
+  /** Heights for the next opening, arch, pass-through or half wall placed */
+  openingSettings: OpeningProperties;
+  onOpeningSettingsChange: (settings: OpeningProperties) => void;
+}
+
+/**
+ * Props for RoomToolOptions panel
+ */
+export interface RoomToolOptionsProps {
+  /** Room currently selected for reshaping, if any */
+  selectedRoom: Room | null;
+  onDeleteRoom: (roomId: string) => void;
+  /** Re-derive rooms from the wall graph after geometry edits */
+  autoDetect: boolean;
+  onAutoDetectChange: (enabled: boolean) => void;
+}
+
+/**
+ * Props for FurnitureToolOptions panel
+ */
+export interface FurnitureToolOptionsProps {
+  /** Catalogue type armed for placement, or null */
+  furnitureType: string | null;
+  onFurnitureTypeChange: (type: string | null) => void;
+  /** Fixture selected on the canvas, if any */
+  selectedFixture: Fixture | null;
+  onDeleteFixture: (fixtureId: string) => void;
+  isCalibrated: boolean;
+  /** Start the measure-and-scale flow */
+  onCalibrate: () => void;
+  /** Save new parameters for the selected stair or ramp */
+  onCirculationChange?: (fixtureId: string, properties: CirculationProperties) => void;
+}
+
+/**
+ * Props for DimensionToolOptions panel
+ */
+export interface DimensionToolOptionsProps {
+  kind: DimensionKind;
+  onKindChange: (kind: DimensionKind) => void;
+  /** Dimension selected on the canvas, if any */
+  selectedDimension: Annotation | null;
+  onDeleteDimension: (annotationId: string) => void;
+  /** Replace the generated exterior and room dimensions */
+  onAutoDimension: () => void;
+  /** Number of generated dimensions currently on the plan */
+  autoDimensionCount: number;
+}
+
+/**
+ * Props for TextToolOptions panel
+ */
+export interface TextToolOptionsProps {
+  /** Whether the next note is a plain text box or a callout with a leader arrow */
+  noteType: 'text' | 'callout';
+  onNoteTypeChange: (noteType: 'text' | 'callout') => void;
+  /** Style of the selected note, or of the next one placed */
+  style: NoteStyle;
+  onStyleChange: (style: NoteStyle) => void;
+  /** Note selected on the canvas, if any */
+  selectedNote: Annotation | null;
+  onDeleteNote: (annotationId: string) => void;
+}
+
+/**
+ * Props for the RoomInspector panel
+ */
+export interface RoomInspectorProps {
+  room: Room;
+  onTagsChange: (tags: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * A change to free-form `properties`: keys to add or overwrite and keys to
+ * remove. Keys in neither are left as they are.
+ */
+export interface PropertiesChange {
+  set?: Record<string, any>;
+  unset?: string[];
+}
+
+/**
+ * Props for the ElementInspector panel. Edges and fixtures are inspected
+ * together; thickness and shift apply to the edges only, a properties change
+ * to every element.
+ */
+export interface ElementInspectorProps {
+  edges: Edge[];
+  fixtures: Fixture[];
+  /** Plan nodes, for edge endpoints and length */
+  nodes: Node[];
+  isCalibrated: boolean;
+  onThicknessChange: (value: number) => void;
+  onShiftChange: (value: number) => void;
+  onPropertiesChange: (change: PropertiesChange) => void;
+  onClose: () => void;
 }
 
 /**
@@ -0,0 +1,376 @@
+/**
+ * Stairs, ramps and lift shafts.
+ *
+ * They are ordinary fixtures placed with the furniture tool. The frame in
+ * Fixture.properties carries position and rotation, and CirculationProperties
+ * next to it carry the shape; whenever the parameters change the frame is
+ * resized to their footprint. Lift shafts have no parameters and are sized
+ * like furniture.
+ *
+ * Symbols are built in the fixture's local frame (origin at the centre), with
+ * the walk line starting at the local +y edge.
+ */
+
+import type { CirculationProperties, CirculationType, Fixture, FixtureFrame, FurnitureItem, Point } from '../types';
+import { pointInPolygon, signedArea } from './roomDetection';
+
+/** Height of the plan cut; steps above it are drawn dashed beyond a break line */
+export const CUT_PLANE_HEIGHT = 1.2;
+
+/** Radius of the newel of a spiral stair, in metres */
+const SPIRAL_NEWEL = 0.1;
+
+/** A spiral leaves this much of the turn free for headroom over its first steps */
+const SPIRAL_MAX_TURN = 2 * Math.PI * 0.9;
+
+const CIRCULATION_TYPES: CirculationType[] = ['stair_straight', 'stair_l', 'stair_u', 'stair_spiral', 'ramp', 'lift_shaft'];
+
+const DEFAULTS: Record<Exclude<CirculationType, 'lift_shaft'>, CirculationProperties> = {
+  stair_straight: { flight_width: 1.0, steps: 16, rise: 0.175, run: 0.28, direction: 'up' },
+  stair_l: { flight_width: 1.0, steps: 16, rise: 0.175, run: 0.28, direction: 'up' },
+  stair_u: { flight_width: 1.0, steps: 16, rise: 0.175, run: 0.28, direction: 'up' },
+  stair_spiral: { flight_width: 0.8, steps: 14, rise: 0.2, run: 0.25, direction: 'up' },
+  // 1:20, the steepest ramp that needs no landings or handrails in most codes
+  ramp: { flight_width: 1.2, steps: 0, rise: 0.3, run: 6, direction: 'up' },
+};
+
+/** Names plan recognition gives stairs, lifts and ramps, loosely and without a shape */
+const RECOGNISED_TYPES: Record<string, CirculationType> = {
+  stair: 'stair_straight',
+  stairs: 'stair_straight',
+  staircase: 'stair_straight',
+  stairway: 'stair_straight',
+  elevator: 'lift_shaft',
+  lift: 'lift_shaft',
+  elevator_shaft: 'lift_shaft',
+  ramp: 'ramp',
+};
+
+/**
+ * The type a fixture is drawn and edited as. Recognised stairs and lifts
+ * become the plain parametric types fitted to their footprint; the stored
+ * fixture_type keeps the backend's name so saving doesn't change it.
+ */
+export function fixtureKind(type: string): string {
+  return RECOGNISED_TYPES[type.toLowerCase()] ?? type;
+}
+
+export function isCirculation(type: string): type is CirculationType {
+  return (CIRCULATION_TYPES as string[]).includes(type);
+}
+
+/** Stairs and ramps are shaped by CirculationProperties; lift shafts are not */
+export function isParametric(type: string): type is Exclude<CirculationType, 'lift_shaft'> {
+  return isCirculation(type) && type !== 'lift_shaft';
+}
+
+/** Parameters a newly placed element starts with (empty for lift shafts and furniture) */
+export function defaultCirculationProperties(type: string): Partial<CirculationProperties> {
+  return isParametric(type) ? { ...DEFAULTS[type] } : {};
+}
+
+/** Steps on the first and second flight of an L- or U-shaped stair */
+function flightSplit(steps: number): [number, number] {
+  return [Math.ceil(steps / 2), Math.floor(steps / 2)];
+}
+
+/** Lowest step count a shape can be drawn with */
+export function minSteps(type: CirculationType): number {
+  return type === 'stair_l' || type === 'stair_u' ? 2 : 1;
+}
+
+/** Width × depth of the element described by `p`; null for lift shafts */
+export function circulationFootprint(type: CirculationType, p: CirculationProperties): { width: number; depth: number } | null {
+  const [n1, n2] = flightSplit(p.steps);
+  switch (type) {
+    case 'stair_straight':
+      return { width: p.flight_width, depth: p.steps * p.run };
+    case 'stair_l':
+      return { width: p.flight_width + n2 * p.run, depth: n1 * p.run + p.flight_width };
+    case 'stair_u':
+      return { width: 2 * p.flight_width, depth: n1 * p.run + p.flight_width };
+    case 'stair_spiral': {
+      const diameter = 2 * (SPIRAL_NEWEL + p.flight_width);
+      return { width: diameter, depth: diameter };
+    }
+    case 'ramp':
+      return { width: p.flight_width, depth: p.run };
+    default:
+      return null;
+  }
+}
+
+/** `frame` resized to the footprint of `p`, about its centre */
+export function circulationFrame(type: CirculationType, frame: FixtureFrame, p: CirculationProperties): FixtureFrame {
+  const size = circulationFootprint(type, p);
+  return size ? { ...frame, ...size } : frame;
+}
+
+/**
+ * Read an element's parameters. Anything missing is fitted to the frame, so a
+ * stair that came from recognition (a bare footprint) keeps its size.
+ */
+export function getCirculationProperties(type: CirculationType, properties: Record<string, any> | undefined, frame: FixtureFrame): CirculationProperties {
+  const d = isParametric(type) ? DEFAULTS[type] : DEFAULTS.stair_straight;
+  const p = properties ?? {};
+  const positive = (v: any): number | null => (typeof v === 'number' && v > 0 ? v : null);
+  const steps = Math.max(minSteps(type), Math.round(positive(p.steps) ?? d.steps));
+  const [n1] = flightSplit(steps);
+
+  let width: number, run: number;
+  switch (type) {
+    case 'stair_l':
+      width = positive(p.flight_width) ?? Math.min(frame.width, frame.depth) / 3;
+      run = positive(p.run) ?? (frame.depth - width) / n1;
+      break;
+    case 'stair_u':
+      width = positive(p.flight_width) ?? frame.width / 2;
+      run = positive(p.run) ?? (frame.depth - width) / n1;
+      break;
+    case 'stair_spiral':
+      width = positive(p.flight_width) ?? Math.max(Math.min(frame.width, frame.depth) / 2 - SPIRAL_NEWEL, 0.1);
+      run = positive(p.run) ?? d.run;
+      break;
+    case 'ramp':
+      width = positive(p.flight_width) ?? frame.width;
+      run = positive(p.run) ?? frame.depth;
+      break;
+    default:
+      width = positive(p.flight_width) ?? frame.width;
+      run = positive(p.run) ?? frame.depth / steps;
+  }
+  return {
+    flight_width: width,
+    steps,
+    rise: positive(p.rise) ?? d.rise,
+    run: Math.max(run, 0.01),
+    direction: p.direction === 'down' ? 'down' : 'up',
+  };
+}
+
+/**
+ * Plan symbol of a stair, ramp or lift shaft as SVG path data in the local
+ * frame. Path lengths are in data units, so the symbol scales with the plan.
+ */
+export interface CirculationSymbol {
+  /** Flights, landings or the shaft walls */
+  outline: string;
+  /** Step nosings below the cut plane, or the diagonals of a lift shaft */
+  detail: string;
+  /** Step nosings above the cut plane, drawn dashed */
+  hidden: string;
+  walkLine: string;
+  /** Filled arrowhead at the end of the walk line */
+  arrow: string;
+  /** Start of the walk line, marked with a dot and the UP / DN label */
+  start: Point | null;
+  breakLine: string;
+}
+
+interface Flight {
+  /** Middle of the first step's leading edge */
+  start: Point;
+  /** Unit vector in the walking direction */
+  dir: Point;
+  width: number;
+  length: number;
+  steps: number;
+}
+
+const pt = (x: number, y: number): Point => ({ x, y });
+const add = (a: Point, b: Point): Point => pt(a.x + b.x, a.y + b.y);
+const scale = (v: Point, s: number): Point => pt(v.x * s, v.y * s);
+const across = (dir: Point): Point => pt(-dir.y, dir.x);
+const line = (a: Point, b: Point) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+const polyline = (pts: Point[]) => `M ${pts.map(p => `${p.x} ${p.y}`).join(' L ')}`;
+const polygon = (pts: Point[]) => `${polyline(pts)} Z`;
+const rect = (x0: number, y0: number, x1: number, y1: number) =>
+  polygon([pt(x0, y0), pt(x1, y0), pt(x1, y1), pt(x0, y1)]);
+
+/** Straight line a→b with the zig-zag of a break mark in the middle */
+function breakMark(a: Point, b: Point): string {
+  const d = pt(b.x - a.x, b.y - a.y);
+  const n = scale(across(d), 0.1);
+  const at = (t: number) => add(a, scale(d, t));
+  return polyline([a, at(0.42), add(at(0.47), n), add(at(0.53), scale(n, -1)), at(0.58), b]);
+}
+
+function arrowHead(tip: Point, dir: Point, size: number): string {
+  const base = add(tip, scale(dir, -size));
+  const side = scale(across(dir), size * 0.4);
+  return polygon([tip, add(base, side), add(base, scale(side, -1))]);
+}
+
+/** Number of steps below the cut plane; every step of a stair leading down is visible */
+function visibleSteps(p: CirculationProperties): number {
+  return p.direction === 'up' ? Math.ceil(CUT_PLANE_HEIGHT / p.rise) : Infinity;
+}
+
+/** Treads, outline and break line of one or more flights walked in order */
+function flightsSymbol(flights: Flight[], landings: string[], walk: Point[], p: CirculationProperties): CirculationSymbol {
+  const cut = visibleSteps(p);
+  const detail: string[] = [], hidden: string[] = [], outline = [...landings];
+  let breakLine = '';
+  let offset = 0;
+  for (const f of flights) {
+    const side = scale(across(f.dir), f.width / 2);
+    const going = f.length / f.steps;
+    const at = (i: number) => add(f.start, scale(f.dir, i * going));
+    const end = at(f.steps);
+    outline.push(polygon([add(f.start, side), add(end, side), add(end, scale(side, -1)), add(f.start, scale(side, -1))]));
+    for (let i = 1; i < f.steps; i++) {
+      (offset + i > cut ? hidden : detail).push(line(add(at(i), side), add(at(i), scale(side, -1))));
+    }
+    // The break runs diagonally across the first step above the cut
+    if (cut >= offset && cut < offset + f.steps) {
+      const mid = at(cut - offset + 0.5);
+      const slant = scale(f.dir, going * 0.6);
+      breakLine = breakMark(add(add(mid, scale(side, -1)), slant), add(add(mid, side), scale(slant, -1)));
+    }
+    offset += f.steps;
+  }
+  const last = walk[walk.length - 1], prev = walk[walk.length - 2];
+  const len = Math.hypot(last.x - prev.x, last.y - prev.y) || 1;
+  const dir = pt((last.x - prev.x) / len, (last.y - prev.y) / len);
+  return {
+    outline: outline.join(' '),
+    detail: detail.join(' '),
+    hidden: hidden.join(' '),
+    walkLine: polyline(walk),
+    arrow: arrowHead(last, dir, Math.min(...flights.map(f => f.width)) * 0.2),
+    start: walk[0],
+    breakLine,
+  };
+}
+
+/** Spiral stair turning clockwise (on screen) from the local +y axis */
+function spiralSymbol(width: number, depth: number, p: CirculationProperties): CirculationSymbol {
+  const r = Math.min(width, depth) / 2;
+  const newel = Math.min(SPIRAL_NEWEL, r * 0.3);
+  const walkR = (r + newel) / 2;
+  const step = Math.min(p.run / walkR, SPIRAL_MAX_TURN / p.steps);
+  const polar = (radius: number, a: number) => pt(radius * Math.cos(a), radius * Math.sin(a));
+  const angle = (i: number) => Math.PI / 2 + i * step;
+  const circle = (radius: number) =>
+    `M ${radius} 0 A ${radius} ${radius} 0 1 1 ${-radius} 0 A ${radius} ${radius} 0 1 1 ${radius} 0`;
+  const cut = visibleSteps(p);
+
+  const detail: string[] = [], hidden: string[] = [];
+  for (let i = 0; i <= p.steps; i++) {
+    (i > cut ? hidden : detail).push(line(polar(newel, angle(i)), polar(r, angle(i))));
+  }
+  const from = angle(0.5), to = angle(p.steps);
+  const start = polar(walkR, from), end = polar(walkR, to);
+  const tangent = pt(-Math.sin(to), Math.cos(to));
+  return {
+    outline: `${circle(r)} ${circle(newel)}`,
+    detail: detail.join(' '),
+    hidden: hidden.join(' '),
+    walkLine: `M ${start.x} ${start.y} A ${walkR} ${walkR} 0 ${to - from > Math.PI ? 1 : 0} 1 ${end.x} ${end.y}`,
+    arrow: arrowHead(end, tangent, p.flight_width * 0.2),
+    start,
+    breakLine: cut < p.steps ? breakMark(polar(newel, angle(cut + 0.5)), polar(r, angle(cut + 0.5))) : '',
+  };
+}
+
+/** Build the symbol for an element drawn into a `width` × `depth` frame */
+export function circulationSymbol(type: CirculationType, width: number, depth: number, p: CirculationProperties): CirculationSymbol {
+  const hw = width / 2, hd = depth / 2;
+  const up = pt(0, -1);
+  switch (type) {
+    case 'lift_shaft':
+      return {
+        outline: rect(-hw, -hd, hw, hd),
+        detail: `${line(pt(-hw, -hd), pt(hw, hd))} ${line(pt(hw, -hd), pt(-hw, hd))}`,
+        hidden: '', walkLine: '', arrow: '', start: null, breakLine: '',
+      };
+    case 'ramp':
+      return {
+        outline: rect(-hw, -hd, hw, hd),
+        detail: '', hidden: '', breakLine: '',
+        walkLine: line(pt(0, hd), pt(0, -hd)),
+        arrow: arrowHead(pt(0, -hd), up, width * 0.2),
+        start: pt(0, hd),
+      };
+    case 'stair_spiral':
+      return spiralSymbol(width, depth, p);
+    case 'stair_l': {
+      const fw = Math.min(p.flight_width, width, depth);
+      const [n1, n2] = flightSplit(p.steps);
+      const x1 = -hw + fw / 2, y2 = -hd + fw / 2;
+      return flightsSymbol(
+        [
+          { start: pt(x1, hd), dir: up, width: fw, length: depth - fw, steps: n1 },
+          { start: pt(-hw + fw, y2), dir: pt(1, 0), width: fw, length: width - fw, steps: n2 },
+        ],
+        [rect(-hw, -hd, -hw + fw, -hd + fw)],
+        [pt(x1, hd), pt(x1, y2), pt(hw, y2)],
+        p,
+      );
+    }
+    case 'stair_u': {
+      const fw = Math.min(p.flight_width, hw);
+      const [n1, n2] = flightSplit(p.steps);
+      const x1 = -hw + fw / 2, x2 = hw - fw / 2, y = -hd + fw / 2;
+      return flightsSymbol(
+        [
+          { start: pt(x1, hd), dir: up, width: fw, length: depth - fw, steps: n1 },
+          { start: pt(x2, -hd + fw), dir: pt(0, 1), width: fw, length: depth - fw, steps: n2 },
+        ],
+        [rect(-hw, -hd, hw, -hd + fw)],
+        [pt(x1, hd), pt(x1, y), pt(x2, y), pt(x2, hd)],
+        p,
+      );
+    }
+    default:
+      return flightsSymbol(
+        [{ start: pt(0, hd), dir: up, width, length: depth, steps: p.steps }],
+        [],
+        [pt(0, hd), pt(0, -hd)],
+        p,
+      );
+  }
+}
+
+/** Catalogue entry sized to an element's default parameters */
+function circulationItem(type: CirculationType, label: string, icon: string): FurnitureItem {
+  const size = isParametric(type) ? circulationFootprint(type, DEFAULTS[type]) : null;
+  return { type, label, icon, width: size?.width ?? 1.8, depth: size?.depth ?? 1.8 };
+}
+
+export const CIRCULATION_ITEMS: FurnitureItem[] = [
+  circulationItem('stair_straight', 'Straight stair', '🪜'),
+  circulationItem('stair_l', 'L-shaped stair', '↱'),
+  circulationItem('stair_u', 'U-shaped stair', '↻'),
+  circulationItem('stair_spiral', 'Spiral stair', '🌀'),
+  circulationItem('ramp', 'Ramp', '♿'),
+  circulationItem('lift_shaft', 'Lift shaft', '🛗'),
+];
+
+/**
+ * Stairs and lift shafts are holes through the floor, so they don't count
+ * towards the net area of the room they stand in. Ramps are walkable floor.
+ */
+function isFloorVoid(type: string): boolean {
+  return isCirculation(type) && type !== 'ramp';
+}
+
+/** Room area less the stairs and lift shafts standing in it */
+export function netRoomArea(polygon: [number, number][], fixtures: Fixture[]): number {
+  const pts = polygon.map(([x, y]) => ({ x, y }));
+  let area = Math.abs(signedArea(pts));
+  for (const fixture of fixtures) {
+    const coords = fixture.polygon_coords;
+    const kind = fixtureKind(fixture.fixture_type);
+    if (!isFloorVoid(kind) || coords.length < 3) continue;
+    const centre = pt(
+      coords.reduce((acc, [x]) => acc + x, 0) / coords.length,
+      coords.reduce((acc, [, y]) => acc + y, 0) / coords.length,
+    );
+    if (!pointInPolygon(centre, pts)) continue;
+    const footprint = Math.abs(signedArea(coords.map(([x, y]) => ({ x, y }))));
+    // A spiral only takes the circle inscribed in its frame
+    area -= kind === 'stair_spiral' ? footprint * Math.PI / 4 : footprint;
+  }
+  return Math.max(area, 0);
+}
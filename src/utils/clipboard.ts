@@ -0,0 +1,174 @@
+/**
+ * Copy and paste of plan fragments through the system clipboard.
+ *
+ * A fragment holds edges, rooms and fixtures with coordinates relative to its
+ * centre, so it can be dropped anywhere in any plan. Nodes are not copied on
+ * their own: edges carry their endpoints, and pasting reuses any existing node
+ * that lands on the same spot.
+ */
+
+import type { FixtureFrame, FloorPlan, FragmentEdge, PlanFragment, PlanSelection, Point } from '../types';
+import { CONSTRAINT_TYPES, getEdgeConstraints } from './constraints';
+import { getFixtureFrame } from './furniture';
+import type { EdgeRef } from './history';
+import { selectionCentre, selectionNodeIds } from './selection';
+
+export const FRAGMENT_FORMAT = 'apt-plan-fragment';
+
+/**
+ * Pixels per metre assumed when pasting between a calibrated and an
+ * uncalibrated plan, matching the editor's defaults (0.2 m ↔ 20 px walls)
+ */
+export const NOMINAL_PX_PER_M = 100;
+
+export function fragmentSize(fragment: PlanFragment): number {
+  return fragment.edges.length + fragment.rooms.length + fragment.fixtures.length;
+}
+
+/** Edges a copy takes: the selected ones plus every edge between selected nodes */
+export function fragmentEdgeIds(plan: FloorPlan, selection: PlanSelection): string[] {
+  const nodeIds = selectionNodeIds(plan, selection);
+  return plan.edges
+    .filter(e => selection.edgeIds.includes(e.id) || (nodeIds.has(e.source) && nodeIds.has(e.target)))
+    .map(e => e.id);
+}
+
+/**
+ * Copy the selection's edges (see fragmentEdgeIds), rooms and fixtures.
+ * Returns null when there is nothing to copy.
+ */
+export function copyFragment(plan: FloorPlan, selection: PlanSelection): PlanFragment | null {
+  const centre = selectionCentre(plan, selection);
+  if (!centre) return null;
+  const edgeIds = new Set(fragmentEdgeIds(plan, selection));
+  const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+  const rel = (x: number, y: number): Point => ({ x: x - centre.x, y: y - centre.y });
+
+  const edges: FragmentEdge[] = plan.edges
+    .filter(e => edgeIds.has(e.id))
+    .flatMap(e => {
+      const a = nodeById.get(e.source), b = nodeById.get(e.target);
+      if (!a || !b) return [];
+      return [{
+        from: rel(a.x, a.y),
+        to: rel(b.x, b.y),
+        type: e.type,
+        thickness: e.thickness,
+        shift: e.shift,
+        is_inner: e.is_inner,
+        properties: e.properties && withoutRelativeConstraints(e.properties),
+      }];
+    });
+  const fragment: PlanFragment = {
+    format: FRAGMENT_FORMAT,
+    version: 1,
+    is_calibrated: plan.is_calibrated ?? false,
+    edges,
+    rooms: (plan.rooms ?? [])
+      .filter(r => selection.roomIds.includes(r.id))
+      .map(r => ({
+        polygon_coords: r.polygon_coords.map(([x, y]) => { const p = rel(x, y); return [p.x, p.y] as [number, number]; }),
+        tags: r.tags,
+      })),
+    fixtures: (plan.fixtures ?? [])
+      .filter(f => selection.fixtureIds.includes(f.id))
+      .map(f => {
+        const frame = getFixtureFrame(f);
+        return { fixture_type: f.fixture_type, frame: { ...frame, cx: frame.cx - centre.x, cy: frame.cy - centre.y }, properties: f.properties ?? {} };
+      }),
+  };
+  return fragmentSize(fragment) > 0 ? fragment : null;
+}
+
+/**
+ * Constraints that point at another edge can't survive a paste (the backend
+ * issues new edge IDs), so they are left behind
+ */
+function withoutRelativeConstraints(properties: Record<string, any>): Record<string, any> {
+  if (!('constraints' in properties)) return properties;
+  const kept = getEdgeConstraints({ properties }).filter(c => !CONSTRAINT_TYPES.find(t => t.id === c.type)!.needsRef);
+  const { constraints: _dropped, ...rest } = properties;
+  return kept.length > 0 ? { ...rest, constraints: kept } : rest;
+}
+
+export function serializeFragment(fragment: PlanFragment): string {
+  return JSON.stringify(fragment);
+}
+
+/** Parse clipboard text, or null if it isn't a plan fragment */
+export function parseFragment(text: string): PlanFragment | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.format !== FRAGMENT_FORMAT || data.version !== 1) return null;
+    if (![data.edges, data.rooms, data.fixtures].every(Array.isArray)) return null;
+    return data as PlanFragment;
+  } catch {
+    return null;
+  }
+}
+
+/** Re-express a fragment in the units of a plan with the given calibration */
+export function fragmentForPlan(fragment: PlanFragment, isCalibrated: boolean): PlanFragment {
+  if (fragment.is_calibrated === isCalibrated) return fragment;
+  const k = isCalibrated ? 1 / NOMINAL_PX_PER_M : NOMINAL_PX_PER_M;
+  const pt = (p: Point): Point => ({ x: p.x * k, y: p.y * k });
+  const frame = (f: FixtureFrame): FixtureFrame => ({ ...f, cx: f.cx * k, cy: f.cy * k, width: f.width * k, depth: f.depth * k });
+  return {
+    ...fragment,
+    is_calibrated: isCalibrated,
+    edges: fragment.edges.map(e => ({
+      ...e,
+      from: pt(e.from),
+      to: pt(e.to),
+      thickness: e.thickness !== undefined ? e.thickness * k : undefined,
+      shift: e.shift !== undefined ? e.shift * k : undefined,
+      properties: e.properties && 'constraints' in e.properties
+        ? {
+            ...e.properties,
+            constraints: getEdgeConstraints(e).map(c => c.length !== undefined ? { ...c, length: c.length * k } : c),
+          }
+        : e.properties,
+    })),
+    rooms: fragment.rooms.map(r => ({ ...r, polygon_coords: r.polygon_coords.map(([x, y]) => [x * k, y * k] as [number, number]) })),
+    fixtures: fragment.fixtures.map(f => ({ ...f, frame: frame(f.frame) })),
+  };
+}
+
+/** Point of the fragment that snaps to the grid while it follows the cursor */
+export function fragmentAnchor(fragment: PlanFragment): Point {
+  if (fragment.edges.length > 0) return fragment.edges[0].from;
+  if (fragment.rooms.length > 0 && fragment.rooms[0].polygon_coords.length > 0) {
+    const [x, y] = fragment.rooms[0].polygon_coords[0];
+    return { x, y };
+  }
+  return fragment.fixtures.length > 0 ? { x: fragment.fixtures[0].frame.cx, y: fragment.fixtures[0].frame.cy } : { x: 0, y: 0 };
+}
+
+/**
+ * Absolute geometry of a fragment whose centre is placed at `at`. Edge
+ * endpoints get fresh node IDs, shared between edges that meet.
+ */
+export function placeFragment(fragment: PlanFragment, at: Point): {
+  edges: EdgeRef[];
+  rooms: { polygon_coords: [number, number][]; tags: string[] }[];
+  fixtures: { fixture_type: string; frame: FixtureFrame; properties: Record<string, any> }[];
+} {
+  const ids = new Map<string, string>();
+  const nodeId = (p: Point) => {
+    const key = `${p.x},${p.y}`;
+    if (!ids.has(key)) ids.set(key, crypto.randomUUID());
+    return ids.get(key)!;
+  };
+  const pt = (p: Point): Point => ({ x: p.x + at.x, y: p.y + at.y });
+  return {
+    edges: fragment.edges.map(e => ({
+      ...e,
+      from: pt(e.from),
+      to: pt(e.to),
+      fromId: nodeId(e.from),
+      toId: nodeId(e.to),
+    })),
+    rooms: fragment.rooms.map(r => ({ ...r, polygon_coords: r.polygon_coords.map(([x, y]) => [x + at.x, y + at.y] as [number, number]) })),
+    fixtures: fragment.fixtures.map(f => ({ ...f, frame: { ...f.frame, cx: f.frame.cx + at.x, cy: f.frame.cy + at.y } })),
+  };
+}
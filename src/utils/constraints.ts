@@ -0,0 +1,214 @@
+/**
+ * Geometric constraints kept in Edge.properties.constraints, and the solver
+ * that keeps them satisfied while nodes move.
+ *
+ * The solver is a simple relaxation: each pass re-projects every constrained
+ * edge onto its constraint by moving whichever endpoints are free, keeping
+ * pinned nodes (the ones the user is dragging) where they are. A few passes
+ * settle chains of constrained walls such as a rectangle.
+ */
+
+import type { Edge, EdgeConstraint, EdgeConstraintType, Node, Point } from '../types';
+
+export const CONSTRAINT_TYPES: { id: EdgeConstraintType; label: string; icon: string; needsRef: boolean }[] = [
+  { id: 'horizontal', label: 'Horizontal', icon: '⇔', needsRef: false },
+  { id: 'vertical', label: 'Vertical', icon: '⇕', needsRef: false },
+  { id: 'perpendicular', label: 'Perpendicular to', icon: '⊥', needsRef: true },
+  { id: 'parallel', label: 'Parallel to', icon: '∥', needsRef: true },
+  { id: 'fixed_length', label: 'Fixed length', icon: '↦', needsRef: false },
+  { id: 'equal_length', label: 'Equal length to', icon: '=', needsRef: true },
+];
+
+/** Angle tolerance used when inferring constraints from traced walls */
+export const INFER_TOLERANCE_DEG = 2;
+
+const SOLVER_PASSES = 30;
+const SOLVER_EPSILON = 1e-9;
+
+/** Read an edge's constraints, dropping anything malformed */
+export function getEdgeConstraints(edge: Pick<Edge, 'properties'>): EdgeConstraint[] {
+  const list = edge.properties?.constraints;
+  if (!Array.isArray(list)) return [];
+  return list.filter((c: any): c is EdgeConstraint =>
+    !!c && CONSTRAINT_TYPES.some(t => t.id === c.type) &&
+    (!CONSTRAINT_TYPES.find(t => t.id === c.type)!.needsRef || typeof c.ref_edge_id === 'string') &&
+    (c.type !== 'fixed_length' || (typeof c.length === 'number' && c.length > 0))
+  );
+}
+
+/** Merge constraints into an edge's properties (an empty list removes the key) */
+export function constraintProperties(constraints: EdgeConstraint[], base: Record<string, any> = {}): Record<string, any> {
+  const { constraints: _previous, ...rest } = base;
+  return constraints.length > 0 ? { ...rest, constraints } : rest;
+}
+
+/** Add a constraint, replacing any existing one of the same type */
+export function withConstraint(constraints: EdgeConstraint[], constraint: EdgeConstraint): EdgeConstraint[] {
+  // Axis constraints exclude each other and anything relative to another wall's direction
+  const directional: EdgeConstraintType[] = ['horizontal', 'vertical', 'perpendicular', 'parallel'];
+  const lengthTypes: EdgeConstraintType[] = ['fixed_length', 'equal_length'];
+  const clashes = directional.includes(constraint.type) ? directional : lengthTypes;
+  return [...constraints.filter(c => !clashes.includes(c.type)), constraint];
+}
+
+export function withoutConstraint(constraints: EdgeConstraint[], type: EdgeConstraintType): EdgeConstraint[] {
+  return constraints.filter(c => c.type !== type);
+}
+
+/** Follow a change of plan units in which every coordinate was multiplied by `factor` */
+export function rescaleConstraints(constraints: EdgeConstraint[], factor: number): EdgeConstraint[] {
+  return constraints.map(c => (c.type === 'fixed_length' && c.length !== undefined ? { ...c, length: c.length * factor } : c));
+}
+
+/**
+ * Move free nodes until every constraint holds. `positions` is updated in
+ * place; nodes in `pinned` never move. Returns the IDs of nodes that moved.
+ */
+export function solveConstraints(
+  positions: Map<string, Point>,
+  edges: Edge[],
+  pinned: Set<string>,
+): Set<string> {
+  const constrained = edges
+    .map(edge => ({ edge, constraints: getEdgeConstraints(edge) }))
+    .filter(c => c.constraints.length > 0);
+  const moved = new Set<string>();
+  if (constrained.length === 0) return moved;
+  const edgeById = new Map(edges.map(e => [e.id, e]));
+
+  const direction = (edge: Edge): Point | null => {
+    const a = positions.get(edge.source), b = positions.get(edge.target);
+    if (!a || !b) return null;
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    return len > SOLVER_EPSILON ? { x: (b.x - a.x) / len, y: (b.y - a.y) / len } : null;
+  };
+  const length = (edge: Edge): number | null => {
+    const a = positions.get(edge.source), b = positions.get(edge.target);
+    return a && b ? Math.hypot(b.x - a.x, b.y - a.y) : null;
+  };
+
+  /** Put edge endpoints at direction `dir` and length `len`, moving only free nodes */
+  const place = (edge: Edge, dir: Point, len: number): number => {
+    const a = positions.get(edge.source)!, b = positions.get(edge.target)!;
+    const aFree = !pinned.has(edge.source), bFree = !pinned.has(edge.target);
+    let na = a, nb = b;
+    if (aFree && bFree) {
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      na = { x: mid.x - dir.x * len / 2, y: mid.y - dir.y * len / 2 };
+      nb = { x: mid.x + dir.x * len / 2, y: mid.y + dir.y * len / 2 };
+    } else if (bFree) {
+      nb = { x: a.x + dir.x * len, y: a.y + dir.y * len };
+    } else if (aFree) {
+      na = { x: b.x - dir.x * len, y: b.y - dir.y * len };
+    } else {
+      return 0;
+    }
+    const shift = Math.hypot(na.x - a.x, na.y - a.y) + Math.hypot(nb.x - b.x, nb.y - b.y);
+    if (shift > SOLVER_EPSILON) {
+      positions.set(edge.source, na);
+      positions.set(edge.target, nb);
+      if (na !== a) moved.add(edge.source);
+      if (nb !== b) moved.add(edge.target);
+    }
+    return shift;
+  };
+
+  /** Unit vector along `target` pointing the same way as `current` */
+  const aligned = (target: Point, current: Point): Point =>
+    target.x * current.x + target.y * current.y < 0 ? { x: -target.x, y: -target.y } : target;
+
+  for (let pass = 0; pass < SOLVER_PASSES; pass++) {
+    let totalShift = 0;
+    for (const { edge, constraints } of constrained) {
+      for (const c of constraints) {
+        const dir = direction(edge);
+        const len = length(edge);
+        if (!dir || len === null) continue;
+        const ref = c.ref_edge_id ? edgeById.get(c.ref_edge_id) : undefined;
+        const refDir = ref ? direction(ref) : null;
+        switch (c.type) {
+          case 'horizontal':
+            totalShift += place(edge, aligned({ x: 1, y: 0 }, dir), len);
+            break;
+          case 'vertical':
+            totalShift += place(edge, aligned({ x: 0, y: 1 }, dir), len);
+            break;
+          case 'parallel':
+            if (refDir) totalShift += place(edge, aligned(refDir, dir), len);
+            break;
+          case 'perpendicular':
+            if (refDir) totalShift += place(edge, aligned({ x: -refDir.y, y: refDir.x }, dir), len);
+            break;
+          case 'fixed_length':
+            totalShift += place(edge, dir, c.length!);
+            break;
+          case 'equal_length': {
+            const refLen = ref ? length(ref) : null;
+            if (refLen) totalShift += place(edge, dir, refLen);
+            break;
+          }
+        }
+      }
+    }
+    if (totalShift < SOLVER_EPSILON) break;
+  }
+  return moved;
+}
+
+/**
+ * Infer constraints for walls that are already nearly square: walls within
+ * `toleranceDeg` of an axis become horizontal/vertical, and other walls
+ * meeting at a node within tolerance of 90° become perpendicular. Existing
+ * constraints are kept. Returns only the edges whose constraints changed.
+ */
+export function inferConstraints(
+  nodes: Node[],
+  edges: Edge[],
+  toleranceDeg = INFER_TOLERANCE_DEG,
+): Map<string, EdgeConstraint[]> {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const tol = (toleranceDeg * Math.PI) / 180;
+  const walls = edges.filter(e => e.type === 'wall');
+  const angleOf = (edge: Edge): number | null => {
+    const a = nodeById.get(edge.source), b = nodeById.get(edge.target);
+    if (!a || !b || Math.hypot(b.x - a.x, b.y - a.y) < SOLVER_EPSILON) return null;
+    return Math.atan2(b.y - a.y, b.x - a.x);
+  };
+  /** Distance of an angle from the nearest multiple of `period` */
+  const offBy = (angle: number, period: number) => {
+    const r = ((angle % period) + period) % period;
+    return Math.min(r, period - r);
+  };
+
+  const result = new Map<string, EdgeConstraint[]>();
+  const current = (edge: Edge) => result.get(edge.id) ?? getEdgeConstraints(edge);
+  const hasDirectional = (list: EdgeConstraint[]) =>
+    list.some(c => c.type === 'horizontal' || c.type === 'vertical' || c.type === 'perpendicular' || c.type === 'parallel');
+
+  for (const wall of walls) {
+    const angle = angleOf(wall);
+    if (angle === null || hasDirectional(current(wall))) continue;
+    if (offBy(angle, Math.PI) < tol) {
+      result.set(wall.id, withConstraint(current(wall), { type: 'horizontal' }));
+    } else if (offBy(angle - Math.PI / 2, Math.PI) < tol) {
+      result.set(wall.id, withConstraint(current(wall), { type: 'vertical' }));
+    }
+  }
+
+  // Skewed corners: tie the second wall at each near-right-angle junction to the first
+  for (const wall of walls) {
+    const angle = angleOf(wall);
+    if (angle === null || hasDirectional(current(wall))) continue;
+    const neighbour = walls.find(other => {
+      if (other.id === wall.id) return false;
+      if (current(other).some(c => c.ref_edge_id === wall.id)) return false;
+      const shared = [other.source, other.target].some(id => id === wall.source || id === wall.target);
+      const otherAngle = angleOf(other);
+      return shared && otherAngle !== null && offBy(angle - otherAngle - Math.PI / 2, Math.PI) < tol;
+    });
+    if (neighbour) {
+      result.set(wall.id, withConstraint(current(wall), { type: 'perpendicular', ref_edge_id: neighbour.id }));
+    }
+  }
+  return result;
+}
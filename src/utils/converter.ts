@@ -2,17 +2,21 @@
  * Convert backend API data to frontend FloorPlan format
  */
 
-import type { FloorPlan, Node, Edge, EdgeType, Room, Fixture } from '../types';
+import type { FloorPlan, Node, Edge, EdgeType, Room, Fixture, Annotation, AnnotationType } from '../types';
 import type { FloorPlanDetail } from '../api/client';
+import { normaliseLayers } from './layers';
+import { normaliseLevels } from './levels';
+import { normaliseUnderlay } from './underlay';
+import { isOpeningKind } from './openings';
 
 /**
- * Map API edge type to frontend EdgeType
+ * Map API edge type to frontend EdgeType. Types the editor doesn't know are
+ * kept as they are, so saving the plan back doesn't turn them into walls.
  */
 function mapEdgeType(apiType: string): EdgeType {
   const normalized = apiType.toLowerCase();
-  if (normalized === 'door') return 'door';
-  if (normalized === 'window') return 'window';
-  return 'wall';
+  if (normalized === 'wall' || normalized === 'door' || normalized === 'window' || isOpeningKind(normalized)) return normalized;
+  return apiType;
 }
 
 /**
@@ -44,6 +48,7 @@ export function convertApiToFloorPlan(apiPlan: FloorPlanDetail): FloorPlan {
     id: room.id,
     polygon_coords: room.polygon_coords,
     tags: room.tags,
+    properties: room.properties,
   }));
 
   // Convert fixtures
@@ -54,5 +59,16 @@ export function convertApiToFloorPlan(apiPlan: FloorPlanDetail): FloorPlan {
     properties: fixture.properties,
   }));
 
-  return { nodes, edges, rooms, fixtures, is_calibrated: apiPlan.is_calibrated };
+  // Convert annotations (plans saved before annotations existed have none)
+  const annotations: Annotation[] = (apiPlan.annotations ?? []).map(annotation => ({
+    id: annotation.id,
+    annotation_type: annotation.annotation_type as AnnotationType,
+    properties: annotation.properties ?? {},
+  }));
+
+  const layers = normaliseLayers(apiPlan.settings?.layers);
+  const underlay = normaliseUnderlay(apiPlan.settings?.underlay);
+  const levels = normaliseLevels(apiPlan.settings?.levels);
+
+  return { nodes, edges, rooms, fixtures, annotations, layers, underlay, levels, is_calibrated: apiPlan.is_calibrated };
 }
@@ -0,0 +1,376 @@
+/**
+ * Dimension annotations kept in FloorPlan.annotations.
+ *
+ * A dimension stores the IDs of the nodes it measures rather than
+ * coordinates, so it follows the walls when they move. Its geometry is
+ * derived from the current node positions every time it is drawn; a
+ * dimension whose nodes no longer exist is simply not drawn.
+ *
+ * Auto-dimension generates chains along each side of the outer walls and a
+ * width and depth across every room; those carry `auto` and are regenerated
+ * whenever the geometry changes. Only the ones that no longer draw the same
+ * are replaced.
+ */
+
+import type { Annotation, DimensionKind, DimensionProperties, Edge, FloorPlan, Node, Point, Room } from '../types';
+import { NOMINAL_PX_PER_M } from './clipboard';
+import { getNoteProperties } from './notes';
+import { centroid } from './roomDetection';
+
+export const DIMENSION_KINDS: { id: DimensionKind; label: string; title: string }[] = [
+  { id: 'linear', label: '↔ Linear', title: 'Horizontal or vertical distance between two nodes' },
+  { id: 'aligned', label: '⤢ Aligned', title: 'True distance between two nodes' },
+  { id: 'chained', label: '⇹ Chained', title: 'Consecutive distances between several nodes' },
+  { id: 'angular', label: '∠ Angular', title: 'Angle at a vertex: pick an arm, the vertex, then the other arm' },
+];
+
+const KINDS = DIMENSION_KINDS.map(k => k.id);
+
+/** Number of nodes a dimension of `kind` measures; chained ones take any number from 2 */
+export function dimensionNodeCount(kind: DimensionKind): { min: number; max: number } {
+  if (kind === 'angular') return { min: 3, max: 3 };
+  if (kind === 'chained') return { min: 2, max: Infinity };
+  return { min: 2, max: 2 };
+}
+
+/** Read a dimension annotation's settings, or null when they are unusable */
+export function getDimensionProperties(annotation: Pick<Annotation, 'annotation_type' | 'properties'>): DimensionProperties | null {
+  if (annotation.annotation_type !== 'dimension') return null;
+  const p = annotation.properties ?? {};
+  if (!KINDS.includes(p.kind) || !Array.isArray(p.node_ids)) return null;
+  const onRoom = p.kind === 'linear' && typeof p.room_id === 'string';
+  const { min, max } = dimensionNodeCount(p.kind);
+  if (!onRoom && (p.node_ids.length < min || p.node_ids.length > max)) return null;
+  return {
+    kind: p.kind,
+    node_ids: p.node_ids,
+    offset: Number(p.offset) || 0,
+    ...(p.axis === 'horizontal' || p.axis === 'vertical' ? { axis: p.axis } : {}),
+    ...(onRoom ? { room_id: p.room_id } : {}),
+    ...(p.auto === true ? { auto: true } : {}),
+  };
+}
+
+/** Follow a change of plan units in which every coordinate was multiplied by `factor` */
+export function rescaleDimension(props: DimensionProperties, factor: number): DimensionProperties {
+  return { ...props, offset: props.offset * factor };
+}
+
+/** Measured points and dimension line of a linear, aligned or chained dimension */
+export interface LinearDimensionGeometry {
+  kind: 'linear' | 'aligned' | 'chained';
+  /** Unit direction the distances are measured along */
+  dir: Point;
+  /** Unit normal; the dimension line sits `offset` along it from the first node */
+  normal: Point;
+  /** Measured points, sorted along `dir` */
+  points: Point[];
+  /** Each point projected onto the dimension line */
+  feet: Point[];
+  /** Distances between consecutive feet */
+  values: number[];
+}
+
+/** Arc of an angular dimension */
+export interface AngularDimensionGeometry {
+  kind: 'angular';
+  vertex: Point;
+  arms: [Point, Point];
+  radius: number;
+  /** Arc start angle and signed sweep, in radians */
+  start: number;
+  sweep: number;
+  /** Angle in degrees */
+  value: number;
+}
+
+export type DimensionGeometry = LinearDimensionGeometry | AngularDimensionGeometry;
+
+/** Direction measured along: the axis when set, else the first → last node line */
+function measureDirection(kind: DimensionKind, axis: DimensionProperties['axis'], points: Point[]): Point {
+  if (axis === 'vertical') return { x: 0, y: 1 };
+  if (axis === 'horizontal' || kind === 'linear') return { x: 1, y: 0 };
+  const a = points[0], b = points[points.length - 1];
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  return len < 1e-9 ? { x: 1, y: 0 } : { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+}
+
+/**
+ * Geometry of a dimension over the given measured points (in node_ids order).
+ * Used both for stored dimensions and for the preview while placing one.
+ */
+export function dimensionGeometryFor(props: Omit<DimensionProperties, 'node_ids'>, measured: Point[]): DimensionGeometry | null {
+  if (props.kind === 'angular') {
+    if (measured.length !== 3) return null;
+    const [a, vertex, b] = measured;
+    if (Math.hypot(a.x - vertex.x, a.y - vertex.y) < 1e-9 || Math.hypot(b.x - vertex.x, b.y - vertex.y) < 1e-9) return null;
+    const start = Math.atan2(a.y - vertex.y, a.x - vertex.x);
+    let sweep = Math.atan2(b.y - vertex.y, b.x - vertex.x) - start;
+    // Always dimension the angle below 180°
+    while (sweep > Math.PI) sweep -= 2 * Math.PI;
+    while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+    return {
+      kind: 'angular',
+      vertex,
+      arms: [a, b],
+      radius: Math.abs(props.offset),
+      start,
+      sweep,
+      value: (Math.abs(sweep) * 180) / Math.PI,
+    };
+  }
+  if (measured.length < 2) return null;
+  const dir = measureDirection(props.kind, props.axis, measured);
+  const normal = { x: -dir.y, y: dir.x };
+  const origin = measured[0];
+  const along = (p: Point) => (p.x - origin.x) * dir.x + (p.y - origin.y) * dir.y;
+  const points = [...measured].sort((p, q) => along(p) - along(q));
+  const base = { x: origin.x + normal.x * props.offset, y: origin.y + normal.y * props.offset };
+  const feet = points.map(p => ({ x: base.x + dir.x * along(p), y: base.y + dir.y * along(p) }));
+  const values = feet.slice(1).map((f, i) => Math.hypot(f.x - feet[i].x, f.y - feet[i].y));
+  return { kind: props.kind, dir, normal, points, feet, values };
+}
+
+/**
+ * Geometry of a stored dimension at the current node positions (or room
+ * outline), or null if a node or the room is gone
+ */
+export function dimensionGeometry(props: DimensionProperties, nodeById: Map<string, Node>, rooms: Room[] = []): DimensionGeometry | null {
+  if (props.room_id !== undefined) {
+    const room = rooms.find(r => r.id === props.room_id);
+    if (!room || room.polygon_coords.length < 3) return null;
+    // The room's extreme corners along the measured axis
+    const vertices = room.polygon_coords.map(([x, y]) => ({ x, y }));
+    const along = (p: Point) => props.axis === 'vertical' ? p.y : p.x;
+    const lo = vertices.reduce((a, b) => along(b) < along(a) ? b : a);
+    const hi = vertices.reduce((a, b) => along(b) > along(a) ? b : a);
+    return dimensionGeometryFor(props, [lo, hi]);
+  }
+  const measured: Point[] = [];
+  for (const id of props.node_ids) {
+    const node = nodeById.get(id);
+    if (!node) return null;
+    measured.push({ x: node.x, y: node.y });
+  }
+  return dimensionGeometryFor(props, measured);
+}
+
+/** Whether two dimensions draw the same: same kind, and measured points and line (or arc) within `tolerance` */
+export function sameDimensionGeometry(a: DimensionGeometry, b: DimensionGeometry, tolerance: number): boolean {
+  const near = (p: Point, q: Point) => Math.abs(p.x - q.x) <= tolerance && Math.abs(p.y - q.y) <= tolerance;
+  if (a.kind === 'angular' || b.kind === 'angular') {
+    return a.kind === 'angular' && b.kind === 'angular' &&
+      near(a.vertex, b.vertex) && near(a.arms[0], b.arms[0]) && near(a.arms[1], b.arms[1]) &&
+      Math.abs(a.radius - b.radius) <= tolerance;
+  }
+  return a.kind === b.kind && a.points.length === b.points.length &&
+    a.points.every((p, i) => near(p, b.points[i])) && a.feet.every((f, i) => near(f, b.feet[i]));
+}
+
+/**
+ * Axis for a linear dimension being dragged out to `cursor`: pulling it above
+ * or below the nodes measures horizontally, to either side vertically
+ */
+export function linearAxisAt(measured: Point[], cursor: Point): 'horizontal' | 'vertical' {
+  const xs = measured.map(p => p.x), ys = measured.map(p => p.y);
+  const outX = Math.max(0, Math.min(...xs) - cursor.x, cursor.x - Math.max(...xs));
+  const outY = Math.max(0, Math.min(...ys) - cursor.y, cursor.y - Math.max(...ys));
+  return outY >= outX ? 'horizontal' : 'vertical';
+}
+
+/** Offset that puts the dimension line (or angular arc) through `cursor` */
+export function dimensionOffsetAt(props: Omit<DimensionProperties, 'node_ids' | 'offset'>, measured: Point[], cursor: Point): number {
+  if (props.kind === 'angular') {
+    const vertex = measured[1];
+    return vertex ? Math.hypot(cursor.x - vertex.x, cursor.y - vertex.y) : 0;
+  }
+  if (measured.length === 0) return 0;
+  const dir = measureDirection(props.kind, props.axis, measured);
+  return (cursor.x - measured[0].x) * -dir.y + (cursor.y - measured[0].y) * dir.x;
+}
+
+/** Gaps between the outer walls and the first and second dimension rows, in metres */
+const AUTO_ROW_GAPS_M = [0.6, 1.2];
+
+/** Walls within this many degrees of an axis count as running along it */
+const AUTO_AXIS_TOLERANCE_DEG = 5;
+
+/** Room dimensions keep this far from parallel dimension lines and from labels, in metres */
+const AUTO_CLEARANCE_M = 0.3;
+
+/** Where a room dimension may go, as a fraction of the room's extent across it; earlier is preferred */
+const ROOM_DIMENSION_STATIONS = [0.25, 0.75, 0.125, 0.375, 0.625, 0.875];
+
+/** Distance from `p` to the segment a–b */
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 < 1e-18 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2));
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
+
+/**
+ * Whether the dimension line a–b runs within `clearance` of the segment c–d
+ * alongside it. Lines that cross at an angle are fine; dimensions do that.
+ */
+function crowdsLine(a: Point, b: Point, c: Point, d: Point, clearance: number): boolean {
+  const len = Math.hypot(b.x - a.x, b.y - a.y), other = Math.hypot(d.x - c.x, d.y - c.y);
+  if (len < 1e-12 || other < 1e-12) return false;
+  const dir = { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+  const sin = Math.abs(dir.x * (d.y - c.y) - dir.y * (d.x - c.x)) / other;
+  if (sin > Math.sin((AUTO_AXIS_TOLERANCE_DEG * Math.PI) / 180)) return false;
+  const along = (p: Point) => (p.x - a.x) * dir.x + (p.y - a.y) * dir.y;
+  const [lo, hi] = [along(c), along(d)].sort((x, y) => x - y);
+  if (hi < 0 || lo > len) return false;
+  return Math.abs((c.x - a.x) * -dir.y + (c.y - a.y) * dir.x) < clearance;
+}
+
+/**
+ * Exterior and room dimensions for the plan:
+ * - one chain per side of the outer walls (`is_inner === false`), through every
+ *   wall corner and opening edge on that side, in the first row
+ * - the overall length of each side in the second row
+ * - the width and depth of every room, a quarter of the way in from its corner
+ */
+export function autoDimensions(plan: FloorPlan): DimensionProperties[] {
+  const unit = plan.is_calibrated ? 1 : NOMINAL_PX_PER_M;
+  const [firstRow, secondRow] = AUTO_ROW_GAPS_M.map(g => g * unit);
+  const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+  const outer = plan.edges.filter(e => e.is_inner === false && nodeById.has(e.source) && nodeById.has(e.target));
+  const result: DimensionProperties[] = [];
+
+  const outerNodes = Array.from(new Set(outer.flatMap(e => [e.source, e.target]))).map(id => nodeById.get(id)!);
+  if (outerNodes.length >= 2) {
+    const xs = outerNodes.map(n => n.x), ys = outerNodes.map(n => n.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+    const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2;
+    const tan = Math.tan((AUTO_AXIS_TOLERANCE_DEG * Math.PI) / 180);
+    const runs = (e: Edge, axis: 'horizontal' | 'vertical') => {
+      const a = nodeById.get(e.source)!, b = nodeById.get(e.target)!;
+      const dx = Math.abs(b.x - a.x), dy = Math.abs(b.y - a.y);
+      return axis === 'horizontal' ? dy <= dx * tan && dx > 0 : dx <= dy * tan && dy > 0;
+    };
+    const mid = (e: Edge) => {
+      const a = nodeById.get(e.source)!, b = nodeById.get(e.target)!;
+      return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    };
+
+    const sides: { axis: 'horizontal' | 'vertical'; onSide: (p: Point) => boolean; line: number }[] = [
+      { axis: 'horizontal', onSide: p => p.y < cy, line: -1 },
+      { axis: 'horizontal', onSide: p => p.y >= cy, line: 1 },
+      { axis: 'vertical', onSide: p => p.x < cx, line: -1 },
+      { axis: 'vertical', onSide: p => p.x >= cx, line: 1 },
+    ];
+    for (const side of sides) {
+      const horizontal = side.axis === 'horizontal';
+      const along = (n: Node) => horizontal ? n.x : n.y;
+      // Dimension lines run outside the envelope: `line` picks the far side
+      const rowAt = (gap: number) => horizontal
+        ? (side.line < 0 ? minY - gap : maxY + gap)
+        : (side.line < 0 ? minX - gap : maxX + gap);
+      // Offsets are measured along the normal (0, 1) or (-1, 0) from the first node
+      const offsetFor = (first: Node, row: number) => horizontal ? row - first.y : first.x - row;
+
+      const edges = outer.filter(e => runs(e, side.axis) && side.onSide(mid(e)));
+      const stations: Node[] = [];
+      for (const n of Array.from(new Set(edges.flatMap(e => [e.source, e.target]))).map(id => nodeById.get(id)!).sort((a, b) => along(a) - along(b))) {
+        const prev = stations[stations.length - 1];
+        if (!prev || along(n) - along(prev) > 1e-3 * unit) stations.push(n);
+      }
+      const lo = outerNodes.reduce((a, b) => along(b) < along(a) ? b : a);
+      const hi = outerNodes.reduce((a, b) => along(b) > along(a) ? b : a);
+      const hasChain = stations.length >= 3;
+      if (hasChain) {
+        result.push({
+          kind: 'chained',
+          node_ids: stations.map(n => n.id),
+          offset: offsetFor(stations[0], rowAt(firstRow)),
+          axis: side.axis,
+          auto: true,
+        });
+      }
+      if (stations.length >= 2 && along(hi) - along(lo) > 1e-3 * unit) {
+        result.push({
+          kind: 'linear',
+          node_ids: [lo.id, hi.id],
+          offset: offsetFor(lo, rowAt(hasChain ? secondRow : firstRow)),
+          axis: side.axis,
+          auto: true,
+        });
+      }
+    }
+  }
+
+  // Room dimensions stay clear of the other dimensions and of room labels and notes
+  const clearance = AUTO_CLEARANCE_M * unit;
+  const lines: [Point, Point][] = [];
+  for (const annotation of plan.annotations ?? []) {
+    const props = getDimensionProperties(annotation);
+    const geometry = props && !props.auto && dimensionGeometry(props, nodeById, plan.rooms);
+    if (geometry && geometry.kind !== 'angular') lines.push([geometry.feet[0], geometry.feet[geometry.feet.length - 1]]);
+  }
+  const labels: Point[] = [
+    ...(plan.rooms ?? []).filter(r => r.polygon_coords.length >= 3).map(r => centroid(r.polygon_coords.map(([x, y]) => ({ x, y })))),
+    ...(plan.annotations ?? []).flatMap(a => {
+      const note = getNoteProperties(a);
+      return note ? [{ x: note.x, y: note.y }] : [];
+    }),
+  ];
+  const place = (props: DimensionProperties, rooms: Room[]) => {
+    const geometry = dimensionGeometry(props, nodeById, rooms);
+    if (!geometry || geometry.kind === 'angular') return null;
+    const [a, b] = [geometry.feet[0], geometry.feet[geometry.feet.length - 1]];
+    const clear = !lines.some(([c, d]) => crowdsLine(a, b, c, d, clearance)) &&
+      !labels.some(p => distanceToSegment(p, a, b) < clearance);
+    return { clear, line: [a, b] as [Point, Point] };
+  };
+
+  for (const room of plan.rooms ?? []) {
+    if (room.polygon_coords.length < 3) continue;
+    const xs = room.polygon_coords.map(([x]) => x), ys = room.polygon_coords.map(([, y]) => y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+    // Offsets are from the extreme corner the dimension starts at (see dimensionGeometry)
+    const left = room.polygon_coords.reduce((a, b) => b[0] < a[0] ? b : a);
+    const top = room.polygon_coords.reduce((a, b) => b[1] < a[1] ? b : a);
+    const across = {
+      horizontal: (t: number) => minY + (maxY - minY) * t - left[1],
+      vertical: (t: number) => top[0] - (minX + (maxX - minX) * t),
+    };
+    for (const axis of ['horizontal', 'vertical'] as const) {
+      const candidates = ROOM_DIMENSION_STATIONS.map((t): DimensionProperties => ({
+        kind: 'linear', node_ids: [], room_id: room.id, axis, offset: across[axis](t), auto: true,
+      }));
+      // The first station that is clear, or the preferred one when none is
+      const placed = candidates.map(c => ({ props: c, at: place(c, [room]) })).find(c => c.at?.clear)
+        ?? { props: candidates[0], at: place(candidates[0], [room]) };
+      if (placed.at) lines.push(placed.at.line);
+      result.push(placed.props);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split the change from the plan's current generated dimensions to `next` into
+ * the annotations to delete and the dimensions to create. Dimensions are
+ * compared by what they draw at the current geometry, so one the server
+ * returns with its properties written differently still counts as the same.
+ */
+export function diffAutoDimensions(plan: FloorPlan, next: DimensionProperties[]): { created: DimensionProperties[]; deleted: Annotation[] } {
+  const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+  const tolerance = 1e-3 * (plan.is_calibrated ? 1 : NOMINAL_PX_PER_M);
+  const current = (plan.annotations ?? []).flatMap(annotation => {
+    const props = getDimensionProperties(annotation);
+    return props?.auto ? [{ annotation, geometry: dimensionGeometry(props, nodeById, plan.rooms) }] : [];
+  });
+  const kept = new Set<Annotation>();
+  const created = next.filter(props => {
+    const geometry = dimensionGeometry(props, nodeById, plan.rooms);
+    const same = geometry && current.find(c =>
+      !kept.has(c.annotation) && !!c.geometry && sameDimensionGeometry(c.geometry, geometry, tolerance));
+    if (!same) return true;
+    kept.add(same.annotation);
+    return false;
+  });
+  return { created, deleted: current.filter(c => !kept.has(c.annotation)).map(c => c.annotation) };
+}
@@ -0,0 +1,55 @@
+/**
+ * Door settings kept in Edge.properties.
+ *
+ * Door edges carry hinge side, swing direction, swing angle and leaf type as
+ * plain properties. Edges saved before these existed (or by the backend
+ * detector) fall back to DEFAULT_DOOR, which matches the old fixed symbol:
+ * hinged at the source node, opening to the right.
+ */
+
+import type { DoorHinge, DoorLeaf, DoorProperties, DoorSwing, Edge } from '../types';
+
+export const DEFAULT_DOOR: DoorProperties = {
+  hinge: 'start',
+  swing: 'right',
+  swing_angle: 90,
+  leaf: 'single',
+};
+
+export const DOOR_LEAVES: { id: DoorLeaf; label: string }[] = [
+  { id: 'single', label: 'Single' },
+  { id: 'double', label: 'Double' },
+  { id: 'sliding', label: 'Sliding' },
+  { id: 'pocket', label: 'Pocket' },
+];
+
+/** Swing angles offered in the UI, in degrees */
+export const DOOR_SWING_ANGLES = [90, 135, 180];
+
+const HINGES: DoorHinge[] = ['start', 'end'];
+const SWINGS: DoorSwing[] = ['left', 'right'];
+
+/** Read a door's settings, filling anything missing or invalid from DEFAULT_DOOR */
+export function getDoorProperties(edge: Pick<Edge, 'properties'>): DoorProperties {
+  const p = edge.properties ?? {};
+  const angle = Number(p.swing_angle);
+  return {
+    hinge: HINGES.includes(p.hinge) ? p.hinge : DEFAULT_DOOR.hinge,
+    swing: SWINGS.includes(p.swing) ? p.swing : DEFAULT_DOOR.swing,
+    swing_angle: angle > 0 && angle <= 180 ? angle : DEFAULT_DOOR.swing_angle,
+    leaf: DOOR_LEAVES.some(l => l.id === p.leaf) ? p.leaf : DEFAULT_DOOR.leaf,
+  };
+}
+
+/** Merge door settings into an edge's properties */
+export function doorProperties(door: DoorProperties, base: Record<string, any> = {}): Record<string, any> {
+  return { ...base, ...door };
+}
+
+export function flipDoorHinge(door: DoorProperties): DoorProperties {
+  return { ...door, hinge: door.hinge === 'start' ? 'end' : 'start' };
+}
+
+export function flipDoorSwing(door: DoorProperties): DoorProperties {
+  return { ...door, swing: door.swing === 'left' ? 'right' : 'left' };
+}
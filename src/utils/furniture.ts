@@ -0,0 +1,160 @@
+/**
+ * Furniture catalogue and fixture frame geometry.
+ *
+ * Free-standing fixtures are described by a frame (centre, width, depth,
+ * rotation) kept in Fixture.properties. polygon_coords is always derived from
+ * the frame so that anything reading only the polygon (bounds, backend) still
+ * sees the right footprint.
+ */
+
+import type { Fixture, FixtureFrame, FurnitureCategory, FurnitureItem } from '../types';
+import { CIRCULATION_ITEMS } from './circulation';
+
+/** Rotation handle and the R shortcut turn fixtures in steps of this many degrees */
+export const ROTATION_STEP_DEG = 15;
+
+/** Default sizes are in metres (width × depth as seen from above) */
+export const FURNITURE_CATALOG: FurnitureCategory[] = [
+  {
+    id: 'bedroom',
+    label: 'Bedroom',
+    items: [
+      { type: 'bed_double', label: 'Double bed', icon: '🛏️', width: 1.6, depth: 2.0 },
+      { type: 'bed_single', label: 'Single bed', icon: '🛏️', width: 0.9, depth: 2.0 },
+      { type: 'wardrobe', label: 'Wardrobe', icon: '🚪', width: 1.2, depth: 0.6 },
+      { type: 'nightstand', label: 'Nightstand', icon: '▫️', width: 0.5, depth: 0.4 },
+    ],
+  },
+  {
+    id: 'living',
+    label: 'Living',
+    items: [
+      { type: 'sofa', label: 'Sofa', icon: '🛋️', width: 2.0, depth: 0.9 },
+      { type: 'armchair', label: 'Armchair', icon: '💺', width: 0.8, depth: 0.8 },
+      { type: 'coffee_table', label: 'Coffee table', icon: '▭', width: 1.0, depth: 0.6 },
+      { type: 'tv_unit', label: 'TV unit', icon: '📺', width: 1.6, depth: 0.4 },
+    ],
+  },
+  {
+    id: 'dining',
+    label: 'Dining',
+    items: [
+      { type: 'dining_table', label: 'Dining table', icon: '🍽️', width: 1.6, depth: 0.9 },
+      { type: 'chair', label: 'Chair', icon: '🪑', width: 0.45, depth: 0.5 },
+    ],
+  },
+  {
+    id: 'kitchen',
+    label: 'Kitchen',
+    items: [
+      { type: 'stove', label: 'Stove', icon: '🔥', width: 0.6, depth: 0.6 },
+      { type: 'fridge', label: 'Fridge', icon: '🧊', width: 0.6, depth: 0.65 },
+      { type: 'kitchen_sink', label: 'Kitchen sink', icon: '🚰', width: 0.8, depth: 0.6 },
+      { type: 'counter', label: 'Counter', icon: '▬', width: 1.2, depth: 0.6 },
+      { type: 'dishwasher', label: 'Dishwasher', icon: '🫧', width: 0.6, depth: 0.6 },
+    ],
+  },
+  {
+    id: 'bathroom',
+    label: 'Bathroom',
+    items: [
+      { type: 'toilet', label: 'Toilet', icon: '🚽', width: 0.4, depth: 0.7 },
+      { type: 'sink', label: 'Sink', icon: '🚰', width: 0.6, depth: 0.45 },
+      { type: 'shower', label: 'Shower', icon: '🚿', width: 0.9, depth: 0.9 },
+      { type: 'bathtub', label: 'Bathtub', icon: '🛁', width: 1.7, depth: 0.75 },
+      { type: 'washing_machine', label: 'Washing machine', icon: '🌀', width: 0.6, depth: 0.6 },
+    ],
+  },
+  {
+    id: 'office',
+    label: 'Office',
+    items: [
+      { type: 'desk', label: 'Desk', icon: '🖥️', width: 1.4, depth: 0.7 },
+      { type: 'office_chair', label: 'Office chair', icon: '🪑', width: 0.6, depth: 0.6 },
+      { type: 'bookshelf', label: 'Bookshelf', icon: '📚', width: 0.8, depth: 0.3 },
+    ],
+  },
+  {
+    // Parametric: sizes follow the stair/ramp settings, see utils/circulation.ts
+    id: 'circulation',
+    label: 'Circulation',
+    items: CIRCULATION_ITEMS,
+  },
+  {
+    // Load-bearing; snapped to wall junctions, see utils/structure.ts
+    id: 'structure',
+    label: 'Structure',
+    items: [
+      { type: 'column_rect', label: 'Column', icon: '◼️', width: 0.3, depth: 0.3 },
+      { type: 'column_round', label: 'Round column', icon: '⚫', width: 0.3, depth: 0.3 },
+    ],
+  },
+];
+
+export function findFurnitureItem(type: string): FurnitureItem | undefined {
+  for (const category of FURNITURE_CATALOG) {
+    const item = category.items.find(i => i.type === type);
+    if (item) return item;
+  }
+  return undefined;
+}
+
+/** Corners of the frame's rectangle, clockwise from the local top-left */
+export function fixturePolygon(frame: FixtureFrame): [number, number][] {
+  const rad = (frame.rotation * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  const hw = frame.width / 2, hd = frame.depth / 2;
+  return ([[-hw, -hd], [hw, -hd], [hw, hd], [-hw, hd]] as [number, number][]).map(([x, y]) => [
+    frame.cx + x * cos - y * sin,
+    frame.cy + x * sin + y * cos,
+  ]);
+}
+
+/**
+ * Read a fixture's frame from its properties, falling back to the polygon
+ * (first side gives the orientation) for fixtures that don't carry one
+ */
+export function getFixtureFrame(fixture: Fixture): FixtureFrame {
+  const p = fixture.properties ?? {};
+  if ([p.center_x, p.center_y, p.width, p.depth].every(v => typeof v === 'number')) {
+    return { cx: p.center_x, cy: p.center_y, width: p.width, depth: p.depth, rotation: p.rotation ?? 0 };
+  }
+  const pts = fixture.polygon_coords;
+  if (pts.length < 2) return { cx: pts[0]?.[0] ?? 0, cy: pts[0]?.[1] ?? 0, width: 0, depth: 0, rotation: 0 };
+  const cx = pts.reduce((acc, [x]) => acc + x, 0) / pts.length;
+  const cy = pts.reduce((acc, [, y]) => acc + y, 0) / pts.length;
+  const [x0, y0] = pts[0], [x1, y1] = pts[1];
+  const angle = Math.atan2(y1 - y0, x1 - x0);
+  const ux = Math.cos(angle), uy = Math.sin(angle);
+  // Extents along the first side and its perpendicular
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+  for (const [x, y] of pts) {
+    const u = (x - cx) * ux + (y - cy) * uy;
+    const v = -(x - cx) * uy + (y - cy) * ux;
+    minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+  }
+  return { cx, cy, width: maxU - minU, depth: maxV - minV, rotation: (angle * 180) / Math.PI };
+}
+
+/** Merge a frame into a fixture's properties */
+export function fixtureProperties(frame: FixtureFrame, base: Record<string, any> = {}): Record<string, any> {
+  return {
+    ...base,
+    center_x: frame.cx,
+    center_y: frame.cy,
+    width: frame.width,
+    depth: frame.depth,
+    rotation: frame.rotation,
+  };
+}
+
+/** Follow a change of plan units in which every coordinate was multiplied by `factor` */
+export function rescaleFixtureFrame(frame: FixtureFrame, factor: number): FixtureFrame {
+  return { ...frame, cx: frame.cx * factor, cy: frame.cy * factor, width: frame.width * factor, depth: frame.depth * factor };
+}
+
+/** Normalise an angle in degrees to [0, 360) */
+export function normaliseRotation(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
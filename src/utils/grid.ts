@@ -0,0 +1,29 @@
+/**
+ * Background grid spacing presets and snapping.
+ *
+ * Spacings are data-space units: metres on calibrated plans, pixels on
+ * uncalibrated ones.
+ */
+
+import type { GridSettings } from '../types';
+
+export const GRID_SPACINGS_M = [0.05, 0.1, 0.5, 1];
+export const GRID_SPACINGS_PX = [5, 10, 25, 50];
+
+export function gridSpacings(isCalibrated: boolean): number[] {
+  return isCalibrated ? GRID_SPACINGS_M : GRID_SPACINGS_PX;
+}
+
+export function defaultGrid(isCalibrated: boolean): GridSettings {
+  return { enabled: false, spacing: isCalibrated ? 0.1 : 10 };
+}
+
+export function formatGridSpacing(spacing: number, isCalibrated: boolean): string {
+  if (!isCalibrated) return `${spacing} px`;
+  return spacing < 1 ? `${Math.round(spacing * 100)} cm` : `${spacing} m`;
+}
+
+/** Round a coordinate to the nearest grid line */
+export function snapValueToGrid(value: number, spacing: number): number {
+  return spacing > 0 ? Math.round(value / spacing) * spacing : value;
+}
@@ -0,0 +1,261 @@
+/**
+ * Command history (undo/redo) for floor plan mutations.
+ *
+ * Each command carries both directions as async callbacks that replay the
+ * operation through the API client. Because the backend re-issues IDs when it
+ * splits, merges or recreates edges, commands reference edges by geometry
+ * (endpoint coordinates + type) rather than by ID, and resolve them against
+ * the current plan at replay time.
+ */
+
+import type { Annotation, AnnotationType, FloorPlan, Edge, EdgeType, Fixture, Node, Point, Room } from '../types';
+import { dimensionGeometry, getDimensionProperties, sameDimensionGeometry } from './dimensions';
+
+/** Maximum number of commands kept on the undo stack */
+export const MAX_HISTORY = 100;
+
+/** Coordinate tolerance used when resolving geometric references */
+const REF_EPSILON = 1e-3;
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export interface HistoryState {
+  undoStack: HistoryCommand[];
+  redoStack: HistoryCommand[];
+}
+
+export const emptyHistory: HistoryState = { undoStack: [], redoStack: [] };
+
+/**
+ * Create a command with a fresh ID and timestamp
+ */
+export function createCommand(
+  label: string,
+  undo: () => Promise<void>,
+  redo: () => Promise<void>
+): HistoryCommand {
+  return { id: crypto.randomUUID(), label, timestamp: Date.now(), undo, redo };
+}
+
+/**
+ * Push a newly executed command. Clears the redo stack and trims the oldest
+ * entries beyond MAX_HISTORY.
+ */
+export function pushCommand(state: HistoryState, command: HistoryCommand): HistoryState {
+  const undoStack = [...state.undoStack, command];
+  if (undoStack.length > MAX_HISTORY) undoStack.splice(0, undoStack.length - MAX_HISTORY);
+  return { undoStack, redoStack: [] };
+}
+
+/**
+ * Move the most recent command from the undo stack to the redo stack.
+ * Returns the command to replay (its `undo`) alongside the new state.
+ */
+export function takeUndo(state: HistoryState): { command: HistoryCommand | null; state: HistoryState } {
+  const command = state.undoStack[state.undoStack.length - 1];
+  if (!command) return { command: null, state };
+  return {
+    command,
+    state: {
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, command],
+    },
+  };
+}
+
+/**
+ * Move the most recent command from the redo stack back to the undo stack.
+ * Returns the command to replay (its `redo`) alongside the new state.
+ */
+export function takeRedo(state: HistoryState): { command: HistoryCommand | null; state: HistoryState } {
+  const command = state.redoStack[state.redoStack.length - 1];
+  if (!command) return { command: null, state };
+  return {
+    command,
+    state: {
+      undoStack: [...state.undoStack, command],
+      redoStack: state.redoStack.slice(0, -1),
+    },
+  };
+}
+
+// ============================================
+// Geometric references
+// ============================================
+
+/** A node that moved; replays find it by ID, or else at whichever end it stands */
+export interface NodeMove {
+  id: string;
+  from: Point;
+  to: Point;
+}
+
+/**
+ * Snapshot of an edge that survives backend ID churn
+ */
+export interface EdgeRef {
+  from: Point;
+  to: Point;
+  type: EdgeType;
+  thickness?: number;
+  shift?: number;
+  is_inner?: boolean;
+  properties?: Record<string, any>;
+  /** Node IDs at capture time; reused when the edge is recreated */
+  fromId: string;
+  toId: string;
+}
+
+function samePoint(a: Point, b: Point): boolean {
+  return Math.abs(a.x - b.x) < REF_EPSILON && Math.abs(a.y - b.y) < REF_EPSILON;
+}
+
+/**
+ * Capture an edge as a geometric reference. Returns null when either node is missing.
+ */
+export function toEdgeRef(edge: Edge, nodes: Node[]): EdgeRef | null {
+  const from = nodes.find(n => n.id === edge.source);
+  const to = nodes.find(n => n.id === edge.target);
+  if (!from || !to) return null;
+  return {
+    from: { x: from.x, y: from.y },
+    to: { x: to.x, y: to.y },
+    type: edge.type,
+    thickness: edge.thickness,
+    shift: edge.shift,
+    is_inner: edge.is_inner,
+    properties: edge.properties,
+    fromId: from.id,
+    toId: to.id,
+  };
+}
+
+/**
+ * Find the edge in `plan` whose endpoints match `ref` (in either direction)
+ */
+export function resolveEdgeRef(plan: FloorPlan, ref: { from: Point; to: Point; type?: EdgeType }): Edge | null {
+  const nodeMap = new Map(plan.nodes.map(n => [n.id, n]));
+  for (const edge of plan.edges) {
+    if (ref.type && edge.type !== ref.type) continue;
+    const s = nodeMap.get(edge.source);
+    const t = nodeMap.get(edge.target);
+    if (!s || !t) continue;
+    if ((samePoint(s, ref.from) && samePoint(t, ref.to)) || (samePoint(s, ref.to) && samePoint(t, ref.from))) {
+      return edge;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the node located at `pt`, if any
+ */
+export function resolveNodeAt(plan: FloorPlan, pt: Point): Node | null {
+  return plan.nodes.find(n => samePoint(n, pt)) ?? null;
+}
+
+/**
+ * Find the edge whose interior contains `pt` (used to re-resolve split targets)
+ */
+export function resolveEdgeAt(plan: FloorPlan, pt: Point): Edge | null {
+  const nodeMap = new Map(plan.nodes.map(n => [n.id, n]));
+  for (const edge of plan.edges) {
+    const s = nodeMap.get(edge.source);
+    const t = nodeMap.get(edge.target);
+    if (!s || !t) continue;
+    const dx = t.x - s.x, dy = t.y - s.y;
+    const lenSq = dx * dx + dy * dy;
+    if (lenSq === 0) continue;
+    const u = ((pt.x - s.x) * dx + (pt.y - s.y) * dy) / lenSq;
+    if (u <= 0 || u >= 1) continue;
+    if (Math.hypot(s.x + u * dx - pt.x, s.y + u * dy - pt.y) < REF_EPSILON) return edge;
+  }
+  return null;
+}
+
+/**
+ * Find two collinear wall edges meeting at `pt` with no other edge attached —
+ * i.e. the two halves left behind by a split. Returns their IDs, or null.
+ */
+export function findSplitPair(plan: FloorPlan, pt: Point): [string, string] | null {
+  const node = resolveNodeAt(plan, pt);
+  if (!node) return null;
+  const attached = plan.edges.filter(e => e.source === node.id || e.target === node.id);
+  if (attached.length !== 2) return null;
+  const [a, b] = attached;
+  if (a.type !== b.type) return null;
+  const nodeMap = new Map(plan.nodes.map(n => [n.id, n]));
+  const otherA = nodeMap.get(a.source === node.id ? a.target : a.source);
+  const otherB = nodeMap.get(b.source === node.id ? b.target : b.source);
+  if (!otherA || !otherB) return null;
+  const ax = otherA.x - node.x, ay = otherA.y - node.y;
+  const bx = otherB.x - node.x, by = otherB.y - node.y;
+  const lenA = Math.hypot(ax, ay), lenB = Math.hypot(bx, by);
+  if (lenA === 0 || lenB === 0) return null;
+  // Opposite directions ⇒ the cross product vanishes and the dot product is ≈ −1
+  const cross = (ax * by - ay * bx) / (lenA * lenB);
+  const dot = (ax * bx + ay * by) / (lenA * lenB);
+  if (Math.abs(cross) > 1e-3 || dot > -0.999) return null;
+  return [a.id, b.id];
+}
+
+/**
+ * Find the room whose polygon matches `coords` vertex-for-vertex
+ */
+export function resolveRoomRef(plan: FloorPlan, coords: [number, number][]): Room | null {
+  return plan.rooms?.find(room =>
+    room.polygon_coords.length === coords.length &&
+    room.polygon_coords.every(([x, y], i) => samePoint({ x, y }, { x: coords[i][0], y: coords[i][1] }))
+  ) ?? null;
+}
+
+/**
+ * Find the fixture whose polygon matches `coords` vertex-for-vertex
+ */
+export function resolveFixtureRef(plan: FloorPlan, coords: [number, number][]): Fixture | null {
+  return plan.fixtures?.find(fixture =>
+    fixture.polygon_coords.length === coords.length &&
+    fixture.polygon_coords.every(([x, y], i) => samePoint({ x, y }, { x: coords[i][0], y: coords[i][1] }))
+  ) ?? null;
+}
+
+/** Deep equality that ignores key order and compares numbers within REF_EPSILON */
+function sameValue(a: any, b: any): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < REF_EPSILON;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(k => k in b && sameValue(a[k], b[k]));
+  }
+  return a === b;
+}
+
+/**
+ * Find the annotation of `type` whose properties equal `properties`.
+ * Dimensions match by what they draw at the current geometry, everything
+ * else by value regardless of key order.
+ */
+export function resolveAnnotationRef(plan: FloorPlan, type: string, properties: Record<string, any>): Annotation | null {
+  const candidates = (plan.annotations ?? []).filter(a => a.annotation_type === type);
+  const dimension = getDimensionProperties({ annotation_type: type as AnnotationType, properties });
+  if (dimension) {
+    const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+    const target = dimensionGeometry(dimension, nodeById, plan.rooms);
+    if (target) {
+      return candidates.find(a => {
+        const props = getDimensionProperties(a);
+        const geometry = props && dimensionGeometry(props, nodeById, plan.rooms);
+        return !!geometry && sameDimensionGeometry(geometry, target, REF_EPSILON);
+      }) ?? null;
+    }
+  }
+  return candidates.find(a => sameValue(a.properties, properties)) ?? null;
+}
@@ -0,0 +1,133 @@
+/**
+ * Layer visibility and locking, kept in FloorPlan.layers.
+ *
+ * Every element sits on the built-in layer for its kind, and walls, openings,
+ * fixtures and annotations can additionally join one user layer through
+ * `properties.layer_id`. An element is shown only while both of its layers
+ * are visible, and is locked while either of them is. Nodes have no layer of
+ * their own: they follow the edges meeting at them.
+ */
+
+import type { Annotation, Edge, FloorPlan, Fixture, LayerCategory, LayerState, PlanLayers, PlanSelection, Room } from '../types';
+
+export const LAYER_CATEGORIES: { id: LayerCategory; label: string; icon: string }[] = [
+  { id: 'walls', label: 'Walls', icon: '🧱' },
+  { id: 'doors', label: 'Doors', icon: '🚪' },
+  { id: 'windows', label: 'Windows', icon: '🪟' },
+  { id: 'rooms', label: 'Rooms', icon: '▦' },
+  { id: 'fixtures', label: 'Fixtures', icon: '🛋️' },
+  { id: 'labels', label: 'Labels', icon: '🏷️' },
+  { id: 'overlays', label: 'Overlays', icon: '📏' },
+];
+
+const SHOWN: LayerState = { visible: true, locked: false };
+
+export const DEFAULT_LAYERS: PlanLayers = {
+  categories: Object.fromEntries(LAYER_CATEGORIES.map(c => [c.id, SHOWN])) as Record<LayerCategory, LayerState>,
+  user: [],
+};
+
+/** Read saved layer state, falling back to DEFAULT_LAYERS for anything missing or malformed */
+export function normaliseLayers(raw: any): PlanLayers {
+  const state = (v: any): LayerState => ({ visible: v?.visible !== false, locked: v?.locked === true });
+  return {
+    categories: Object.fromEntries(
+      LAYER_CATEGORIES.map(c => [c.id, state(raw?.categories?.[c.id])]),
+    ) as Record<LayerCategory, LayerState>,
+    user: Array.isArray(raw?.user)
+      ? raw.user
+          .filter((l: any) => typeof l?.id === 'string')
+          .map((l: any) => ({ id: l.id, name: typeof l.name === 'string' ? l.name : 'Layer', ...state(l) }))
+      : [],
+  };
+}
+
+/** Openings and arches you walk through go with doors, pass-throughs with windows */
+export function edgeLayerCategory(edge: Pick<Edge, 'type'>): LayerCategory {
+  if (edge.type === 'door' || edge.type === 'opening' || edge.type === 'arch') return 'doors';
+  if (edge.type === 'window' || edge.type === 'pass_through') return 'windows';
+  return 'walls';
+}
+
+/** Dimensions are overlays; text and callout notes are labels */
+export function annotationLayerCategory(annotation: Pick<Annotation, 'annotation_type'>): LayerCategory {
+  return annotation.annotation_type === 'dimension' ? 'overlays' : 'labels';
+}
+
+/** The user layer an element was put on, if any */
+export function getLayerId(element: { properties?: Record<string, any> }): string | null {
+  const id = element.properties?.layer_id;
+  return typeof id === 'string' ? id : null;
+}
+
+/** Properties moved onto `layerId`, or back to the built-in layers only with null */
+export function withLayerId(properties: Record<string, any> | undefined, layerId: string | null): Record<string, any> {
+  const { layer_id: _previous, ...rest } = properties ?? {};
+  return layerId ? { ...rest, layer_id: layerId } : rest;
+}
+
+/** Effective state of an element on `category` and, optionally, a user layer */
+export function layerState(layers: PlanLayers, category: LayerCategory, layerId: string | null = null): LayerState {
+  const base = layers.categories[category];
+  const user = layerId ? layers.user.find(l => l.id === layerId) : undefined;
+  if (!user) return base;
+  return { visible: base.visible && user.visible, locked: base.locked || user.locked };
+}
+
+/** Visible and not locked: the element takes part in hit testing, snapping and selection */
+export function isInteractive(state: LayerState): boolean {
+  return state.visible && !state.locked;
+}
+
+/** Per-element layer lookups for one plan */
+export interface LayerView {
+  category: (category: LayerCategory) => LayerState;
+  edge: (edge: Edge) => LayerState;
+  room: (room: Room) => LayerState;
+  fixture: (fixture: Fixture) => LayerState;
+  annotation: (annotation: Annotation) => LayerState;
+  /**
+   * A node is visible while any edge meeting at it is, and locked while any
+   * of them is, so a locked wall can't be dragged by a shared corner.
+   * Unconnected nodes follow the walls layer.
+   */
+  node: (nodeId: string) => LayerState;
+}
+
+export function planLayerView(plan: FloorPlan): LayerView {
+  const layers = plan.layers ?? DEFAULT_LAYERS;
+  const edge = (e: Edge) => layerState(layers, edgeLayerCategory(e), getLayerId(e));
+  const nodeStates = new Map<string, LayerState>();
+  for (const e of plan.edges) {
+    const state = edge(e);
+    for (const id of [e.source, e.target]) {
+      const current = nodeStates.get(id);
+      nodeStates.set(id, current
+        ? { visible: current.visible || state.visible, locked: current.locked || state.locked }
+        : state);
+    }
+  }
+  return {
+    category: c => layers.categories[c],
+    edge,
+    room: () => layers.categories.rooms,
+    fixture: f => layerState(layers, 'fixtures', getLayerId(f)),
+    annotation: a => layerState(layers, annotationLayerCategory(a), getLayerId(a)),
+    node: id => nodeStates.get(id) ?? layers.categories.walls,
+  };
+}
+
+/** Drop everything on a hidden or locked layer from a selection */
+export function interactiveSelection(plan: FloorPlan, selection: PlanSelection): PlanSelection {
+  const view = planLayerView(plan);
+  const keep = <T extends { id: string }>(items: T[], ids: string[], state: (item: T) => LayerState) => {
+    const ok = new Set(items.filter(item => isInteractive(state(item))).map(item => item.id));
+    return ids.filter(id => ok.has(id));
+  };
+  return {
+    nodeIds: selection.nodeIds.filter(id => isInteractive(view.node(id))),
+    edgeIds: keep(plan.edges, selection.edgeIds, view.edge),
+    roomIds: keep(plan.rooms ?? [], selection.roomIds, view.room),
+    fixtureIds: keep(plan.fixtures ?? [], selection.fixtureIds, view.fixture),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Levels of a multi-storey building, kept in FloorPlan.levels.
+ *
+ * There is no building record on the backend: every level is an ordinary
+ * floor plan, and each of them carries the same level list in its settings.
+ * The list links the levels by plan ID, so plan names are only for display.
+ * A plan without a list is a single-storey building.
+ */
+
+import type { FloorPlan, Level, LevelGhost } from '../types';
+import { netRoomArea } from './circulation';
+
+/** Floor-to-floor height of new levels, in metres */
+export const DEFAULT_LEVEL_HEIGHT = 3;
+
+/** Read a saved level list, lowest first; empty when missing or malformed */
+export function normaliseLevels(raw: any): Level[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(l => typeof l?.plan_id === 'string')
+    .map((l, i) => ({
+      plan_id: l.plan_id,
+      name: typeof l.name === 'string' && l.name ? l.name : `Level ${i}`,
+      elevation: isFinite(Number(l.elevation)) ? Number(l.elevation) : 0,
+      height: Number(l.height) > 0 ? Number(l.height) : DEFAULT_LEVEL_HEIGHT,
+    }))
+    .sort((a, b) => a.elevation - b.elevation);
+}
+
+/** The level list of a plan, treating a single-storey plan as its own ground floor */
+export function planLevels(plan: FloorPlan, planId: string): Level[] {
+  return plan.levels && plan.levels.length > 0
+    ? plan.levels
+    : [{ plan_id: planId, name: 'Ground floor', elevation: 0, height: DEFAULT_LEVEL_HEIGHT }];
+}
+
+/** A new level on top of the building (the plan is created separately) */
+export function levelAbove(levels: Level[], planId: string): Level {
+  const top = levels[levels.length - 1];
+  return {
+    plan_id: planId,
+    name: `Level ${levels.length}`,
+    elevation: top ? top.elevation + top.height : 0,
+    height: top?.height ?? DEFAULT_LEVEL_HEIGHT,
+  };
+}
+
+/** Ghosts for the levels directly below and above `planId`, from whichever plans are loaded */
+export function levelGhosts(levels: Level[], planId: string, plans: Record<string, FloorPlan>): LevelGhost[] {
+  const i = levels.findIndex(l => l.plan_id === planId);
+  if (i < 0) return [];
+  const ghosts: LevelGhost[] = [];
+  const below = levels[i - 1] && plans[levels[i - 1].plan_id];
+  const above = levels[i + 1] && plans[levels[i + 1].plan_id];
+  if (below) ghosts.push({ plan: below, position: 'below' });
+  if (above) ghosts.push({ plan: above, position: 'above' });
+  return ghosts;
+}
+
+/** Total net room area of a level, in m² when calibrated and px² otherwise */
+export function levelArea(plan: FloorPlan): number {
+  return (plan.rooms ?? []).reduce((sum, room) => sum + netRoomArea(room.polygon_coords, plan.fixtures ?? []), 0);
+}
+
+export function formatLevelArea(area: number, isCalibrated: boolean): string {
+  return isCalibrated ? `${area.toFixed(1)} m²` : `${Math.round(area).toLocaleString()} px²`;
+}
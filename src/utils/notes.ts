@@ -0,0 +1,65 @@
+/**
+ * Text and callout notes kept in FloorPlan.annotations.
+ *
+ * Notes are free-standing: a text box at a point, and for callouts a leader
+ * arrow to a second point. They are drawn at a fixed screen size, so only
+ * their position scales with the zoom.
+ */
+
+import type { Annotation, NoteProperties, NoteStyle } from '../types';
+
+export const DEFAULT_NOTE_STYLE: NoteStyle = {
+  font_size: 14,
+  color: '#d32f2f',
+  rotation: 0,
+};
+
+/** Font sizes offered in the UI, in screen pixels */
+export const NOTE_FONT_SIZES = [10, 12, 14, 18, 24, 32];
+
+export const NOTE_COLORS: { id: string; label: string }[] = [
+  { id: '#d32f2f', label: 'Red' },
+  { id: '#1565c0', label: 'Blue' },
+  { id: '#2e7d32', label: 'Green' },
+  { id: '#ef6c00', label: 'Orange' },
+  { id: '#212121', label: 'Black' },
+];
+
+export function isNote(annotation: Pick<Annotation, 'annotation_type'>): boolean {
+  return annotation.annotation_type === 'text' || annotation.annotation_type === 'callout';
+}
+
+/** Read a note's settings, filling any missing style from DEFAULT_NOTE_STYLE; null for other annotations */
+export function getNoteProperties(annotation: Pick<Annotation, 'annotation_type' | 'properties'>): NoteProperties | null {
+  if (!isNote(annotation)) return null;
+  const p = annotation.properties ?? {};
+  const x = Number(p.x), y = Number(p.y);
+  if (!isFinite(x) || !isFinite(y)) return null;
+  const size = Number(p.font_size);
+  const target = p.target && isFinite(Number(p.target.x)) && isFinite(Number(p.target.y))
+    ? { x: Number(p.target.x), y: Number(p.target.y) }
+    : undefined;
+  return {
+    text: typeof p.text === 'string' ? p.text : '',
+    x,
+    y,
+    font_size: size > 0 ? size : DEFAULT_NOTE_STYLE.font_size,
+    color: typeof p.color === 'string' ? p.color : DEFAULT_NOTE_STYLE.color,
+    rotation: Number(p.rotation) || 0,
+    ...(annotation.annotation_type === 'callout' && target ? { target } : {}),
+  };
+}
+
+/** Follow a change of plan units in which every coordinate was multiplied by `factor` */
+export function rescaleNote(note: NoteProperties, factor: number): NoteProperties {
+  return {
+    ...note,
+    x: note.x * factor,
+    y: note.y * factor,
+    ...(note.target ? { target: { x: note.target.x * factor, y: note.target.y * factor } } : {}),
+  };
+}
+
+export function noteStyle(note: NoteProperties): NoteStyle {
+  return { font_size: note.font_size, color: note.color, rotation: note.rotation };
+}
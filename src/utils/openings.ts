@@ -0,0 +1,53 @@
+/**
+ * Openings without a leaf, arches, pass-throughs and half walls.
+ *
+ * These are edge types of their own, placed on a wall with the assets tool
+ * like doors and windows. Their heights live in Edge.properties; edges
+ * without them read as DEFAULT_OPENING.
+ */
+
+import type { Edge, OpeningKind, OpeningProperties } from '../types';
+
+export const DEFAULT_OPENING: OpeningProperties = {
+  sill_height: 0.9,
+  head_height: 2.1,
+  height: 1.0,
+  railing: false,
+};
+
+export const OPENING_KINDS: { id: OpeningKind; label: string; icon: string; presets: number[] }[] = [
+  { id: 'opening', label: 'Opening', icon: '▯', presets: [0.8, 0.9, 1.2, 1.6] },
+  { id: 'arch', label: 'Arch', icon: '⌒', presets: [0.9, 1.2, 1.6, 2.4] },
+  { id: 'pass_through', label: 'Pass-through', icon: '🍽️', presets: [0.6, 0.9, 1.2, 1.8] },
+  { id: 'half_wall', label: 'Half wall', icon: '▁', presets: [0.9, 1.2, 2.0, 3.0] },
+];
+
+/** Keys each kind keeps in its properties */
+const OPENING_KEYS: Record<OpeningKind, (keyof OpeningProperties)[]> = {
+  opening: ['head_height'],
+  arch: ['head_height'],
+  pass_through: ['sill_height', 'head_height'],
+  half_wall: ['height', 'railing'],
+};
+
+export function isOpeningKind(type: string): type is OpeningKind {
+  return OPENING_KINDS.some(k => k.id === type);
+}
+
+/** Read an opening's settings, filling anything missing or invalid from DEFAULT_OPENING */
+export function getOpeningProperties(edge: Pick<Edge, 'properties'>): OpeningProperties {
+  const p = edge.properties ?? {};
+  const sill = typeof p.sill_height === 'number' && p.sill_height >= 0 ? p.sill_height : DEFAULT_OPENING.sill_height;
+  const head = typeof p.head_height === 'number' && p.head_height > 0 ? p.head_height : Math.max(DEFAULT_OPENING.head_height, sill);
+  return {
+    sill_height: sill,
+    head_height: head,
+    height: typeof p.height === 'number' && p.height > 0 ? p.height : DEFAULT_OPENING.height,
+    railing: p.railing === true,
+  };
+}
+
+/** Merge the settings `kind` uses into an edge's properties */
+export function openingProperties(kind: OpeningKind, settings: OpeningProperties, base: Record<string, any> = {}): Record<string, any> {
+  return { ...base, ...Object.fromEntries(OPENING_KEYS[kind].map(key => [key, settings[key]])) };
+}
@@ -0,0 +1,98 @@
+/**
+ * Free-form Edge.properties and Fixture.properties, as edited in the element
+ * inspector.
+ *
+ * Keys the editor itself reads get a typed field from PROPERTY_SCHEMA; every
+ * other key is edited as JSON. A fixture's frame and a stair's parameters
+ * shape its footprint, so they are shown but changed with the furniture tool.
+ */
+
+import type { PropertiesChange } from '../types';
+import { DOOR_LEAVES, DOOR_SWING_ANGLES } from './doors';
+import { WINDOW_TYPES } from './windows';
+
+export type PropertyField =
+  | { key: string; label: string; kind: 'number'; unit?: string; min?: number; step?: number; readOnly?: boolean }
+  | { key: string; label: string; kind: 'boolean' }
+  | { key: string; label: string; kind: 'select'; options: { value: string | number; label: string }[] };
+
+export const PROPERTY_SCHEMA: PropertyField[] = [
+  // Doors (utils/doors.ts)
+  { key: 'leaf', label: 'Leaf', kind: 'select', options: DOOR_LEAVES.map(l => ({ value: l.id, label: l.label })) },
+  { key: 'hinge', label: 'Hinge', kind: 'select', options: [{ value: 'start', label: 'Start' }, { value: 'end', label: 'End' }] },
+  { key: 'swing', label: 'Swing', kind: 'select', options: [{ value: 'left', label: 'Left' }, { value: 'right', label: 'Right' }] },
+  { key: 'swing_angle', label: 'Swing angle', kind: 'select', options: DOOR_SWING_ANGLES.map(a => ({ value: a, label: `${a}°` })) },
+  // Windows and openings (utils/windows.ts, utils/openings.ts)
+  { key: 'window_type', label: 'Window type', kind: 'select', options: WINDOW_TYPES.map(t => ({ value: t.id, label: t.label })) },
+  { key: 'sill_height', label: 'Sill height', kind: 'number', unit: 'm', min: 0, step: 0.05 },
+  { key: 'head_height', label: 'Head height', kind: 'number', unit: 'm', min: 0, step: 0.05 },
+  { key: 'height', label: 'Height', kind: 'number', unit: 'm', min: 0, step: 0.05 },
+  { key: 'railing', label: 'Railing', kind: 'boolean' },
+  // Walls (utils/structure.ts)
+  { key: 'structural', label: 'Structural', kind: 'boolean' },
+  // Fixture frame (utils/furniture.ts) and stair parameters (utils/circulation.ts)
+  { key: 'center_x', label: 'Centre x', kind: 'number', readOnly: true },
+  { key: 'center_y', label: 'Centre y', kind: 'number', readOnly: true },
+  { key: 'width', label: 'Width', kind: 'number', readOnly: true },
+  { key: 'depth', label: 'Depth', kind: 'number', readOnly: true },
+  { key: 'rotation', label: 'Rotation', kind: 'number', unit: '°', readOnly: true },
+  { key: 'flight_width', label: 'Flight width', kind: 'number', unit: 'm', readOnly: true },
+  { key: 'steps', label: 'Steps', kind: 'number', readOnly: true },
+  { key: 'rise', label: 'Rise', kind: 'number', unit: 'm', readOnly: true },
+  { key: 'run', label: 'Run', kind: 'number', unit: 'm', readOnly: true },
+  { key: 'direction', label: 'Direction', kind: 'select', options: [{ value: 'up', label: 'Up' }, { value: 'down', label: 'Down' }] },
+];
+
+export function findPropertyField(key: string): PropertyField | undefined {
+  return PROPERTY_SCHEMA.find(f => f.key === key);
+}
+
+/** Every key used by any of the records, schema keys first in schema order, then the rest sorted */
+export function propertyKeys(records: (Record<string, any> | undefined)[]): string[] {
+  const keys = new Set(records.flatMap(r => Object.keys(r ?? {})));
+  const known = PROPERTY_SCHEMA.map(f => f.key).filter(k => keys.has(k));
+  const other = [...keys].filter(k => !findPropertyField(k)).sort();
+  return [...known, ...other];
+}
+
+/**
+ * The value all records share for `key`, or `mixed` when they differ (a
+ * record without the key counts as undefined)
+ */
+export function commonValue(records: (Record<string, any> | undefined)[], key: string): { mixed: boolean; value: any } {
+  const values = records.map(r => r?.[key]);
+  const first = JSON.stringify(values[0]);
+  return values.every(v => JSON.stringify(v) === first)
+    ? { mixed: false, value: values[0] }
+    : { mixed: true, value: undefined };
+}
+
+/** A value as shown in the key/value editor: strings as they are, everything else as JSON */
+export function formatPropertyValue(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+}
+
+/** Read back a key/value entry: JSON where it parses, otherwise the plain string */
+export function parsePropertyValue(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** `base` with the change applied */
+export function applyPropertiesChange(base: Record<string, any> | undefined, change: PropertiesChange): Record<string, any> {
+  const next = { ...(base ?? {}), ...(change.set ?? {}) };
+  for (const key of change.unset ?? []) delete next[key];
+  return next;
+}
+
+/** The change that takes `applyPropertiesChange(base, change)` back to `base` */
+export function invertPropertiesChange(base: Record<string, any> | undefined, change: PropertiesChange): PropertiesChange {
+  const previous = base ?? {};
+  const touched = [...Object.keys(change.set ?? {}), ...(change.unset ?? [])];
+  const set = Object.fromEntries(touched.filter(k => k in previous).map(k => [k, previous[k]]));
+  const unset = touched.filter(k => !(k in previous));
+  return { set, unset };
+}
@@ -0,0 +1,305 @@
+/**
+ * Client-side room detection from the wall graph.
+ *
+ * Rooms are the bounded faces of the planar graph formed by nodes and edges.
+ * Dangling edges are pruned first so stub walls don't leave slivers in the
+ * outline, faces are traced by always turning to the next edge clockwise, and
+ * each face is then inset by the half-thickness (and shift) of the walls
+ * bounding it so the polygon follows the inner wall surface.
+ */
+
+import type { Edge, FloorPlan, Node, Point, Room } from '../types';
+
+/** Coordinate tolerance when comparing polygons */
+const COORD_EPSILON = 1e-6;
+
+export interface RoomDetectionOptions {
+  /** Thickness for edges without an explicit one, in data units */
+  defaultThickness: number;
+}
+
+interface HalfEdge {
+  from: string;
+  to: string;
+  edge: Edge;
+}
+
+/** Shoelace area; the sign gives the winding */
+export function signedArea(pts: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i];
+    const b = pts[(i + 1) % pts.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/** Area centroid, or the vertex mean for a degenerate polygon */
+export function centroid(pts: Point[]): Point {
+  const area = signedArea(pts);
+  if (Math.abs(area) < 1e-12) {
+    const sum = pts.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return { x: sum.x / pts.length, y: sum.y / pts.length };
+  }
+  let cx = 0, cy = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i];
+    const b = pts[(i + 1) % pts.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+/** Even-odd containment test */
+export function pointInPolygon(pt: Point, pts: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[i], b = pts[j];
+    if ((a.y > pt.y) !== (b.y > pt.y) && pt.x < ((b.x - a.x) * (pt.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const toPoints = (coords: [number, number][]): Point[] => coords.map(([x, y]) => ({ x, y }));
+
+/**
+ * Trace the bounded faces of the graph. Each face is returned as a cycle of
+ * half-edges with the face interior on the left (positive signed area).
+ */
+function traceFaces(plan: FloorPlan): { faces: HalfEdge[][]; nodeMap: Map<string, Node> } {
+  const nodeMap = new Map(plan.nodes.map(n => [n.id, n]));
+
+  // Undirected adjacency; self-loops, dangling references and parallel duplicates are skipped
+  const adj = new Map<string, Map<string, Edge>>();
+  const link = (a: string, b: string, e: Edge) => {
+    if (!adj.has(a)) adj.set(a, new Map());
+    adj.get(a)!.set(b, e);
+  };
+  for (const e of plan.edges) {
+    if (e.source === e.target || !nodeMap.has(e.source) || !nodeMap.has(e.target)) continue;
+    if (adj.get(e.source)?.has(e.target)) continue;
+    link(e.source, e.target, e);
+    link(e.target, e.source, e);
+  }
+
+  // Prune dangling chains: they can never bound a face
+  const stack = [...adj.keys()].filter(id => adj.get(id)!.size <= 1);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    const nbrs = adj.get(id);
+    if (!nbrs || nbrs.size > 1) continue;
+    for (const nb of nbrs.keys()) {
+      const other = adj.get(nb)!;
+      other.delete(id);
+      if (other.size <= 1) stack.push(nb);
+    }
+    adj.delete(id);
+  }
+
+  // Neighbours of every node in angular order
+  const order = new Map<string, string[]>();
+  for (const [id, nbrs] of adj) {
+    const n = nodeMap.get(id)!;
+    const angleTo = (otherId: string) => {
+      const o = nodeMap.get(otherId)!;
+      return Math.atan2(o.y - n.y, o.x - n.x);
+    };
+    order.set(id, [...nbrs.keys()].sort((a, b) => angleTo(a) - angleTo(b)));
+  }
+
+  const visited = new Set<string>();
+  const faces: HalfEdge[][] = [];
+  for (const [u, nbrs] of adj) {
+    for (const v of nbrs.keys()) {
+      if (visited.has(`${u}>${v}`)) continue;
+      const face: HalfEdge[] = [];
+      let a = u, b = v;
+      while (!visited.has(`${a}>${b}`)) {
+        visited.add(`${a}>${b}`);
+        face.push({ from: a, to: b, edge: adj.get(a)!.get(b)! });
+        // Arriving at b from a, leave along the neighbour just before a in angular order
+        const around = order.get(b)!;
+        const next = around[(around.indexOf(a) - 1 + around.length) % around.length];
+        a = b;
+        b = next;
+      }
+      // The outer face of each component winds the other way
+      if (signedArea(face.map(h => nodeMap.get(h.from)!)) > 0) faces.push(face);
+    }
+  }
+  return { faces, nodeMap };
+}
+
+/**
+ * Offset every side of a face inwards to the inner wall surface and
+ * re-intersect consecutive sides.
+ */
+function insetFace(face: HalfEdge[], nodeMap: Map<string, Node>, defaultThickness: number): Point[] {
+  const ownOffset = (h: HalfEdge) => {
+    const thickness = h.edge.thickness || defaultThickness;
+    // A positive shift moves the wall to the left of source→target
+    const shift = (h.edge.shift ?? 0) * (h.from === h.edge.source ? 1 : -1);
+    return shift + thickness / 2;
+  };
+
+  // Doors and windows inherit the offset of the nearest wall side so the
+  // outline runs straight past openings instead of stepping into them
+  const n = face.length;
+  const offsets = face.map(h => (h.edge.type === 'wall' ? ownOffset(h) : null));
+  const resolved = offsets.map((off, i) => {
+    if (off !== null) return off;
+    for (let step = 1; step < n; step++) {
+      const prev = offsets[(i - step + n) % n];
+      if (prev !== null) return prev;
+      const next = offsets[(i + step) % n];
+      if (next !== null) return next;
+    }
+    return ownOffset(face[i]);
+  });
+
+  const sides = face.map((h, i) => {
+    const p = nodeMap.get(h.from)!;
+    const q = nodeMap.get(h.to)!;
+    const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    const dir = { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+    const normal = { x: -dir.y, y: dir.x };
+    return { dir, normal, offset: resolved[i] };
+  });
+
+  const maxOffset = Math.max(...resolved.map(Math.abs));
+  const out: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const v = nodeMap.get(face[i].from)!;
+    const s1 = sides[(i - 1 + n) % n];
+    const s2 = sides[i];
+    const q1 = { x: v.x + s1.normal.x * s1.offset, y: v.y + s1.normal.y * s1.offset };
+    const q2 = { x: v.x + s2.normal.x * s2.offset, y: v.y + s2.normal.y * s2.offset };
+    const cross = s1.dir.x * s2.dir.y - s1.dir.y * s2.dir.x;
+    if (Math.abs(cross) > 1e-9) {
+      // Miter: intersect the two offset lines
+      const t = ((q2.x - q1.x) * s2.dir.y - (q2.y - q1.y) * s2.dir.x) / cross;
+      const miter = { x: q1.x + s1.dir.x * t, y: q1.y + s1.dir.y * t };
+      if (Math.hypot(miter.x - v.x, miter.y - v.y) <= 10 * maxOffset) {
+        out.push(miter);
+        continue;
+      }
+    }
+    // Collinear sides (or a spike too sharp to miter): keep both offset points
+    out.push(q1);
+    if (Math.hypot(q2.x - q1.x, q2.y - q1.y) > COORD_EPSILON) out.push(q2);
+  }
+
+  // Drop vertices that lie on a straight run (e.g. where a door splits a wall)
+  return out.filter((p, i) => {
+    const a = out[(i - 1 + out.length) % out.length];
+    const b = out[(i + 1) % out.length];
+    const cross = (p.x - a.x) * (b.y - p.y) - (p.y - a.y) * (b.x - p.x);
+    return Math.abs(cross) > COORD_EPSILON * Math.max(1, Math.hypot(b.x - a.x, b.y - a.y));
+  });
+}
+
+/** Whether `room` was drawn or reshaped with the room tool, so detection must leave it alone */
+export function isManualRoom(room: Pick<Room, 'properties'>): boolean {
+  return room.properties?.manual === true;
+}
+
+/** The room's properties with the manual mark, for a room the user draws or reshapes by hand */
+export function manualRoomProperties(room: Pick<Room, 'properties'>): Record<string, any> {
+  return { ...(room.properties ?? {}), manual: true };
+}
+
+/** Whether the room outline and the polygon cover the same face: either centroid lies inside the other */
+function overlapsFace(room: Room, poly: Point[]): { newInOld: boolean; oldInNew: boolean } | null {
+  const old = toPoints(room.polygon_coords);
+  if (old.length < 3) return null;
+  const newInOld = pointInPolygon(centroid(poly), old);
+  const oldInNew = pointInPolygon(centroid(old), poly);
+  return newInOld || oldInNew ? { newInOld, oldInNew } : null;
+}
+
+/**
+ * Carry IDs, tags and lock state over from `previous` rooms onto the new
+ * polygons. A pair is a candidate when either centroid lies inside the other
+ * polygon; pairs are matched greedily by containment and area similarity.
+ */
+function matchRooms(previous: Room[], polygons: Point[][]): Room[] {
+  const candidates: { i: number; j: number; score: number }[] = [];
+  polygons.forEach((poly, i) => {
+    const area = Math.abs(signedArea(poly));
+    previous.forEach((room, j) => {
+      const overlap = overlapsFace(room, poly);
+      if (!overlap) return;
+      const { newInOld, oldInNew } = overlap;
+      const oldArea = Math.abs(signedArea(toPoints(room.polygon_coords)));
+      const similarity = Math.min(area, oldArea) / Math.max(area, oldArea, 1e-12);
+      candidates.push({ i, j, score: (newInOld && oldInNew ? 1 : 0) + similarity });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matched = new Map<number, Room>();
+  const used = new Set<number>();
+  for (const { i, j } of candidates) {
+    if (matched.has(i) || used.has(j)) continue;
+    matched.set(i, previous[j]);
+    used.add(j);
+  }
+
+  return polygons.map((poly, i) => {
+    const polygon_coords = poly.map(p => [p.x, p.y] as [number, number]);
+    const old = matched.get(i);
+    return old
+      ? { ...old, polygon_coords }
+      : { id: crypto.randomUUID(), polygon_coords, tags: [] };
+  });
+}
+
+/**
+ * Detect rooms as the enclosed faces of the plan's node/edge graph, keeping
+ * the IDs and tags of existing rooms whose face only changed shape.
+ *
+ * Rooms drawn or reshaped with the room tool are returned untouched, and a
+ * face they already cover gets no detected room of its own. Every other room,
+ * including those recognised from an image, follows the walls.
+ */
+export function detectRooms(plan: FloorPlan, options: RoomDetectionOptions): Room[] {
+  const { faces, nodeMap } = traceFaces(plan);
+  const rooms = plan.rooms ?? [];
+  const manual = rooms.filter(isManualRoom);
+  // Faces thinner than the walls around them are wall interiors, not rooms
+  const minArea = options.defaultThickness * options.defaultThickness;
+  const polygons = faces
+    .map(face => insetFace(face, nodeMap, options.defaultThickness))
+    .filter(poly => poly.length >= 3 && signedArea(poly) > minArea)
+    .filter(poly => !manual.some(room => overlapsFace(room, poly)));
+  return [...manual, ...matchRooms(rooms.filter(r => !isManualRoom(r)), polygons)];
+}
+
+function samePolygon(a: [number, number][], b: [number, number][]): boolean {
+  return a.length === b.length && a.every(([x, y], i) =>
+    Math.abs(x - b[i][0]) < COORD_EPSILON && Math.abs(y - b[i][1]) < COORD_EPSILON
+  );
+}
+
+/**
+ * Split the change from `previous` to `next` into the room calls needed to
+ * persist it. Manual rooms are never updated or deleted, even when `next`
+ * no longer lists them.
+ */
+export function diffRooms(previous: Room[], next: Room[]): { created: Room[]; updated: Room[]; deleted: Room[] } {
+  const prevById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    created: next.filter(r => !prevById.has(r.id)),
+    updated: next.filter(r => {
+      const old = prevById.get(r.id);
+      return !!old && !isManualRoom(old) && !samePolygon(old.polygon_coords, r.polygon_coords);
+    }),
+    deleted: previous.filter(r => !isManualRoom(r) && !nextIds.has(r.id)),
+  };
+}
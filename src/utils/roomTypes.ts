@@ -0,0 +1,106 @@
+/**
+ * Room classification helpers.
+ *
+ * Everything about a room's classification lives in Room.tags so the backend
+ * needs no schema change: the room type is a plain tag ("bedroom"), the
+ * display name is a "name:"-prefixed tag, and anything else is a free tag.
+ */
+
+import type { RoomType } from '../types';
+
+const NAME_PREFIX = 'name:';
+
+export interface RoomTypeStyle {
+  id: RoomType;
+  label: string;
+  fill: string;
+  /** Lighter variant shown on hover */
+  hoverFill: string;
+}
+
+/** Fixed palette keyed on room type (see docs/design.md, Rendering Strategy) */
+export const ROOM_TYPES: RoomTypeStyle[] = [
+  { id: 'bedroom',  label: 'Bedroom',  fill: '#bbdefb', hoverFill: '#e3f2fd' },
+  { id: 'bathroom', label: 'Bathroom', fill: '#f8bbd0', hoverFill: '#fce4ec' },
+  { id: 'kitchen',  label: 'Kitchen',  fill: '#ffcc99', hoverFill: '#ffe5cc' },
+  { id: 'living',   label: 'Living',   fill: '#c8e6c9', hoverFill: '#e8f5e9' },
+  { id: 'dining',   label: 'Dining',   fill: '#fff59d', hoverFill: '#fffde7' },
+  { id: 'hallway',  label: 'Hallway',  fill: '#d7ccc8', hoverFill: '#efebe9' },
+  { id: 'office',   label: 'Office',   fill: '#d1c4e9', hoverFill: '#ede7f6' },
+  { id: 'storage',  label: 'Storage',  fill: '#cfd8dc', hoverFill: '#eceff1' },
+  { id: 'laundry',  label: 'Laundry',  fill: '#b2ebf2', hoverFill: '#e0f7fa' },
+  { id: 'balcony',  label: 'Balcony',  fill: '#b2dfdb', hoverFill: '#e0f2f1' },
+];
+
+/** Style for rooms without a recognised type */
+export const UNASSIGNED_ROOM_STYLE = { label: 'Unassigned', fill: '#e0e0e0', hoverFill: '#f5f5f5' };
+
+/** Spellings produced by image processing or typed by users, normalised to a RoomType */
+const TYPE_ALIASES: Record<string, RoomType> = {
+  bedroom: 'bedroom', masterbedroom: 'bedroom', guestroom: 'bedroom',
+  bathroom: 'bathroom', bath: 'bathroom', wc: 'bathroom', toilet: 'bathroom', restroom: 'bathroom',
+  kitchen: 'kitchen', kitchenette: 'kitchen',
+  living: 'living', livingroom: 'living', lounge: 'living',
+  dining: 'dining', diningroom: 'dining',
+  hallway: 'hallway', hall: 'hallway', corridor: 'hallway', entrance: 'hallway', entry: 'hallway',
+  office: 'office', study: 'office',
+  storage: 'storage', closet: 'storage', pantry: 'storage',
+  laundry: 'laundry', utility: 'laundry',
+  balcony: 'balcony', terrace: 'balcony',
+};
+
+const normalise = (tag: string) => tag.toLowerCase().replace(/[^a-z]/g, '');
+
+function tagType(tag: string): RoomType | null {
+  if (tag.startsWith(NAME_PREFIX)) return null;
+  return TYPE_ALIASES[normalise(tag)] ?? null;
+}
+
+/** The room type carried by the first recognisable tag, if any */
+export function getRoomType(tags: string[]): RoomType | null {
+  for (const tag of tags) {
+    const type = tagType(tag);
+    if (type) return type;
+  }
+  return null;
+}
+
+/** The free-text display name, or an empty string */
+export function getRoomName(tags: string[]): string {
+  const tag = tags.find(t => t.startsWith(NAME_PREFIX));
+  return tag ? tag.slice(NAME_PREFIX.length) : '';
+}
+
+/** Tags that are neither the type nor the name */
+export function getExtraTags(tags: string[]): string[] {
+  const type = getRoomType(tags);
+  let typeSeen = false;
+  return tags.filter(tag => {
+    if (tag.startsWith(NAME_PREFIX)) return false;
+    // Only the tag that supplies the type is consumed; later type-like tags stay
+    if (!typeSeen && type && tagType(tag) === type) {
+      typeSeen = true;
+      return false;
+    }
+    return true;
+  });
+}
+
+/** Assemble Room.tags from the structured fields */
+export function buildRoomTags(type: RoomType | null, name: string, extras: string[]): string[] {
+  const tags: string[] = [];
+  if (type) tags.push(type);
+  const trimmed = name.trim();
+  if (trimmed) tags.push(`${NAME_PREFIX}${trimmed}`);
+  for (const extra of extras) {
+    const t = extra.trim();
+    if (t && !tags.includes(t)) tags.push(t);
+  }
+  return tags;
+}
+
+/** Palette entry for a room's tags */
+export function getRoomStyle(tags: string[]): { label: string; fill: string; hoverFill: string } {
+  const type = getRoomType(tags);
+  return ROOM_TYPES.find(t => t.id === type) ?? UNASSIGNED_ROOM_STYLE;
+}
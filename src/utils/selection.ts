@@ -0,0 +1,180 @@
+/**
+ * Mixed selections of nodes, walls, rooms and fixtures, and the transforms
+ * that move, rotate and mirror them as one group.
+ *
+ * Walls are carried by their endpoints, so a selection moves the union of its
+ * nodes and the endpoints of its edges. Rotation and mirroring happen about the
+ * centre of the selection's bounding box.
+ */
+
+import type { FixtureFrame, FloorPlan, PlanSelection, Point, SelectionTransform } from '../types';
+import { fixturePolygon, fixtureProperties, getFixtureFrame, normaliseRotation } from './furniture';
+
+export const EMPTY_SELECTION: PlanSelection = { nodeIds: [], edgeIds: [], roomIds: [], fixtureIds: [] };
+
+export function selectionSize(selection: PlanSelection): number {
+  return selection.nodeIds.length + selection.edgeIds.length + selection.roomIds.length + selection.fixtureIds.length;
+}
+
+/** Add an item to the selection, or remove it if it is already there */
+export function toggleInSelection(selection: PlanSelection, kind: keyof PlanSelection, id: string): PlanSelection {
+  const ids = selection[kind];
+  return { ...selection, [kind]: ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id] };
+}
+
+/** Union of two selections, keeping the order items were first picked in */
+export function mergeSelections(a: PlanSelection, b: PlanSelection): PlanSelection {
+  const merge = (x: string[], y: string[]) => [...x, ...y.filter(id => !x.includes(id))];
+  return {
+    nodeIds: merge(a.nodeIds, b.nodeIds),
+    edgeIds: merge(a.edgeIds, b.edgeIds),
+    roomIds: merge(a.roomIds, b.roomIds),
+    fixtureIds: merge(a.fixtureIds, b.fixtureIds),
+  };
+}
+
+/** Nodes that move with the selection: selected nodes plus the ends of selected edges */
+export function selectionNodeIds(plan: FloorPlan, selection: PlanSelection): Set<string> {
+  const ids = new Set(selection.nodeIds);
+  for (const edge of plan.edges) {
+    if (!selection.edgeIds.includes(edge.id)) continue;
+    ids.add(edge.source);
+    ids.add(edge.target);
+  }
+  return ids;
+}
+
+/** Everything inside the rectangle: nodes, edge midpoints, whole rooms and fixture centres */
+export function selectionInRect(plan: FloorPlan, minX: number, minY: number, maxX: number, maxY: number): PlanSelection {
+  const inside = (x: number, y: number) => x >= minX && x <= maxX && y >= minY && y <= maxY;
+  const nodeById = new Map(plan.nodes.map(n => [n.id, n]));
+  return {
+    nodeIds: plan.nodes.filter(n => inside(n.x, n.y)).map(n => n.id),
+    edgeIds: plan.edges.filter(e => {
+      const a = nodeById.get(e.source), b = nodeById.get(e.target);
+      return !!a && !!b && inside((a.x + b.x) / 2, (a.y + b.y) / 2);
+    }).map(e => e.id),
+    roomIds: (plan.rooms ?? [])
+      .filter(r => r.polygon_coords.length > 0 && r.polygon_coords.every(([x, y]) => inside(x, y)))
+      .map(r => r.id),
+    fixtureIds: (plan.fixtures ?? [])
+      .filter(f => { const frame = getFixtureFrame(f); return inside(frame.cx, frame.cy); })
+      .map(f => f.id),
+  };
+}
+
+/** Bounding box of everything the selection moves, or null if it is empty */
+export function selectionBounds(plan: FloorPlan, selection: PlanSelection): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const extend = (x: number, y: number) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  };
+  const nodeIds = selectionNodeIds(plan, selection);
+  for (const n of plan.nodes) if (nodeIds.has(n.id)) extend(n.x, n.y);
+  for (const r of plan.rooms ?? []) {
+    if (selection.roomIds.includes(r.id)) r.polygon_coords.forEach(([x, y]) => extend(x, y));
+  }
+  for (const f of plan.fixtures ?? []) {
+    if (selection.fixtureIds.includes(f.id)) f.polygon_coords.forEach(([x, y]) => extend(x, y));
+  }
+  return isFinite(minX) ? { minX, minY, maxX, maxY } : null;
+}
+
+export function selectionCentre(plan: FloorPlan, selection: PlanSelection): Point | null {
+  const bounds = selectionBounds(plan, selection);
+  return bounds ? { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 } : null;
+}
+
+export function transformPoint(p: Point, transform: SelectionTransform, centre: Point): Point {
+  switch (transform.kind) {
+    case 'translate':
+      return { x: p.x + transform.dx, y: p.y + transform.dy };
+    case 'rotate': {
+      const rad = (transform.angle * Math.PI) / 180;
+      const cos = Math.cos(rad), sin = Math.sin(rad);
+      const dx = p.x - centre.x, dy = p.y - centre.y;
+      return { x: centre.x + dx * cos - dy * sin, y: centre.y + dx * sin + dy * cos };
+    }
+    case 'mirror':
+      return transform.axis === 'horizontal'
+        ? { x: 2 * centre.x - p.x, y: p.y }
+        : { x: p.x, y: 2 * centre.y - p.y };
+  }
+}
+
+/**
+ * Transform a fixture frame. Mirroring keeps the piece's front (local -y) on the
+ * mirrored side rather than reflecting the footprint itself.
+ */
+export function transformFrame(frame: FixtureFrame, transform: SelectionTransform, centre: Point): FixtureFrame {
+  const { x: cx, y: cy } = transformPoint({ x: frame.cx, y: frame.cy }, transform, centre);
+  let rotation = frame.rotation;
+  if (transform.kind === 'rotate') rotation = frame.rotation + transform.angle;
+  if (transform.kind === 'mirror') rotation = transform.axis === 'horizontal' ? -frame.rotation : 180 - frame.rotation;
+  return { ...frame, cx, cy, rotation: normaliseRotation(rotation) };
+}
+
+/** Before and after of everything a selection transform touches, kept for undo */
+export interface SelectionMoves {
+  nodes: { id: string; from: Point; to: Point }[];
+  rooms: { id: string; from: [number, number][]; to: [number, number][] }[];
+  fixtures: { id: string; from: FixtureFrame; to: FixtureFrame }[];
+}
+
+/** Apply a transform to every item in the selection, about the selection's centre */
+export function transformSelection(plan: FloorPlan, selection: PlanSelection, transform: SelectionTransform): SelectionMoves {
+  const centre = selectionCentre(plan, selection);
+  if (!centre) return { nodes: [], rooms: [], fixtures: [] };
+  const nodeIds = selectionNodeIds(plan, selection);
+  return {
+    nodes: plan.nodes
+      .filter(n => nodeIds.has(n.id))
+      .map(n => ({ id: n.id, from: { x: n.x, y: n.y }, to: transformPoint(n, transform, centre) })),
+    rooms: (plan.rooms ?? [])
+      .filter(r => selection.roomIds.includes(r.id))
+      .map(r => ({
+        id: r.id,
+        from: r.polygon_coords,
+        to: r.polygon_coords.map(([x, y]) => {
+          const p = transformPoint({ x, y }, transform, centre);
+          return [p.x, p.y] as [number, number];
+        }),
+      })),
+    fixtures: (plan.fixtures ?? [])
+      .filter(f => selection.fixtureIds.includes(f.id))
+      .map(f => {
+        const frame = getFixtureFrame(f);
+        return { id: f.id, from: frame, to: transformFrame(frame, transform, centre) };
+      }),
+  };
+}
+
+/** One move for `first` followed by `then`: each item goes from where `first` found it to where `then` left it */
+export function mergeSelectionMoves(first: SelectionMoves, then: SelectionMoves): SelectionMoves {
+  const merge = <T>(a: { id: string; from: T; to: T }[], b: { id: string; from: T; to: T }[]) => {
+    const merged = new Map(a.map(m => [m.id, m]));
+    for (const m of b) merged.set(m.id, { id: m.id, from: merged.get(m.id)?.from ?? m.from, to: m.to });
+    return Array.from(merged.values());
+  };
+  return {
+    nodes: merge(first.nodes, then.nodes),
+    rooms: merge(first.rooms, then.rooms),
+    fixtures: merge(first.fixtures, then.fixtures),
+  };
+}
+
+/** The plan with the `to` side of every move applied (for optimistic updates) */
+export function applySelectionMoves(plan: FloorPlan, moves: SelectionMoves): FloorPlan {
+  const nodes = new Map(moves.nodes.map(m => [m.id, m.to]));
+  const rooms = new Map(moves.rooms.map(m => [m.id, m.to]));
+  const fixtures = new Map(moves.fixtures.map(m => [m.id, m.to]));
+  return {
+    ...plan,
+    nodes: plan.nodes.map(n => nodes.has(n.id) ? { ...n, ...nodes.get(n.id)! } : n),
+    rooms: plan.rooms?.map(r => rooms.has(r.id) ? { ...r, polygon_coords: rooms.get(r.id)! } : r),
+    fixtures: plan.fixtures?.map(f => fixtures.has(f.id)
+      ? { ...f, polygon_coords: fixturePolygon(fixtures.get(f.id)!), properties: fixtureProperties(fixtures.get(f.id)!, f.properties) }
+      : f),
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Derived snap targets shared by wall drawing, node drags and the measure tool.
+ * The geometry lives with the other snap helpers in FloorPlanCanvas; this is
+ * the metadata the settings popover and the on-canvas markers share.
+ */
+
+import type { SnapKind, SnapSettings } from '../types';
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  midpoint: true,
+  perpendicular: true,
+  extension: true,
+  intersection: true,
+};
+
+/** In priority order: earlier kinds win when several are in range */
+export const SNAP_KINDS: { id: SnapKind; label: string; glyph: string; description: string }[] = [
+  { id: 'intersection', label: 'Intersection', glyph: '✕', description: 'Where two walls or their extensions cross' },
+  { id: 'midpoint', label: 'Midpoint', glyph: '△', description: 'Middle of a wall' },
+  { id: 'perpendicular', label: 'Perpendicular', glyph: '⊥', description: 'Square onto a wall from the point you are drawing from' },
+  { id: 'extension', label: 'Extension', glyph: '┄', description: 'A wall continued past its ends' },
+];
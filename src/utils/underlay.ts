@@ -0,0 +1,106 @@
+/**
+ * Background image underlay kept in FloorPlan.underlay.
+ *
+ * The image keeps its own pixel grid and only its placement (offset, scale
+ * and rotation) changes, so it can be realigned at any time and follows the
+ * plan through a change of units.
+ *
+ * The image file is uploaded once and the plan only keeps its URL next to
+ * the placement, so saving an opacity or alignment change stays small.
+ */
+
+import type { FloorPlan, Point, Underlay } from '../types';
+import { NOMINAL_PX_PER_M } from './clipboard';
+import { normaliseRotation } from './furniture';
+
+export const DEFAULT_UNDERLAY_OPACITY = 0.4;
+
+type UnderlayImage = Pick<Underlay, 'src' | 'width' | 'height'>;
+
+/** Natural size of an image file in pixels; rejects files the browser can't decode */
+export function readImageSize(file: File): Promise<Pick<Underlay, 'width' | 'height'>> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Unsupported image format'));
+    };
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Initial placement of an image under `plan`. Recognition returns coordinates
+ * in the source image's pixels, so a scan under the uncalibrated plan traced
+ * from it lines up pixel for pixel. Anything else is stretched over the plan's
+ * bounds, or shown at the nominal scale on an empty plan.
+ */
+export function placeUnderlay(image: UnderlayImage, plan: FloorPlan, isSource: boolean): Underlay {
+  const base = { ...image, x: 0, y: 0, scale: 1, rotation: 0, opacity: DEFAULT_UNDERLAY_OPACITY, visible: true };
+  if (isSource && !plan.is_calibrated) return base;
+  if (plan.nodes.length === 0) return { ...base, scale: plan.is_calibrated ? 1 / NOMINAL_PX_PER_M : 1 };
+  const xs = plan.nodes.map(n => n.x), ys = plan.nodes.map(n => n.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const scale = Math.max((Math.max(...xs) - minX) / image.width, (Math.max(...ys) - minY) / image.height);
+  return { ...base, x: minX, y: minY, scale: scale > 0 ? scale : base.scale };
+}
+
+/** Read a saved underlay, or null when it is missing or unusable */
+export function normaliseUnderlay(raw: any): Underlay | null {
+  if (typeof raw?.src !== 'string' || !(Number(raw.width) > 0) || !(Number(raw.height) > 0)) return null;
+  const num = (v: any, fallback: number) => (v !== null && isFinite(Number(v)) ? Number(v) : fallback);
+  return {
+    src: raw.src,
+    width: Number(raw.width),
+    height: Number(raw.height),
+    x: num(raw.x, 0),
+    y: num(raw.y, 0),
+    scale: Number(raw.scale) > 0 ? Number(raw.scale) : 1,
+    rotation: num(raw.rotation, 0),
+    opacity: Math.min(1, Math.max(0, num(raw.opacity, DEFAULT_UNDERLAY_OPACITY))),
+    visible: raw.visible !== false,
+  };
+}
+
+/** SVG transform placing the image (in its own pixels) on the plan */
+export function underlayTransform(underlay: Underlay): string {
+  return `translate(${underlay.x},${underlay.y}) rotate(${underlay.rotation}) scale(${underlay.scale})`;
+}
+
+/**
+ * Move, scale and rotate the underlay so the plan points `from` (picked on
+ * the image) land on `to`. Two pairs fix all three; a single pair only moves it.
+ */
+export function alignUnderlay(underlay: Underlay, from: Point[], to: Point[]): Underlay {
+  if (from.length === 0 || from.length !== to.length) return underlay;
+  const [a, b] = [from[0], to[0]];
+  let s = 1, theta = 0;
+  if (from.length > 1) {
+    const da = { x: from[1].x - a.x, y: from[1].y - a.y };
+    const db = { x: to[1].x - b.x, y: to[1].y - b.y };
+    const la = Math.hypot(da.x, da.y), lb = Math.hypot(db.x, db.y);
+    if (la > 1e-9 && lb > 1e-9) {
+      s = lb / la;
+      theta = Math.atan2(db.y, db.x) - Math.atan2(da.y, da.x);
+    }
+  }
+  const cos = Math.cos(theta), sin = Math.sin(theta);
+  const dx = underlay.x - a.x, dy = underlay.y - a.y;
+  return {
+    ...underlay,
+    x: b.x + s * (cos * dx - sin * dy),
+    y: b.y + s * (sin * dx + cos * dy),
+    scale: underlay.scale * s,
+    rotation: normaliseRotation(underlay.rotation + theta * 180 / Math.PI),
+  };
+}
+
+/** Follow a change of plan units in which every coordinate was multiplied by `factor` */
+export function rescaleUnderlay(underlay: Underlay, factor: number): Underlay {
+  return { ...underlay, x: underlay.x * factor, y: underlay.y * factor, scale: underlay.scale * factor };
+}
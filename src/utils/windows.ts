@@ -0,0 +1,42 @@
+/**
+ * Window settings kept in Edge.properties.
+ *
+ * Window edges carry a subtype plus sill and head heights. Edges without them
+ * read as DEFAULT_WINDOW.
+ */
+
+import type { Edge, WindowProperties, WindowType } from '../types';
+
+export const DEFAULT_WINDOW: WindowProperties = {
+  window_type: 'casement',
+  sill_height: 0.9,
+  head_height: 2.1,
+};
+
+export const WINDOW_TYPES: { id: WindowType; label: string }[] = [
+  { id: 'fixed', label: 'Fixed' },
+  { id: 'casement', label: 'Casement' },
+  { id: 'sliding', label: 'Sliding' },
+  { id: 'tilt_turn', label: 'Tilt & turn' },
+  { id: 'french', label: 'French' },
+  { id: 'bay', label: 'Bay' },
+];
+
+/** French windows reach the floor; everything else starts from the default sill */
+export function defaultSillHeight(type: WindowType): number {
+  return type === 'french' ? 0 : DEFAULT_WINDOW.sill_height;
+}
+
+/** Read a window's settings, filling anything missing or invalid from DEFAULT_WINDOW */
+export function getWindowProperties(edge: Pick<Edge, 'properties'>): WindowProperties {
+  const p = edge.properties ?? {};
+  const type: WindowType = WINDOW_TYPES.some(t => t.id === p.window_type) ? p.window_type : DEFAULT_WINDOW.window_type;
+  const sill = typeof p.sill_height === 'number' && p.sill_height >= 0 ? p.sill_height : defaultSillHeight(type);
+  const head = typeof p.head_height === 'number' && p.head_height > sill ? p.head_height : Math.max(DEFAULT_WINDOW.head_height, sill);
+  return { window_type: type, sill_height: sill, head_height: head };
+}
+
+/** Merge window settings into an edge's properties */
+export function windowProperties(window: WindowProperties, base: Record<string, any> = {}): Record<string, any> {
+  return { ...base, ...window };
+}